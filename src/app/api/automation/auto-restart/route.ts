@@ -3,13 +3,14 @@ import { AutomationEngine } from '@/lib/services/automation-engine';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
 // Global monitoring state
 let monitoringInterval: NodeJS.Timeout | null = null;
 let restartAttempts = 0;
 const MAX_RESTART_ATTEMPTS = 5;
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     console.log('🔄 Starting AUTO-RESTART monitoring system...');
     
@@ -95,9 +96,9 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE() {
+export const DELETE = withTenant(async function DELETE() {
   try {
     if (monitoringInterval) {
       clearInterval(monitoringInterval);
@@ -119,7 +120,7 @@ export async function DELETE() {
       { status: 500 }
     );
   }
-}
+});
 
 async function startEngine() {
   try {
@@ -4,8 +4,9 @@ import { WhatsAppService } from '@/lib/services/whatsapp';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { ConfigService } from '@/lib/services/config';
 import { QueueService } from '@/lib/services/queue';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🔍 Starting comprehensive automation diagnostics...');
     
@@ -258,4 +259,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { AutomationEngine } from '@/lib/services/automation-engine';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     // Get empty status statistics
     const emptyStatusStats = AutomationEngine.getEmptyStatusStats();
@@ -34,9 +35,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     // Reset empty status tracking
       AutomationEngine.resetEmptyStatusTracking();
@@ -58,4 +59,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { TemplateExperimentService } from '@/lib/services/template-experiments';
+import { withTenant } from '@/lib/services/tenant';
+
+// GET /api/automation/experiments → conversion per template variant with sample sizes
+export const GET = withTenant(async function GET() {
+  try {
+    const results = await TemplateExperimentService.getResults();
+    return NextResponse.json({ success: true, ...results });
+  } catch (error) {
+    console.error('Error getting experiment results:', error);
+    return NextResponse.json(
+      { error: 'Failed to get experiment results' },
+      { status: 500 }
+    );
+  }
+});
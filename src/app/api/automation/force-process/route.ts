@@ -1,10 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { AutomationEngine } from '@/lib/services/automation-engine';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { ConfigService } from '@/lib/services/config';
 import { PhoneProcessor } from '@/lib/services/phone-processor';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { QueueService } from '@/lib/services/queue';
 import type { MessageJob } from '@/lib/services/queue';
+import type { RuleMessageType } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+const BACKFILL_MESSAGE_TYPES: RuleMessageType[] = ['newOrder', 'noAnswer', 'shipped', 'rejectedOffer', 'reminder'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 // Local message storage
 const pendingMessages: Array<{
@@ -18,8 +24,50 @@ const pendingMessages: Array<{
   error?: string;
 }> = [];
 
-export async function POST() {
+/**
+ * Backfill mode: { mode: 'backfill', from, to, messageTypes, confirm? }
+ * Without confirm it only returns the preview plan; with confirm: true the messages are enqueued.
+ */
+async function handleBackfill(body: any) {
+  const errors: string[] = [];
+  const { from, to } = body;
+  const messageTypes: RuleMessageType[] = Array.isArray(body.messageTypes) && body.messageTypes.length > 0
+    ? body.messageTypes
+    : BACKFILL_MESSAGE_TYPES;
+
+  if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '')) {
+    errors.push('from and to must be YYYY-MM-DD');
+  } else if (to < from) {
+    errors.push('to must not be before from');
+  }
+  const unknownTypes = messageTypes.filter(type => !BACKFILL_MESSAGE_TYPES.includes(type));
+  if (unknownTypes.length > 0) {
+    errors.push(`Unknown message types: ${unknownTypes.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ success: false, error: 'Invalid backfill request', errors }, { status: 400 });
+  }
+
+  const result = await AutomationEngine.backfill({ from, to, messageTypes, dryRun: body.confirm !== true });
+  const messageCount = result.plan.summary.send + result.plan.summary.schedule;
+
+  return NextResponse.json({
+    success: true,
+    message: result.dryRun
+      ? `معاينة: ${messageCount} رسالة فائتة لـ ${result.matchedRows} طلب - أرسل الطلب مع confirm: true للتنفيذ`
+      : `تمت إضافة ${result.enqueued} رسالة فائتة للطابور`,
+    ...result
+  });
+}
+
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
+    const body = await request.json().catch(() => ({}));
+    if (body?.mode === 'backfill') {
+      return await handleBackfill(body);
+    }
+
     console.log('🚀 FORCE PROCESSING - Processing orders regardless of WhatsApp status...');
     
     // Get sheet data
@@ -226,10 +274,10 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
 
 // Get pending messages
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const pending = pendingMessages.filter(m => m.status === 'pending');
     const sent = pendingMessages.filter(m => m.status === 'sent');
@@ -256,4 +304,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { AutomationEngine } from '@/lib/services/automation-engine';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     // Get performance statistics from the optimized engine
     const performanceStats = AutomationEngine.getPerformanceStats();
@@ -56,9 +57,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     // Clear caches for performance testing
     AutomationEngine.clearCaches();
@@ -80,7 +81,7 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
 
 function generatePerformanceRecommendations(stats: any, efficiency: any): string[] {
   const recommendations = [];
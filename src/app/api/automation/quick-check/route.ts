@@ -3,8 +3,9 @@ import { AutomationEngine } from '@/lib/services/automation-engine';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('⚡ Running quick system check...');
     
@@ -142,4 +143,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -4,8 +4,9 @@ import { WhatsAppService } from '@/lib/services/whatsapp';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { ConfigService } from '@/lib/services/config';
 import { QueueService } from '@/lib/services/queue';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     console.log('🚀 Starting RELIABLE automation engine with comprehensive checks...');
     
@@ -224,4 +225,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
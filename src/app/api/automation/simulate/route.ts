@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { AutomationEngine } from '@/lib/services/automation-engine';
+import { withTenant } from '@/lib/services/tenant';
+
+// Dry run: evaluates the current sheet against rules, templates and send windows
+// without sending, enqueueing or persisting anything
+export const POST = withTenant(async function POST() {
+  try {
+    const plan = await AutomationEngine.simulate();
+
+    return NextResponse.json({
+      success: true,
+      plan
+    });
+  } catch (error) {
+    console.error('Error running automation simulation:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'فشل في تشغيل المحاكاة',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -3,8 +3,9 @@ import { AutomationEngine } from '@/lib/services/automation-engine';
 import { NetworkResilienceService } from '@/lib/services/network-resilience';
 import { QueueService } from '@/lib/services/queue';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     console.log('🚀 Starting automation engine with COMPLETE network resilience...');
     
@@ -150,4 +151,4 @@ export async function POST() {
       ]
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -2,8 +2,14 @@ import { NextResponse } from 'next/server';
 import { AutomationEngine } from '@/lib/services/automation-engine';
 import { QueueService } from '@/lib/services/queue';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { OrderStateService } from '@/lib/services/order-state';
+import { SendWindowService } from '@/lib/services/send-window';
+import { MessageTracker } from '@/lib/services/message-tracker';
+import { SendGovernorService } from '@/lib/services/send-governor';
+import { SenderPoolService, type SenderHealth } from '@/lib/services/sender-pool';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     // Get detailed stats from automation engine with error handling
     let detailedStats;
@@ -55,16 +61,46 @@ export async function GET() {
       queueStats = {
         messageQueue: { waiting: 0, active: 0, completed: 0, failed: 0 },
         reminderQueue: { waiting: 0, active: 0, completed: 0, failed: 0 },
-        rejectedOfferQueue: { waiting: 0, active: 0, completed: 0, failed: 0 }
+        rejectedOfferQueue: { waiting: 0, active: 0, completed: 0, failed: 0 },
+        followUpQueue: { waiting: 0, active: 0, completed: 0, failed: 0 }
       };
     }
     
+    // Get send window state (quiet hours)
+    let sendWindow: { isOpen: boolean; nextOpening: string | null } = { isOpen: true, nextOpening: null };
+    try {
+      const windowConfig = await SendWindowService.getConfig();
+      const nextOpening = SendWindowService.getNextOpening(windowConfig);
+      sendWindow = {
+        isOpen: SendWindowService.isOpen(windowConfig),
+        nextOpening: nextOpening ? nextOpening.toISOString() : null
+      };
+    } catch (error) {
+      console.log('Could not evaluate send windows:', error);
+    }
+    
+    // Get send-rate budget and pause state
+    let throttle = null;
+    try {
+      throttle = await SendGovernorService.getStatus();
+    } catch (error) {
+      console.log('Could not evaluate send rate:', error);
+    }
+    
+    // Get per-number health of the sender pool
+    let senders: SenderHealth[] = [];
+    try {
+      senders = await SenderPoolService.getHealth(WhatsAppService.getInstance().getConnectedSessionIds());
+    } catch (error) {
+      console.log('Could not evaluate sender numbers:', error);
+    }
+    
     // Get WhatsApp status
     const whatsapp = WhatsAppService.getInstance();
     const whatsappStatus = whatsapp.getStatus();
     
     // Calculate total queue counts
-    const totalWaiting = queueStats.messageQueue.waiting + queueStats.reminderQueue.waiting + queueStats.rejectedOfferQueue.waiting;
+    const totalWaiting = queueStats.messageQueue.waiting + queueStats.reminderQueue.waiting + queueStats.rejectedOfferQueue.waiting + queueStats.followUpQueue.waiting;
     const totalActive = queueStats.messageQueue.active;
     
     // Combine all statistics
@@ -74,6 +110,11 @@ export async function GET() {
       phoneNumbers: detailedStats.phoneNumbers,
       orderStatuses: detailedStats.orderStatuses,
       queue: queueStats,
+      orderState: OrderStateService.getStats(),
+      delivery: MessageTracker.getDeliveryStats(),
+      sendWindow,
+      throttle,
+      senders,
       whatsapp: {
         isConnected: whatsappStatus.isConnected,
         sessionStatus: whatsappStatus.sessionExists ? 'exists' : 'none',
@@ -101,7 +142,7 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 function calculateSystemHealth(
   detailedStats: any,
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { AutomationEngine } from '@/lib/services/automation-engine';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     await AutomationEngine.stop();
     
@@ -21,4 +22,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -3,8 +3,9 @@ import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { ConfigService } from '@/lib/services/config';
 import { PhoneProcessor } from '@/lib/services/phone-processor';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🧪 Running test processing to see what messages would be sent...');
     
@@ -183,4 +184,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DeepCellAnalyzer } from '@/lib/services/deep-cell-analyzer';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
     console.log('🔬 Starting deep cell analysis API...');
     
@@ -37,4 +38,4 @@ export async function GET(request: NextRequest) {
       cellAnalysis: []
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { FlowService } from '@/lib/services/flows';
+import type { ConversationFlow, FlowStep } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getConversationFlows();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting conversation flows:', error);
+    return NextResponse.json(
+      { error: 'Failed to get conversation flows' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const validation = FlowService.validate(config);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid conversation flows', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setConversationFlows({
+      enabled: !!config.enabled,
+      timeoutMinutes: config.timeoutMinutes,
+      maxInvalidAttempts: config.maxInvalidAttempts,
+      invalidChoiceMessage: config.invalidChoiceMessage,
+      writeNotes: !!config.writeNotes,
+      flows: config.flows.map((flow: ConversationFlow) => ({
+        id: flow.id,
+        name: flow.name || flow.id,
+        enabled: !!flow.enabled,
+        triggerKeywords: (flow.triggerKeywords || []).map(keyword => keyword.trim()).filter(Boolean),
+        steps: flow.steps.map((step: FlowStep) => ({
+          id: step.id,
+          question: step.question,
+          type: step.type,
+          ...(step.type === 'choice'
+            ? { choices: (step.choices || []).map(choice => ({ label: choice.label.trim(), ...(choice.next ? { next: choice.next } : {}) })) }
+            : {}),
+          ...(step.next ? { next: step.next } : {}),
+          noteLabel: step.noteLabel || step.id
+        })),
+        completionMessage: flow.completionMessage || ''
+      }))
+    });
+    return NextResponse.json({
+      success: true,
+      message: 'Conversation flows saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving conversation flows:', error);
+    return NextResponse.json(
+      { error: 'Failed to save conversation flows' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultConversationFlows();
+    await ConfigService.setConversationFlows(defaults);
+    return NextResponse.json({ success: true, message: 'Conversation flows reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting conversation flows:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset conversation flows' },
+      { status: 500 }
+    );
+  }
+});
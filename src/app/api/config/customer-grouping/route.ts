@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { CustomerService } from '@/lib/services/customers';
+import { DuplicateGuardService } from '@/lib/services/duplicate-guard';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getCustomerGrouping();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting customer grouping:', error);
+    return NextResponse.json(
+      { error: 'Failed to get customer grouping' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const validation = CustomerService.validate(config);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid customer grouping', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setCustomerGrouping({
+      enabled: !!config.enabled,
+      duplicateWindowHours: config.duplicateWindowHours,
+      consolidateMessages: !!config.consolidateMessages
+    });
+    DuplicateGuardService.setMatchPhoneAndName(!config.enabled);
+    return NextResponse.json({
+      success: true,
+      message: 'Customer grouping saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving customer grouping:', error);
+    return NextResponse.json(
+      { error: 'Failed to save customer grouping' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultCustomerGrouping();
+    await ConfigService.setCustomerGrouping(defaults);
+    DuplicateGuardService.setMatchPhoneAndName(!defaults.enabled);
+    return NextResponse.json({ success: true, message: 'Customer grouping reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting customer grouping:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset customer grouping' },
+      { status: 500 }
+    );
+  }
+});
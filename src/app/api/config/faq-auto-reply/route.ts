@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { FaqAutoReplyService } from '@/lib/services/faq';
+import type { FaqRule } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getFaqAutoReply();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting FAQ auto-reply settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to get FAQ auto-reply settings' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const validation = FaqAutoReplyService.validate(config);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid FAQ auto-reply settings', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setFaqAutoReply({
+      enabled: !!config.enabled,
+      cooldownMinutes: config.cooldownMinutes,
+      businessHoursOnly: !!config.businessHoursOnly,
+      handoffMessage: config.handoffMessage,
+      rules: config.rules.map((rule: FaqRule) => ({
+        id: rule.id,
+        name: rule.name || rule.id,
+        enabled: !!rule.enabled,
+        keywords: (rule.keywords || []).map(keyword => keyword.trim()).filter(Boolean),
+        ...(rule.pattern?.trim() ? { pattern: rule.pattern.trim() } : {}),
+        reply: rule.reply
+      }))
+    });
+    return NextResponse.json({
+      success: true,
+      message: 'FAQ auto-reply settings saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving FAQ auto-reply settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save FAQ auto-reply settings' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultFaqAutoReply();
+    await ConfigService.setFaqAutoReply(defaults);
+    return NextResponse.json({ success: true, message: 'FAQ auto-reply settings reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting FAQ auto-reply settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset FAQ auto-reply settings' },
+      { status: 500 }
+    );
+  }
+});
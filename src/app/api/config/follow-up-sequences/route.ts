@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { FollowUpService } from '@/lib/services/follow-up';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getFollowUpSequences();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting follow-up sequences:', error);
+    return NextResponse.json(
+      { error: 'Failed to get follow-up sequences' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const validation = FollowUpService.validate(config);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid follow-up sequences', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setFollowUpSequences({ sequences: config.sequences });
+    return NextResponse.json({
+      success: true,
+      message: 'Follow-up sequences saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving follow-up sequences:', error);
+    return NextResponse.json(
+      { error: 'Failed to save follow-up sequences' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultFollowUpSequences();
+    await ConfigService.setFollowUpSequences(defaults);
+    return NextResponse.json({ success: true, message: 'Follow-up sequences reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting follow-up sequences:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset follow-up sequences' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🔍 Starting configuration health check...');
     
@@ -52,4 +53,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
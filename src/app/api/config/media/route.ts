@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { MediaService } from '@/lib/services/media';
+import type { MediaConfig, MediaKind, RuleMessageType } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+const TEMPLATE_TYPES: RuleMessageType[] = ['newOrder', 'noAnswer', 'shipped', 'rejectedOffer', 'reminder'];
+const KINDS: MediaKind[] = ['image', 'document', 'audio'];
+
+export const GET = withTenant(async function GET() {
+  try {
+    return NextResponse.json(await MediaService.getConfig());
+  } catch (error) {
+    console.error('Error getting media config:', error);
+    return NextResponse.json(
+      { error: 'Failed to get media configuration' },
+      { status: 500 }
+    );
+  }
+});
+
+// Saves limits, product images and template attachments - the library itself changes through /api/media
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const current = await MediaService.getConfig();
+
+    const attachments: MediaConfig['attachments'] = {};
+    for (const messageType of TEMPLATE_TYPES) {
+      const attachment = body.attachments?.[messageType];
+      if (!attachment?.source) continue;
+      attachments[messageType] = {
+        source: attachment.source,
+        ...(attachment.source === 'asset' ? { assetId: String(attachment.assetId || '') } : {}),
+        asCaption: attachment.asCaption === true
+      };
+    }
+    const media: MediaConfig = {
+      enabled: body.enabled !== false,
+      maxSizeMb: Object.fromEntries(KINDS.map(kind => [kind, Number(body.maxSizeMb?.[kind])])) as MediaConfig['maxSizeMb'],
+      assets: current.assets,
+      products: (Array.isArray(body.products) ? body.products : []).map((entry: any) => ({
+        product: String(entry?.product || '').trim(),
+        assetId: String(entry?.assetId || '')
+      })),
+      attachments
+    };
+
+    const validation = MediaService.validate(media);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid media settings', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setMediaConfig(media);
+    return NextResponse.json({
+      success: true,
+      message: 'Media settings saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving media config:', error);
+    return NextResponse.json(
+      { error: 'Failed to save media configuration' },
+      { status: 500 }
+    );
+  }
+});
+
+// Back to no attachments - uploaded files stay in the library
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    const { assets } = await MediaService.getConfig();
+    const media = { ...ConfigService.getDefaultMediaConfig(), assets };
+    await ConfigService.setMediaConfig(media);
+    return NextResponse.json({ success: true, message: 'Media settings reset to defaults', ...media });
+  } catch (error) {
+    console.error('Error resetting media config:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset media configuration' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { OfferService } from '@/lib/services/offer';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const policy = await OfferService.getPolicy();
+    return NextResponse.json(policy);
+  } catch (error) {
+    console.error('Error getting offer policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to get offer policy' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const policy = await request.json();
+
+    const validation = OfferService.validate(policy);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid offer policy', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setOfferPolicy({
+      companyName: (policy.companyName || '').trim(),
+      tierBy: policy.tierBy,
+      defaultDiscount: policy.defaultDiscount,
+      tiers: policy.tiers,
+      coupon: { ...ConfigService.getDefaultOfferPolicy().coupon, ...policy.coupon }
+    });
+    return NextResponse.json({
+      success: true,
+      message: 'Offer policy saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving offer policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to save offer policy' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultOfferPolicy();
+    await ConfigService.setOfferPolicy(defaults);
+    return NextResponse.json({ success: true, message: 'Offer policy reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting offer policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset offer policy' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { OptOutService } from '@/lib/services/opt-out';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getOptOutConfig();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting opt-out settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to get opt-out settings' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const validation = OptOutService.validate(config);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid opt-out settings', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setOptOutConfig({
+      enabled: !!config.enabled,
+      keywords: config.keywords.map((keyword: string) => keyword.trim()).filter(Boolean),
+      confirmationMessage: config.confirmationMessage
+    });
+    return NextResponse.json({
+      success: true,
+      message: 'Opt-out settings saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving opt-out settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save opt-out settings' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultOptOutConfig();
+    await ConfigService.setOptOutConfig(defaults);
+    return NextResponse.json({ success: true, message: 'Opt-out settings reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting opt-out settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset opt-out settings' },
+      { status: 500 }
+    );
+  }
+});
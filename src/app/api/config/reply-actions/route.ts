@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { ReplyActionService } from '@/lib/services/reply-actions';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getReplyActions();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting reply actions:', error);
+    return NextResponse.json(
+      { error: 'Failed to get reply actions' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const optOut = await ConfigService.getOptOutConfig();
+    const validation = ReplyActionService.validate(config, optOut.enabled ? optOut.keywords : []);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid reply actions', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    const cleanKeywords = (keywords: string[]) => keywords.map(keyword => keyword.trim()).filter(Boolean);
+    await ConfigService.setReplyActions({
+      enabled: !!config.enabled,
+      writeToSheet: !!config.writeToSheet,
+      confirmKeywords: cleanKeywords(config.confirmKeywords),
+      cancelKeywords: cleanKeywords(config.cancelKeywords),
+      confirmedStatus: config.confirmedStatus.trim(),
+      cancelledStatus: config.cancelledStatus.trim(),
+      confirmAck: config.confirmAck,
+      cancelAck: config.cancelAck,
+      pendingAck: config.pendingAck
+    });
+    return NextResponse.json({
+      success: true,
+      message: 'Reply actions saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving reply actions:', error);
+    return NextResponse.json(
+      { error: 'Failed to save reply actions' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultReplyActions();
+    await ConfigService.setReplyActions(defaults);
+    return NextResponse.json({ success: true, message: 'Reply actions reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting reply actions:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset reply actions' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const configs = await ConfigService.getAllConfigs();
     return NextResponse.json(configs);
@@ -12,4 +13,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
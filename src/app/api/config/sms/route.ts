@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { SmsService } from '@/lib/services/sms';
+import { PhoneProcessor } from '@/lib/services/phone-processor';
+import type { RuleMessageType, SmsConfig } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+const TEMPLATE_TYPES: RuleMessageType[] = ['newOrder', 'noAnswer', 'shipped', 'rejectedOffer', 'reminder'];
+
+// Key/value pairs with empty keys dropped
+const toStringMap = (value: unknown): Record<string, string> => {
+  const map: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value && typeof value === 'object' ? value : {})) {
+    if (key.trim()) map[key.trim()] = String(entry ?? '');
+  }
+  return map;
+};
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await SmsService.getConfig();
+    return NextResponse.json({ ...config, outbox: SmsService.getOutbox() });
+  } catch (error) {
+    console.error('Error getting SMS config:', error);
+    return NextResponse.json(
+      { error: 'Failed to get SMS configuration' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const http = body.http || {};
+    const templates: SmsConfig['templates'] = {};
+    for (const messageType of TEMPLATE_TYPES) {
+      const template = String(body.templates?.[messageType] || '').trim();
+      if (template) templates[messageType] = template;
+    }
+    const sms: SmsConfig = {
+      enabled: body.enabled === true,
+      provider: String(body.provider) as SmsConfig['provider'],
+      senderId: String(body.senderId || '').trim(),
+      phoneFormat: String(body.phoneFormat) as SmsConfig['phoneFormat'],
+      http: {
+        url: String(http.url || '').trim(),
+        method: String(http.method || '').toUpperCase() as SmsConfig['http']['method'],
+        bodyFormat: String(http.bodyFormat) as SmsConfig['http']['bodyFormat'],
+        params: toStringMap(http.params),
+        headers: toStringMap(http.headers),
+        successMatch: String(http.successMatch || '').trim(),
+        messageIdPath: String(http.messageIdPath || '').trim()
+      },
+      templates
+    };
+
+    const validation = SmsService.validate(sms);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid SMS settings', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setSmsConfig(sms);
+    return NextResponse.json({
+      success: true,
+      message: 'SMS settings saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving SMS config:', error);
+    return NextResponse.json(
+      { error: 'Failed to save SMS configuration' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PATCH = withTenant(async function PATCH(request: NextRequest) {
+  try {
+    const { action, phone, message } = await request.json();
+
+    if (action === 'test') {
+      const text = String(message || '').trim();
+      if (!phone || !text) {
+        return NextResponse.json({ error: 'phone and message are required' }, { status: 400 });
+      }
+      const validation = PhoneProcessor.validateEgyptianNumber(String(phone));
+      if (!validation.isValid) {
+        return NextResponse.json({ error: 'Invalid phone number', errors: validation.errors }, { status: 400 });
+      }
+
+      // Sends with the saved settings, so save before testing
+      const messageId = await SmsService.send(validation.finalFormat, text);
+      return NextResponse.json({
+        success: !!messageId,
+        messageId,
+        segments: SmsService.countSegments(text),
+        message: messageId ? 'Test SMS sent' : 'The SMS gateway did not accept the message - check the server log'
+      });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    console.error('Error sending test SMS:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test SMS' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    const defaults = ConfigService.getDefaultSmsConfig();
+    await ConfigService.setSmsConfig(defaults);
+    return NextResponse.json({ success: true, message: 'SMS settings reset to defaults', ...defaults, outbox: SmsService.getOutbox() });
+  } catch (error) {
+    console.error('Error resetting SMS config:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset SMS configuration' },
+      { status: 500 }
+    );
+  }
+});
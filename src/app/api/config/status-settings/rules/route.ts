@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { StatusRulesService } from '@/lib/services/status-rules';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await ConfigService.getStatusRules();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting status rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to get status rules' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+
+    const validation = StatusRulesService.validate(config);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid status rules', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setStatusRules({ rules: config.rules });
+    return NextResponse.json({
+      success: true,
+      message: 'Status rules saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving status rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to save status rules' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultStatusRules();
+    await ConfigService.setStatusRules(defaults);
+    return NextResponse.json({ success: true, message: 'Status rules reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting status rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset status rules' },
+      { status: 500 }
+    );
+  }
+});
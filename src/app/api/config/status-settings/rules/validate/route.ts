@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StatusRulesService } from '@/lib/services/status-rules';
+import { withTenant } from '@/lib/services/tenant';
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { rules, status } = await request.json();
+    const validation = StatusRulesService.validate({ rules });
+
+    // Optionally report which rule a sample status would match
+    let match = null;
+    if (typeof status === 'string' && validation.isValid) {
+      const rule = StatusRulesService.matchRule(status, rules.filter((r: any) => r.enabled !== false));
+      match = rule ? { id: rule.id, name: rule.name, actions: rule.actions } : null;
+    }
+
+    return NextResponse.json({ ...validation, match });
+  } catch (error) {
+    console.error('Error validating status rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate status rules' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { StatusRulesService } from '@/lib/services/status-rules';
+import { TemplateExperimentService } from '@/lib/services/template-experiments';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await TemplateExperimentService.getConfig();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('Error getting template experiments:', error);
+    return NextResponse.json(
+      { error: 'Failed to get template experiments' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const config = await request.json();
+    const { rules } = await ConfigService.getStatusRules();
+
+    const validation = TemplateExperimentService.validate(config, rules.map(rule => rule.id));
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid template experiments', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setTemplateExperiments({
+      conversionWindowHours: config.conversionWindowHours,
+      successRuleIds: config.successRuleIds,
+      experiments: config.experiments || {}
+    });
+    return NextResponse.json({
+      success: true,
+      message: 'Template experiments saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving template experiments:', error);
+    return NextResponse.json(
+      { error: 'Failed to save template experiments' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    // Restore the built-in defaults
+    const defaults = ConfigService.getDefaultTemplateExperiments();
+    await ConfigService.setTemplateExperiments(defaults);
+    return NextResponse.json({ success: true, message: 'Template experiments reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting template experiments:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset template experiments' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const config = await ConfigService.getTimingConfig();
     return NextResponse.json(config);
@@ -12,9 +13,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { checkIntervalSeconds, reminderDelayHours, rejectedOfferDelayHours } = body;
@@ -41,10 +42,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Send windows, rate limits and warm-up are managed by their own routes; keep the saved ones
+    const existing = await ConfigService.getTimingConfig();
+
     const config = {
       checkIntervalSeconds: Number(checkIntervalSeconds),
       reminderDelayHours: Number(reminderDelayHours),
       rejectedOfferDelayHours: Number(rejectedOfferDelayHours),
+      sendWindows: existing.sendWindows,
+      sendRate: existing.sendRate,
+      warmUp: existing.warmUp,
     };
 
     await ConfigService.setTimingConfig(config);
@@ -56,4 +63,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
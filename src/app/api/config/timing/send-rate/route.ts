@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { SendGovernorService } from '@/lib/services/send-governor';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await SendGovernorService.getConfig();
+    return NextResponse.json({ ...config, status: await SendGovernorService.getStatus() });
+  } catch (error) {
+    console.error('Error getting send rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to get send rate' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { status, ...body } = await request.json();
+    const sendRate = {
+      enabled: !!body.enabled,
+      maxPerMinute: Number(body.maxPerMinute),
+      maxPerHour: Number(body.maxPerHour),
+      maxPerDay: Number(body.maxPerDay),
+      minGapSeconds: Number(body.minGapSeconds),
+      maxGapSeconds: Number(body.maxGapSeconds),
+      typingIndicator: !!body.typingIndicator,
+      autoPause: !!body.autoPause,
+      failureRatePercent: Number(body.failureRatePercent),
+      failureWindow: Number(body.failureWindow),
+      pauseMinutes: Number(body.pauseMinutes)
+    };
+
+    const validation = SendGovernorService.validate(sendRate);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid send rate', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    const timing = await ConfigService.getTimingConfig();
+    await ConfigService.setTimingConfig({ ...timing, sendRate });
+    return NextResponse.json({
+      success: true,
+      message: 'Send rate saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving send rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to save send rate' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/config/timing/send-rate { paused: boolean, minutes? } → pause or resume sending by hand
+export const PATCH = withTenant(async function PATCH(request: NextRequest) {
+  try {
+    const { paused, minutes } = await request.json();
+    if (paused) {
+      SendGovernorService.pause(Number(minutes) > 0 ? Number(minutes) : (await SendGovernorService.getConfig()).pauseMinutes, 'manual');
+    } else {
+      SendGovernorService.resume();
+    }
+    return NextResponse.json({ success: true, status: await SendGovernorService.getStatus() });
+  } catch (error) {
+    console.error('Error updating send pause:', error);
+    return NextResponse.json(
+      { error: 'Failed to update send pause' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    const defaults = ConfigService.getDefaultSendRate();
+    const timing = await ConfigService.getTimingConfig();
+    await ConfigService.setTimingConfig({ ...timing, sendRate: defaults });
+    return NextResponse.json({ success: true, message: 'Send rate reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting send rate:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset send rate' },
+      { status: 500 }
+    );
+  }
+});
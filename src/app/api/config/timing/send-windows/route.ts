@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { SendWindowService } from '@/lib/services/send-window';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await SendWindowService.getConfig();
+    const nextOpening = SendWindowService.getNextOpening(config);
+
+    return NextResponse.json({
+      ...config,
+      status: {
+        isOpen: SendWindowService.isOpen(config),
+        nextOpening: nextOpening ? nextOpening.toISOString() : null
+      }
+    });
+  } catch (error) {
+    console.error('Error getting send windows:', error);
+    return NextResponse.json(
+      { error: 'Failed to get send windows' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { status, ...sendWindows } = await request.json();
+
+    const validation = SendWindowService.validate(sendWindows);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid send windows', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    const timing = await ConfigService.getTimingConfig();
+    await ConfigService.setTimingConfig({ ...timing, sendWindows });
+    return NextResponse.json({
+      success: true,
+      message: 'Send windows saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving send windows:', error);
+    return NextResponse.json(
+      { error: 'Failed to save send windows' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { WarmUpService } from '@/lib/services/warm-up';
+import { SenderPoolService, DEFAULT_SESSION_ID } from '@/lib/services/sender-pool';
+import { withTenant } from '@/lib/services/tenant';
+
+// The plan of every sender number, so each one shows its own day of the warm-up
+async function getProgress() {
+  const config = await WarmUpService.getConfig();
+  const pool = await SenderPoolService.getConfig();
+  return {
+    ...config,
+    schedule: WarmUpService.buildSchedule(config),
+    numbers: pool.numbers.map(number => ({
+      id: number.id,
+      name: number.name,
+      plan: WarmUpService.getPlan(config, number.id),
+      sentToday: SenderPoolService.getSentToday(number.id)
+    }))
+  };
+}
+
+export const GET = withTenant(async function GET() {
+  try {
+    return NextResponse.json(await getProgress());
+  } catch (error) {
+    console.error('Error getting warm-up plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to get warm-up plan' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const warmUp = {
+      enabled: !!body.enabled,
+      days: Number(body.days),
+      startPerDay: Number(body.startPerDay),
+      targetPerDay: Number(body.targetPerDay)
+    };
+
+    const validation = WarmUpService.validate(warmUp);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid warm-up plan', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    const timing = await ConfigService.getTimingConfig();
+    await ConfigService.setTimingConfig({ ...timing, warmUp });
+    return NextResponse.json({
+      success: true,
+      message: 'Warm-up plan saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving warm-up plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to save warm-up plan' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/config/timing/warm-up { restart: true, sessionId? } → start the warm-up today for a linked number
+export const PATCH = withTenant(async function PATCH(request: NextRequest) {
+  try {
+    const { restart, sessionId } = await request.json();
+    if (restart && !WarmUpService.restart(sessionId ? String(sessionId) : DEFAULT_SESSION_ID)) {
+      return NextResponse.json(
+        { success: false, error: 'لا يوجد رقم واتساب مربوط بعد' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ success: true, ...(await getProgress()) });
+  } catch (error) {
+    console.error('Error restarting warm-up:', error);
+    return NextResponse.json(
+      { error: 'Failed to restart warm-up' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    const defaults = ConfigService.getDefaultWarmUp();
+    const timing = await ConfigService.getTimingConfig();
+    await ConfigService.setTimingConfig({ ...timing, warmUp: defaults });
+    return NextResponse.json({ success: true, message: 'Warm-up plan reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error resetting warm-up plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset warm-up plan' },
+      { status: 500 }
+    );
+  }
+});
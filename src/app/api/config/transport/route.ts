@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { TransportService } from '@/lib/services/transport';
+import { WhatsAppService } from '@/lib/services/whatsapp';
+import type { CloudApiConfig, TransportProvider } from '@/lib/types/config';
+import { TenantService, withTenant } from '@/lib/services/tenant';
+
+// Meta calls this path for inbound messages and delivery statuses; ?tenant= picks the store
+const webhookPath = () => `/api/whatsapp/cloud/webhook?tenant=${TenantService.currentId()}`;
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await TransportService.getConfig();
+    return NextResponse.json({ ...config, webhookPath: webhookPath() });
+  } catch (error) {
+    console.error('Error getting transport config:', error);
+    return NextResponse.json(
+      { error: 'Failed to get transport configuration' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const cloudApi = body.cloudApi || {};
+    const templates: CloudApiConfig['templates'] = {};
+    for (const [messageType, template] of Object.entries<any>(cloudApi.templates || {})) {
+      // An empty name means the message type has no approved template
+      if (!template?.name) continue;
+      templates[messageType as keyof CloudApiConfig['templates']] = {
+        name: String(template.name).trim(),
+        language: String(template.language || '').trim()
+      };
+    }
+    const transport = {
+      provider: String(body.provider) as TransportProvider,
+      cloudApi: {
+        phoneNumberId: String(cloudApi.phoneNumberId || '').trim(),
+        accessToken: String(cloudApi.accessToken || '').trim(),
+        apiVersion: String(cloudApi.apiVersion || '').trim(),
+        baseUrl: String(cloudApi.baseUrl || '').trim(),
+        verifyToken: String(cloudApi.verifyToken || '').trim(),
+        appSecret: String(cloudApi.appSecret || '').trim(),
+        templates
+      }
+    };
+
+    const validation = TransportService.validate(transport);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid transport settings', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setTransportConfig(transport);
+    await WhatsAppService.getInstance().applyTransportConfig(transport);
+    return NextResponse.json({
+      success: true,
+      message: 'Transport settings saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving transport config:', error);
+    return NextResponse.json(
+      { error: 'Failed to save transport configuration' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE() {
+  try {
+    const defaults = ConfigService.getDefaultTransportConfig();
+    await ConfigService.setTransportConfig(defaults);
+    await WhatsAppService.getInstance().applyTransportConfig(defaults);
+    return NextResponse.json({ success: true, message: 'Transport reset to WhatsApp Web', ...defaults, webhookPath: webhookPath() });
+  } catch (error) {
+    console.error('Error resetting transport config:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset transport configuration' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CouponService, type Coupon } from '@/lib/services/coupons';
+import { withTenant } from '@/lib/services/tenant';
+
+const REDEEM_ERROR_STATUS = {
+  not_found: 404,
+  already_redeemed: 409,
+  expired: 410
+} as const;
+
+const withStatus = (coupon: Coupon) => ({
+  ...coupon,
+  status: CouponService.getStatus(coupon),
+  expiresAtLabel: CouponService.formatExpiry(coupon)
+});
+
+// GET /api/coupons?code=XXX → lookup a single code
+// GET /api/coupons          → recovered-revenue report plus the latest codes
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    const code = request.nextUrl.searchParams.get('code');
+
+    if (code) {
+      const coupon = await CouponService.find(code);
+      if (!coupon) {
+        return NextResponse.json(
+          { success: false, error: 'كود الخصم غير موجود' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, coupon: withStatus(coupon) });
+    }
+
+    const [report, coupons] = await Promise.all([CouponService.getReport(), CouponService.list()]);
+    return NextResponse.json({
+      success: true,
+      report,
+      coupons: coupons.slice(0, 200).map(withStatus)
+    });
+  } catch (error) {
+    console.error('Error getting coupons:', error);
+    return NextResponse.json(
+      { error: 'Failed to get coupons' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/coupons { code, amount?, orderId? } → mark a code as redeemed
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { code, amount, orderId } = await request.json();
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'code is required' },
+        { status: 400 }
+      );
+    }
+    if (amount !== undefined && (typeof amount !== 'number' || amount < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await CouponService.redeem(code, { amount, orderId });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, reason: result.reason, coupon: result.coupon ? withStatus(result.coupon) : undefined },
+        { status: REDEEM_ERROR_STATUS[result.reason!] }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'تم تسجيل استخدام كود الخصم',
+      coupon: withStatus(result.coupon!)
+    });
+  } catch (error) {
+    console.error('Error redeeming coupon:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeem coupon' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { AutomationEngine } from '@/lib/services/automation-engine';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     // Get duplicate prevention statistics
     const stats = AutomationEngine.getDuplicatePreventionStats();
@@ -62,7 +63,7 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 function generateRecommendations(stats: any): string[] {
   const recommendations = [];
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const env = process.env.NODE_ENV;
     const port = process.env.PORT;
@@ -24,4 +25,4 @@ export async function GET() {
   } catch (e) {
     return NextResponse.json({ status: 'error', error: (e as Error).message }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WhatsAppService } from '@/lib/services/whatsapp';
+import { InboxService } from '@/lib/services/inbox';
+import { OptOutService } from '@/lib/services/opt-out';
+import { FlowService } from '@/lib/services/flows';
+import { withTenant } from '@/lib/services/tenant';
+
+// POST /api/inbox/flow { phone, flowId, orderId?, agent? } → send the first question of a flow to a customer
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { phone, flowId, orderId, agent } = await request.json();
+    if (!phone || !flowId) {
+      return NextResponse.json(
+        { success: false, error: 'رقم الهاتف والنموذج مطلوبان' },
+        { status: 400 }
+      );
+    }
+
+    if (await OptOutService.isOptedOut(String(phone))) {
+      return NextResponse.json(
+        { success: false, error: 'هذا العميل طلب إيقاف الرسائل' },
+        { status: 409 }
+      );
+    }
+
+    let question: string;
+    try {
+      question = await FlowService.start(String(phone), String(flowId), {
+        ...(orderId ? { orderId: String(orderId) } : {}),
+        startedBy: agent ? String(agent) : 'فريق الدعم'
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Unknown flow' },
+        { status: 400 }
+      );
+    }
+
+    const sent = await WhatsAppService.getInstance().sendMessage(String(phone), question);
+    if (!sent) {
+      const session = (await InboxService.getState(String(phone))).flow;
+      if (session) await FlowService.finish(String(phone), session, 'cancelled');
+      return NextResponse.json(
+        { success: false, error: 'فشل إرسال السؤال - تأكد من اتصال الواتساب' },
+        { status: 500 }
+      );
+    }
+
+    const saved = await InboxService.recordAutoReply(String(phone), question);
+    return NextResponse.json({ success: true, message: 'تم إرسال النموذج', sent: saved });
+  } catch (error) {
+    console.error('Error starting conversation flow:', error);
+    return NextResponse.json(
+      { error: 'Failed to start conversation flow' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/inbox/flow?phone= → stop the running flow (answers so far go to the order notes)
+export const DELETE = withTenant(async function DELETE(request: NextRequest) {
+  try {
+    const phone = request.nextUrl.searchParams.get('phone');
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'رقم الهاتف مطلوب' },
+        { status: 400 }
+      );
+    }
+
+    const session = (await InboxService.getState(phone)).flow;
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'لا يوجد نموذج جارٍ' }, { status: 404 });
+    }
+    await FlowService.finish(InboxService.normalizePhone(phone), session, 'cancelled');
+    return NextResponse.json({ success: true, message: 'تم إيقاف النموذج' });
+  } catch (error) {
+    console.error('Error stopping conversation flow:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop conversation flow' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InboxService } from '@/lib/services/inbox';
+import { withTenant } from '@/lib/services/tenant';
+
+// GET /api/inbox                  → conversations, unread first
+// GET /api/inbox?phone=XXX        → full thread (replies + automated messages) and the customer's orders
+// GET /api/inbox?orderId=XXX      → replies linked to one order
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    const phone = request.nextUrl.searchParams.get('phone');
+    const orderId = request.nextUrl.searchParams.get('orderId');
+
+    if (phone) {
+      const thread = await InboxService.getThread(phone);
+      return NextResponse.json({ success: true, phone: InboxService.normalizePhone(phone), ...thread });
+    }
+    if (orderId) {
+      const messages = await InboxService.getOrderMessages(orderId);
+      return NextResponse.json({ success: true, orderId, total: messages.length, messages });
+    }
+
+    const conversations = await InboxService.listConversations();
+    return NextResponse.json({
+      success: true,
+      total: conversations.length,
+      unread: conversations.filter(conversation => conversation.unreadCount > 0).length,
+      conversations
+    });
+  } catch (error) {
+    console.error('Error getting inbox:', error);
+    return NextResponse.json(
+      { error: 'Failed to get inbox' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/inbox { phone, handled?, assignedTo?, read?, agent? } → update conversation state
+export const PATCH = withTenant(async function PATCH(request: NextRequest) {
+  try {
+    const { phone, handled, assignedTo, read, agent } = await request.json();
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'رقم الهاتف مطلوب' },
+        { status: 400 }
+      );
+    }
+
+    const state = await InboxService.updateConversation(String(phone), {
+      ...(typeof handled === 'boolean' ? { handled } : {}),
+      ...(assignedTo !== undefined ? { assignedTo: assignedTo === null ? null : String(assignedTo) } : {}),
+      ...(read ? { read: true } : {})
+    }, agent ? String(agent) : undefined);
+    return NextResponse.json({ success: true, state });
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+});
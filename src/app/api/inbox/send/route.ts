@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WhatsAppService } from '@/lib/services/whatsapp';
+import { InboxService } from '@/lib/services/inbox';
+import { OptOutService } from '@/lib/services/opt-out';
+import { withTenant } from '@/lib/services/tenant';
+
+// POST /api/inbox/send { phone, message, agent? } → reply to a customer from the inbox
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { phone, message, agent } = await request.json();
+    if (!phone || !message || !String(message).trim()) {
+      return NextResponse.json(
+        { success: false, error: 'رقم الهاتف والرسالة مطلوبان' },
+        { status: 400 }
+      );
+    }
+
+    if (await OptOutService.isOptedOut(String(phone))) {
+      return NextResponse.json(
+        { success: false, error: 'هذا العميل طلب إيقاف الرسائل' },
+        { status: 409 }
+      );
+    }
+
+    const sent = await WhatsAppService.getInstance().sendMessage(String(phone), String(message));
+    if (!sent) {
+      return NextResponse.json(
+        { success: false, error: 'فشل إرسال الرسالة - تأكد من اتصال الواتساب' },
+        { status: 500 }
+      );
+    }
+
+    const saved = await InboxService.recordOutgoing(String(phone), String(message), agent ? String(agent) : undefined);
+    return NextResponse.json({ success: true, message: 'تم إرسال الرد', sent: saved });
+  } catch (error) {
+    console.error('Error sending inbox reply:', error);
+    return NextResponse.json(
+      { error: 'Failed to send reply' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { MediaService } from '@/lib/services/media';
+import { withTenant } from '@/lib/services/tenant';
+
+// Uploaded files for previews in the settings page
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const { assets } = await MediaService.getConfig();
+    const asset = assets.find(item => item.id === id);
+    const filePath = asset && MediaService.getFilePath(asset);
+    if (!asset || !filePath || !fs.existsSync(filePath)) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 });
+    }
+
+    return new NextResponse(await fs.promises.readFile(filePath), {
+      headers: {
+        'Content-Type': asset.mimeType,
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Error reading media file:', error);
+    return NextResponse.json(
+      { error: 'Failed to read media file' },
+      { status: 500 }
+    );
+  }
+});
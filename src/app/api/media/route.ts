@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MediaService } from '@/lib/services/media';
+import type { MediaKind } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const { assets } = await MediaService.getConfig();
+    return NextResponse.json({ assets });
+  } catch (error) {
+    console.error('Error getting media library:', error);
+    return NextResponse.json(
+      { error: 'Failed to get media library' },
+      { status: 500 }
+    );
+  }
+});
+
+// multipart/form-data with a file, or JSON { name, url, kind } for a linked file
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    let asset;
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'file is required' }, { status: 400 });
+      }
+      const name = String(form.get('name') || file.name || '').trim();
+      try {
+        asset = await MediaService.saveUpload(name, file.type, Buffer.from(await file.arrayBuffer()));
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+      }
+    } else {
+      const { name, url, kind } = await request.json();
+      try {
+        asset = await MediaService.addUrl(String(name || '').trim(), String(url || '').trim(), kind as MediaKind);
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json({ success: true, message: 'Media added to the library', asset });
+  } catch (error) {
+    console.error('Error adding media:', error);
+    return NextResponse.json(
+      { error: 'Failed to add media' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withTenant(async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    if (!(await MediaService.removeAsset(id))) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, message: 'Media removed' });
+  } catch (error) {
+    console.error('Error removing media:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove media' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { OptOutService } from '@/lib/services/opt-out';
+import { withTenant } from '@/lib/services/tenant';
+
+// GET /api/opt-out/export → CSV download
+export const GET = withTenant(async function GET() {
+  try {
+    const csv = await OptOutService.export();
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="opt-out-${new Date().toISOString().split('T')[0]}.csv"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting opt-out list:', error);
+    return NextResponse.json(
+      { error: 'Failed to export opt-out list' },
+      { status: 500 }
+    );
+  }
+});
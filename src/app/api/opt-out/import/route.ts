@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OptOutService } from '@/lib/services/opt-out';
+import { withTenant } from '@/lib/services/tenant';
+
+// POST /api/opt-out/import { text } → one number per line, or the CSV from /api/opt-out/export
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { text } = await request.json();
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'لا توجد أرقام للاستيراد' },
+        { status: 400 }
+      );
+    }
+
+    const result = await OptOutService.import(text);
+    return NextResponse.json({
+      success: true,
+      message: `تمت إضافة ${result.added} رقم (${result.skipped} موجود مسبقاً، ${result.invalid.length} غير صالح)`,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error importing opt-out list:', error);
+    return NextResponse.json(
+      { error: 'Failed to import opt-out list' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OptOutService } from '@/lib/services/opt-out';
+import { withTenant } from '@/lib/services/tenant';
+
+// GET /api/opt-out             → full list
+// GET /api/opt-out?phone=XXX   → is this number opted out
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    const phone = request.nextUrl.searchParams.get('phone');
+    if (phone) {
+      const entry = await OptOutService.get(phone);
+      return NextResponse.json({ success: true, optedOut: !!entry, entry });
+    }
+
+    const entries = await OptOutService.list();
+    return NextResponse.json({ success: true, total: entries.length, entries });
+  } catch (error) {
+    console.error('Error getting opt-out list:', error);
+    return NextResponse.json(
+      { error: 'Failed to get opt-out list' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/opt-out { phone, note? } → add a number manually
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { phone, note } = await request.json();
+
+    const entry = await OptOutService.add(String(phone || ''), 'manual', note ? { note: String(note) } : {});
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'رقم الهاتف غير صالح' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ success: true, message: `تم إيقاف الرسائل للرقم ${entry.phone}`, entry });
+  } catch (error) {
+    console.error('Error adding opt-out:', error);
+    return NextResponse.json(
+      { error: 'Failed to add opt-out' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/opt-out?phone=XXX → allow messages to this number again
+export const DELETE = withTenant(async function DELETE(request: NextRequest) {
+  try {
+    const phone = request.nextUrl.searchParams.get('phone') || '';
+    const removed = await OptOutService.remove(phone);
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'الرقم غير موجود في قائمة الإيقاف' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, message: 'تم حذف الرقم من قائمة الإيقاف' });
+  } catch (error) {
+    console.error('Error removing opt-out:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove opt-out' },
+      { status: 500 }
+    );
+  }
+});
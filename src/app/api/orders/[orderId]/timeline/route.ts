@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OrderTimelineService } from '@/lib/services/order-timeline';
+import { OrderStateService } from '@/lib/services/order-state';
+import { QueueService } from '@/lib/services/queue';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const { orderId } = await params;
+    const decodedOrderId = decodeURIComponent(orderId);
+
+    const [events, state, pending] = await Promise.all([
+      OrderTimelineService.getTimeline(decodedOrderId),
+      OrderStateService.get(decodedOrderId),
+      QueueService.getPendingJobs(decodedOrderId).catch(() => [])
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      orderId: decodedOrderId,
+      state,
+      pending,
+      events
+    });
+  } catch (error) {
+    console.error('Error getting order timeline:', error);
+    return NextResponse.json(
+      { error: 'Failed to get order timeline' },
+      { status: 500 }
+    );
+  }
+});
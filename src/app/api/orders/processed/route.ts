@@ -3,6 +3,10 @@ import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { PhoneProcessor } from '@/lib/services/phone-processor';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { FormulaPhoneExtractor } from '@/lib/services/formula-phone-extractor';
+import { ConfigService } from '@/lib/services/config';
+import { CustomerService } from '@/lib/services/customers';
+import { MessageTracker } from '@/lib/services/message-tracker';
+import { withTenant } from '@/lib/services/tenant';
 
 // Helper function to fix #ERROR! formulas - Enhanced version with formula extraction
 function fixErrorFormula(value: string): string {
@@ -64,7 +68,7 @@ function cleanText(text: string): string {
     .trim();
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
     console.log('🔄 Starting processed orders data retrieval...');
     
@@ -82,7 +86,8 @@ export async function GET(request: NextRequest) {
           withErrors: 0,
           egyptian: 0,
           whatsappRegistered: 0,
-          messagesSent: 0
+          messagesSent: 0,
+          duplicates: 0
         },
         message: 'No data found in Google Sheets'
       });
@@ -92,6 +97,8 @@ export async function GET(request: NextRequest) {
 
     const processedOrders = [];
     const whatsapp = WhatsAppService.getInstance();
+    // Same customer = same normalized phone; flags repeat submissions of one order
+    const customerIndex = CustomerService.buildIndex(rawSheetData, await ConfigService.getCustomerGrouping());
 
     // Process ALL orders without skipping any
     for (const row of rawSheetData) {
@@ -168,9 +175,10 @@ export async function GET(request: NextRequest) {
           }
         }
 
-        // Mock sent messages based on status
-        const sentMessages = [];
-        if (phoneValidation.isValid) {
+        // Messages actually sent by the automation (with delivery receipts), else guessed from the status
+        const sentMessages: Array<{ type: string; timestamp: string; status: string; deliveryStatus?: string }> =
+          row.orderId ? MessageTracker.getOrderMessagesSummary(row.orderId) : [];
+        if (sentMessages.length === 0 && phoneValidation.isValid) {
           const now = new Date().toISOString();
           if (['جديد', 'طلب جديد', 'قيد المراجعة', ''].includes(orderStatus)) {
             sentMessages.push({ type: 'newOrder', timestamp: now, status: 'sent' });
@@ -189,6 +197,7 @@ export async function GET(request: NextRequest) {
         // ALWAYS create order entry - NEVER SKIP
         const processedOrder = {
           rowIndex: row.rowIndex || 0,
+          orderId: row.orderId || '',
           customerName,
           primaryPhone: row.phone || '',
           secondaryPhone: row.whatsappNumber || '',
@@ -204,7 +213,8 @@ export async function GET(request: NextRequest) {
           orderDate: row.orderDate,
           governorate: row.governorate,
           area: row.area,
-          address: row.address
+          address: row.address,
+          customer: CustomerService.describeRow(customerIndex, row)
         };
 
         processedOrders.push(processedOrder);
@@ -216,6 +226,7 @@ export async function GET(request: NextRequest) {
         // Even if there's an error, create a basic order entry
         const errorOrder = {
           rowIndex: row.rowIndex || 0,
+          orderId: row.orderId || '',
           customerName: cleanText(row.name || `خطأ - صف ${row.rowIndex}`),
           primaryPhone: row.phone || '',
           secondaryPhone: row.whatsappNumber || '',
@@ -241,7 +252,8 @@ export async function GET(request: NextRequest) {
           orderDate: row.orderDate,
           governorate: row.governorate,
           area: row.area,
-          address: row.address
+          address: row.address,
+          customer: null
         };
         
         processedOrders.push(errorOrder);
@@ -261,7 +273,9 @@ export async function GET(request: NextRequest) {
       ).length,
       egyptian: processedOrders.filter(o => o.phoneValidation.isEgyptian).length,
       whatsappRegistered: processedOrders.filter(o => o.whatsappValidation.isRegistered).length,
-      messagesSent: processedOrders.reduce((sum, o) => sum + o.sentMessages.filter((m: any) => m.status === 'sent').length, 0)
+      messagesSent: processedOrders.reduce((sum, o) => sum + o.sentMessages.filter((m: any) => m.status === 'sent').length, 0),
+      duplicates: processedOrders.filter(o => o.customer?.duplicateOf).length,
+      delivery: MessageTracker.getDeliveryStats()
     };
     
     console.log(`✅ Successfully processed ALL ${processedOrders.length} orders (${stats.valid} valid, ${stats.invalid} invalid, ${stats.withErrors} with errors)`);
@@ -289,8 +303,9 @@ export async function GET(request: NextRequest) {
         withErrors: 0,
         egyptian: 0,
         whatsappRegistered: 0,
-        messagesSent: 0
+        messagesSent: 0,
+        duplicates: 0
       }
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PhoneRecoveryService } from '@/lib/services/phone-recovery';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
     console.log('🔧 Starting advanced phone recovery process...');
     
@@ -39,4 +40,4 @@ export async function GET(request: NextRequest) {
       totalRecovered: 0
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
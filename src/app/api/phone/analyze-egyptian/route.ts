@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PhoneProcessor } from '@/lib/services/phone-processor';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { phoneNumber, whatsappNumber, batch } = body;
@@ -108,7 +109,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 function generateEgyptianRecommendations(
   analysis: ReturnType<typeof PhoneProcessor.analyzePhoneNumber>,
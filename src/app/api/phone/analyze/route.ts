@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PhoneProcessor } from '@/lib/services/phone-processor';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { phoneNumber, whatsappNumber } = body;
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 function generateRecommendations(analysis: ReturnType<typeof PhoneProcessor.analyzePhoneNumber>): string[] {
   const recommendations: string[] = [];
@@ -4,8 +4,9 @@ import path from 'path';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { ConfigService } from '@/lib/services/config';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🚂 Running Railway diagnostics...');
     
@@ -232,4 +233,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { google } from 'googleapis';
 import { ConfigService } from '@/lib/services/config';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET(request: NextRequest) {
+export const GET = withTenant(async function GET(request: NextRequest) {
   try {
     console.log('🔬 Starting deep inspection of Google Sheets data...');
     
@@ -168,7 +169,7 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
+});
 
 // Helper functions for analysis
 function analyzePhoneColumn(columnData: any, columnName: string) {
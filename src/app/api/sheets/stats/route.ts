@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const stats = await GoogleSheetsService.getSheetStats();
     return NextResponse.json(stats);
@@ -12,4 +13,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
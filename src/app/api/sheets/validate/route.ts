@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const validation = await GoogleSheetsService.validateConfiguration();
     return NextResponse.json(validation);
@@ -16,4 +17,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
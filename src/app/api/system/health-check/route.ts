@@ -3,8 +3,9 @@ import { WhatsAppService } from '@/lib/services/whatsapp';
 import { ConfigService } from '@/lib/services/config';
 import { GoogleSheetsService } from '@/lib/services/google-sheets';
 import { AutomationEngine } from '@/lib/services/automation-engine';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🏥 Starting comprehensive system health check...');
     
@@ -187,4 +188,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
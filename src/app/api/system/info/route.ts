@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server';
 import { ConfigService } from '@/lib/services/config';
 import path from 'path';
 import fs from 'fs';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🔍 Starting system information check...');
     
@@ -85,4 +86,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
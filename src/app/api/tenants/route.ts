@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TenantService, withTenant, DEFAULT_TENANT_ID } from '@/lib/services/tenant';
+import { AutomationEngine } from '@/lib/services/automation-engine';
+import { WhatsAppService } from '@/lib/services/whatsapp';
+
+export const GET = withTenant(async function GET() {
+  try {
+    return NextResponse.json({ tenants: TenantService.list(), current: TenantService.currentId() });
+  } catch (error) {
+    console.error('Error getting stores:', error);
+    return NextResponse.json(
+      { error: 'Failed to get stores' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/tenants { id, name } → add a store with its own settings, WhatsApp session and engine loop
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const tenant = {
+      id: String(body.id || '').trim().toLowerCase(),
+      name: String(body.name || '').trim()
+    };
+
+    const validation = TenantService.validate(tenant, true);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid store', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Store ${tenant.id} created`,
+      tenant: TenantService.create(tenant.id, tenant.name),
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error creating store:', error);
+    return NextResponse.json(
+      { error: 'Failed to create store' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/tenants { id, name } → rename a store
+export const PATCH = withTenant(async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const tenant = { id: String(body.id || ''), name: String(body.name || '').trim() };
+
+    const validation = TenantService.validate(tenant, false);
+    if (!validation.isValid || !TenantService.get(tenant.id)) {
+      return NextResponse.json(
+        { error: 'Invalid store', errors: validation.isValid ? ['Store not found'] : validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Store renamed', tenant: TenantService.rename(tenant.id, tenant.name) });
+  } catch (error) {
+    console.error('Error renaming store:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename store' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/tenants?id=x → stop the store's engine and WhatsApp sessions and drop it from the list (its files are kept)
+export const DELETE = withTenant(async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id') || '';
+    if (id === DEFAULT_TENANT_ID) {
+      return NextResponse.json(
+        { success: false, error: 'لا يمكن حذف المتجر الرئيسي' },
+        { status: 400 }
+      );
+    }
+    if (!TenantService.get(id)) {
+      return NextResponse.json(
+        { success: false, error: 'المتجر غير موجود' },
+        { status: 400 }
+      );
+    }
+
+    await TenantService.run(id, async () => {
+      await AutomationEngine.stop();
+      await WhatsAppService.destroyInstance();
+    });
+    TenantService.remove(id);
+    return NextResponse.json({ success: true, message: `Store ${id} removed` });
+  } catch (error) {
+    console.error('Error removing store:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove store' },
+      { status: 500 }
+    );
+  }
+});
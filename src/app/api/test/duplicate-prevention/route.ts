@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     // تشغيل اختبارات شاملة لمنع التكرار
     const testResults = await runDuplicatePreventionTests();
@@ -22,7 +23,7 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 async function runDuplicatePreventionTests() {
   const testCases = [
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     // Test data to simulate empty status scenarios
     const testScenarios = [
@@ -110,4 +111,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
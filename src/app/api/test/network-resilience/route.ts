@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { NetworkResilienceService } from '@/lib/services/network-resilience';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🧪 Testing Network Resilience Service...');
     
@@ -99,9 +100,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: Request) {
+export const POST = withTenant(async function POST(request: Request) {
   try {
     const body = await request.json();
     const { action, config } = body;
@@ -180,4 +181,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
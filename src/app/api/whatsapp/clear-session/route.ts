@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     const whatsapp = WhatsAppService.getInstance();
     
@@ -28,9 +29,9 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE() {
+export const DELETE = withTenant(async function DELETE() {
   // Allow DELETE method as well
   return POST();
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
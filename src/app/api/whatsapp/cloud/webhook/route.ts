@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
+
+// GET → Meta's one-time webhook verification (hub.mode / hub.verify_token / hub.challenge)
+export const GET = withTenant(async function GET(request: NextRequest) {
+  try {
+    const transport = await WhatsAppService.getInstance().getCloudTransport();
+    const challenge = transport?.verifyChallenge(request.nextUrl.searchParams);
+    if (!challenge) {
+      return NextResponse.json({ error: 'Webhook verification failed' }, { status: 403 });
+    }
+    return new NextResponse(challenge, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+  } catch (error) {
+    console.error('Error verifying Cloud API webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify webhook' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST → inbound customer messages and delivery/read statuses
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const transport = await WhatsAppService.getInstance().getCloudTransport();
+    if (!transport) {
+      return NextResponse.json({ error: 'Cloud API is not enabled for this store' }, { status: 404 });
+    }
+
+    // The signature covers the exact bytes Meta sent, so read the body as text first
+    const rawBody = await request.text();
+    if (!transport.verifySignature(rawBody, request.headers.get('x-hub-signature-256'))) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const counts = transport.handleWebhook(JSON.parse(rawBody));
+    return NextResponse.json({ success: true, ...counts });
+  } catch (error) {
+    console.error('Error handling Cloud API webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     const whatsapp = WhatsAppService.getInstance();
     
@@ -34,4 +35,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
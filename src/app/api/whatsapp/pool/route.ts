@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigService } from '@/lib/services/config';
+import { WhatsAppService } from '@/lib/services/whatsapp';
+import { SenderPoolService, DEFAULT_SESSION_ID } from '@/lib/services/sender-pool';
+import type { SenderRouting } from '@/lib/types/config';
+import { withTenant } from '@/lib/services/tenant';
+
+export const GET = withTenant(async function GET() {
+  try {
+    const config = await SenderPoolService.getConfig();
+    return NextResponse.json({ ...config, senders: await WhatsAppService.getInstance().getSenderStatus() });
+  } catch (error) {
+    console.error('Error getting sender pool:', error);
+    return NextResponse.json(
+      { error: 'Failed to get sender pool' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withTenant(async function POST(request: NextRequest) {
+  try {
+    const { senders, ...body } = await request.json();
+    const senderPool = {
+      routing: String(body.routing) as SenderRouting,
+      numbers: Array.isArray(body.numbers)
+        ? body.numbers.map((number: any) => ({
+            id: String(number.id || '').trim().toLowerCase(),
+            name: String(number.name || '').trim(),
+            enabled: !!number.enabled,
+            dailyCap: Number(number.dailyCap)
+          }))
+        : [],
+      maxConsecutiveFailures: Number(body.maxConsecutiveFailures),
+      failureCooldownMinutes: Number(body.failureCooldownMinutes)
+    };
+
+    const validation = SenderPoolService.validate(senderPool);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Invalid sender pool', errors: validation.errors, warnings: validation.warnings },
+        { status: 400 }
+      );
+    }
+
+    await ConfigService.setSenderPool(senderPool);
+    // Newly added or re-enabled numbers start their browser (and QR) in the background
+    WhatsAppService.getInstance().initializeSenderPool()
+      .catch(error => console.error('❌ Error starting sender numbers:', error));
+    return NextResponse.json({
+      success: true,
+      message: 'Sender pool saved successfully',
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    console.error('Error saving sender pool:', error);
+    return NextResponse.json(
+      { error: 'Failed to save sender pool' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/whatsapp/pool { sessionId, action: 'connect' } → start one number so its QR can be scanned
+export const PATCH = withTenant(async function PATCH(request: NextRequest) {
+  try {
+    const { sessionId, action } = await request.json();
+    const pool = await SenderPoolService.getConfig();
+    if (action !== 'connect' || !pool.numbers.some(number => number.id === sessionId)) {
+      return NextResponse.json(
+        { success: false, error: 'رقم الإرسال غير موجود' },
+        { status: 400 }
+      );
+    }
+
+    WhatsAppService.getInstance().initializeSender(sessionId)
+      .catch(error => console.error(`❌ Sender number ${sessionId} failed to initialize:`, error));
+    return NextResponse.json({ success: true, message: 'Sender number is connecting - scan the QR code when it appears' });
+  } catch (error) {
+    console.error('Error connecting sender number:', error);
+    return NextResponse.json(
+      { error: 'Failed to connect sender number' },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/whatsapp/pool?sessionId=x → unlink a number; extra numbers are also removed from the pool
+// DELETE /api/whatsapp/pool → reset the pool settings to defaults
+export const DELETE = withTenant(async function DELETE(request: NextRequest) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    if (sessionId) {
+      await WhatsAppService.getInstance().removeSender(sessionId);
+      if (sessionId !== DEFAULT_SESSION_ID) {
+        const pool = await SenderPoolService.getConfig();
+        await ConfigService.setSenderPool({ ...pool, numbers: pool.numbers.filter(number => number.id !== sessionId) });
+      }
+      return NextResponse.json({ success: true, message: `Sender number ${sessionId} unlinked` });
+    }
+
+    const defaults = ConfigService.getDefaultSenderPool();
+    await ConfigService.setSenderPool(defaults);
+    return NextResponse.json({ success: true, message: 'Sender pool reset to defaults', ...defaults });
+  } catch (error) {
+    console.error('Error removing sender number:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove sender number' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { WhatsAppService } from '@/lib/services/whatsapp';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const whatsapp = WhatsAppService.getInstance();
     const status = whatsapp.getStatus();
@@ -34,9 +35,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST() {
+export const POST = withTenant(async function POST() {
   try {
     const whatsapp = WhatsAppService.getInstance();
     
@@ -65,4 +66,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { WhatsAppSessionManager } from '@/lib/services/whatsapp-session-manager';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     const sessionManager = WhatsAppSessionManager.getInstance();
     const state = sessionManager.getState();
@@ -24,9 +25,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { action } = body;
@@ -89,4 +90,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
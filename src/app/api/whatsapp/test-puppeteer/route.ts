@@ -1,10 +1,11 @@
 import { NextResponse } from 'next/server';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { withTenant } from '@/lib/services/tenant';
 
 const execAsync = promisify(exec);
 
-export async function GET() {
+export const GET = withTenant(async function GET() {
   try {
     console.log('🔍 Testing Puppeteer and Chromium configuration...');
     
@@ -175,4 +176,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
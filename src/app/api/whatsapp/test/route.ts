@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { WhatsAppService } from '@/lib/services/whatsapp';
 import { PhoneProcessor } from '@/lib/services/phone-processor';
+import { OptOutService } from '@/lib/services/opt-out';
+import { withTenant } from '@/lib/services/tenant';
 
-export async function POST(request: NextRequest) {
+export const POST = withTenant(async function POST(request: NextRequest) {
   try {
     console.log('🧪 TEST MESSAGE API: Starting test message endpoint');
     
@@ -138,6 +140,17 @@ export async function POST(request: NextRequest) {
       validation.isValid = true;
     }
 
+    // Numbers on the opt-out list never receive anything, test messages included
+    if (await OptOutService.isOptedOut(validation.processedNumber)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'هذا الرقم طلب إيقاف الرسائل - احذفه من قائمة الإيقاف أولاً للإرسال إليه'
+        },
+        { status: 409 }
+      );
+    }
+
     // Add test message prefix
     const testMessage = `🧪 رسالة تجريبية من نظام الأتمتة المصري:\n\n${message}\n\n⚠️ هذه رسالة تجريبية - يرجى تجاهلها.`;
     console.log('📝 Prepared test message:', testMessage);
@@ -170,7 +183,7 @@ export async function POST(request: NextRequest) {
         }
       } else {
         // Normal Mode - إرسال حقيقي
-        sent = await whatsapp.sendMessage(validation.processedNumber, testMessage);
+        sent = !!(await whatsapp.sendMessage(validation.processedNumber, testMessage));
         console.log('📬 Real message send result:', sent);
       }
     } catch (error) {
@@ -232,4 +245,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, Play, Square, MessageSquare, Clock, CheckCircle, XCircle } from 'lucide-react';
+import type { DeliveryRate } from '@/lib/services/message-tracker';
 
 interface SheetRow {
   name: string;
@@ -30,8 +31,17 @@ interface AutomationStats {
     reminderQueue: { waiting: number; };
     rejectedOfferQueue: { waiting: number; };
   };
+  delivery?: { overall: DeliveryRate; byType: Record<string, DeliveryRate> };
 }
 
+const MESSAGE_TYPE_LABELS: Record<string, string> = {
+  newOrder: 'طلب جديد',
+  noAnswer: 'عدم الرد',
+  shipped: 'الشحن',
+  rejectedOffer: 'عرض الرفض',
+  reminder: 'تذكير'
+};
+
 interface WhatsAppStatus {
   isConnected: boolean;
   qrCode?: string;
@@ -226,6 +236,42 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Delivery / read receipts */}
+        {automationStats?.delivery && automationStats.delivery.overall.tracked > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>وصول وقراءة الرسائل</CardTitle>
+              <CardDescription>
+                {automationStats.delivery.overall.deliveredRate}% وصلت و {automationStats.delivery.overall.readRate}% قُرئت من {automationStats.delivery.overall.tracked} رسالة
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">نوع الرسالة</TableHead>
+                    <TableHead className="text-right">المرسلة</TableHead>
+                    <TableHead className="text-right">وصلت</TableHead>
+                    <TableHead className="text-right">قُرئت</TableHead>
+                    <TableHead className="text-right">فشل التسليم</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(automationStats.delivery.byType).map(([type, rate]) => (
+                    <TableRow key={type}>
+                      <TableCell className="font-medium">{MESSAGE_TYPE_LABELS[type] || type}</TableCell>
+                      <TableCell>{rate.tracked}</TableCell>
+                      <TableCell>{rate.deliveredRate}%</TableCell>
+                      <TableCell>{rate.readRate}%</TableCell>
+                      <TableCell>{rate.failed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Orders Table */}
         <Card>
           <CardHeader>
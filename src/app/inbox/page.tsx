@@ -0,0 +1,435 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import OrderTimelineDrawer from '@/components/OrderTimelineDrawer';
+import type { ConversationSummary, ThreadItem } from '@/lib/services/inbox';
+import type { ConversationFlow, SheetRow } from '@/lib/types/config';
+
+type ConversationFilter = 'all' | 'unread' | 'open' | 'mine' | 'handled';
+
+const AGENT_STORAGE_KEY = 'inbox_agent_name';
+
+const SOURCE_LABELS: Record<ThreadItem['source'], string> = {
+  customer: '👤 العميل',
+  agent: '🧑‍💼',
+  automation: '🤖 رسالة تلقائية'
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('ar-EG');
+
+export default function InboxPage() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [selectedPhone, setSelectedPhone] = useState<string | null>(null);
+  const [items, setItems] = useState<ThreadItem[]>([]);
+  const [orders, setOrders] = useState<SheetRow[]>([]);
+  const [filter, setFilter] = useState<ConversationFilter>('all');
+  const [search, setSearch] = useState('');
+  const [agent, setAgent] = useState('');
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [loadingThread, setLoadingThread] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [timelineOrder, setTimelineOrder] = useState<{ orderId: string; customerName: string } | null>(null);
+  const [flows, setFlows] = useState<ConversationFlow[]>([]);
+  const [flowId, setFlowId] = useState('');
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setAgent(localStorage.getItem(AGENT_STORAGE_KEY) || '');
+    loadConversations();
+    loadFlows();
+    const interval = setInterval(loadConversations, 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [items]);
+
+  const loadConversations = async () => {
+    try {
+      const response = await fetch('/api/inbox');
+      const data = await response.json();
+      if (data.success) setConversations(data.conversations);
+    } catch (error) {
+      console.error('Error loading inbox:', error);
+    }
+  };
+
+  const loadFlows = async () => {
+    try {
+      const response = await fetch('/api/config/conversation-flows');
+      const config = await response.json();
+      setFlows(config.enabled ? (config.flows || []).filter((flow: ConversationFlow) => flow.enabled) : []);
+    } catch (error) {
+      console.error('Error loading conversation flows:', error);
+    }
+  };
+
+  const updateConversation = async (phone: string, patch: { handled?: boolean; assignedTo?: string | null; read?: boolean }) => {
+    try {
+      await fetch('/api/inbox', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone, agent, ...patch })
+      });
+      await loadConversations();
+    } catch (error) {
+      console.error('Error updating conversation:', error);
+    }
+  };
+
+  const openConversation = async (phone: string) => {
+    setSelectedPhone(phone);
+    setError(null);
+    setLoadingThread(true);
+    try {
+      const response = await fetch(`/api/inbox?phone=${encodeURIComponent(phone)}`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'فشل تحميل المحادثة');
+      setItems(data.items);
+      setOrders(data.orders);
+      if (data.conversation?.unreadCount > 0) {
+        await updateConversation(phone, { read: true });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'فشل تحميل المحادثة');
+    } finally {
+      setLoadingThread(false);
+    }
+  };
+
+  const saveAgent = (name: string) => {
+    setAgent(name);
+    localStorage.setItem(AGENT_STORAGE_KEY, name);
+  };
+
+  const sendReply = async () => {
+    if (!selectedPhone || !draft.trim()) return;
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/inbox/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: selectedPhone, message: draft, agent })
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'فشل إرسال الرد');
+      setDraft('');
+      await openConversation(selectedPhone);
+      await loadConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'فشل إرسال الرد');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const startFlow = async () => {
+    if (!selectedPhone || !flowId) return;
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/inbox/flow', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: selectedPhone, flowId, orderId: orders[0]?.orderId, agent })
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'فشل إرسال النموذج');
+      setFlowId('');
+      await openConversation(selectedPhone);
+      await loadConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'فشل إرسال النموذج');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const stopFlow = async () => {
+    if (!selectedPhone || !confirm('إيقاف النموذج؟ الإجابات السابقة تُحفظ في ملاحظات الطلب')) return;
+    try {
+      await fetch(`/api/inbox/flow?phone=${encodeURIComponent(selectedPhone)}`, { method: 'DELETE' });
+      await loadConversations();
+    } catch (error) {
+      console.error('Error stopping flow:', error);
+    }
+  };
+
+  const visibleConversations = conversations.filter(conversation => {
+    if (search.trim()) {
+      const term = search.trim();
+      if (!conversation.phone.includes(term.replace(/\D/g, '') || term) && !(conversation.customerName || '').includes(term)) {
+        return false;
+      }
+    }
+    switch (filter) {
+      case 'unread': return conversation.unreadCount > 0;
+      case 'open': return !conversation.handled;
+      case 'mine': return !!agent && conversation.assignedTo === agent;
+      case 'handled': return conversation.handled;
+      default: return true;
+    }
+  });
+
+  const selected = conversations.find(conversation => conversation.phone === selectedPhone) || null;
+  const unreadTotal = conversations.filter(conversation => conversation.unreadCount > 0).length;
+
+  return (
+    <div style={{ background: 'linear-gradient(135deg, var(--gray-50), var(--white))' }}>
+      {/* Header Section */}
+      <div style={{
+        background: 'linear-gradient(135deg, var(--primary), var(--primary-dark))',
+        color: 'white',
+        padding: '2rem 0 3rem 0'
+      }}>
+        <div className="container">
+          <div className="flex items-center justify-between" style={{ flexWrap: 'wrap', gap: '1rem' }}>
+            <div>
+              <h1 style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '0.5rem' }}>📥 صندوق الرسائل</h1>
+              <p style={{ opacity: '0.9', marginBottom: '0' }}>
+                ردود العملاء على رسائلنا - {unreadTotal} محادثة غير مقروءة
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <label style={{ fontSize: '0.9rem' }}>🧑‍💼 اسمك:</label>
+              <input
+                className="input"
+                style={{ maxWidth: '180px' }}
+                placeholder="اسم الموظف"
+                value={agent}
+                onChange={(e) => saveAgent(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container" style={{ paddingTop: '2rem', paddingBottom: '2rem', marginTop: '-2rem' }}>
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'minmax(260px, 1fr) minmax(0, 2fr)', gap: '1.5rem', alignItems: 'start' }}>
+          {/* Conversation list */}
+          <div className="card">
+            <div className="card-header">
+              <input
+                className="input mb-2"
+                placeholder="🔍 بحث بالاسم أو الرقم"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+              <select className="input" value={filter} onChange={(e) => setFilter(e.target.value as ConversationFilter)}>
+                <option value="all">كل المحادثات</option>
+                <option value="unread">غير مقروءة</option>
+                <option value="open">لم تتم معالجتها</option>
+                <option value="mine">مسندة لي</option>
+                <option value="handled">تمت معالجتها</option>
+              </select>
+            </div>
+            <div style={{ maxHeight: '70vh', overflowY: 'auto' }}>
+              {visibleConversations.length === 0 ? (
+                <p style={{ padding: '1rem', fontSize: '0.9rem', color: 'var(--gray-500)' }}>لا توجد محادثات</p>
+              ) : visibleConversations.map(conversation => (
+                <div
+                  key={conversation.phone}
+                  onClick={() => openConversation(conversation.phone)}
+                  style={{
+                    padding: '0.75rem 1rem',
+                    borderBottom: '1px solid var(--gray-200)',
+                    cursor: 'pointer',
+                    background: conversation.phone === selectedPhone ? 'var(--primary-light)' : 'transparent'
+                  }}
+                >
+                  <div className="flex items-center justify-between">
+                    <strong style={{ fontWeight: conversation.unreadCount > 0 ? '700' : '500' }}>
+                      {conversation.customerName || conversation.phone}
+                    </strong>
+                    {conversation.unreadCount > 0 && <span className="badge badge-danger">{conversation.unreadCount}</span>}
+                  </div>
+                  <div style={{ fontSize: '0.85rem', color: 'var(--gray-600)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {conversation.lastDirection === 'out' ? '↩️ ' : ''}{conversation.lastMessage}
+                  </div>
+                  <div className="flex gap-1 items-center" style={{ fontSize: '0.75rem', color: 'var(--gray-500)', marginTop: '0.25rem', flexWrap: 'wrap' }}>
+                    <span>{formatTime(conversation.lastMessageAt)}</span>
+                    {conversation.handled && <span className="badge badge-success">✅ تمت المعالجة</span>}
+                    {conversation.assignedTo && <span className="badge badge-secondary">👤 {conversation.assignedTo}</span>}
+                    {conversation.flow && <span className="badge badge-warning">📋 نموذج جارٍ</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Thread */}
+          <div>
+            {!selectedPhone ? (
+              <div className="card">
+                <div className="card-body" style={{ textAlign: 'center', color: 'var(--gray-500)' }}>
+                  اختر محادثة لعرض الرسائل
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="card mb-3">
+                  <div className="card-header">
+                    <div className="flex items-center justify-between" style={{ flexWrap: 'wrap', gap: '0.5rem' }}>
+                      <div>
+                        <h3 style={{ marginBottom: '0.25rem' }}>{selected?.customerName || selectedPhone}</h3>
+                        <code style={{ fontSize: '0.85rem' }}>{selectedPhone}</code>
+                      </div>
+                      <div className="flex gap-2 items-center" style={{ flexWrap: 'wrap' }}>
+                        <input
+                          className="input"
+                          style={{ maxWidth: '150px' }}
+                          placeholder="مسندة إلى"
+                          defaultValue={selected?.assignedTo || ''}
+                          key={`${selectedPhone}-${selected?.assignedTo || ''}`}
+                          onBlur={(e) => e.target.value !== (selected?.assignedTo || '') && updateConversation(selectedPhone, { assignedTo: e.target.value || null })}
+                        />
+                        {agent && selected?.assignedTo !== agent && (
+                          <button className="btn btn-secondary" onClick={() => updateConversation(selectedPhone, { assignedTo: agent })}>
+                            🙋 إسناد لي
+                          </button>
+                        )}
+                        <button
+                          className={`btn ${selected?.handled ? 'btn-secondary' : 'btn-success'}`}
+                          onClick={() => updateConversation(selectedPhone, { handled: !selected?.handled })}
+                        >
+                          {selected?.handled ? '↩️ إعادة فتح' : '✅ تمت المعالجة'}
+                        </button>
+                      </div>
+                    </div>
+                    {selected?.handled && selected.handledAt && (
+                      <div style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginTop: '0.5rem' }}>
+                        تمت المعالجة {selected.handledBy ? `بواسطة ${selected.handledBy} ` : ''}في {formatTime(selected.handledAt)}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="card-body" style={{ maxHeight: '50vh', overflowY: 'auto', background: 'var(--gray-50)' }}>
+                    {loadingThread && <p style={{ color: 'var(--gray-500)' }}>جاري التحميل...</p>}
+                    {items.map(item => (
+                      <div
+                        key={item.id}
+                        style={{ display: 'flex', justifyContent: item.direction === 'in' ? 'flex-start' : 'flex-end', marginBottom: '0.75rem' }}
+                      >
+                        <div style={{
+                          maxWidth: '75%',
+                          padding: '0.6rem 0.9rem',
+                          borderRadius: 'var(--border-radius)',
+                          background: item.direction === 'in' ? 'var(--white)' : item.source === 'agent' ? 'var(--success-light)' : 'var(--primary-light)',
+                          border: '1px solid var(--gray-200)'
+                        }}>
+                          <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)', marginBottom: '0.25rem' }}>
+                            {SOURCE_LABELS[item.source]}{item.source === 'agent' && ` ${item.sentBy || 'فريق الدعم'}`}
+                            {item.messageType && ` • ${item.messageType}`}
+                            {item.orderId && ` • طلب ${item.orderId}`}
+                          </div>
+                          <div style={{ whiteSpace: 'pre-wrap', fontSize: '0.9rem' }}>{item.body}</div>
+                          <div style={{ fontSize: '0.7rem', color: 'var(--gray-500)', marginTop: '0.25rem' }}>
+                            {formatTime(item.at)}
+                            {item.status === 'failed' && <span style={{ color: 'var(--danger)' }}> • ❌ فشل الإرسال</span>}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <div ref={threadEndRef} />
+                  </div>
+
+                  <div className="card-body" style={{ borderTop: '1px solid var(--gray-200)' }}>
+                    {error && <div className="alert alert-danger mb-2" style={{ fontSize: '0.85rem' }}>{error}</div>}
+                    {selected?.flow ? (
+                      <div className="alert alert-warning mb-2 flex items-center justify-between" style={{ fontSize: '0.85rem', gap: '0.5rem' }}>
+                        <span>
+                          📋 في انتظار إجابة نموذج &quot;{flows.find(flow => flow.id === selected.flow!.flowId)?.name || selected.flow.flowId}&quot;
+                          {' '}({selected.flow.answers.length} إجابة حتى الآن)
+                        </span>
+                        <button className="btn btn-secondary" onClick={stopFlow}>⏹️ إيقاف النموذج</button>
+                      </div>
+                    ) : flows.length > 0 && (
+                      <div className="flex gap-2 mb-2 items-center">
+                        <select className="input" style={{ maxWidth: '250px' }} value={flowId} onChange={(e) => setFlowId(e.target.value)}>
+                          <option value="">📋 إرسال نموذج أسئلة...</option>
+                          {flows.map(flow => <option key={flow.id} value={flow.id}>{flow.name}</option>)}
+                        </select>
+                        <button className="btn btn-secondary" onClick={startFlow} disabled={sending || !flowId}>إرسال السؤال الأول</button>
+                      </div>
+                    )}
+                    <div className="flex gap-2" style={{ alignItems: 'flex-end' }}>
+                      <textarea
+                        className="textarea"
+                        rows={2}
+                        style={{ flex: 1 }}
+                        placeholder="اكتب ردك هنا... (Ctrl+Enter للإرسال)"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.ctrlKey && sendReply()}
+                      />
+                      <button className="btn btn-primary" onClick={sendReply} disabled={sending || !draft.trim()}>
+                        {sending ? '⟳ جاري الإرسال...' : '📤 إرسال'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Linked orders */}
+                <div className="card">
+                  <div className="card-header">
+                    <h3 style={{ marginBottom: '0' }}>📦 طلبات العميل ({orders.length})</h3>
+                  </div>
+                  <div className="card-body">
+                    {orders.length === 0 ? (
+                      <p style={{ fontSize: '0.85rem', color: 'var(--gray-500)', marginBottom: '0' }}>لا توجد طلبات لهذا الرقم في الشيت</p>
+                    ) : orders.map(order => (
+                      <div
+                        key={`${order.orderId}-${order.rowIndex}`}
+                        style={{
+                          padding: '0.75rem',
+                          marginBottom: '0.75rem',
+                          borderRadius: 'var(--border-radius)',
+                          border: selected?.orderIds.includes(order.orderId || '') ? '2px solid var(--primary)' : '1px solid var(--gray-200)'
+                        }}
+                      >
+                        <div className="flex items-center justify-between mb-2" style={{ flexWrap: 'wrap', gap: '0.5rem' }}>
+                          <strong>طلب {order.orderId} • صف {order.rowIndex}</strong>
+                          <div className="flex gap-2 items-center">
+                            <span className="badge badge-primary">{order.orderStatus || 'غير محدد'}</span>
+                            {order.orderId && (
+                              <button
+                                className="btn btn-secondary"
+                                style={{ padding: '0.25rem 0.5rem' }}
+                                onClick={() => setTimelineOrder({ orderId: order.orderId!, customerName: order.name })}
+                              >
+                                📜 السجل
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '0.25rem 1rem', fontSize: '0.85rem' }}>
+                          <div>🛍️ {order.productName || '—'} {order.quantity ? `× ${order.quantity}` : ''}</div>
+                          <div>💰 {order.totalPrice || '—'}</div>
+                          <div>📅 {order.orderDate || '—'}</div>
+                          <div>📍 {[order.governorate, order.area].filter(Boolean).join(' - ') || '—'}</div>
+                          <div style={{ gridColumn: '1 / -1' }}>🏠 {order.address || '—'}</div>
+                          {order.notes && <div style={{ gridColumn: '1 / -1', color: 'var(--gray-600)' }}>📝 {order.notes}</div>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {timelineOrder && (
+        <OrderTimelineDrawer
+          orderId={timelineOrder.orderId}
+          customerName={timelineOrder.customerName}
+          onClose={() => setTimelineOrder(null)}
+        />
+      )}
+    </div>
+  );
+}
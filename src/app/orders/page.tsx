@@ -1,9 +1,12 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import OrderTimelineDrawer from '@/components/OrderTimelineDrawer';
+import type { DeliveryRate, DeliveryStatus } from '@/lib/services/message-tracker';
 
 interface ProcessedOrder {
   rowIndex: number;
+  orderId: string;
   customerName: string;
   primaryPhone: string;
   secondaryPhone: string;
@@ -28,12 +31,18 @@ interface ProcessedOrder {
     type: string;
     timestamp: string;
     status: 'sent' | 'failed' | 'pending';
+    deliveryStatus?: DeliveryStatus;
   }>;
   lastUpdate: string;
   orderDate?: string;
   governorate?: string;
   area?: string;
   address?: string;
+  customer?: {
+    phone: string;
+    orderCount: number;          // كل طلبات نفس الرقم في الشيت
+    duplicateOf?: string;        // الطلب الأصلي إذا كان هذا الصف مكرراً
+  } | null;
 }
 
 interface OrdersStats {
@@ -44,8 +53,25 @@ interface OrdersStats {
   egyptian: number;
   whatsappRegistered: number;
   messagesSent: number;
+  duplicates: number;
+  delivery?: { overall: DeliveryRate; byType: Record<string, DeliveryRate> };
 }
 
+const DELIVERY_LABELS: Record<DeliveryStatus, string> = {
+  server: '✓ وصلت للسيرفر',
+  delivered: '✓✓ وصلت للعميل',
+  read: '👁️ قُرئت',
+  failed: '❌ فشل التسليم'
+};
+
+const MESSAGE_TYPE_LABELS: Record<string, string> = {
+  newOrder: '🆕 طلب جديد',
+  noAnswer: '📞 عدم الرد',
+  shipped: '🚚 الشحن',
+  rejectedOffer: '🎁 عرض الرفض',
+  reminder: '⏰ تذكير'
+};
+
 export default function OrdersPage() {
   const [orders, setOrders] = useState<ProcessedOrder[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<ProcessedOrder[]>([]);
@@ -58,11 +84,13 @@ export default function OrdersPage() {
     withErrors: 0,
     egyptian: 0,
     whatsappRegistered: 0,
-    messagesSent: 0
+    messagesSent: 0,
+    duplicates: 0
   });
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [phoneFilter, setPhoneFilter] = useState('all');
+  const [timelineOrder, setTimelineOrder] = useState<ProcessedOrder | null>(null);
 
   useEffect(() => {
     loadOrders();
@@ -130,6 +158,8 @@ export default function OrdersPage() {
           case 'egyptian': return order.phoneValidation.isEgyptian;
           case 'whatsapp': return order.whatsappValidation.isRegistered;
           case 'errors': return order.primaryPhone.includes('#ERROR!') || order.secondaryPhone.includes('#ERROR!');
+          case 'duplicates': return !!order.customer?.duplicateOf;
+          case 'repeat_customers': return (order.customer?.orderCount || 0) > 1;
           default: return true;
         }
       });
@@ -193,9 +223,11 @@ export default function OrdersPage() {
                 key={type} 
                 className={`badge ${badgeClass}`}
                 style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}
-                title={`${type}: ${message.status} - ${new Date(message.timestamp).toLocaleString('ar-EG')}`}
+                title={`${type}: ${message.deliveryStatus ? DELIVERY_LABELS[message.deliveryStatus] : message.status} - ${new Date(message.timestamp).toLocaleString('ar-EG')}`}
               >
                 {typeLabels[type as keyof typeof typeLabels]}
+                {message.deliveryStatus === 'read' && ' 👁️'}
+                {message.deliveryStatus === 'delivered' && ' ✓✓'}
               </span>
             );
           }
@@ -375,8 +407,53 @@ export default function OrdersPage() {
             <div className="stat-number">{stats.messagesSent}</div>
             <div className="stat-label" style={{ color: 'rgba(255,255,255,0.9)' }}>رسائل مرسلة</div>
           </div>
+
+          <div className="stat-card" style={{ 
+            background: 'linear-gradient(135deg, #64748b, #334155)', 
+            color: 'white',
+            position: 'relative',
+            overflow: 'hidden'
+          }}>
+            <div style={{ position: 'absolute', top: '10px', right: '15px', fontSize: '2rem', opacity: '0.3' }}>🔁</div>
+            <div className="stat-number">{stats.duplicates ?? 0}</div>
+            <div className="stat-label" style={{ color: 'rgba(255,255,255,0.9)' }}>طلبات مكررة</div>
+          </div>
+
+          <div className="stat-card" style={{ 
+            background: 'linear-gradient(135deg, #0ea5e9, #0369a1)', 
+            color: 'white',
+            position: 'relative',
+            overflow: 'hidden'
+          }}>
+            <div style={{ position: 'absolute', top: '10px', right: '15px', fontSize: '2rem', opacity: '0.3' }}>👁️</div>
+            <div className="stat-number">{stats.delivery?.overall.readRate ?? 0}%</div>
+            <div className="stat-label" style={{ color: 'rgba(255,255,255,0.9)' }}>
+              قُرئت • {stats.delivery?.overall.deliveredRate ?? 0}% وصلت
+            </div>
+          </div>
       </div>
 
+        {/* Delivery / read rates per message type */}
+        {stats.delivery && stats.delivery.overall.tracked > 0 && (
+          <div className="card mb-4">
+            <div className="card-header">
+              <h3 style={{ marginBottom: '0' }}>📬 وصول وقراءة الرسائل حسب النوع</h3>
+            </div>
+            <div className="card-body">
+              <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '1rem' }}>
+                {Object.entries(stats.delivery.byType).map(([type, rate]) => (
+                  <div key={type} style={{ padding: '0.75rem', background: 'var(--gray-50)', borderRadius: 'var(--border-radius)' }}>
+                    <div style={{ fontWeight: 600, marginBottom: '0.5rem' }}>{MESSAGE_TYPE_LABELS[type] || type}</div>
+                    <div style={{ fontSize: '0.85rem' }}>✓✓ وصلت: <strong>{rate.deliveredRate}%</strong> ({rate.delivered}/{rate.tracked})</div>
+                    <div style={{ fontSize: '0.85rem' }}>👁️ قُرئت: <strong>{rate.readRate}%</strong> ({rate.read}/{rate.tracked})</div>
+                    {rate.failed > 0 && <div style={{ fontSize: '0.85rem', color: 'var(--danger)' }}>❌ فشل التسليم: {rate.failed}</div>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Enhanced Filters Card */}
         <div className="card mb-4">
           <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--gray-50), var(--white))' }}>
@@ -431,6 +508,8 @@ export default function OrdersPage() {
                   <option value="egyptian">🇪🇬 أرقام مصرية</option>
                   <option value="whatsapp">💬 مسجل على واتساب</option>
                   <option value="errors">⚠️ يحتوي على أخطاء</option>
+                  <option value="duplicates">🔁 طلبات مكررة</option>
+                  <option value="repeat_customers">👥 عملاء بأكثر من طلب</option>
               </select>
             </div>
 
@@ -486,6 +565,7 @@ export default function OrdersPage() {
                       <th style={{ padding: '1rem 0.75rem', textAlign: 'center', borderBottom: '2px solid var(--gray-200)', fontWeight: '600' }}>حالة الرقم</th>
                       <th style={{ padding: '1rem 0.75rem', textAlign: 'center', borderBottom: '2px solid var(--gray-200)', fontWeight: '600' }}>واتساب</th>
                       <th style={{ padding: '1rem 0.75rem', textAlign: 'center', borderBottom: '2px solid var(--gray-200)', fontWeight: '600' }}>الرسائل المرسلة</th>
+                      <th style={{ padding: '1rem 0.75rem', textAlign: 'center', borderBottom: '2px solid var(--gray-200)', fontWeight: '600' }}>السجل</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -510,6 +590,16 @@ export default function OrdersPage() {
                           fontWeight: '600'
                         }}>
                         {order.customerName}
+                        {order.customer?.duplicateOf && (
+                          <span className="badge badge-warning" style={{ fontSize: '0.7rem', display: 'block', marginTop: '0.25rem', width: 'fit-content' }} title="لن تُرسل رسائل لهذا الصف">
+                            🔁 مكرر من {order.customer.duplicateOf}
+                          </span>
+                        )}
+                        {(order.customer?.orderCount || 0) > 1 && (
+                          <span className="badge badge-secondary" style={{ fontSize: '0.7rem', display: 'block', marginTop: '0.25rem', width: 'fit-content' }}>
+                            👥 {order.customer!.orderCount} طلبات لنفس الرقم
+                          </span>
+                        )}
                       </td>
                         <td style={{ padding: '1rem 0.75rem', borderBottom: '1px solid var(--gray-200)' }}>
                           <div>
@@ -579,6 +669,16 @@ export default function OrdersPage() {
                             <span style={{ color: 'var(--gray-400)', fontSize: '0.8rem' }}>لا توجد</span>
                         )}
                       </td>
+                        <td style={{ padding: '1rem 0.75rem', textAlign: 'center', borderBottom: '1px solid var(--gray-200)' }}>
+                          <button
+                            className="btn btn-secondary"
+                            style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}
+                            onClick={() => setTimelineOrder(order)}
+                            disabled={!order.orderId}
+                          >
+                            🕒 السجل
+                          </button>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -622,6 +722,14 @@ export default function OrdersPage() {
         </div>
 
       </div>
+
+      {timelineOrder && (
+        <OrderTimelineDrawer
+          orderId={timelineOrder.orderId}
+          customerName={timelineOrder.customerName}
+          onClose={() => setTimelineOrder(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
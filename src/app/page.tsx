@@ -3,6 +3,8 @@
 import React, { useState, useEffect } from 'react';
 import QRCodeDisplay from '@/components/QRCodeDisplay';
 import WhatsAppSessionManager from '@/components/WhatsAppSessionManager';
+import CouponReportCard from '@/components/CouponReportCard';
+import ExperimentResultsCard from '@/components/ExperimentResultsCard';
 
 interface AutomationStats {
   engine: {
@@ -518,6 +520,10 @@ export default function Dashboard() {
                 </div>
                 </div>
 
+        {/* أكواد العروض الخاصة */}
+        <CouponReportCard />
+        <ExperimentResultsCard />
+
         {/* إحصائيات النظام المصري */}
         <div className="card mb-4">
           <div className="card-header">
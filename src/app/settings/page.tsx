@@ -1,6 +1,23 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import StatusRulesEditor from '@/components/StatusRulesEditor';
+import FollowUpSequencesEditor from '@/components/FollowUpSequencesEditor';
+import SendWindowsEditor from '@/components/SendWindowsEditor';
+import SendRateEditor from '@/components/SendRateEditor';
+import WarmUpPlanCard from '@/components/WarmUpPlanCard';
+import SenderPoolManager from '@/components/SenderPoolManager';
+import TransportSettings from '@/components/TransportSettings';
+import SmsSettings from '@/components/SmsSettings';
+import MediaAttachmentsEditor from '@/components/MediaAttachmentsEditor';
+import SimulationPlanViewer from '@/components/SimulationPlanViewer';
+import OfferPolicyEditor from '@/components/OfferPolicyEditor';
+import TemplateExperimentsEditor from '@/components/TemplateExperimentsEditor';
+import CustomerGroupingEditor from '@/components/CustomerGroupingEditor';
+import OptOutManager from '@/components/OptOutManager';
+import ReplyActionsEditor from '@/components/ReplyActionsEditor';
+import FaqAutoReplyEditor from '@/components/FaqAutoReplyEditor';
+import ConversationFlowsEditor from '@/components/ConversationFlowsEditor';
 
 interface ConfigState {
   google: {
@@ -222,7 +239,12 @@ export default function SettingsPage() {
     { id: 'whatsapp', name: 'الواتساب', icon: '💬' },
     { id: 'messages', name: 'قوالب الرسائل', icon: '📝' },
     { id: 'timing', name: 'التوقيتات', icon: '⏰' },
-    { id: 'status', name: 'الحالات المفعلة', icon: '🔘' }
+    { id: 'status', name: 'الحالات المفعلة', icon: '🔘' },
+    { id: 'rules', name: 'قواعد الحالات', icon: '📐' },
+    { id: 'sequences', name: 'تسلسلات المتابعة', icon: '🔁' },
+    { id: 'autoreply', name: 'الردود التلقائية', icon: '🤖' },
+    { id: 'optout', name: 'إيقاف الرسائل', icon: '🚫' },
+    { id: 'simulate', name: 'محاكاة', icon: '🧪' }
   ];
 
   return (
@@ -448,6 +470,11 @@ export default function SettingsPage() {
             </div>
           </div>
         )}
+        {activeTab === 'whatsapp' && <TransportSettings />}
+        {activeTab === 'whatsapp' && <SenderPoolManager />}
+        {activeTab === 'whatsapp' && <SmsSettings />}
+
+        {activeTab === 'whatsapp' && <WarmUpPlanCard />}
 
         {/* Messages Tab */}
         {activeTab === 'messages' && (
@@ -493,7 +520,7 @@ export default function SettingsPage() {
                   { key: 'newOrder', label: '🆕 رسالة الطلب الجديد', placeholder: 'أهلاً {name}، تم استلام طلبك رقم {orderId}...' },
                   { key: 'noAnswer', label: '📞 رسالة عدم الرد', placeholder: 'مرحباً {name}، لم نتمكن من الوصول إليك...' },
                   { key: 'shipped', label: '🚚 رسالة الشحن', placeholder: 'تم شحن طلبك رقم {orderId}...' },
-                  { key: 'rejectedOffer', label: '🎁 رسالة العرض الخاص', placeholder: 'عرض خاص لك يا {name}! خصم 20%...' },
+                  { key: 'rejectedOffer', label: '🎁 رسالة العرض الخاص', placeholder: 'عرض خاص لك يا {name}! خصم {discount}...' },
                   { key: 'reminder', label: '⏰ رسالة التذكير', placeholder: 'تذكير بطلبك رقم {orderId}...' }
               ].map((template) => (
                   <div key={template.key}>
@@ -520,6 +547,9 @@ export default function SettingsPage() {
             </div>
           </div>
         )}
+        {activeTab === 'messages' && <MediaAttachmentsEditor />}
+        {activeTab === 'messages' && <OfferPolicyEditor />}
+        {activeTab === 'messages' && <TemplateExperimentsEditor />}
 
         {/* Timing Tab */}
         {activeTab === 'timing' && (
@@ -589,6 +619,9 @@ export default function SettingsPage() {
             </div>
           </div>
         )}
+        {activeTab === 'timing' && <SendWindowsEditor />}
+        {activeTab === 'timing' && <SendRateEditor />}
+        {activeTab === 'timing' && <CustomerGroupingEditor />}
 
         {/* Status Settings Tab */}
         {activeTab === 'status' && (
@@ -725,6 +758,23 @@ export default function SettingsPage() {
           </div>
         )}
 
+        {/* Status Rules Tab */}
+        {activeTab === 'rules' && <StatusRulesEditor />}
+
+        {/* Follow-up Sequences Tab */}
+        {activeTab === 'sequences' && <FollowUpSequencesEditor />}
+
+        {/* Auto-reply Tab */}
+        {activeTab === 'autoreply' && <FaqAutoReplyEditor />}
+        {activeTab === 'autoreply' && <ReplyActionsEditor />}
+        {activeTab === 'autoreply' && <ConversationFlowsEditor />}
+
+        {/* Opt-out Tab */}
+        {activeTab === 'optout' && <OptOutManager />}
+
+        {/* Dry-run Simulation Tab */}
+        {activeTab === 'simulate' && <SimulationPlanViewer />}
+
         {/* Enhanced Info Alert */}
         <div className="alert alert-primary" style={{ marginTop: '2rem' }}>
           <strong>💡 نصائح مهمة:</strong>
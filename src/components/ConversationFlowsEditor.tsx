@@ -0,0 +1,353 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { ConversationFlowsConfig, ConversationFlow, FlowChoice, FlowStep } from '@/lib/types/config';
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+const splitLines = (value: string): string[] =>
+  value.split('\n').map(v => v.trim()).filter(Boolean);
+
+// One choice per line: "السبت" or "لا، أريد تعديله -> new-address"
+const CHOICE_ARROW = '->';
+
+const choicesToText = (choices: FlowChoice[] = []): string =>
+  choices.map(choice => (choice.next ? `${choice.label} ${CHOICE_ARROW} ${choice.next}` : choice.label)).join('\n');
+
+const textToChoices = (value: string): FlowChoice[] =>
+  splitLines(value).map(line => {
+    const [label, next] = line.split(CHOICE_ARROW).map(part => part.trim());
+    return next ? { label, next } : { label };
+  });
+
+export default function ConversationFlowsEditor() {
+  const [config, setConfig] = useState<ConversationFlowsConfig | null>(null);
+  const [revision, setRevision] = useState(0); // يعيد إنشاء الحقول غير المتحكم بها بعد التحميل
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const response = await fetch('/api/config/conversation-flows');
+      setConfig(await response.json());
+      setRevision(r => r + 1);
+    } catch (error) {
+      console.error('Error loading conversation flows:', error);
+    }
+  };
+
+  const update = (patch: Partial<ConversationFlowsConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateFlow = (flowIndex: number, patch: Partial<ConversationFlow>) => {
+    setConfig(prev => prev && {
+      ...prev,
+      flows: prev.flows.map((flow, i) => (i === flowIndex ? { ...flow, ...patch } : flow))
+    });
+  };
+
+  const updateStep = (flowIndex: number, stepIndex: number, patch: Partial<FlowStep>) => {
+    setConfig(prev => prev && {
+      ...prev,
+      flows: prev.flows.map((flow, i) => (i !== flowIndex ? flow : {
+        ...flow,
+        steps: flow.steps.map((step, j) => (j === stepIndex ? { ...step, ...patch } : step))
+      }))
+    });
+  };
+
+  const addFlow = () => {
+    if (!config) return;
+    update({
+      flows: [...config.flows, {
+        id: `flow-${config.flows.length + 1}`,
+        name: 'نموذج جديد',
+        enabled: true,
+        triggerKeywords: [],
+        steps: [{ id: 'q1', question: '', type: 'choice', choices: [{ label: 'نعم' }, { label: 'لا' }], noteLabel: 'السؤال الأول' }],
+        completionMessage: 'شكراً {name} ✅'
+      }]
+    });
+  };
+
+  const removeFlow = (flowIndex: number) => {
+    if (!config) return;
+    update({ flows: config.flows.filter((_, i) => i !== flowIndex) });
+    setRevision(r => r + 1);
+  };
+
+  const addStep = (flowIndex: number) => {
+    if (!config) return;
+    const flow = config.flows[flowIndex];
+    updateFlow(flowIndex, {
+      steps: [...flow.steps, { id: `q${flow.steps.length + 1}`, question: '', type: 'text', noteLabel: `السؤال ${flow.steps.length + 1}` }]
+    });
+  };
+
+  const removeStep = (flowIndex: number, stepIndex: number) => {
+    if (!config) return;
+    const flow = config.flows[flowIndex];
+    updateFlow(flowIndex, { steps: flow.steps.filter((_, j) => j !== stepIndex) });
+    setRevision(r => r + 1);
+  };
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/conversation-flows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving conversation flows:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetConfig = async () => {
+    if (!confirm('هل تريد استعادة النماذج الافتراضية؟')) return;
+    const response = await fetch('/api/config/conversation-flows', { method: 'DELETE' });
+    const { success, message, ...defaults } = await response.json();
+    if (success) {
+      setConfig(defaults as ConversationFlowsConfig);
+      setRevision(r => r + 1);
+      setValidation(null);
+    }
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>📋 نماذج الأسئلة المرقمة</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          اسأل العميل بخيارات مرقمة ("اختر يوم التوصيل: 1- السبت 2- الأحد") واحفظ إجابته في ملاحظات الطلب
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+          <strong>💡 كيف يعمل النموذج:</strong><br />
+          • يبدأ عندما يرسل العميل كلمة البدء، أو يرسله الفريق من صندوق الرسائل<br />
+          • العميل يرد برقم الخيار (1، ٢...) أو بنص الخيار نفسه، وخطوات النص الحر تحفظ الرد كما هو<br />
+          • الخيارات سطر لكل خيار، ولنقل خيار لخطوة معينة اكتب: <code>لا، أريد تعديله {CHOICE_ARROW} new-address</code><br />
+          • الإجابات تُكتب كملاحظة على خانة الحالة في الشيت وتظهر في سجل الطلب - حتى لو انتهت المهلة قبل الاكتمال
+        </div>
+
+        <div className="flex gap-3 mb-3" style={{ flexWrap: 'wrap' }}>
+          <label>
+            <input type="checkbox" checked={config.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل النماذج
+          </label>
+          <label>
+            <input type="checkbox" checked={config.writeNotes} onChange={(e) => update({ writeNotes: e.target.checked })} /> كتابة الإجابات في ملاحظات الشيت
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          <div>
+            <label className="label">⏳ مهلة الإجابة (دقائق)</label>
+            <input
+              type="number"
+              className="input"
+              min={1}
+              max={10080}
+              value={config.timeoutMinutes}
+              onChange={(e) => update({ timeoutMinutes: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="label">🔁 عدد الردود غير المفهومة قبل التحويل للفريق</label>
+            <input
+              type="number"
+              className="input"
+              min={1}
+              max={10}
+              value={config.maxInvalidAttempts}
+              onChange={(e) => update({ maxInvalidAttempts: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="label">❓ رسالة الرد غير المفهوم (<code>{'{choices}'}</code> = الأرقام المتاحة)</label>
+            <input
+              className="input"
+              value={config.invalidChoiceMessage}
+              onChange={(e) => update({ invalidChoiceMessage: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3">
+          {config.flows.map((flow, flowIndex) => (
+            <div
+              key={`${flowIndex}-${revision}`}
+              className="card"
+              style={{ padding: '1rem', border: flow.enabled ? '2px solid var(--primary)' : '1px solid var(--gray-200)' }}
+            >
+              <div className="flex items-center justify-between mb-2" style={{ gap: '0.5rem', flexWrap: 'wrap' }}>
+                <div className="flex gap-2 items-center">
+                  <input
+                    className="input"
+                    style={{ fontWeight: 600, maxWidth: '200px' }}
+                    value={flow.name}
+                    onChange={(e) => updateFlow(flowIndex, { name: e.target.value })}
+                  />
+                  <input
+                    className="input"
+                    style={{ maxWidth: '140px', fontFamily: 'monospace' }}
+                    value={flow.id}
+                    onChange={(e) => updateFlow(flowIndex, { id: e.target.value })}
+                  />
+                </div>
+                <div className="flex gap-2 items-center">
+                  <label style={{ fontSize: '0.85rem' }}>
+                    <input type="checkbox" checked={flow.enabled} onChange={(e) => updateFlow(flowIndex, { enabled: e.target.checked })} /> مفعل
+                  </label>
+                  <button className="btn btn-danger" onClick={() => removeFlow(flowIndex)}>🗑️</button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1rem', marginBottom: '1rem' }}>
+                <div>
+                  <label className="label">🔑 كلمات البدء (فارغ = من صندوق الرسائل فقط)</label>
+                  <textarea
+                    className="textarea"
+                    rows={2}
+                    defaultValue={(flow.triggerKeywords || []).join('\n')}
+                    onBlur={(e) => updateFlow(flowIndex, { triggerKeywords: splitLines(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="label">🏁 رسالة الإنهاء (فارغ = بدون رد)</label>
+                  <textarea
+                    className="textarea"
+                    rows={2}
+                    defaultValue={flow.completionMessage}
+                    onBlur={(e) => updateFlow(flowIndex, { completionMessage: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {flow.steps.map((step, stepIndex) => (
+                <div key={stepIndex} style={{ padding: '0.75rem', marginBottom: '0.75rem', background: 'var(--gray-50)', borderRadius: 'var(--border-radius)' }}>
+                  <div className="flex gap-2 items-center mb-2" style={{ flexWrap: 'wrap' }}>
+                    <span className="badge badge-secondary">{stepIndex === 0 ? 'البداية' : `خطوة ${stepIndex + 1}`}</span>
+                    <input
+                      className="input"
+                      style={{ maxWidth: '130px', fontFamily: 'monospace' }}
+                      value={step.id}
+                      onChange={(e) => updateStep(flowIndex, stepIndex, { id: e.target.value })}
+                    />
+                    <input
+                      className="input"
+                      style={{ maxWidth: '180px' }}
+                      placeholder="عنوان الإجابة في الملاحظة"
+                      value={step.noteLabel}
+                      onChange={(e) => updateStep(flowIndex, stepIndex, { noteLabel: e.target.value })}
+                    />
+                    <select
+                      className="input"
+                      style={{ maxWidth: '140px' }}
+                      value={step.type}
+                      onChange={(e) => updateStep(flowIndex, stepIndex, { type: e.target.value as FlowStep['type'] })}
+                    >
+                      <option value="choice">خيارات مرقمة</option>
+                      <option value="text">نص حر</option>
+                    </select>
+                    <select
+                      className="input"
+                      style={{ maxWidth: '160px' }}
+                      value={step.next || ''}
+                      onChange={(e) => updateStep(flowIndex, stepIndex, { next: e.target.value || undefined })}
+                    >
+                      <option value="">⏹️ ثم الإنهاء</option>
+                      {flow.steps.filter(other => other.id !== step.id).map(other => (
+                        <option key={other.id} value={other.id}>➡️ ثم {other.id}</option>
+                      ))}
+                    </select>
+                    <button className="btn btn-danger" onClick={() => removeStep(flowIndex, stepIndex)} disabled={flow.steps.length === 1}>🗑️</button>
+                  </div>
+                  <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1rem' }}>
+                    <div>
+                      <label className="label">❓ السؤال</label>
+                      <textarea
+                        className="textarea"
+                        rows={3}
+                        defaultValue={step.question}
+                        onBlur={(e) => updateStep(flowIndex, stepIndex, { question: e.target.value })}
+                      />
+                    </div>
+                    {step.type === 'choice' && (
+                      <div>
+                        <label className="label">🔢 الخيارات (سطر لكل خيار)</label>
+                        <textarea
+                          className="textarea"
+                          rows={3}
+                          defaultValue={choicesToText(step.choices)}
+                          onBlur={(e) => updateStep(flowIndex, stepIndex, { choices: textToChoices(e.target.value) })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <button className="btn btn-secondary" onClick={() => addStep(flowIndex)}>➕ إضافة سؤال</button>
+            </div>
+          ))}
+        </div>
+
+        <button className="btn btn-secondary" onClick={addFlow} style={{ marginTop: '1rem' }}>➕ إضافة نموذج</button>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveConfig}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ النماذج'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetConfig} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
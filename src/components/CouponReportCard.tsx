@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { CouponReport } from '@/lib/services/coupons';
+
+interface CouponLookup {
+  code: string;
+  orderId: string;
+  customerName?: string;
+  originalAmount: number;
+  discountedAmount: number;
+  status: 'active' | 'redeemed' | 'expired';
+  expiresAtLabel: string;
+  redeemedAmount?: number;
+}
+
+const STATUS_BADGES: Record<CouponLookup['status'], { label: string; className: string }> = {
+  active: { label: 'ساري', className: 'badge-success' },
+  redeemed: { label: 'مستخدم', className: 'badge-primary' },
+  expired: { label: 'منتهي', className: 'badge-danger' }
+};
+
+export default function CouponReportCard() {
+  const [report, setReport] = useState<CouponReport | null>(null);
+  const [code, setCode] = useState('');
+  const [amount, setAmount] = useState('');
+  const [coupon, setCoupon] = useState<CouponLookup | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'danger'; text: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const loadReport = async () => {
+    try {
+      const response = await fetch('/api/coupons');
+      const data = await response.json();
+      if (data.success) setReport(data.report);
+    } catch (error) {
+      console.error('Error loading coupon report:', error);
+    }
+  };
+
+  const lookup = async () => {
+    if (!code.trim()) return;
+    setLoading(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/coupons?code=${encodeURIComponent(code.trim())}`);
+      const data = await response.json();
+      setCoupon(data.success ? data.coupon : null);
+      if (!data.success) setMessage({ type: 'danger', text: data.error });
+    } catch (error) {
+      console.error('Error looking up coupon:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redeem = async () => {
+    if (!coupon) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/coupons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: coupon.code, ...(amount.trim() ? { amount: Number(amount) } : {}) })
+      });
+      const data = await response.json();
+      setMessage({ type: data.success ? 'success' : 'danger', text: data.message || data.error });
+      if (data.coupon) setCoupon(data.coupon);
+      if (data.success) await loadReport();
+    } catch (error) {
+      console.error('Error redeeming coupon:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="card mb-4">
+      <div className="card-header">
+        <h3>🎟️ أكواد العروض الخاصة</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>كم استعادت رسائل العرض الخاص من الطلبات المرفوضة</p>
+      </div>
+      <div className="card-body">
+        <div className="grid grid-cols-1 mb-3" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: '1rem' }}>
+          {[
+            { label: 'عروض مرسلة', value: report?.offersSent ?? 0, color: 'var(--warning)' },
+            { label: 'أكواد مصدرة', value: report?.issued ?? 0, color: 'var(--primary)' },
+            { label: 'أكواد مستخدمة', value: report?.redeemed ?? 0, color: 'var(--success)' },
+            { label: 'نسبة الاستخدام', value: `${report?.redemptionRate ?? 0}%`, color: '#7c3aed' },
+            { label: 'إيراد مستعاد (جنيه)', value: (report?.recoveredRevenue ?? 0).toLocaleString('ar-EG'), color: 'var(--success)' },
+            { label: 'خصومات ممنوحة (جنيه)', value: (report?.discountGiven ?? 0).toLocaleString('ar-EG'), color: 'var(--danger)' }
+          ].map(item => (
+            <div key={item.label} className="text-center" style={{ padding: '1rem', background: 'var(--gray-50)', borderRadius: 'var(--border-radius)' }}>
+              <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: item.color }}>{item.value}</div>
+              <div style={{ color: 'var(--gray-600)', fontSize: '0.8rem' }}>{item.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <label className="label">🔍 البحث عن كود وتسجيل استخدامه</label>
+        <div className="flex gap-2 items-center" style={{ flexWrap: 'wrap' }}>
+          <input
+            className="input"
+            style={{ maxWidth: '220px', fontFamily: 'monospace' }}
+            placeholder="BACK-XXXXXX"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            onKeyDown={(e) => e.key === 'Enter' && lookup()}
+          />
+          <button className="btn btn-secondary" onClick={lookup} disabled={loading}>بحث</button>
+        </div>
+
+        {coupon && (
+          <div className="flex gap-2 items-center" style={{ flexWrap: 'wrap', marginTop: '1rem', fontSize: '0.9rem' }}>
+            <code>{coupon.code}</code>
+            <span className={`badge ${STATUS_BADGES[coupon.status].className}`}>{STATUS_BADGES[coupon.status].label}</span>
+            <span>{coupon.customerName || '—'} • طلب {coupon.orderId}</span>
+            <span>{coupon.originalAmount} ← {coupon.discountedAmount} جنيه</span>
+            <span style={{ color: 'var(--gray-500)' }}>حتى {coupon.expiresAtLabel}</span>
+            {coupon.status === 'active' && (
+              <>
+                <input
+                  type="number"
+                  className="input"
+                  style={{ width: '130px' }}
+                  placeholder={`المبلغ (${coupon.discountedAmount})`}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+                <button className="btn btn-success" onClick={redeem} disabled={loading}>✅ تسجيل الاستخدام</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {message && (
+          <div className={`alert alert-${message.type}`} style={{ marginTop: '1rem', fontSize: '0.85rem' }}>
+            {message.text}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
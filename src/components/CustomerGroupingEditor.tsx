@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { CustomerGroupingConfig } from '@/lib/types/config';
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+export default function CustomerGroupingEditor() {
+  const [config, setConfig] = useState<CustomerGroupingConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const response = await fetch('/api/config/customer-grouping');
+      setConfig(await response.json());
+    } catch (error) {
+      console.error('Error loading customer grouping:', error);
+    }
+  };
+
+  const update = (patch: Partial<CustomerGroupingConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/customer-grouping', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving customer grouping:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header">
+        <h3 style={{ marginBottom: '0.5rem' }}>👥 تجميع طلبات العميل الواحد</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          الطلبات من نفس الرقم تُعامل كعميل واحد: المكرر لا يستلم رسائل، والطلبات المختلفة تستلم رسالة واحدة مجمعة
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>
+              <input type="checkbox" checked={config.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل التجميع حسب العميل
+            </label>
+            <label style={{ display: 'block' }}>
+              <input
+                type="checkbox"
+                checked={config.consolidateMessages}
+                disabled={!config.enabled}
+                onChange={(e) => update({ consolidateMessages: e.target.checked })}
+              /> رسالة واحدة لطلبات العميل بنفس الحالة
+            </label>
+          </div>
+          <div>
+            <label className="label">🔁 نفس المنتج خلال (ساعات) = طلب مكرر</label>
+            <input
+              type="number"
+              className="input"
+              min={0}
+              max={720}
+              disabled={!config.enabled}
+              value={config.duplicateWindowHours}
+              onChange={(e) => update({ duplicateWindowHours: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveConfig}
+            disabled={loading}
+            style={{ marginTop: '1.5rem' }}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ إعدادات التجميع'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { ExperimentResults } from '@/lib/services/template-experiments';
+
+const MESSAGE_TYPE_LABELS: Record<string, string> = {
+  newOrder: '🆕 طلب جديد',
+  noAnswer: '📞 عدم الرد',
+  shipped: '🚚 الشحن',
+  rejectedOffer: '🎁 العرض الخاص',
+  reminder: '⏰ التذكير'
+};
+
+// Below this many decided orders a difference between variants is mostly noise
+const MIN_SAMPLE_SIZE = 30;
+
+export default function ExperimentResultsCard() {
+  const [results, setResults] = useState<ExperimentResults | null>(null);
+
+  useEffect(() => {
+    loadResults();
+  }, []);
+
+  const loadResults = async () => {
+    try {
+      const response = await fetch('/api/automation/experiments');
+      const data = await response.json();
+      if (data.success) setResults(data);
+    } catch (error) {
+      console.error('Error loading experiment results:', error);
+    }
+  };
+
+  if (!results || results.experiments.length === 0) return null;
+
+  return (
+    <div className="card mb-4">
+      <div className="card-header">
+        <h3>🧪 نتائج اختبار A/B للرسائل</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          التحويل = تغير الحالة إلى ({results.successRuleIds.join('، ')}) خلال {results.conversionWindowHours} ساعة من الإرسال
+        </p>
+      </div>
+      <div className="card-body">
+        {results.experiments.map(experiment => {
+          const best = Math.max(...experiment.variants.map(variant => variant.conversionRate));
+          return (
+            <div key={experiment.messageType} className="mb-3">
+              <div className="flex gap-2 items-center mb-2">
+                <strong>{MESSAGE_TYPE_LABELS[experiment.messageType] || experiment.messageType}</strong>
+                <span className={`badge ${experiment.enabled ? 'badge-success' : 'badge-secondary'}`}>
+                  {experiment.enabled ? 'مفعل' : 'متوقف'}
+                </span>
+              </div>
+              <table style={{ width: '100%', fontSize: '0.85rem', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ color: 'var(--gray-600)', textAlign: 'right' }}>
+                    <th style={{ padding: '0.4rem' }}>النسخة</th>
+                    <th style={{ padding: '0.4rem' }}>الوزن</th>
+                    <th style={{ padding: '0.4rem' }}>أُرسلت</th>
+                    <th style={{ padding: '0.4rem' }}>حُسمت</th>
+                    <th style={{ padding: '0.4rem' }}>قيد الانتظار</th>
+                    <th style={{ padding: '0.4rem' }}>تحويل</th>
+                    <th style={{ padding: '0.4rem' }}>نسبة التحويل</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {experiment.variants.map(variant => (
+                    <tr key={variant.id} style={{ borderTop: '1px solid var(--gray-200)' }}>
+                      <td style={{ padding: '0.4rem' }}>{variant.name} <code>{variant.id}</code></td>
+                      <td style={{ padding: '0.4rem' }}>{variant.weight}</td>
+                      <td style={{ padding: '0.4rem' }}>{variant.sent}</td>
+                      <td style={{ padding: '0.4rem' }}>{variant.decided}</td>
+                      <td style={{ padding: '0.4rem' }}>{variant.pending}</td>
+                      <td style={{ padding: '0.4rem' }}>{variant.converted}</td>
+                      <td style={{ padding: '0.4rem', fontWeight: 'bold', color: variant.decided > 0 && variant.conversionRate === best ? 'var(--success)' : undefined }}>
+                        {variant.conversionRate}%
+                        {variant.decided < MIN_SAMPLE_SIZE && (
+                          <span style={{ fontWeight: 'normal', color: 'var(--warning)', marginRight: '0.5rem' }}>⚠️ عينة صغيرة (n={variant.decided})</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { FaqAutoReplyConfig, FaqRule } from '@/lib/types/config';
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+const splitLines = (value: string): string[] =>
+  value.split('\n').map(v => v.trim()).filter(Boolean);
+
+export default function FaqAutoReplyEditor() {
+  const [config, setConfig] = useState<FaqAutoReplyConfig | null>(null);
+  const [revision, setRevision] = useState(0); // يعيد إنشاء الحقول غير المتحكم بها بعد التحميل
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const response = await fetch('/api/config/faq-auto-reply');
+      setConfig(await response.json());
+      setRevision(r => r + 1);
+    } catch (error) {
+      console.error('Error loading FAQ auto-reply settings:', error);
+    }
+  };
+
+  const update = (patch: Partial<FaqAutoReplyConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateRule = (index: number, patch: Partial<FaqRule>) => {
+    if (!config) return;
+    update({ rules: config.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    if (!config) return;
+    const target = index + direction;
+    if (target < 0 || target >= config.rules.length) return;
+    const rules = [...config.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    update({ rules });
+    setRevision(r => r + 1);
+  };
+
+  const addRule = () => {
+    if (!config) return;
+    update({
+      rules: [...config.rules, { id: `rule-${config.rules.length + 1}`, name: 'سؤال جديد', enabled: true, keywords: [], reply: '' }]
+    });
+  };
+
+  const removeRule = (index: number) => {
+    if (!config) return;
+    update({ rules: config.rules.filter((_, i) => i !== index) });
+    setRevision(r => r + 1);
+  };
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/faq-auto-reply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving FAQ auto-reply settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetConfig = async () => {
+    if (!confirm('هل تريد استعادة الردود الافتراضية؟')) return;
+    const response = await fetch('/api/config/faq-auto-reply', { method: 'DELETE' });
+    const { success, message, ...defaults } = await response.json();
+    if (success) {
+      setConfig(defaults as FaqAutoReplyConfig);
+      setRevision(r => r + 1);
+      setValidation(null);
+    }
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>🤖 الرد التلقائي على الأسئلة المتكررة</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          رد فوري على أسئلة مثل "السعر كام؟" و"الشحن بكام؟" - وأي رسالة أخرى تُحوّل لفريق خدمة العملاء في صندوق الرسائل
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+          <strong>💡 كيف يعمل الرد:</strong><br />
+          • القواعد تُفحص بالترتيب وأول قاعدة مطابقة هي التي ترد - ضع الأسئلة الأدق أولاً<br />
+          • الكلمات تُطابق ككلمة أو عبارة كاملة بعد توحيد الحروف (أ/ا، ة/ه، ى/ي)<br />
+          • الرد يدعم متغيرات أحدث طلب للعميل: <code>{'{name}'}</code> <code>{'{orderId}'}</code> <code>{'{productName}'}</code> <code>{'{total}'}</code> <code>{'{orderStatus}'}</code> <code>{'{governorate}'}</code><br />
+          • ردود التأكيد والإلغاء وإيقاف الرسائل لها الأولوية على هذه القواعد
+        </div>
+
+        <div className="flex gap-3 mb-3" style={{ flexWrap: 'wrap' }}>
+          <label>
+            <input type="checkbox" checked={config.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل الرد التلقائي
+          </label>
+          <label>
+            <input type="checkbox" checked={config.businessHoursOnly} onChange={(e) => update({ businessHoursOnly: e.target.checked })} /> داخل ساعات العمل فقط (نوافذ الإرسال في التوقيتات)
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          <div>
+            <label className="label">⏳ فترة التهدئة لكل عميل (دقائق)</label>
+            <input
+              type="number"
+              className="input"
+              min={0}
+              max={10080}
+              value={config.cooldownMinutes}
+              onChange={(e) => update({ cooldownMinutes: Number(e.target.value) })}
+            />
+            <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginTop: '0.25rem' }}>
+              نفس الرد لا يتكرر لنفس العميل خلال هذه المدة
+            </p>
+          </div>
+          <div>
+            <label className="label">🧑‍💼 رسالة التحويل للفريق (عند عدم مطابقة أي قاعدة - فارغ = بدون رد)</label>
+            <textarea
+              className="textarea"
+              rows={3}
+              value={config.handoffMessage}
+              onChange={(e) => update({ handoffMessage: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3">
+          {config.rules.map((rule, index) => (
+            <div
+              key={`${index}-${revision}`}
+              className="card"
+              style={{ padding: '1rem', border: rule.enabled ? '2px solid var(--primary)' : '1px solid var(--gray-200)' }}
+            >
+              <div className="flex items-center justify-between mb-2" style={{ gap: '0.5rem', flexWrap: 'wrap' }}>
+                <div className="flex gap-2 items-center">
+                  <input
+                    className="input"
+                    style={{ fontWeight: 600, maxWidth: '200px' }}
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.target.value })}
+                  />
+                  <input
+                    className="input"
+                    style={{ maxWidth: '140px', fontFamily: 'monospace' }}
+                    value={rule.id}
+                    onChange={(e) => updateRule(index, { id: e.target.value })}
+                  />
+                </div>
+                <div className="flex gap-2 items-center">
+                  <label style={{ fontSize: '0.85rem' }}>
+                    <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(index, { enabled: e.target.checked })} /> مفعل
+                  </label>
+                  <button className="btn btn-secondary" onClick={() => moveRule(index, -1)} disabled={index === 0}>⬆️</button>
+                  <button className="btn btn-secondary" onClick={() => moveRule(index, 1)} disabled={index === config.rules.length - 1}>⬇️</button>
+                  <button className="btn btn-danger" onClick={() => removeRule(index)}>🗑️</button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1rem' }}>
+                <div>
+                  <label className="label">🔑 الكلمات (سطر لكل كلمة أو عبارة)</label>
+                  <textarea
+                    className="textarea"
+                    rows={4}
+                    defaultValue={(rule.keywords || []).join('\n')}
+                    onBlur={(e) => updateRule(index, { keywords: splitLines(e.target.value) })}
+                  />
+                  <label className="label" style={{ marginTop: '0.5rem' }}>🧩 تعبير نمطي (اختياري)</label>
+                  <input
+                    className="input"
+                    style={{ fontFamily: 'monospace', direction: 'ltr' }}
+                    value={rule.pattern || ''}
+                    onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="label">💬 الرد</label>
+                  <textarea
+                    className="textarea"
+                    rows={6}
+                    defaultValue={rule.reply}
+                    onBlur={(e) => updateRule(index, { reply: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button className="btn btn-secondary" onClick={addRule} style={{ marginTop: '1rem' }}>➕ إضافة سؤال</button>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveConfig}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ الردود'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetConfig} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { FollowUpSequence, FollowUpStep, RuleMessageType } from '@/lib/types/config';
+
+const TEMPLATE_OPTIONS: { value: RuleMessageType; label: string }[] = [
+  { value: 'newOrder', label: '🆕 طلب جديد' },
+  { value: 'noAnswer', label: '📞 عدم الرد' },
+  { value: 'shipped', label: '🚚 الشحن' },
+  { value: 'rejectedOffer', label: '🎁 العرض الخاص' },
+  { value: 'reminder', label: '⏰ التذكير' }
+];
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+const splitLines = (value: string): string[] =>
+  value.split('\n').map(v => v.trim()).filter(Boolean);
+
+export default function FollowUpSequencesEditor() {
+  const [sequences, setSequences] = useState<FollowUpSequence[]>([]);
+  const [revision, setRevision] = useState(0); // يعيد إنشاء الحقول غير المتحكم بها بعد التحميل
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadSequences();
+  }, []);
+
+  const loadSequences = async () => {
+    try {
+      const response = await fetch('/api/config/follow-up-sequences');
+      const data = await response.json();
+      setSequences(data.sequences || []);
+      setRevision(r => r + 1);
+    } catch (error) {
+      console.error('Error loading follow-up sequences:', error);
+    }
+  };
+
+  const updateSequence = (index: number, patch: Partial<FollowUpSequence>) => {
+    setSequences(prev => prev.map((sequence, i) => (i === index ? { ...sequence, ...patch } : sequence)));
+  };
+
+  const updateStep = (sequenceIndex: number, stepIndex: number, patch: Partial<FollowUpStep>) => {
+    const steps = sequences[sequenceIndex].steps.map((step, i) => (i === stepIndex ? { ...step, ...patch } : step));
+    updateSequence(sequenceIndex, { steps });
+  };
+
+  const addStep = (sequenceIndex: number) => {
+    const steps = sequences[sequenceIndex].steps;
+    const lastDelay = steps.length > 0 ? steps[steps.length - 1].delayHours : 0;
+    updateSequence(sequenceIndex, {
+      steps: [...steps, { id: `step-${steps.length + 1}`, delayHours: lastDelay + 6, message: '' }]
+    });
+  };
+
+  const removeStep = (sequenceIndex: number, stepIndex: number) => {
+    updateSequence(sequenceIndex, { steps: sequences[sequenceIndex].steps.filter((_, i) => i !== stepIndex) });
+  };
+
+  const addSequence = () => {
+    setSequences(prev => [
+      ...prev,
+      {
+        id: `sequence-${Date.now()}`,
+        name: 'تسلسل جديد',
+        enabled: false,
+        entryStatuses: [],
+        steps: [{ id: 'step-1', delayHours: 6, message: '' }]
+      }
+    ]);
+  };
+
+  const removeSequence = (index: number) => {
+    setSequences(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const saveSequences = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/follow-up-sequences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sequences })
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setValidation({ errors: [], warnings: result.warnings || [] });
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      } else {
+        setValidation({ errors: result.errors || [result.error], warnings: result.warnings || [] });
+      }
+    } catch (error) {
+      console.error('Error saving follow-up sequences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetSequences = async () => {
+    if (!confirm('هل تريد استعادة التسلسلات الافتراضية؟')) return;
+    const response = await fetch('/api/config/follow-up-sequences', { method: 'DELETE' });
+    const result = await response.json();
+    setSequences(result.sequences || []);
+    setRevision(r => r + 1);
+    setValidation(null);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--warning-light), rgba(217, 119, 6, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>🔁 تسلسلات المتابعة</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          رسائل متعددة الخطوات تُرسل على فترات - وتُلغى تلقائياً عند تغير حالة الطلب
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+          <strong>💡 كيف تعمل التسلسلات:</strong><br />
+          • يبدأ التسلسل عند دخول الطلب في إحدى حالات البداية<br />
+          • التأخير محسوب بالساعات من لحظة دخول الطلب في الحالة<br />
+          • أي خطوة لم تُرسل بعد تُلغى فور خروج الطلب من حالات البداية<br />
+          • النص المخصص يدعم نفس المتغيرات مثل <code>{'{name}'}</code> و <code>{'{productName}'}</code>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3">
+          {sequences.map((sequence, sequenceIndex) => (
+            <div
+              key={`${sequence.id}-${revision}`}
+              className="card"
+              style={{ padding: '1rem', border: sequence.enabled ? '2px solid var(--primary)' : '1px solid var(--gray-200)' }}
+            >
+              <div className="flex items-center justify-between mb-2" style={{ gap: '0.5rem' }}>
+                <input
+                  className="input"
+                  style={{ fontWeight: 600, maxWidth: '300px' }}
+                  value={sequence.name}
+                  onChange={(e) => updateSequence(sequenceIndex, { name: e.target.value })}
+                />
+                <div className="flex gap-2 items-center">
+                  <label style={{ fontSize: '0.85rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={sequence.enabled}
+                      onChange={(e) => updateSequence(sequenceIndex, { enabled: e.target.checked })}
+                    /> مفعل
+                  </label>
+                  <button className="btn btn-danger" onClick={() => removeSequence(sequenceIndex)}>🗑️</button>
+                </div>
+              </div>
+
+              <div className="mb-2">
+                <label className="label">📋 حالات البداية (سطر لكل حالة)</label>
+                <textarea
+                  className="textarea"
+                  rows={3}
+                  defaultValue={sequence.entryStatuses.join('\n')}
+                  onBlur={(e) => updateSequence(sequenceIndex, { entryStatuses: splitLines(e.target.value) })}
+                />
+              </div>
+
+              <label className="label">🪜 الخطوات</label>
+              {sequence.steps.map((step, stepIndex) => (
+                <div key={stepIndex} className="flex gap-2 mb-2" style={{ flexWrap: 'wrap', alignItems: 'flex-start' }}>
+                  <input
+                    className="input"
+                    style={{ width: '120px' }}
+                    value={step.id}
+                    onChange={(e) => updateStep(sequenceIndex, stepIndex, { id: e.target.value })}
+                  />
+                  <input
+                    type="number"
+                    className="input"
+                    style={{ width: '90px' }}
+                    min="0"
+                    title="التأخير بالساعات"
+                    value={step.delayHours}
+                    onChange={(e) => updateStep(sequenceIndex, stepIndex, { delayHours: Number(e.target.value) })}
+                  />
+                  <select
+                    className="input"
+                    style={{ width: '150px' }}
+                    value={step.template || ''}
+                    onChange={(e) => updateStep(sequenceIndex, stepIndex, { template: (e.target.value || undefined) as RuleMessageType | undefined })}
+                  >
+                    <option value="">✏️ نص مخصص</option>
+                    {TEMPLATE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  {!step.template && (
+                    <textarea
+                      className="textarea"
+                      rows={3}
+                      style={{ flex: '1 1 250px' }}
+                      value={step.message || ''}
+                      onChange={(e) => updateStep(sequenceIndex, stepIndex, { message: e.target.value })}
+                    />
+                  )}
+                  <button className="btn btn-secondary" onClick={() => removeStep(sequenceIndex, stepIndex)}>✖</button>
+                </div>
+              ))}
+              <button className="btn btn-secondary" onClick={() => addStep(sequenceIndex)}>➕ خطوة</button>
+            </div>
+          ))}
+        </div>
+
+        <button className="btn btn-secondary" onClick={addSequence} style={{ marginTop: '1rem' }}>
+          ➕ إضافة تسلسل
+        </button>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء في التسلسلات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem' }}>
+          <button className={`btn ${saved ? 'btn-success' : 'btn-primary'}`} onClick={saveSequences} disabled={loading}>
+            {saved ? '✅ تم الحفظ' : '💾 حفظ التسلسلات'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetSequences} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { MediaAsset, MediaConfig, MediaKind, RuleMessageType, TemplateAttachment } from '@/lib/types/config';
+
+const TEMPLATE_TYPES: { key: RuleMessageType; label: string }[] = [
+  { key: 'newOrder', label: '🆕 طلب جديد' },
+  { key: 'noAnswer', label: '📞 عدم الرد' },
+  { key: 'shipped', label: '🚚 تم الشحن' },
+  { key: 'rejectedOffer', label: '🎁 عرض بعد الرفض' },
+  { key: 'reminder', label: '⏰ تذكير' }
+];
+
+const KIND_LABELS: Record<MediaKind, string> = {
+  image: '🖼️ صورة',
+  document: '📄 PDF',
+  audio: '🎙️ رسالة صوتية'
+};
+
+const ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf,audio/ogg,audio/mpeg,audio/mp4,audio/aac,audio/amr';
+
+const formatSize = (bytes?: number) => (bytes ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : 'رابط');
+
+export default function MediaAttachmentsEditor() {
+  const [config, setConfig] = useState<MediaConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [linkName, setLinkName] = useState('');
+  const [linkUrl, setLinkUrl] = useState('');
+  const [linkKind, setLinkKind] = useState<MediaKind>('image');
+
+  useEffect(() => {
+    loadMedia();
+  }, []);
+
+  const loadMedia = async () => {
+    try {
+      const response = await fetch('/api/config/media');
+      setConfig(await response.json());
+    } catch (error) {
+      console.error('Error loading media settings:', error);
+    }
+  };
+
+  // Library changes are saved right away, so keep unsaved mappings and only refresh the file list
+  const refreshAssets = async () => {
+    const response = await fetch('/api/media');
+    const { assets } = await response.json();
+    setConfig(prev => (prev ? { ...prev, assets } : prev));
+  };
+
+  const addAsset = async (request: RequestInit) => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/media', { method: 'POST', ...request });
+      const result = await response.json();
+      setErrors(response.ok ? [] : [result.error]);
+      if (response.ok) await refreshAssets();
+      return response.ok;
+    } catch (error) {
+      console.error('Error adding media:', error);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uploadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const form = new FormData();
+    form.append('file', file);
+    form.append('name', file.name);
+    await addAsset({ body: form });
+  };
+
+  const addLink = async () => {
+    if (!linkUrl) return;
+    const added = await addAsset({
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: linkName, url: linkUrl, kind: linkKind })
+    });
+    if (added) {
+      setLinkName('');
+      setLinkUrl('');
+    }
+  };
+
+  const removeAsset = async (asset: MediaAsset) => {
+    if (!confirm(`حذف "${asset.name}"؟ سيُزال أيضاً من المنتجات والقوالب التي تستخدمه`)) return;
+    await fetch(`/api/media?id=${asset.id}`, { method: 'DELETE' });
+    await loadMedia();
+  };
+
+  const updateAttachment = (key: RuleMessageType, attachment: TemplateAttachment | undefined) => {
+    if (!config) return;
+    const attachments = { ...config.attachments };
+    if (attachment) attachments[key] = attachment;
+    else delete attachments[key];
+    setConfig({ ...config, attachments });
+  };
+
+  const saveMedia = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/media', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadMedia();
+      }
+    } catch (error) {
+      console.error('Error saving media settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetMedia = async () => {
+    if (!confirm('إزالة كل المرفقات من القوالب وربط صور المنتجات؟ الملفات المرفوعة تبقى في المكتبة')) return;
+    const response = await fetch('/api/config/media', { method: 'DELETE' });
+    const { success, message, ...defaults } = await response.json();
+    if (success) {
+      setConfig(defaults as MediaConfig);
+      setErrors([]);
+      setWarnings([]);
+    }
+  };
+
+  if (!config) return null;
+
+  const images = config.assets.filter(asset => asset.kind === 'image');
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>📎 صور المنتجات والمرفقات</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              أرفق صورة منتج الطلب أو ملف PDF أو رسالة صوتية مع الرسائل الآلية
+            </p>
+          </div>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={config.enabled} onChange={(e) => setConfig({ ...config, enabled: e.target.checked })} />
+            مفعل
+          </label>
+        </div>
+      </div>
+      <div className="card-body">
+        <label className="label">🗂️ مكتبة الملفات</label>
+        <div className="flex gap-2 items-center mb-3" style={{ flexWrap: 'wrap' }}>
+          <label className="btn btn-secondary" style={{ cursor: 'pointer' }}>
+            ⬆️ رفع ملف
+            <input
+              type="file"
+              accept={ACCEPT}
+              style={{ display: 'none' }}
+              disabled={loading}
+              onChange={(e) => {
+                uploadFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <span style={{ color: 'var(--gray-500)', fontSize: '0.85rem' }}>أو رابط:</span>
+          <input className="input" style={{ maxWidth: '150px' }} placeholder="الاسم" value={linkName} onChange={(e) => setLinkName(e.target.value)} />
+          <input className="input" style={{ flex: 1, minWidth: '200px', direction: 'ltr' }} placeholder="https://..." value={linkUrl} onChange={(e) => setLinkUrl(e.target.value)} />
+          <select className="input" style={{ maxWidth: '160px' }} value={linkKind} onChange={(e) => setLinkKind(e.target.value as MediaKind)}>
+            {(Object.keys(KIND_LABELS) as MediaKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+          </select>
+          <button className="btn btn-secondary" onClick={addLink} disabled={loading || !linkUrl}>➕ إضافة</button>
+        </div>
+
+        {config.assets.length === 0 ? (
+          <p style={{ color: 'var(--gray-500)', fontSize: '0.9rem' }}>لا توجد ملفات بعد</p>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))', gap: '1rem', marginBottom: '1.5rem' }}>
+            {config.assets.map(asset => (
+              <div key={asset.id} style={{ border: '1px solid var(--gray-200)', borderRadius: '0.5rem', padding: '0.5rem', fontSize: '0.85rem' }}>
+                {asset.kind === 'image' ? (
+                  <img
+                    src={asset.file ? `/api/media/file?id=${asset.id}` : asset.url}
+                    alt={asset.name}
+                    style={{ width: '100%', height: '100px', objectFit: 'cover', borderRadius: '0.25rem' }}
+                  />
+                ) : (
+                  <div style={{ height: '100px', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '2rem', background: 'var(--gray-50)', borderRadius: '0.25rem' }}>
+                    {asset.kind === 'audio' ? '🎙️' : '📄'}
+                  </div>
+                )}
+                <div style={{ marginTop: '0.25rem', wordBreak: 'break-all' }}>{asset.name}</div>
+                <div className="flex items-center justify-between" style={{ marginTop: '0.25rem' }}>
+                  <span style={{ color: 'var(--gray-500)' }}>{KIND_LABELS[asset.kind]} · {formatSize(asset.size)}</span>
+                  <button className="btn btn-secondary" style={{ padding: '0.1rem 0.4rem' }} onClick={() => removeAsset(asset)}>🗑️</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label className="label">🛍️ صور المنتجات</label>
+        <p style={{ fontSize: '0.85rem', color: 'var(--gray-600)', marginBottom: '0.75rem' }}>
+          يكفي جزء من اسم المنتج كما يظهر في الشيت - يُستخدم أول سطر يطابق
+        </p>
+        <div className="grid grid-cols-1 gap-2">
+          {config.products.map((entry, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <input
+                className="input"
+                style={{ flex: 2 }}
+                placeholder="اسم المنتج"
+                value={entry.product}
+                onChange={(e) => setConfig({ ...config, products: config.products.map((item, i) => (i === index ? { ...item, product: e.target.value } : item)) })}
+              />
+              <select
+                className="input"
+                style={{ flex: 1 }}
+                value={entry.assetId}
+                onChange={(e) => setConfig({ ...config, products: config.products.map((item, i) => (i === index ? { ...item, assetId: e.target.value } : item)) })}
+              >
+                <option value="">اختر صورة</option>
+                {images.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+              </select>
+              <button className="btn btn-secondary" onClick={() => setConfig({ ...config, products: config.products.filter((_, i) => i !== index) })}>🗑️</button>
+            </div>
+          ))}
+        </div>
+        <button
+          className="btn btn-secondary"
+          style={{ marginTop: '0.5rem', marginBottom: '1.5rem' }}
+          onClick={() => setConfig({ ...config, products: [...config.products, { product: '', assetId: images[0]?.id || '' }] })}
+          disabled={images.length === 0}
+        >
+          ➕ ربط منتج بصورة
+        </button>
+
+        <label className="label">✉️ المرفقات في القوالب</label>
+        <div className="grid grid-cols-1 gap-2">
+          {TEMPLATE_TYPES.map(({ key, label }) => {
+            const attachment = config.attachments[key];
+            const value = attachment ? (attachment.source === 'productImage' ? 'productImage' : attachment.assetId || '') : '';
+            return (
+              <div key={key} className="flex gap-2 items-center" style={{ flexWrap: 'wrap' }}>
+                <span style={{ minWidth: '140px' }}>{label}</span>
+                <select
+                  className="input"
+                  style={{ flex: 1, minWidth: '200px' }}
+                  value={value}
+                  onChange={(e) => {
+                    const selected = e.target.value;
+                    const asCaption = attachment?.asCaption ?? true;
+                    updateAttachment(key, !selected
+                      ? undefined
+                      : selected === 'productImage'
+                        ? { source: 'productImage', asCaption }
+                        : { source: 'asset', assetId: selected, asCaption });
+                  }}
+                >
+                  <option value="">بدون مرفق</option>
+                  <option value="productImage">🛍️ صورة منتج الطلب</option>
+                  {config.assets.map(asset => <option key={asset.id} value={asset.id}>{KIND_LABELS[asset.kind]}: {asset.name}</option>)}
+                </select>
+                {attachment && (
+                  <label className="flex items-center gap-2" style={{ fontSize: '0.85rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={attachment.asCaption}
+                      onChange={(e) => updateAttachment(key, { ...attachment, asCaption: e.target.checked })}
+                    />
+                    النص كتعليق على المرفق
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <label className="label" style={{ marginTop: '1.5rem' }}>📏 الحد الأقصى للحجم (ميجابايت)</label>
+        <div className="flex gap-3" style={{ flexWrap: 'wrap' }}>
+          {(Object.keys(KIND_LABELS) as MediaKind[]).map(kind => (
+            <div key={kind} className="flex gap-2 items-center">
+              <span>{KIND_LABELS[kind]}</span>
+              <input
+                type="number"
+                className="input"
+                style={{ width: '90px' }}
+                min={1}
+                max={100}
+                value={config.maxSizeMb[kind]}
+                onChange={(e) => setConfig({ ...config, maxSizeMb: { ...config.maxSizeMb, [kind]: Number(e.target.value) } })}
+              />
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveMedia}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ المرفقات'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetMedia} disabled={loading}>
+            🔄 بدون مرفقات
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
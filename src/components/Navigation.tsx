@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import type { Tenant } from '@/lib/types/config';
 
 interface NavigationProps {
   isMobile?: boolean;
@@ -9,6 +10,18 @@ interface NavigationProps {
 const Navigation = ({ isMobile = false }: NavigationProps) => {
   const [currentPath, setCurrentPath] = useState('');
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [currentTenant, setCurrentTenant] = useState('');
+
+  useEffect(() => {
+    fetch('/api/tenants')
+      .then(response => response.json())
+      .then(({ tenants, current }) => {
+        setTenants(tenants || []);
+        setCurrentTenant(current || '');
+      })
+      .catch(error => console.error('Error loading stores:', error));
+  }, []);
 
   useEffect(() => {
     // Update current path on client side only
@@ -46,10 +59,54 @@ const Navigation = ({ isMobile = false }: NavigationProps) => {
   const navItems = [
     { href: '/', icon: '📊', text: 'لوحة المراقبة' },
     { href: '/orders', icon: '📦', text: 'إدارة الطلبات' },
+    { href: '/inbox', icon: '📥', text: 'صندوق الرسائل' },
     { href: '/settings', icon: '⚙️', text: 'الإعدادات' },
     { href: '/whatsapp-diagnostics', icon: '🔧', text: 'تشخيص النظام' }
   ];
 
+  // The store is remembered in a cookie that every API route reads
+  const switchTenant = (id: string) => {
+    document.cookie = `tenant=${id}; path=/; max-age=31536000`;
+    window.location.reload();
+  };
+
+  const createTenant = async () => {
+    const name = prompt('اسم المتجر الجديد');
+    if (!name) return;
+    const id = prompt('معرف المتجر (حروف إنجليزية صغيرة وأرقام وشرطات)', name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''));
+    if (!id) return;
+    try {
+      const response = await fetch('/api/tenants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, name })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        alert(`❌ ${(result.errors || [result.error]).join('\n')}`);
+        return;
+      }
+      switchTenant(result.tenant.id);
+    } catch (error) {
+      console.error('Error creating store:', error);
+    }
+  };
+
+  const storeSwitcher = (
+    <select
+      className="input"
+      value={currentTenant}
+      onChange={(e) => (e.target.value === '__new' ? createTenant() : switchTenant(e.target.value))}
+      aria-label="المتجر"
+      style={{ width: 'auto', minWidth: '150px', padding: '0.4rem 0.75rem' }}
+    >
+      {tenants.map(tenant => (
+        <option key={tenant.id} value={tenant.id}>🏪 {tenant.name}</option>
+      ))}
+      <option value="__new">➕ متجر جديد</option>
+    </select>
+  );
+
   const isActive = (href: string) => {
     if (href === '/' && currentPath === '/') return true;
     if (href !== '/' && currentPath.startsWith(href)) return true;
@@ -108,6 +165,9 @@ const Navigation = ({ isMobile = false }: NavigationProps) => {
 
           {/* محتوى القائمة */}
           <div className="mobile-menu-content">
+            {/* المتجر الحالي */}
+            <div style={{ marginBottom: '1rem' }}>{storeSwitcher}</div>
+
             {/* مؤشر الحالة للموبايل */}
             <div className="status-indicator status-online" style={{ marginBottom: '1.5rem', width: '100%', justifyContent: 'center' }}>
               <span>●</span>
@@ -172,6 +232,7 @@ const Navigation = ({ isMobile = false }: NavigationProps) => {
           </a>
         </li>
       ))}
+      <li style={{ display: 'flex', alignItems: 'center' }}>{storeSwitcher}</li>
     </ul>
   );
 };
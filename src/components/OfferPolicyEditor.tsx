@@ -0,0 +1,269 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { OfferPolicyConfig, DiscountTier, DiscountValue, DiscountKind } from '@/lib/types/config';
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+const splitLines = (value: string): string[] =>
+  value.split('\n').map(v => v.trim()).filter(Boolean);
+
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Number(value);
+
+function DiscountInput({ discount, onChange }: { discount: DiscountValue; onChange: (discount: DiscountValue) => void }) {
+  return (
+    <div className="flex gap-1 items-center">
+      <input
+        type="number"
+        className="input"
+        style={{ width: '90px' }}
+        min={0}
+        value={discount.value}
+        onChange={(e) => onChange({ ...discount, value: Number(e.target.value) })}
+      />
+      <select
+        className="input"
+        style={{ width: '100px' }}
+        value={discount.kind}
+        onChange={(e) => onChange({ ...discount, kind: e.target.value as DiscountKind })}
+      >
+        <option value="percent">%</option>
+        <option value="fixed">جنيه</option>
+      </select>
+    </div>
+  );
+}
+
+export default function OfferPolicyEditor() {
+  const [policy, setPolicy] = useState<OfferPolicyConfig | null>(null);
+  const [revision, setRevision] = useState(0); // يعيد إنشاء الحقول غير المتحكم بها بعد التحميل
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      const response = await fetch('/api/config/offer-policy');
+      setPolicy(await response.json());
+      setRevision(r => r + 1);
+    } catch (error) {
+      console.error('Error loading offer policy:', error);
+    }
+  };
+
+  const update = (patch: Partial<OfferPolicyConfig>) => {
+    setPolicy(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateTier = (index: number, patch: Partial<DiscountTier>) => {
+    if (!policy) return;
+    update({ tiers: policy.tiers.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)) });
+  };
+
+  const addTier = () => {
+    if (!policy) return;
+    const tier: DiscountTier = policy.tierBy === 'product'
+      ? { id: `tier-${policy.tiers.length + 1}`, kind: 'percent', value: 15, products: [] }
+      : { id: `tier-${policy.tiers.length + 1}`, kind: 'percent', value: 15, minTotal: 0 };
+    update({ tiers: [...policy.tiers, tier] });
+  };
+
+  const savePolicy = async () => {
+    if (!policy) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/offer-policy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(policy)
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving offer policy:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!policy) return null;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--success-light), rgba(5, 150, 105, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>🎁 سياسة عرض الطلبات المرفوضة</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          قيمة الخصم في رسالة العرض الخاص واسم المتجر - يُرسل العرض بعد مدة "تأخير العرض الخاص" في التوقيتات
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+          <strong>💡 متغيرات العرض:</strong><br />
+          • <code>{'{discount}'}</code> قيمة الخصم (مثلاً 20% أو 50 جنيه) •{' '}
+          <code>{'{amount}'}</code> المبلغ الأصلي •{' '}
+          <code>{'{discountedAmount}'}</code> بعد الخصم •{' '}
+          <code>{'{savedAmount}'}</code> قيمة التوفير •{' '}
+          <code>{'{companyName}'}</code> اسم المتجر •{' '}
+          <code>{'{couponCode}'}</code> كود خصم فريد •{' '}
+          <code>{'{couponExpiry}'}</code> تاريخ انتهاء الكود<br />
+          ضع الكود في سطر مستقل - عند إيقاف الأكواد يُحذف هذا السطر من الرسالة
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          <div>
+            <label className="label">🏢 اسم المتجر</label>
+            <input
+              className="input"
+              value={policy.companyName}
+              onChange={(e) => update({ companyName: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="label">📊 الشرائح حسب</label>
+            <select
+              className="input"
+              value={policy.tierBy}
+              onChange={(e) => update({ tierBy: e.target.value as OfferPolicyConfig['tierBy'] })}
+            >
+              <option value="totalPrice">قيمة الطلب</option>
+              <option value="product">المنتج</option>
+            </select>
+          </div>
+          <div>
+            <label className="label">🏷️ الخصم الافتراضي</label>
+            <DiscountInput discount={policy.defaultDiscount} onChange={(defaultDiscount) => update({ defaultDiscount })} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          <div>
+            <label className="label">🎟️ أكواد الخصم</label>
+            <label style={{ display: 'block' }}>
+              <input
+                type="checkbox"
+                checked={policy.coupon.enabled}
+                onChange={(e) => update({ coupon: { ...policy.coupon, enabled: e.target.checked } })}
+              /> إصدار كود فريد لكل طلب مرفوض ({'{couponCode}'} و {'{couponExpiry}'})
+            </label>
+          </div>
+          <div>
+            <label className="label">🔤 بداية الكود</label>
+            <input
+              className="input"
+              style={{ fontFamily: 'monospace' }}
+              value={policy.coupon.prefix}
+              onChange={(e) => update({ coupon: { ...policy.coupon, prefix: e.target.value.toUpperCase() } })}
+            />
+          </div>
+          <div>
+            <label className="label">📅 صلاحية الكود (أيام)</label>
+            <input
+              type="number"
+              className="input"
+              min={1}
+              max={365}
+              value={policy.coupon.validityDays}
+              onChange={(e) => update({ coupon: { ...policy.coupon, validityDays: Number(e.target.value) } })}
+            />
+          </div>
+        </div>
+
+        <label className="label">🪜 الشرائح (أول شريحة مطابقة هي المستخدمة)</label>
+        {policy.tiers.length === 0 && (
+          <p style={{ fontSize: '0.85rem', color: 'var(--gray-500)' }}>لا توجد شرائح - يُطبق الخصم الافتراضي على كل الطلبات</p>
+        )}
+        {policy.tiers.map((tier, index) => (
+          <div key={`${index}-${revision}`} className="flex gap-2 mb-2" style={{ flexWrap: 'wrap', alignItems: 'flex-start' }}>
+            <input
+              className="input"
+              style={{ width: '120px' }}
+              value={tier.id}
+              onChange={(e) => updateTier(index, { id: e.target.value })}
+            />
+            {policy.tierBy === 'totalPrice' ? (
+              <div className="flex gap-1 items-center">
+                <input
+                  type="number"
+                  className="input"
+                  style={{ width: '110px' }}
+                  placeholder="من"
+                  defaultValue={tier.minTotal ?? ''}
+                  onBlur={(e) => updateTier(index, { minTotal: parseOptionalNumber(e.target.value) })}
+                />
+                <span>→</span>
+                <input
+                  type="number"
+                  className="input"
+                  style={{ width: '110px' }}
+                  placeholder="إلى"
+                  defaultValue={tier.maxTotal ?? ''}
+                  onBlur={(e) => updateTier(index, { maxTotal: parseOptionalNumber(e.target.value) })}
+                />
+                <span style={{ fontSize: '0.8rem', color: 'var(--gray-500)' }}>جنيه</span>
+              </div>
+            ) : (
+              <textarea
+                className="textarea"
+                rows={2}
+                style={{ flex: 1, minWidth: '200px' }}
+                placeholder="اسم منتج في كل سطر"
+                defaultValue={(tier.products || []).join('\n')}
+                onBlur={(e) => updateTier(index, { products: splitLines(e.target.value) })}
+              />
+            )}
+            <DiscountInput discount={tier} onChange={(discount) => updateTier(index, discount)} />
+            <button
+              className="btn btn-danger"
+              onClick={() => update({ tiers: policy.tiers.filter((_, i) => i !== index) })}
+            >
+              🗑️
+            </button>
+          </div>
+        ))}
+        <button className="btn btn-secondary" onClick={addTier}>➕ إضافة شريحة</button>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={savePolicy}
+            disabled={loading}
+            style={{ marginTop: '1.5rem' }}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ سياسة العرض'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
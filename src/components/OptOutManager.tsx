@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { OptOutConfig } from '@/lib/types/config';
+import type { OptOutEntry } from '@/lib/services/opt-out';
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+const SOURCE_LABELS: Record<OptOutEntry['source'], string> = {
+  keyword: '💬 رسالة العميل',
+  manual: '✋ يدوي',
+  import: '📥 استيراد'
+};
+
+export default function OptOutManager() {
+  const [config, setConfig] = useState<OptOutConfig | null>(null);
+  const [keywordsText, setKeywordsText] = useState('');
+  const [entries, setEntries] = useState<OptOutEntry[]>([]);
+  const [phone, setPhone] = useState('');
+  const [importText, setImportText] = useState('');
+  const [search, setSearch] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'danger'; text: string } | null>(null);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    loadConfig();
+    loadEntries();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const response = await fetch('/api/config/opt-out');
+      const data: OptOutConfig = await response.json();
+      setConfig(data);
+      setKeywordsText((data.keywords || []).join('\n'));
+    } catch (error) {
+      console.error('Error loading opt-out settings:', error);
+    }
+  };
+
+  const loadEntries = async () => {
+    try {
+      const response = await fetch('/api/opt-out');
+      const data = await response.json();
+      if (data.success) setEntries(data.entries);
+    } catch (error) {
+      console.error('Error loading opt-out list:', error);
+    }
+  };
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/opt-out', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...config, keywords: keywordsText.split('\n').map(k => k.trim()).filter(Boolean) })
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving opt-out settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (request: Promise<Response>) => {
+    setLoading(true);
+    try {
+      const response = await request;
+      const data = await response.json();
+      setMessage({ type: data.success ? 'success' : 'danger', text: data.message || data.error });
+      if (data.success) await loadEntries();
+      return data.success as boolean;
+    } catch (error) {
+      console.error('Error updating opt-out list:', error);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addPhone = async () => {
+    if (!phone.trim()) return;
+    const ok = await runAction(fetch('/api/opt-out', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ phone })
+    }));
+    if (ok) setPhone('');
+  };
+
+  const removePhone = async (entryPhone: string) => {
+    if (!confirm(`السماح بالرسائل للرقم ${entryPhone} مرة أخرى؟`)) return;
+    await runAction(fetch(`/api/opt-out?phone=${encodeURIComponent(entryPhone)}`, { method: 'DELETE' }));
+  };
+
+  const importPhones = async () => {
+    if (!importText.trim()) return;
+    const ok = await runAction(fetch('/api/opt-out/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: importText })
+    }));
+    if (ok) setImportText('');
+  };
+
+  const loadImportFile = async (file: File | undefined) => {
+    if (file) setImportText(await file.text());
+  };
+
+  if (!config) return null;
+
+  const visibleEntries = entries.filter(entry => !search.trim() || entry.phone.includes(search.replace(/\D/g, '')));
+
+  return (
+    <div>
+      <div className="card">
+        <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--danger-light), rgba(220, 38, 38, 0.1))' }}>
+          <h3 style={{ marginBottom: '0.5rem' }}>🚫 إيقاف الرسائل بطلب العميل</h3>
+          <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+            الأرقام في القائمة لا تستلم أي رسالة - حتى الرسائل المجدولة قبل الإيقاف
+          </p>
+        </div>
+        <div className="card-body">
+          <label style={{ display: 'block', marginBottom: '1rem' }}>
+            <input type="checkbox" checked={config.enabled} onChange={(e) => setConfig({ ...config, enabled: e.target.checked })} /> تسجيل الإيقاف تلقائياً عندما يرسل العميل إحدى الكلمات
+          </label>
+
+          <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem' }}>
+            <div>
+              <label className="label">🔑 كلمات الإيقاف (كلمة أو عبارة في كل سطر)</label>
+              <textarea
+                className="textarea"
+                rows={6}
+                value={keywordsText}
+                onChange={(e) => setKeywordsText(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="label">✉️ رد التأكيد (فارغ = بدون رد)</label>
+              <textarea
+                className="textarea"
+                rows={6}
+                value={config.confirmationMessage}
+                onChange={(e) => setConfig({ ...config, confirmationMessage: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {validation && validation.errors.length > 0 && (
+            <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+              <strong>❌ أخطاء:</strong>
+              <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+                {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {validation && validation.warnings.length > 0 && (
+            <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+              <strong>⚠️ تحذيرات:</strong>
+              <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+                {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveConfig}
+            disabled={loading}
+            style={{ marginTop: '1.5rem' }}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ الإعدادات'}
+          </button>
+        </div>
+      </div>
+
+      <div className="card" style={{ marginTop: '1.5rem' }}>
+        <div className="card-header">
+          <h3 style={{ marginBottom: '0.5rem' }}>📋 قائمة الإيقاف ({entries.length})</h3>
+        </div>
+        <div className="card-body">
+          <div className="flex gap-2 items-center mb-3" style={{ flexWrap: 'wrap' }}>
+            <input
+              className="input"
+              style={{ maxWidth: '220px', fontFamily: 'monospace' }}
+              placeholder="01XXXXXXXXX"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addPhone()}
+            />
+            <button className="btn btn-danger" onClick={addPhone} disabled={loading}>🚫 إضافة للقائمة</button>
+            <a className="btn btn-secondary" href="/api/opt-out/export" style={{ marginRight: 'auto' }}>📤 تصدير CSV</a>
+          </div>
+
+          <label className="label">📥 استيراد (رقم في كل سطر أو ملف CSV مُصدّر)</label>
+          <div className="flex gap-2 mb-3" style={{ flexWrap: 'wrap', alignItems: 'flex-start' }}>
+            <textarea
+              className="textarea"
+              rows={3}
+              style={{ flex: 1, minWidth: '220px', fontFamily: 'monospace' }}
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <div className="flex gap-2" style={{ flexDirection: 'column' }}>
+              <input type="file" accept=".csv,.txt" onChange={(e) => loadImportFile(e.target.files?.[0])} />
+              <button className="btn btn-secondary" onClick={importPhones} disabled={loading || !importText.trim()}>📥 استيراد</button>
+            </div>
+          </div>
+
+          {message && (
+            <div className={`alert alert-${message.type} mb-3`} style={{ fontSize: '0.85rem' }}>
+              {message.text}
+            </div>
+          )}
+
+          <input
+            className="input mb-2"
+            style={{ maxWidth: '220px' }}
+            placeholder="🔍 بحث برقم"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          {visibleEntries.length === 0 ? (
+            <p style={{ fontSize: '0.85rem', color: 'var(--gray-500)' }}>لا توجد أرقام</p>
+          ) : (
+            <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
+              {visibleEntries.map(entry => (
+                <div key={entry.phone} className="flex gap-2 items-center" style={{ padding: '0.5rem 0', borderBottom: '1px solid var(--gray-200)', fontSize: '0.85rem', flexWrap: 'wrap' }}>
+                  <code>{entry.phone}</code>
+                  <span className="badge badge-secondary">{SOURCE_LABELS[entry.source]}</span>
+                  {entry.keyword && <span>"{entry.keyword}"</span>}
+                  {entry.note && <span style={{ color: 'var(--gray-600)' }}>{entry.note}</span>}
+                  <span style={{ color: 'var(--gray-500)' }}>{new Date(entry.optedOutAt).toLocaleString('ar-EG')}</span>
+                  <button className="btn btn-secondary" style={{ marginRight: 'auto', padding: '0.25rem 0.5rem' }} onClick={() => removePhone(entry.phone)}>
+                    ↩️ السماح
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+interface TimelineEvent {
+  type: string;
+  timestamp: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+interface OrderState {
+  status: string;
+  firstSeenAt: number;
+  lastStatusChangeAt: number;
+  isFinal?: boolean;
+  sentMessages: Record<string, number>;
+}
+
+interface PendingJob {
+  queue: string;
+  dueAt: number;
+  messageType?: string;
+  sequenceId?: string;
+  stepId?: string;
+}
+
+interface OrderTimelineDrawerProps {
+  orderId: string;
+  customerName: string;
+  onClose: () => void;
+}
+
+const EVENT_ICONS: Record<string, string> = {
+  first_seen: '🆕',
+  status_changed: '🔄',
+  phone_sanitized: '📱',
+  whatsapp_validated: '💬',
+  job_enqueued: '📥',
+  job_deferred: '🌙',
+  message_sent: '✅',
+  message_failed: '❌',
+  reminder_scheduled: '⏰',
+  reminder_cancelled: '🗑️',
+  reply_received: '📩',
+  reply_action: '👍',
+  flow_started: '📋',
+  flow_answer: '📝',
+  flow_ended: '🏁'
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('ar-EG');
+
+export default function OrderTimelineDrawer({ orderId, customerName, onClose }: OrderTimelineDrawerProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [state, setState] = useState<OrderState | null>(null);
+  const [pending, setPending] = useState<PendingJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTimeline = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/timeline`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'فشل تحميل السجل');
+        setEvents(data.events || []);
+        setState(data.state);
+        setPending(data.pending || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'فشل تحميل السجل');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTimeline();
+  }, [orderId]);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, background: 'rgba(0, 0, 0, 0.3)', zIndex: 100 }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'absolute',
+          top: 0,
+          bottom: 0,
+          left: 0,
+          width: 'min(480px, 100%)',
+          background: 'var(--white)',
+          boxShadow: 'var(--shadow-lg)',
+          overflowY: 'auto',
+          padding: '1.5rem'
+        }}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 style={{ marginBottom: '0.25rem' }}>🕒 سجل الطلب</h3>
+            <div style={{ fontSize: '0.85rem', color: 'var(--gray-600)' }}>
+              {customerName} — <span style={{ fontFamily: 'monospace' }}>{orderId}</span>
+            </div>
+          </div>
+          <button className="btn btn-secondary" onClick={onClose}>✖</button>
+        </div>
+
+        {state && (
+          <div className="alert alert-primary mb-3" style={{ fontSize: '0.85rem' }}>
+            <div><strong>الحالة الحالية:</strong> {state.status || 'فارغة'} {state.isFinal && <span className="badge badge-secondary">🏁 نهائية</span>}</div>
+            <div><strong>أول ظهور:</strong> {formatTime(state.firstSeenAt)}</div>
+            <div><strong>آخر تغيير للحالة:</strong> {formatTime(state.lastStatusChangeAt)}</div>
+          </div>
+        )}
+
+        {pending.length > 0 && (
+          <div className="mb-3">
+            <h4 style={{ marginBottom: '0.5rem' }}>⏳ رسائل مجدولة ({pending.length})</h4>
+            {pending.map((job, index) => (
+              <div key={index} style={{ fontSize: '0.85rem', padding: '0.5rem 0', borderBottom: '1px solid var(--gray-200)' }}>
+                <span className="badge badge-warning" style={{ fontSize: '0.7rem' }}>
+                  {job.sequenceId ? `${job.sequenceId} / ${job.stepId}` : job.messageType || job.queue}
+                </span>
+                <span style={{ marginRight: '0.5rem', color: 'var(--gray-600)' }}>{formatTime(job.dueAt)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center" style={{ padding: '2rem' }}>
+            <div className="loading" style={{ width: '40px', height: '40px', margin: '0 auto' }}></div>
+          </div>
+        ) : error ? (
+          <div className="alert alert-danger">{error}</div>
+        ) : events.length === 0 ? (
+          <div className="text-center" style={{ padding: '2rem', color: 'var(--gray-500)' }}>
+            لا توجد أحداث مسجلة لهذا الطلب بعد
+          </div>
+        ) : (
+          <div style={{ borderRight: '2px solid var(--gray-200)', paddingRight: '1rem' }}>
+            {events.map((event, index) => (
+              <div key={index} style={{ marginBottom: '1rem', position: 'relative' }}>
+                <div style={{ fontWeight: 600 }}>
+                  {EVENT_ICONS[event.type] || '•'} {event.message}
+                </div>
+                <div style={{ fontSize: '0.75rem', color: 'var(--gray-500)' }}>{formatTime(event.timestamp)}</div>
+                {event.details && Object.keys(event.details).length > 0 && (
+                  <div style={{ fontSize: '0.75rem', color: 'var(--gray-600)', fontFamily: 'monospace', marginTop: '0.25rem' }}>
+                    {Object.entries(event.details).map(([key, value]) => (
+                      <div key={key}>{key}: {String(value)}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
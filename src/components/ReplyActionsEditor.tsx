@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { ReplyActionsConfig } from '@/lib/types/config';
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+export default function ReplyActionsEditor() {
+  const [config, setConfig] = useState<ReplyActionsConfig | null>(null);
+  const [confirmText, setConfirmText] = useState('');
+  const [cancelText, setCancelText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const response = await fetch('/api/config/reply-actions');
+      const data: ReplyActionsConfig = await response.json();
+      setConfig(data);
+      setConfirmText((data.confirmKeywords || []).join('\n'));
+      setCancelText((data.cancelKeywords || []).join('\n'));
+    } catch (error) {
+      console.error('Error loading reply actions:', error);
+    }
+  };
+
+  const update = (patch: Partial<ReplyActionsConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const toKeywords = (text: string) => text.split('\n').map(k => k.trim()).filter(Boolean);
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/reply-actions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...config, confirmKeywords: toKeywords(confirmText), cancelKeywords: toKeywords(cancelText) })
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving reply actions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--success-light), rgba(5, 150, 105, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>✅ تأكيد وإلغاء الطلب برد العميل</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          عندما يرد العميل بكلمة تأكيد أو إلغاء يتم تحديث أحدث طلب معلق له وإرسال رد
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="flex gap-3 mb-3" style={{ flexWrap: 'wrap' }}>
+          <label>
+            <input type="checkbox" checked={config.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل الكلمات
+          </label>
+          <label>
+            <input type="checkbox" checked={config.writeToSheet} onChange={(e) => update({ writeToSheet: e.target.checked })} /> تحديث الحالة وإضافة ملاحظة في الشيت
+          </label>
+        </div>
+
+        {!config.writeToSheet && (
+          <div className="alert alert-warning mb-3" style={{ fontSize: '0.9rem' }}>
+            🔒 الشيت للقراءة فقط لهذا المتجر - يتم تسجيل الرد في سجل الطلب فقط ولا يتغير الطلب، لذلك يصل للعميل الرد المحايد بالأسفل بدلاً من رد التأكيد أو الإلغاء
+            <label className="label" style={{ marginTop: '0.75rem' }}>✉️ الرد المحايد (فارغ = بدون رد)</label>
+            <textarea className="textarea" rows={2} value={config.pendingAck || ''} onChange={(e) => update({ pendingAck: e.target.value })} />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem' }}>
+          <div>
+            <label className="label">👍 كلمات التأكيد (كلمة أو عبارة في كل سطر)</label>
+            <textarea className="textarea" rows={4} value={confirmText} onChange={(e) => setConfirmText(e.target.value)} />
+            <label className="label" style={{ marginTop: '1rem' }}>📋 الحالة بعد التأكيد</label>
+            <input className="input" value={config.confirmedStatus} onChange={(e) => update({ confirmedStatus: e.target.value })} />
+            <label className="label" style={{ marginTop: '1rem' }}>✉️ رد التأكيد (فارغ = بدون رد)</label>
+            <textarea className="textarea" rows={3} value={config.confirmAck} onChange={(e) => update({ confirmAck: e.target.value })} />
+          </div>
+          <div>
+            <label className="label">👎 كلمات الإلغاء (كلمة أو عبارة في كل سطر)</label>
+            <textarea className="textarea" rows={4} value={cancelText} onChange={(e) => setCancelText(e.target.value)} />
+            <label className="label" style={{ marginTop: '1rem' }}>📋 الحالة بعد الإلغاء</label>
+            <input className="input" value={config.cancelledStatus} onChange={(e) => update({ cancelledStatus: e.target.value })} />
+            <label className="label" style={{ marginTop: '1rem' }}>✉️ رد الإلغاء (فارغ = بدون رد)</label>
+            <textarea className="textarea" rows={3} value={config.cancelAck} onChange={(e) => update({ cancelAck: e.target.value })} />
+          </div>
+        </div>
+
+        <p style={{ fontSize: '0.85rem', color: 'var(--gray-500)', marginTop: '1rem' }}>
+          المتغيرات المتاحة في الرد: {'{name}'} {'{orderId}'} {'{productName}'} • الطلبات غير المعلقة (مؤكدة، مشحونة...) لا تتغير • "مش تمام" لا تُحتسب تأكيداً
+        </p>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <button
+          className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+          onClick={saveConfig}
+          disabled={loading}
+          style={{ marginTop: '1.5rem' }}
+        >
+          {saved ? '✅ تم الحفظ' : '💾 حفظ الإعدادات'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { SendRateConfig } from '@/lib/types/config';
+import type { SendGovernorStatus } from '@/lib/services/send-governor';
+
+const NUMBER_FIELDS: { key: keyof SendRateConfig; label: string; min: number; max: number; hint?: string }[] = [
+  { key: 'maxPerMinute', label: '⏱️ أقصى عدد رسائل في الدقيقة', min: 1, max: 60 },
+  { key: 'maxPerHour', label: '🕐 أقصى عدد رسائل في الساعة', min: 1, max: 3600 },
+  { key: 'maxPerDay', label: '📅 أقصى عدد رسائل في اليوم', min: 1, max: 50000, hint: 'آخر 24 ساعة وليس اليوم التقويمي' },
+  { key: 'minGapSeconds', label: '⏳ أقل فاصل بين رسالتين (ثانية)', min: 0, max: 3600 },
+  { key: 'maxGapSeconds', label: '⌛ أكبر فاصل بين رسالتين (ثانية)', min: 0, max: 3600, hint: 'الفاصل الفعلي عشوائي بين القيمتين' }
+];
+
+const PAUSE_FIELDS: { key: keyof SendRateConfig; label: string; min: number; max: number }[] = [
+  { key: 'failureRatePercent', label: '📉 نسبة الفشل للإيقاف (%)', min: 1, max: 100 },
+  { key: 'failureWindow', label: '🔢 على آخر كم محاولة', min: 2, max: 500 },
+  { key: 'pauseMinutes', label: '⏸️ مدة الإيقاف (دقائق)', min: 1, max: 1440 }
+];
+
+export default function SendRateEditor() {
+  const [config, setConfig] = useState<SendRateConfig | null>(null);
+  const [status, setStatus] = useState<SendGovernorStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadSendRate();
+  }, []);
+
+  const loadSendRate = async () => {
+    try {
+      const response = await fetch('/api/config/timing/send-rate');
+      const { status: governorStatus, ...data } = await response.json();
+      setConfig(data);
+      setStatus(governorStatus);
+    } catch (error) {
+      console.error('Error loading send rate:', error);
+    }
+  };
+
+  const update = (patch: Partial<SendRateConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const saveSendRate = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/timing/send-rate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadSendRate();
+      }
+    } catch (error) {
+      console.error('Error saving send rate:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setPaused = async (paused: boolean) => {
+    try {
+      const response = await fetch('/api/config/timing/send-rate', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paused })
+      });
+      const result = await response.json();
+      if (result.success) setStatus(result.status);
+    } catch (error) {
+      console.error('Error updating send pause:', error);
+    }
+  };
+
+  const resetSendRate = async () => {
+    if (!confirm('هل تريد استعادة حدود الإرسال الافتراضية؟')) return;
+    const response = await fetch('/api/config/timing/send-rate', { method: 'DELETE' });
+    const { success, message, ...defaults } = await response.json();
+    if (success) {
+      setConfig(defaults as SendRateConfig);
+      setErrors([]);
+      setWarnings([]);
+    }
+  };
+
+  if (!config) return null;
+
+  const numberInput = ({ key, label, min, max, hint }: { key: keyof SendRateConfig; label: string; min: number; max: number; hint?: string }) => (
+    <div key={key}>
+      <label className="label">{label}</label>
+      <input
+        type="number"
+        className="input"
+        min={min}
+        max={max}
+        value={config[key] as number}
+        onChange={(e) => update({ [key]: Number(e.target.value) } as Partial<SendRateConfig>)}
+      />
+      {hint && (
+        <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginTop: '0.25rem' }}>{hint}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--secondary-light), rgba(100, 116, 139, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>🐢 سرعة الإرسال والحماية من الحظر</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              الرسائل الزائدة عن الحد لا تُحذف بل تؤجل حتى يتوفر رصيد
+            </p>
+          </div>
+          {status && (
+            <span className={`badge ${status.paused ? 'badge-danger' : status.enabled ? 'badge-success' : 'badge-warning'}`}>
+              {status.paused
+                ? `⏸️ متوقف حتى ${status.pausedUntil ? new Date(status.pausedUntil).toLocaleString('ar-EG') : '—'}`
+                : status.enabled ? '🟢 الإرسال يعمل' : '⚠️ بدون حدود'}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="card-body">
+        {status && (
+          <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+            <strong>📊 الرصيد الحالي:</strong><br />
+            • الدقيقة: {status.budget.minute.used} / {status.budget.minute.limit}
+            {' '}• الساعة: {status.budget.hour.used} / {status.budget.hour.limit}
+            {' '}• اليوم: {status.budget.day.used} / {status.budget.day.limit}<br />
+            • نسبة الفشل الأخيرة: {status.recentFailureRate}% من {status.recentAttempts} محاولة
+            {status.nextSendAt && <><br />• الرسالة التالية بعد: {new Date(status.nextSendAt).toLocaleTimeString('ar-EG')}</>}
+            {status.paused && status.pauseReason && <><br />• سبب الإيقاف: {status.pauseReason}</>}
+          </div>
+        )}
+
+        <div className="flex gap-3 mb-3" style={{ flexWrap: 'wrap' }}>
+          <label>
+            <input type="checkbox" checked={config.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل حدود الإرسال
+          </label>
+          <label>
+            <input type="checkbox" checked={config.typingIndicator} onChange={(e) => update({ typingIndicator: e.target.checked })} /> إظهار "يكتب..." قبل الرسالة
+          </label>
+          <label>
+            <input type="checkbox" checked={config.autoPause} onChange={(e) => update({ autoPause: e.target.checked })} /> إيقاف تلقائي عند ارتفاع الفشل
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          {NUMBER_FIELDS.map(numberInput)}
+        </div>
+
+        {config.autoPause && (
+          <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem' }}>
+            {PAUSE_FIELDS.map(numberInput)}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveSendRate}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ حدود الإرسال'}
+          </button>
+          {status?.paused ? (
+            <button className="btn btn-success" onClick={() => setPaused(false)}>▶️ استئناف الإرسال</button>
+          ) : (
+            <button className="btn btn-warning" onClick={() => setPaused(true)}>⏸️ إيقاف الإرسال مؤقتاً</button>
+          )}
+          <button className="btn btn-secondary" onClick={resetSendRate} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { SendWindowsConfig, TimeRange, Weekday } from '@/lib/types/config';
+
+const WEEKDAY_LABELS: { key: Weekday; label: string }[] = [
+  { key: 'sat', label: 'السبت' },
+  { key: 'sun', label: 'الأحد' },
+  { key: 'mon', label: 'الاثنين' },
+  { key: 'tue', label: 'الثلاثاء' },
+  { key: 'wed', label: 'الأربعاء' },
+  { key: 'thu', label: 'الخميس' },
+  { key: 'fri', label: 'الجمعة' }
+];
+
+interface WindowStatus {
+  isOpen: boolean;
+  nextOpening: string | null;
+}
+
+function RangesInput({ ranges, onChange }: { ranges: TimeRange[]; onChange: (ranges: TimeRange[]) => void }) {
+  return (
+    <div className="flex gap-2 items-center" style={{ flexWrap: 'wrap' }}>
+      {ranges.map((range, index) => (
+        <div key={index} className="flex gap-1 items-center">
+          <input
+            type="time"
+            className="input"
+            style={{ width: '110px' }}
+            value={range.start}
+            onChange={(e) => onChange(ranges.map((r, i) => (i === index ? { ...r, start: e.target.value } : r)))}
+          />
+          <span>→</span>
+          <input
+            type="time"
+            className="input"
+            style={{ width: '110px' }}
+            value={range.end}
+            onChange={(e) => onChange(ranges.map((r, i) => (i === index ? { ...r, end: e.target.value } : r)))}
+          />
+          <button className="btn btn-secondary" onClick={() => onChange(ranges.filter((_, i) => i !== index))}>✖</button>
+        </div>
+      ))}
+      <button className="btn btn-secondary" onClick={() => onChange([...ranges, { start: '10:00', end: '22:00' }])}>➕</button>
+      {ranges.length === 0 && <span style={{ fontSize: '0.8rem', color: 'var(--gray-500)' }}>لا إرسال</span>}
+    </div>
+  );
+}
+
+export default function SendWindowsEditor() {
+  const [config, setConfig] = useState<SendWindowsConfig | null>(null);
+  const [status, setStatus] = useState<WindowStatus | null>(null);
+  const [holidaysText, setHolidaysText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadSendWindows();
+  }, []);
+
+  const loadSendWindows = async () => {
+    try {
+      const response = await fetch('/api/config/timing/send-windows');
+      const { status: windowStatus, ...data } = await response.json();
+      setConfig(data);
+      setStatus(windowStatus);
+      setHolidaysText((data.holidays || []).join('\n'));
+    } catch (error) {
+      console.error('Error loading send windows:', error);
+    }
+  };
+
+  const update = (patch: Partial<SendWindowsConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const saveSendWindows = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const holidays = holidaysText.split('\n').map(v => v.trim()).filter(Boolean);
+      const response = await fetch('/api/config/timing/send-windows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...config, holidays })
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadSendWindows();
+      }
+    } catch (error) {
+      console.error('Error saving send windows:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!config) return null;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--secondary-light), rgba(100, 116, 139, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>🌙 نوافذ الإرسال وساعات الهدوء</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              الرسائل خارج هذه الأوقات لا تُحذف بل تؤجل لأقرب وقت مسموح ({config.timezone})
+            </p>
+          </div>
+          {status && (
+            <span className={`badge ${status.isOpen ? 'badge-success' : 'badge-warning'}`}>
+              {status.isOpen
+                ? '🟢 الإرسال مسموح الآن'
+                : `🌙 مغلق حتى ${status.nextOpening ? new Date(status.nextOpening).toLocaleString('ar-EG') : '—'}`}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="card-body">
+        <label style={{ display: 'block', marginBottom: '1rem' }}>
+          <input type="checkbox" checked={config.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل نوافذ الإرسال
+        </label>
+
+        <label className="label">📅 الأوقات الأسبوعية</label>
+        <div style={{ marginBottom: '1.5rem' }}>
+          {WEEKDAY_LABELS.map(({ key, label }) => (
+            <div key={key} className="flex gap-2 items-center" style={{ marginBottom: '0.5rem' }}>
+              <strong style={{ width: '80px' }}>{label}</strong>
+              <RangesInput
+                ranges={config.weekly[key] || []}
+                onChange={(ranges) => update({ weekly: { ...config.weekly, [key]: ranges } })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '1.5rem' }}>
+          <div>
+            <label className="label">🕌 إيقاف وقت صلاة الجمعة</label>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>
+              <input
+                type="checkbox"
+                checked={config.fridayPrayerBlackout.enabled}
+                onChange={(e) => update({ fridayPrayerBlackout: { ...config.fridayPrayerBlackout, enabled: e.target.checked } })}
+              /> مفعل
+            </label>
+            <div className="flex gap-1 items-center">
+              <input
+                type="time"
+                className="input"
+                style={{ width: '110px' }}
+                value={config.fridayPrayerBlackout.start}
+                onChange={(e) => update({ fridayPrayerBlackout: { ...config.fridayPrayerBlackout, start: e.target.value } })}
+              />
+              <span>→</span>
+              <input
+                type="time"
+                className="input"
+                style={{ width: '110px' }}
+                value={config.fridayPrayerBlackout.end}
+                onChange={(e) => update({ fridayPrayerBlackout: { ...config.fridayPrayerBlackout, end: e.target.value } })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="label">🌙 جدول رمضان</label>
+            <label style={{ display: 'block', marginBottom: '0.5rem' }}>
+              <input
+                type="checkbox"
+                checked={config.ramadan.enabled}
+                onChange={(e) => update({ ramadan: { ...config.ramadan, enabled: e.target.checked } })}
+              /> مفعل
+            </label>
+            <div className="flex gap-1 items-center" style={{ marginBottom: '0.5rem' }}>
+              <input
+                type="date"
+                className="input"
+                value={config.ramadan.startDate}
+                onChange={(e) => update({ ramadan: { ...config.ramadan, startDate: e.target.value } })}
+              />
+              <span>→</span>
+              <input
+                type="date"
+                className="input"
+                value={config.ramadan.endDate}
+                onChange={(e) => update({ ramadan: { ...config.ramadan, endDate: e.target.value } })}
+              />
+            </div>
+            <RangesInput
+              ranges={config.ramadan.windows}
+              onChange={(windows) => update({ ramadan: { ...config.ramadan, windows } })}
+            />
+          </div>
+
+          <div>
+            <label className="label">🎉 العطلات الرسمية (تاريخ لكل سطر YYYY-MM-DD)</label>
+            <textarea
+              className="textarea"
+              rows={5}
+              style={{ fontFamily: 'monospace' }}
+              value={holidaysText}
+              onChange={(e) => setHolidaysText(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <button
+          className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+          onClick={saveSendWindows}
+          disabled={loading}
+          style={{ marginTop: '1.5rem' }}
+        >
+          {saved ? '✅ تم الحفظ' : '💾 حفظ نوافذ الإرسال'}
+        </button>
+      </div>
+    </div>
+  );
+}
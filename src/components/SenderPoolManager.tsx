@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { SenderPoolConfig, SenderNumber, SenderRouting } from '@/lib/types/config';
+import type { SenderStatus } from '@/lib/services/sender-pool';
+
+const ROUTING_OPTIONS: { value: SenderRouting; label: string; hint: string }[] = [
+  { value: 'sticky', label: '📌 نفس الرقم لنفس العميل', hint: 'العميل يتلقى رسائله وردوده دائماً من نفس الرقم، والعملاء الجدد يوزعون بالتناوب' },
+  { value: 'round-robin', label: '🔄 تناوب', hint: 'كل رسالة من الرقم التالي المتاح لتوزيع الحمل بالتساوي' },
+  { value: 'failover', label: '🛟 احتياطي فقط', hint: 'الإرسال من أول رقم متاح بالترتيب، والأرقام التالية تعمل فقط عند توقفه أو وصوله للسقف' }
+];
+
+export default function SenderPoolManager() {
+  const [config, setConfig] = useState<SenderPoolConfig | null>(null);
+  const [senders, setSenders] = useState<SenderStatus[]>([]);
+  const [newNumber, setNewNumber] = useState({ id: '', name: '' });
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadPool();
+  }, []);
+
+  // Refresh while a number waits for its QR to be scanned
+  const waitingForQr = senders.some(sender => sender.qrCode);
+  useEffect(() => {
+    if (!waitingForQr) return;
+    const interval = setInterval(loadSenders, 5000);
+    return () => clearInterval(interval);
+  }, [waitingForQr]);
+
+  const loadPool = async () => {
+    try {
+      const response = await fetch('/api/whatsapp/pool');
+      const { senders: senderStatus, ...data } = await response.json();
+      setConfig(data);
+      setSenders(senderStatus || []);
+    } catch (error) {
+      console.error('Error loading sender pool:', error);
+    }
+  };
+
+  const loadSenders = async () => {
+    try {
+      const response = await fetch('/api/whatsapp/pool');
+      const { senders: senderStatus } = await response.json();
+      setSenders(senderStatus || []);
+    } catch (error) {
+      console.error('Error loading sender status:', error);
+    }
+  };
+
+  const update = (patch: Partial<SenderPoolConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateNumber = (index: number, patch: Partial<SenderNumber>) => {
+    if (!config) return;
+    update({ numbers: config.numbers.map((number, i) => (i === index ? { ...number, ...patch } : number)) });
+  };
+
+  const moveNumber = (index: number, direction: -1 | 1) => {
+    if (!config) return;
+    const target = index + direction;
+    if (target < 0 || target >= config.numbers.length) return;
+    const numbers = [...config.numbers];
+    [numbers[index], numbers[target]] = [numbers[target], numbers[index]];
+    update({ numbers });
+  };
+
+  const addNumber = () => {
+    if (!config) return;
+    const id = newNumber.id.trim().toLowerCase();
+    if (!id) return;
+    update({
+      numbers: [...config.numbers, { id, name: newNumber.name.trim() || id, enabled: true, dailyCap: 1000 }]
+    });
+    setNewNumber({ id: '', name: '' });
+  };
+
+  const savePool = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/whatsapp/pool', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadPool();
+      }
+    } catch (error) {
+      console.error('Error saving sender pool:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const connectNumber = async (sessionId: string) => {
+    try {
+      const response = await fetch('/api/whatsapp/pool', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, action: 'connect' })
+      });
+      const { success, error } = await response.json();
+      if (!success) {
+        setErrors([error]);
+        return;
+      }
+      // The QR takes a few seconds to appear while the browser starts
+      setTimeout(loadSenders, 5000);
+    } catch (error) {
+      console.error('Error connecting sender number:', error);
+    }
+  };
+
+  const removeNumber = async (sessionId: string) => {
+    const message = sessionId === 'default'
+      ? 'فصل الرقم الرئيسي وحذف جلسته؟ ستحتاج لمسح كود QR من جديد'
+      : 'فصل هذا الرقم وحذفه من أرقام الإرسال؟';
+    if (!confirm(message)) return;
+    try {
+      await fetch(`/api/whatsapp/pool?sessionId=${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+      await loadPool();
+    } catch (error) {
+      console.error('Error removing sender number:', error);
+    }
+  };
+
+  const resetPool = async () => {
+    if (!confirm('هل تريد استعادة إعدادات أرقام الإرسال الافتراضية؟ ستبقى الأرقام الإضافية مربوطة لكن لن تُستخدم')) return;
+    const response = await fetch('/api/whatsapp/pool', { method: 'DELETE' });
+    const { success } = await response.json();
+    if (success) {
+      setErrors([]);
+      setWarnings([]);
+      await loadPool();
+    }
+  };
+
+  if (!config) return null;
+
+  const connectedCount = senders.filter(sender => sender.connected).length;
+  const routingHint = ROUTING_OPTIONS.find(option => option.value === config.routing)?.hint;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>📱 أرقام الإرسال</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              توزيع الرسائل على أكثر من رقم واتساب مع سقف يومي لكل رقم وتحويل تلقائي عند توقف أحدها
+            </p>
+          </div>
+          <span className={`badge ${connectedCount === 0 ? 'badge-danger' : connectedCount < config.numbers.length ? 'badge-warning' : 'badge-success'}`}>
+            🔗 {connectedCount} / {config.numbers.length} متصل
+          </span>
+        </div>
+      </div>
+      <div className="card-body">
+        <div style={{ marginBottom: '1.5rem' }}>
+          <label className="label">🧭 طريقة التوزيع</label>
+          <select className="input" value={config.routing} onChange={(e) => update({ routing: e.target.value as SenderRouting })}>
+            {ROUTING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {routingHint && (
+            <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginTop: '0.25rem' }}>{routingHint}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 gap-3" style={{ marginBottom: '1.5rem' }}>
+          {config.numbers.map((number, index) => {
+            const sender = senders.find(status => status.id === number.id);
+            return (
+              <div key={number.id} className="card" style={{ padding: '1rem', border: sender?.available ? '2px solid var(--success)' : '1px solid var(--gray-200)' }}>
+                <div className="flex items-center justify-between" style={{ gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+                  <div>
+                    <strong>{index + 1}. {number.name || number.id}</strong>{' '}
+                    <span style={{ color: 'var(--gray-500)', fontSize: '0.85rem' }}>{sender?.phone || 'غير مربوط'} • {number.id}</span>
+                  </div>
+                  <span className={`badge ${sender?.available ? 'badge-success' : sender?.connected ? 'badge-warning' : 'badge-danger'}`}>
+                    {sender?.available ? '🟢 متاح' : sender?.connected ? `⏳ ${sender.reason}` : sender?.qrCode ? '📷 في انتظار مسح QR' : '🔴 غير متصل'}
+                  </span>
+                </div>
+
+                {sender && (
+                  <p style={{ fontSize: '0.85rem', color: 'var(--gray-600)', marginBottom: '0.75rem' }}>
+                    • أُرسل خلال آخر 24 ساعة: {sender.sentToday} / {sender.dailyCap}
+                    {sender.warmUpDay !== null && <> • 🌱 يوم التسخين {sender.warmUpDay}</>}
+                    {sender.consecutiveFailures > 0 && <> • ❌ فشل متتالي: {sender.consecutiveFailures}</>}
+                    {sender.coolingDownUntil && <> • ⏸️ متوقف حتى {new Date(sender.coolingDownUntil).toLocaleTimeString('ar-EG')}</>}
+                    {sender.lastError && <><br />• آخر خطأ: {sender.lastError}</>}
+                  </p>
+                )}
+
+                {sender?.qrCode && (
+                  <div style={{ textAlign: 'center', marginBottom: '0.75rem' }}>
+                    <img src={sender.qrCode} alt={`QR ${number.name}`} style={{ width: '220px', height: '220px', margin: '0 auto' }} />
+                    <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)' }}>امسح الكود من تطبيق واتساب على هذا الرقم ← الأجهزة المرتبطة</p>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '1rem', alignItems: 'flex-end' }}>
+                  <div>
+                    <label className="label">🏷️ الاسم</label>
+                    <input type="text" className="input" value={number.name} onChange={(e) => updateNumber(index, { name: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className="label">📅 السقف اليومي</label>
+                    <input type="number" className="input" min={1} max={50000} value={number.dailyCap} onChange={(e) => updateNumber(index, { dailyCap: Number(e.target.value) })} />
+                  </div>
+                  <label>
+                    <input type="checkbox" checked={number.enabled} onChange={(e) => updateNumber(index, { enabled: e.target.checked })} /> يستخدم في الإرسال
+                  </label>
+                </div>
+
+                <div className="flex gap-2" style={{ marginTop: '0.75rem', flexWrap: 'wrap' }}>
+                  <button className="btn btn-secondary" onClick={() => moveNumber(index, -1)} disabled={index === 0}>⬆️</button>
+                  <button className="btn btn-secondary" onClick={() => moveNumber(index, 1)} disabled={index === config.numbers.length - 1}>⬇️</button>
+                  {!sender?.connected && (
+                    <button className="btn btn-primary" onClick={() => connectNumber(number.id)} disabled={!sender}>
+                      🔗 ربط الرقم
+                    </button>
+                  )}
+                  {(sender?.sessionExists || number.id !== 'default') && (
+                    <button className="btn btn-danger" onClick={() => removeNumber(number.id)}>
+                      {number.id === 'default' ? '🔌 فصل الرقم' : '🗑️ حذف الرقم'}
+                    </button>
+                  )}
+                </div>
+                {!sender && (
+                  <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginTop: '0.5rem' }}>احفظ الإعدادات أولاً ثم اربط الرقم</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2" style={{ marginBottom: '1.5rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          <div>
+            <label className="label">🆔 معرف الرقم الجديد</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="sales-2"
+              value={newNumber.id}
+              onChange={(e) => setNewNumber({ ...newNumber, id: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="label">🏷️ الاسم</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="رقم المبيعات"
+              value={newNumber.name}
+              onChange={(e) => setNewNumber({ ...newNumber, name: e.target.value })}
+            />
+          </div>
+          <button className="btn btn-secondary" onClick={addNumber} disabled={!newNumber.id.trim()}>
+            ➕ إضافة رقم
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem' }}>
+          <div>
+            <label className="label">❌ عدد مرات الفشل المتتالي لإيقاف الرقم</label>
+            <input type="number" className="input" min={1} max={50} value={config.maxConsecutiveFailures} onChange={(e) => update({ maxConsecutiveFailures: Number(e.target.value) })} />
+          </div>
+          <div>
+            <label className="label">⏸️ مدة إيقاف الرقم (دقائق)</label>
+            <input type="number" className="input" min={1} max={1440} value={config.failureCooldownMinutes} onChange={(e) => update({ failureCooldownMinutes: Number(e.target.value) })} />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={savePool}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ أرقام الإرسال'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetPool} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { SimulationPlan, SimulatedAction } from '@/lib/services/automation-engine';
+
+const ACTION_LABELS: Record<SimulatedAction['kind'], string> = {
+  send: '📤 إرسال فوري',
+  schedule: '⏳ جدولة',
+  cancel: '🛑 إلغاء المجدول',
+  markFinal: '🏁 حالة نهائية'
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString('ar-EG') : '—');
+
+export default function SimulationPlanViewer() {
+  const [plan, setPlan] = useState<SimulationPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSkipped, setShowSkipped] = useState(false);
+
+  const runSimulation = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/automation/simulate', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.details || result.error);
+        return;
+      }
+      setPlan(result.plan);
+    } catch (err) {
+      console.error('Error running simulation:', err);
+      setError('تعذر الاتصال بالخادم');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const orders = plan
+    ? plan.orders.filter(order => showSkipped || order.actions.length > 0)
+    : [];
+
+  return (
+    <div className="card">
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>🧪 محاكاة (تشغيل تجريبي)</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              يعرض ما كان المحرك سيفعله الآن مع كل طلب - بدون إرسال أي رسالة أو تعديل أي حالة
+            </p>
+          </div>
+          <button className="btn btn-primary" onClick={runSimulation} disabled={loading}>
+            {loading ? '⏳ جاري المحاكاة...' : '▶️ تشغيل المحاكاة'}
+          </button>
+        </div>
+      </div>
+      <div className="card-body">
+        {error && (
+          <div className="alert alert-danger mb-3">
+            <strong>❌ فشلت المحاكاة:</strong> {error}
+          </div>
+        )}
+
+        {!plan && !error && (
+          <div className="alert alert-primary" style={{ fontSize: '0.9rem' }}>
+            💡 استخدم المحاكاة بعد تعديل القوالب أو قواعد الحالات للتأكد من الرسائل قبل تشغيل المحرك
+          </div>
+        )}
+
+        {plan && (
+          <>
+            <div className="flex gap-2 items-center mb-3" style={{ flexWrap: 'wrap' }}>
+              <span className="badge badge-primary">📋 {plan.totalRows} صف</span>
+              <span className="badge badge-success">📤 {plan.summary.send} إرسال فوري</span>
+              <span className="badge badge-warning">⏳ {plan.summary.schedule} مجدولة</span>
+              <span className="badge badge-danger">🛑 {plan.summary.cancel} إلغاء</span>
+              <span className="badge">⏭️ {plan.summary.skipped} متخطاة</span>
+              <span style={{ fontSize: '0.8rem', color: 'var(--gray-500)' }}>
+                {formatDate(plan.generatedAt)}
+              </span>
+              <label style={{ fontSize: '0.85rem', marginRight: 'auto' }}>
+                <input type="checkbox" checked={showSkipped} onChange={(e) => setShowSkipped(e.target.checked)} /> عرض الطلبات بدون إجراء
+              </label>
+            </div>
+
+            {orders.length === 0 && (
+              <div className="alert alert-success">✅ لا توجد رسائل سيتم إرسالها الآن</div>
+            )}
+
+            <div className="grid grid-cols-1 gap-3">
+              {orders.map(order => (
+                <div key={order.orderId} className="card" style={{ padding: '1rem' }}>
+                  <div className="flex items-center justify-between mb-2" style={{ flexWrap: 'wrap', gap: '0.5rem' }}>
+                    <div>
+                      <strong>{order.customerName || '—'}</strong>
+                      <span style={{ color: 'var(--gray-500)', fontSize: '0.85rem' }}>
+                        {' '}• طلب {order.orderId}{order.rowIndex ? ` • صف ${order.rowIndex}` : ''}
+                      </span>
+                    </div>
+                    <div className="flex gap-2 items-center">
+                      <span className="badge">{order.orderStatus || 'بدون حالة'}</span>
+                      {order.targetNumber && <span style={{ fontFamily: 'monospace', fontSize: '0.85rem' }}>{order.targetNumber}</span>}
+                    </div>
+                  </div>
+
+                  {order.actions.map((action, i) => (
+                    <div key={i} style={{ borderTop: '1px solid var(--gray-200)', paddingTop: '0.5rem', marginTop: '0.5rem' }}>
+                      <div className="flex gap-2 items-center" style={{ flexWrap: 'wrap', fontSize: '0.85rem' }}>
+                        <strong>{ACTION_LABELS[action.kind]}</strong>
+                        {action.messageType && <code>{action.messageType}</code>}
+                        {action.phoneNumber && <span>← {action.phoneNumber}</span>}
+                        {action.delayHours ? <span>بعد {action.delayHours} ساعة</span> : null}
+                        {action.sendAt && <span>🕐 {formatDate(action.sendAt)}</span>}
+                        {action.deferred && <span className="badge badge-warning">🌙 مؤجلة لساعات الإرسال</span>}
+                        {action.channel === 'sms' && <span className="badge badge-primary">📨 SMS</span>}
+                        {action.media && <span className="badge badge-primary">📎 مع مرفق</span>}
+                      </div>
+                      {action.note && <div style={{ fontSize: '0.8rem', color: 'var(--gray-500)' }}>{action.note}</div>}
+                      {action.message && (
+                        <pre style={{
+                          whiteSpace: 'pre-wrap',
+                          fontFamily: 'inherit',
+                          background: 'var(--gray-50)',
+                          padding: '0.75rem',
+                          borderRadius: '0.5rem',
+                          marginTop: '0.5rem',
+                          fontSize: '0.85rem'
+                        }}>
+                          {action.message}
+                        </pre>
+                      )}
+                    </div>
+                  ))}
+
+                  {order.skipped.length > 0 && (
+                    <ul style={{ marginTop: '0.5rem', paddingRight: '1rem', fontSize: '0.8rem', color: 'var(--gray-600)' }}>
+                      {order.skipped.map((skip, i) => (
+                        <li key={i}>⏭️ {skip.messageType ? <code>{skip.messageType}</code> : null} {skip.reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { RuleMessageType, SmsConfig, SmsHttpGatewayConfig } from '@/lib/types/config';
+
+interface StubSmsMessage {
+  id: string;
+  to: string;
+  sender: string;
+  text: string;
+  sentAt: string;
+}
+
+interface SmsSettingsData extends SmsConfig {
+  outbox: StubSmsMessage[];
+}
+
+const TEMPLATE_TYPES: { key: RuleMessageType; label: string }[] = [
+  { key: 'newOrder', label: '🆕 طلب جديد' },
+  { key: 'noAnswer', label: '📞 عدم الرد' },
+  { key: 'shipped', label: '🚚 تم الشحن' },
+  { key: 'rejectedOffer', label: '🎁 عرض بعد الرفض' },
+  { key: 'reminder', label: '⏰ تذكير' }
+];
+
+// Same rule as the server: anything outside plain Latin text is sent as 70-character Unicode parts
+const countSegments = (text: string) => {
+  const unicode = /[^\x0A\x0D\x20-\x7E]/.test(text);
+  const [single, part] = unicode ? [70, 67] : [160, 153];
+  return text.length <= single ? 1 : Math.ceil(text.length / part);
+};
+
+function KeyValueEditor({ label, hint, values, onChange }: {
+  label: string;
+  hint: string;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}) {
+  const entries = Object.entries(values);
+  const update = (index: number, key: string, value: string) => {
+    const next = [...entries];
+    next[index] = [key, value];
+    onChange(Object.fromEntries(next));
+  };
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <label className="label">{label}</label>
+      <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginBottom: '0.5rem' }}>{hint}</p>
+      <div className="grid grid-cols-1 gap-2">
+        {entries.map(([key, value], index) => (
+          <div key={index} className="flex gap-2 items-center">
+            <input
+              className="input"
+              style={{ flex: 1, direction: 'ltr' }}
+              value={key}
+              onChange={(e) => update(index, e.target.value, value)}
+            />
+            <input
+              className="input"
+              style={{ flex: 2, direction: 'ltr' }}
+              value={value}
+              onChange={(e) => update(index, key, e.target.value)}
+            />
+            <button
+              className="btn btn-secondary"
+              onClick={() => onChange(Object.fromEntries(entries.filter((_, i) => i !== index)))}
+            >
+              🗑️
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        className="btn btn-secondary"
+        style={{ marginTop: '0.5rem' }}
+        onClick={() => onChange({ ...values, [`param${entries.length + 1}`]: '' })}
+      >
+        ➕ إضافة
+      </button>
+    </div>
+  );
+}
+
+export default function SmsSettings() {
+  const [config, setConfig] = useState<SmsSettingsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [testPhone, setTestPhone] = useState('');
+  const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadSms();
+  }, []);
+
+  const loadSms = async () => {
+    try {
+      const response = await fetch('/api/config/sms');
+      setConfig(await response.json());
+    } catch (error) {
+      console.error('Error loading SMS settings:', error);
+    }
+  };
+
+  const updateHttp = (patch: Partial<SmsHttpGatewayConfig>) => {
+    setConfig(prev => (prev ? { ...prev, http: { ...prev.http, ...patch } } : prev));
+  };
+
+  const updateTemplate = (key: RuleMessageType, value: string) => {
+    setConfig(prev => (prev ? { ...prev, templates: { ...prev.templates, [key]: value } } : prev));
+  };
+
+  const saveSms = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const { outbox, ...sms } = config;
+      const response = await fetch('/api/config/sms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(sms)
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadSms();
+      }
+    } catch (error) {
+      console.error('Error saving SMS settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sendTest = async () => {
+    if (!config || !testPhone) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/sms', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'test',
+          phone: testPhone,
+          message: config.senderId ? `رسالة تجربة من ${config.senderId}` : 'رسالة تجربة'
+        })
+      });
+      const result = await response.json();
+      setTestResult({
+        success: !!result.success,
+        message: result.success ? '✅ تم الإرسال' : `❌ ${result.errors?.join('، ') || result.message || result.error}`
+      });
+      await loadSms();
+    } catch (error) {
+      console.error('Error sending test SMS:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetSms = async () => {
+    if (!confirm('إعادة إعدادات SMS والقوالب القصيرة للافتراضي؟')) return;
+    const response = await fetch('/api/config/sms', { method: 'DELETE' });
+    const { success, message, ...defaults } = await response.json();
+    if (success) {
+      setConfig(defaults as SmsSettingsData);
+      setErrors([]);
+      setWarnings([]);
+    }
+  };
+
+  if (!config) return null;
+
+  const isHttp = config.provider === 'http';
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>📨 رسائل SMS للعملاء بدون واتساب</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              بدلاً من تخطي العميل غير المسجل على الواتساب تصله نسخة قصيرة من نفس الرسائل عبر SMS
+            </p>
+          </div>
+          <span className={`badge ${config.enabled ? 'badge-success' : 'badge-secondary'}`}>
+            {config.enabled ? '✅ مفعل' : '⏸️ معطل'}
+          </span>
+        </div>
+      </div>
+      <div className="card-body">
+        <label className="flex items-center gap-2 mb-3">
+          <input type="checkbox" checked={config.enabled} onChange={(e) => setConfig({ ...config, enabled: e.target.checked })} />
+          استخدام SMS تلقائياً عند فشل التحقق من الواتساب
+        </label>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          <div>
+            <label className="label">🔌 مزود الخدمة</label>
+            <select
+              className="input"
+              value={config.provider}
+              onChange={(e) => setConfig({ ...config, provider: e.target.value as SmsConfig['provider'] })}
+            >
+              <option value="stub">تجريبي (تسجيل بدون إرسال)</option>
+              <option value="http">بوابة HTTP لمزود SMS</option>
+            </select>
+          </div>
+          <div>
+            <label className="label">🏷️ اسم المرسل</label>
+            <input
+              className="input"
+              style={{ direction: 'ltr' }}
+              value={config.senderId}
+              onChange={(e) => setConfig({ ...config, senderId: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="label">📱 صيغة الرقم</label>
+            <select
+              className="input"
+              value={config.phoneFormat}
+              onChange={(e) => setConfig({ ...config, phoneFormat: e.target.value as SmsConfig['phoneFormat'] })}
+            >
+              <option value="international">2010xxxxxxxx</option>
+              <option value="plus">+2010xxxxxxxx</option>
+              <option value="local">010xxxxxxxx</option>
+            </select>
+          </div>
+        </div>
+
+        {isHttp && (
+          <>
+            <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+              انسخ بيانات الـ API من لوحة مزود الخدمة (مثل SMS Misr أو Victory Link أو Cequens). في أي قيمة يمكن استخدام{' '}
+              <code>{'{phone}'}</code> و<code>{'{message}'}</code> و<code>{'{sender}'}</code>
+            </div>
+
+            <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+              <div style={{ gridColumn: '1 / -1' }}>
+                <label className="label">🌐 رابط البوابة</label>
+                <input className="input" style={{ direction: 'ltr' }} value={config.http.url} onChange={(e) => updateHttp({ url: e.target.value })} />
+              </div>
+              <div>
+                <label className="label">الطريقة</label>
+                <select className="input" value={config.http.method} onChange={(e) => updateHttp({ method: e.target.value as SmsHttpGatewayConfig['method'] })}>
+                  <option value="POST">POST</option>
+                  <option value="GET">GET</option>
+                </select>
+              </div>
+              {config.http.method === 'POST' && (
+                <div>
+                  <label className="label">إرسال المعاملات</label>
+                  <select className="input" value={config.http.bodyFormat} onChange={(e) => updateHttp({ bodyFormat: e.target.value as SmsHttpGatewayConfig['bodyFormat'] })}>
+                    <option value="form">form (x-www-form-urlencoded)</option>
+                    <option value="json">JSON</option>
+                    <option value="query">في الرابط (query string)</option>
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="label">✅ نص النجاح في الرد</label>
+                <input className="input" style={{ direction: 'ltr' }} value={config.http.successMatch} onChange={(e) => updateHttp({ successMatch: e.target.value })} />
+              </div>
+              <div>
+                <label className="label">🆔 مسار معرف الرسالة</label>
+                <input className="input" style={{ direction: 'ltr' }} placeholder="data.id" value={config.http.messageIdPath} onChange={(e) => updateHttp({ messageIdPath: e.target.value })} />
+              </div>
+            </div>
+
+            <KeyValueEditor
+              label="📦 المعاملات"
+              hint="اسم المعامل كما يطلبه المزود وقيمته - بيانات الدخول هنا تُحفظ على الخادم فقط"
+              values={config.http.params}
+              onChange={(params) => updateHttp({ params })}
+            />
+            <KeyValueEditor
+              label="📑 الهيدرز"
+              hint="مثل Authorization للمزودين الذين يستخدمون توكن"
+              values={config.http.headers}
+              onChange={(headers) => updateHttp({ headers })}
+            />
+          </>
+        )}
+
+        <label className="label">✂️ القوالب القصيرة</label>
+        <p style={{ fontSize: '0.85rem', color: 'var(--gray-600)', marginBottom: '0.75rem' }}>
+          رسالة SMS العربية 70 حرفاً وكل جزء إضافي يُحسب رسالة جديدة. نفس متغيرات قوالب الواتساب - اترك القالب فارغاً لإرسال نص الواتساب كما هو.
+        </p>
+        <div className="grid grid-cols-1 gap-2">
+          {TEMPLATE_TYPES.map(({ key, label }) => {
+            const template = config.templates[key] || '';
+            const segments = template ? countSegments(template) : 0;
+            return (
+              <div key={key}>
+                <div className="flex items-center justify-between">
+                  <span>{label}</span>
+                  {segments > 0 && (
+                    <span className={`badge ${segments > 2 ? 'badge-warning' : 'badge-secondary'}`}>
+                      {template.length} حرف · {segments} {segments === 1 ? 'رسالة' : 'رسائل'}
+                    </span>
+                  )}
+                </div>
+                <textarea
+                  className="input"
+                  rows={2}
+                  value={template}
+                  onChange={(e) => updateTemplate(key, e.target.value)}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveSms}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ إعدادات SMS'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetSms} disabled={loading}>
+            🔄 الإعدادات الافتراضية
+          </button>
+        </div>
+
+        <div style={{ marginTop: '1.5rem', paddingTop: '1rem', borderTop: '1px solid var(--gray-200)' }}>
+          <label className="label">🧪 رسالة تجربة (بالإعدادات المحفوظة)</label>
+          <div className="flex gap-2 items-center" style={{ flexWrap: 'wrap' }}>
+            <input
+              className="input"
+              style={{ maxWidth: '220px', direction: 'ltr' }}
+              placeholder="01xxxxxxxxx"
+              value={testPhone}
+              onChange={(e) => setTestPhone(e.target.value)}
+            />
+            <button className="btn btn-secondary" onClick={sendTest} disabled={loading || !testPhone}>
+              📤 إرسال
+            </button>
+            {testResult && (
+              <span style={{ color: testResult.success ? 'var(--success)' : 'var(--danger)' }}>{testResult.message}</span>
+            )}
+          </div>
+
+          {config.provider === 'stub' && config.outbox.length > 0 && (
+            <div style={{ marginTop: '1rem' }}>
+              <label className="label">📥 صندوق المزود التجريبي</label>
+              <div className="grid grid-cols-1 gap-2">
+                {config.outbox.slice(0, 10).map(message => (
+                  <div key={message.id} style={{ fontSize: '0.85rem', padding: '0.75rem', border: '1px solid var(--gray-200)', borderRadius: '0.5rem' }}>
+                    <strong style={{ direction: 'ltr', display: 'inline-block' }}>{message.to}</strong>
+                    {' · '}{new Date(message.sentAt).toLocaleString('ar-EG')}
+                    <div style={{ marginTop: '0.25rem' }}>{message.text}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
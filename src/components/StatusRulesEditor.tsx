@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { StatusRule, StatusRuleAction, RuleMessageType } from '@/lib/types/config';
+
+const TEMPLATE_OPTIONS: { value: RuleMessageType; label: string }[] = [
+  { value: 'newOrder', label: '🆕 طلب جديد' },
+  { value: 'noAnswer', label: '📞 عدم الرد' },
+  { value: 'shipped', label: '🚚 الشحن' },
+  { value: 'rejectedOffer', label: '🎁 العرض الخاص' },
+  { value: 'reminder', label: '⏰ التذكير' }
+];
+
+const ACTION_LABELS: Record<StatusRuleAction['type'], string> = {
+  send: '📤 إرسال فوري',
+  schedule: '⏰ إرسال مؤجل',
+  cancelPending: '🗑️ إلغاء الرسائل المجدولة',
+  markFinal: '🏁 حالة نهائية'
+};
+
+interface ValidationState {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+const splitLines = (value: string): string[] =>
+  value.split('\n').map(v => v.trim()).filter(Boolean);
+
+export default function StatusRulesEditor() {
+  const [rules, setRules] = useState<StatusRule[]>([]);
+  const [revision, setRevision] = useState(0); // يعيد إنشاء الحقول غير المتحكم بها بعد التحميل
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+  const [testStatus, setTestStatus] = useState('');
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/config/status-settings/rules');
+      const data = await response.json();
+      setRules(data.rules || []);
+      setRevision(r => r + 1);
+    } catch (error) {
+      console.error('Error loading status rules:', error);
+    }
+  };
+
+  const updateRule = (index: number, patch: Partial<StatusRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const updateAction = (ruleIndex: number, actionIndex: number, action: StatusRuleAction) => {
+    const actions = [...rules[ruleIndex].actions];
+    actions[actionIndex] = action;
+    updateRule(ruleIndex, { actions });
+  };
+
+  const addAction = (ruleIndex: number) => {
+    updateRule(ruleIndex, { actions: [...rules[ruleIndex].actions, { type: 'send', template: 'newOrder' }] });
+  };
+
+  const removeAction = (ruleIndex: number, actionIndex: number) => {
+    updateRule(ruleIndex, { actions: rules[ruleIndex].actions.filter((_, i) => i !== actionIndex) });
+  };
+
+  const changeActionType = (ruleIndex: number, actionIndex: number, type: StatusRuleAction['type']) => {
+    const current = rules[ruleIndex].actions[actionIndex];
+    const template = 'template' in current ? current.template : 'newOrder';
+    if (type === 'send') updateAction(ruleIndex, actionIndex, { type, template });
+    else if (type === 'schedule') updateAction(ruleIndex, actionIndex, { type, template });
+    else updateAction(ruleIndex, actionIndex, { type });
+  };
+
+  const addRule = () => {
+    setRules(prev => [
+      ...prev,
+      {
+        id: `rule-${Date.now()}`,
+        name: 'قاعدة جديدة',
+        enabled: true,
+        statuses: [],
+        actions: [{ type: 'send', template: 'newOrder' }]
+      }
+    ]);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    setRules(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const testMatch = async () => {
+    try {
+      const response = await fetch('/api/config/status-settings/rules/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules, status: testStatus })
+      });
+      const result = await response.json();
+      setValidation(result);
+      setTestResult(result.match ? `✅ تطابق القاعدة: ${result.match.name}` : '❓ لا توجد قاعدة مطابقة - لن يتم اتخاذ أي إجراء');
+    } catch (error) {
+      console.error('Error testing status rules:', error);
+    }
+  };
+
+  const saveRules = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/status-settings/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules })
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setValidation({ isValid: true, errors: [], warnings: result.warnings || [] });
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      } else {
+        setValidation({ isValid: false, errors: result.errors || [result.error], warnings: result.warnings || [] });
+      }
+    } catch (error) {
+      console.error('Error saving status rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetRules = async () => {
+    if (!confirm('هل تريد استعادة القواعد الافتراضية؟')) return;
+    const response = await fetch('/api/config/status-settings/rules', { method: 'DELETE' });
+    const result = await response.json();
+    setRules(result.rules || []);
+    setRevision(r => r + 1);
+    setValidation(null);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(124, 58, 237, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>📐 قواعد الحالات</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          اربط قيم عمود الحالة في الشيت بالإجراءات التي ينفذها النظام - بدون تعديل الكود
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+          <strong>💡 كيف تعمل القواعد:</strong><br />
+          • تُطابق الحالة مع أول قاعدة مفعلة بالترتيب (من الأعلى للأسفل)<br />
+          • المطابقة تتجاهل الفروق الإملائية (أ/ا، ة/ه، ى/ي) والمسافات الزائدة<br />
+          • الأنماط تعبيرات نمطية (Regex) اختيارية مثل <code>^ملغ</code>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3">
+          {rules.map((rule, ruleIndex) => (
+            <div
+              key={`${rule.id}-${revision}`}
+              className="card"
+              style={{ padding: '1rem', border: rule.enabled ? '2px solid var(--primary)' : '1px solid var(--gray-200)', opacity: rule.enabled ? 1 : 0.7 }}
+            >
+              <div className="flex items-center justify-between mb-2" style={{ gap: '0.5rem' }}>
+                <input
+                  className="input"
+                  style={{ fontWeight: 600, maxWidth: '300px' }}
+                  value={rule.name}
+                  onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                />
+                <div className="flex gap-2 items-center">
+                  <label style={{ fontSize: '0.85rem' }}>
+                    <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(ruleIndex, { enabled: e.target.checked })} /> مفعلة
+                  </label>
+                  <label style={{ fontSize: '0.85rem' }}>
+                    <input type="checkbox" checked={!!rule.remind} onChange={(e) => updateRule(ruleIndex, { remind: e.target.checked })} /> تذكير
+                  </label>
+                  <button className="btn btn-secondary" onClick={() => moveRule(ruleIndex, -1)} disabled={ruleIndex === 0}>⬆️</button>
+                  <button className="btn btn-secondary" onClick={() => moveRule(ruleIndex, 1)} disabled={ruleIndex === rules.length - 1}>⬇️</button>
+                  <button className="btn btn-danger" onClick={() => removeRule(ruleIndex)}>🗑️</button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1rem' }}>
+                <div>
+                  <label className="label">📋 الحالات (سطر لكل حالة)</label>
+                  <textarea
+                    className="textarea"
+                    rows={4}
+                    defaultValue={rule.statuses.filter(Boolean).join('\n')}
+                    onBlur={(e) => updateRule(ruleIndex, {
+                      statuses: [...(rule.statuses.includes('') ? [''] : []), ...splitLines(e.target.value)]
+                    })}
+                  />
+                  <label style={{ fontSize: '0.85rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={rule.statuses.includes('')}
+                      onChange={(e) => updateRule(ruleIndex, {
+                        statuses: e.target.checked ? ['', ...rule.statuses] : rule.statuses.filter(Boolean)
+                      })}
+                    /> يطابق الحالة الفارغة
+                  </label>
+                </div>
+                <div>
+                  <label className="label">🔣 أنماط (اختياري، سطر لكل نمط)</label>
+                  <textarea
+                    className="textarea"
+                    rows={4}
+                    style={{ fontFamily: 'monospace' }}
+                    defaultValue={(rule.patterns || []).join('\n')}
+                    onBlur={(e) => updateRule(ruleIndex, { patterns: splitLines(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="label">⚡ الإجراءات</label>
+                  {rule.actions.map((action, actionIndex) => (
+                    <div key={actionIndex} className="flex gap-1 mb-2" style={{ flexWrap: 'wrap' }}>
+                      <select
+                        className="input"
+                        style={{ flex: '1 1 140px' }}
+                        value={action.type}
+                        onChange={(e) => changeActionType(ruleIndex, actionIndex, e.target.value as StatusRuleAction['type'])}
+                      >
+                        {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      {(action.type === 'send' || action.type === 'schedule') && (
+                        <select
+                          className="input"
+                          style={{ flex: '1 1 120px' }}
+                          value={action.template}
+                          onChange={(e) => updateAction(ruleIndex, actionIndex, { ...action, template: e.target.value as RuleMessageType })}
+                        >
+                          {TEMPLATE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      )}
+                      {action.type === 'schedule' && (
+                        <input
+                          type="number"
+                          className="input"
+                          style={{ width: '90px' }}
+                          min="1"
+                          max="336"
+                          placeholder="ساعات"
+                          value={action.delayHours ?? ''}
+                          onChange={(e) => updateAction(ruleIndex, actionIndex, { ...action, delayHours: e.target.value ? Number(e.target.value) : undefined })}
+                        />
+                      )}
+                      <button className="btn btn-secondary" onClick={() => removeAction(ruleIndex, actionIndex)}>✖</button>
+                    </div>
+                  ))}
+                  <button className="btn btn-secondary" onClick={() => addAction(ruleIndex)}>➕ إجراء</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button className="btn btn-secondary" onClick={addRule} style={{ marginTop: '1rem' }}>
+          ➕ إضافة قاعدة
+        </button>
+
+        <div className="flex gap-2 items-center" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <input
+            className="input"
+            style={{ maxWidth: '250px' }}
+            placeholder="جرب حالة مثل: مؤجل"
+            value={testStatus}
+            onChange={(e) => setTestStatus(e.target.value)}
+          />
+          <button className="btn btn-secondary" onClick={testMatch}>🔍 اختبار المطابقة</button>
+          {testResult && <span style={{ fontSize: '0.9rem' }}>{testResult}</span>}
+        </div>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء في القواعد:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem' }}>
+          <button className={`btn ${saved ? 'btn-success' : 'btn-primary'}`} onClick={saveRules} disabled={loading}>
+            {saved ? '✅ تم الحفظ' : '💾 حفظ القواعد'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetRules} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
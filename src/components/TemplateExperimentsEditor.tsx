@@ -0,0 +1,273 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { TemplateExperimentsConfig, TemplateExperiment, TemplateVariant, RuleMessageType } from '@/lib/types/config';
+
+const TEMPLATE_OPTIONS: { value: RuleMessageType; label: string }[] = [
+  { value: 'newOrder', label: '🆕 طلب جديد' },
+  { value: 'noAnswer', label: '📞 عدم الرد' },
+  { value: 'shipped', label: '🚚 الشحن' },
+  { value: 'rejectedOffer', label: '🎁 العرض الخاص' },
+  { value: 'reminder', label: '⏰ التذكير' }
+];
+
+interface ValidationState {
+  errors: string[];
+  warnings: string[];
+}
+
+export default function TemplateExperimentsEditor() {
+  const [config, setConfig] = useState<TemplateExperimentsConfig | null>(null);
+  const [ruleIds, setRuleIds] = useState<string[]>([]);
+  const [revision, setRevision] = useState(0); // يعيد إنشاء الحقول غير المتحكم بها بعد التحميل
+  const [newType, setNewType] = useState<RuleMessageType>('newOrder');
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const [experimentsResponse, rulesResponse] = await Promise.all([
+        fetch('/api/config/template-experiments'),
+        fetch('/api/config/status-settings/rules')
+      ]);
+      setConfig(await experimentsResponse.json());
+      if (rulesResponse.ok) {
+        const { rules } = await rulesResponse.json();
+        setRuleIds((rules || []).map((rule: { id: string }) => rule.id));
+      }
+      setRevision(r => r + 1);
+    } catch (error) {
+      console.error('Error loading template experiments:', error);
+    }
+  };
+
+  const update = (patch: Partial<TemplateExperimentsConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const updateExperiment = (messageType: RuleMessageType, experiment: TemplateExperiment | undefined) => {
+    if (!config) return;
+    const experiments = { ...config.experiments };
+    if (experiment) {
+      experiments[messageType] = experiment;
+    } else {
+      delete experiments[messageType];
+    }
+    update({ experiments });
+  };
+
+  const updateVariant = (messageType: RuleMessageType, index: number, patch: Partial<TemplateVariant>) => {
+    const experiment = config?.experiments[messageType];
+    if (!experiment) return;
+    updateExperiment(messageType, {
+      ...experiment,
+      variants: experiment.variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant))
+    });
+  };
+
+  const addExperiment = () => {
+    if (!config || config.experiments[newType]) return;
+    updateExperiment(newType, {
+      enabled: false,
+      variants: [
+        { id: 'control', name: 'النص الحالي', weight: 50 },
+        { id: 'b', name: 'النسخة ب', weight: 50, text: '' }
+      ]
+    });
+  };
+
+  const toggleSuccessRule = (id: string, checked: boolean) => {
+    if (!config) return;
+    update({
+      successRuleIds: checked
+        ? [...config.successRuleIds, id]
+        : config.successRuleIds.filter(ruleId => ruleId !== id)
+    });
+  };
+
+  const saveConfig = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/config/template-experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setValidation({ errors: response.ok ? [] : result.errors || [result.error], warnings: result.warnings || [] });
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error saving template experiments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!config) return null;
+
+  const configuredTypes = TEMPLATE_OPTIONS.filter(option => config.experiments[option.value]);
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(124, 58, 237, 0.1))' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>🧪 اختبار A/B لنصوص الرسائل</h3>
+        <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+          توزيع الطلبات على أكثر من نص حسب الوزن ومقارنة نسبة التحويل - النتائج في لوحة التحكم
+        </p>
+      </div>
+      <div className="card-body">
+        <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+          <strong>💡 كيف يُحسب التحويل:</strong> أول تغيير لحالة الطلب بعد الإرسال، إذا كان إلى حالة نجاح وخلال المدة المحددة.
+          النسخة التي نصها فارغ تستخدم نص القالب الأساسي (المجموعة الضابطة). نفس الطلب يحصل دائماً على نفس النسخة.
+        </div>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+          <div>
+            <label className="label">⏱️ مدة احتساب التحويل (ساعات)</label>
+            <input
+              type="number"
+              className="input"
+              min={1}
+              max={720}
+              value={config.conversionWindowHours}
+              onChange={(e) => update({ conversionWindowHours: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="label">✅ حالات النجاح (قواعد الحالات)</label>
+            {ruleIds.map(id => (
+              <label key={id} style={{ display: 'block', fontSize: '0.9rem' }}>
+                <input
+                  type="checkbox"
+                  checked={config.successRuleIds.includes(id)}
+                  onChange={(e) => toggleSuccessRule(id, e.target.checked)}
+                /> <code>{id}</code>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {configuredTypes.map(({ value: messageType, label }) => {
+          const experiment = config.experiments[messageType]!;
+          return (
+            <div key={messageType} style={{ border: '1px solid var(--gray-200)', borderRadius: 'var(--border-radius)', padding: '1rem', marginBottom: '1rem' }}>
+              <div className="flex gap-2 items-center mb-2" style={{ flexWrap: 'wrap' }}>
+                <strong>{label}</strong>
+                <label style={{ fontSize: '0.9rem' }}>
+                  <input
+                    type="checkbox"
+                    checked={experiment.enabled}
+                    onChange={(e) => updateExperiment(messageType, { ...experiment, enabled: e.target.checked })}
+                  /> مفعل
+                </label>
+                <button className="btn btn-danger" style={{ marginRight: 'auto' }} onClick={() => updateExperiment(messageType, undefined)}>
+                  🗑️ حذف التجربة
+                </button>
+              </div>
+
+              {experiment.variants.map((variant, index) => (
+                <div key={`${index}-${revision}`} className="flex gap-2 mb-2" style={{ flexWrap: 'wrap', alignItems: 'flex-start' }}>
+                  <input
+                    className="input"
+                    style={{ width: '110px', fontFamily: 'monospace' }}
+                    value={variant.id}
+                    onChange={(e) => updateVariant(messageType, index, { id: e.target.value })}
+                  />
+                  <input
+                    className="input"
+                    style={{ width: '150px' }}
+                    placeholder="الاسم"
+                    value={variant.name}
+                    onChange={(e) => updateVariant(messageType, index, { name: e.target.value })}
+                  />
+                  <div className="flex gap-1 items-center">
+                    <input
+                      type="number"
+                      className="input"
+                      style={{ width: '80px' }}
+                      min={0}
+                      value={variant.weight}
+                      onChange={(e) => updateVariant(messageType, index, { weight: Number(e.target.value) })}
+                    />
+                    <span style={{ fontSize: '0.8rem', color: 'var(--gray-500)' }}>وزن</span>
+                  </div>
+                  <textarea
+                    className="textarea"
+                    rows={3}
+                    style={{ flex: 1, minWidth: '220px' }}
+                    placeholder="فارغ = نص القالب الأساسي"
+                    defaultValue={variant.text || ''}
+                    onBlur={(e) => updateVariant(messageType, index, { text: e.target.value })}
+                  />
+                  <button
+                    className="btn btn-danger"
+                    onClick={() => updateExperiment(messageType, { ...experiment, variants: experiment.variants.filter((_, i) => i !== index) })}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              ))}
+              <button
+                className="btn btn-secondary"
+                onClick={() => updateExperiment(messageType, {
+                  ...experiment,
+                  variants: [...experiment.variants, { id: `v${experiment.variants.length + 1}`, name: '', weight: 50, text: '' }]
+                })}
+              >
+                ➕ إضافة نسخة
+              </button>
+            </div>
+          );
+        })}
+
+        <div className="flex gap-2 items-center">
+          <select className="input" style={{ maxWidth: '200px' }} value={newType} onChange={(e) => setNewType(e.target.value as RuleMessageType)}>
+            {TEMPLATE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value} disabled={!!config.experiments[option.value]}>{option.label}</option>
+            ))}
+          </select>
+          <button className="btn btn-secondary" onClick={addExperiment} disabled={!!config.experiments[newType]}>➕ إضافة تجربة</button>
+        </div>
+
+        {validation && validation.errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {validation && validation.warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {validation.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveConfig}
+            disabled={loading}
+            style={{ marginTop: '1.5rem' }}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ التجارب'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { CloudApiConfig, TransportConfig } from '@/lib/types/config';
+
+interface TransportSettingsData extends TransportConfig {
+  webhookPath: string;
+}
+
+const CLOUD_FIELDS: { key: 'phoneNumberId' | 'accessToken' | 'apiVersion' | 'baseUrl' | 'verifyToken' | 'appSecret'; label: string; secret?: boolean; hint?: string }[] = [
+  { key: 'phoneNumberId', label: '🆔 Phone number ID', hint: 'من WhatsApp Manager ← API Setup' },
+  { key: 'accessToken', label: '🔑 Access token', secret: true, hint: 'يفضل توكن مستخدم نظام دائم' },
+  { key: 'apiVersion', label: '🏷️ إصدار Graph API' },
+  { key: 'baseUrl', label: '🌐 عنوان الـ API', hint: 'غيّره لخادم تجريبي محلي لاختبار الإرسال بدون حساب حقيقي' },
+  { key: 'verifyToken', label: '🤝 Verify token', hint: 'نفس القيمة التي تكتبها عند تسجيل الـ webhook في Meta' },
+  { key: 'appSecret', label: '🔒 App secret', secret: true, hint: 'مطلوب - بدونه تُرفض كل طلبات الـ webhook لأنه لا يمكن التأكد أنها قادمة من Meta' }
+];
+
+const TEMPLATE_TYPES: { key: keyof CloudApiConfig['templates']; label: string }[] = [
+  { key: 'newOrder', label: '🆕 طلب جديد' },
+  { key: 'noAnswer', label: '📞 عدم الرد' },
+  { key: 'shipped', label: '🚚 تم الشحن' },
+  { key: 'rejectedOffer', label: '🎁 عرض بعد الرفض' },
+  { key: 'reminder', label: '⏰ تذكير' },
+  { key: 'followUp', label: '🔁 خطوات المتابعة' }
+];
+
+export default function TransportSettings() {
+  const [config, setConfig] = useState<TransportSettingsData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadTransport();
+  }, []);
+
+  const loadTransport = async () => {
+    try {
+      const response = await fetch('/api/config/transport');
+      setConfig(await response.json());
+    } catch (error) {
+      console.error('Error loading transport settings:', error);
+    }
+  };
+
+  const updateCloudApi = (patch: Partial<CloudApiConfig>) => {
+    setConfig(prev => (prev ? { ...prev, cloudApi: { ...prev.cloudApi, ...patch } } : prev));
+  };
+
+  const updateTemplate = (key: keyof CloudApiConfig['templates'], field: 'name' | 'language', value: string) => {
+    if (!config) return;
+    const current = config.cloudApi.templates[key] || { name: '', language: 'ar' };
+    updateCloudApi({ templates: { ...config.cloudApi.templates, [key]: { ...current, [field]: value } } });
+  };
+
+  const saveTransport = async () => {
+    if (!config) return;
+    setLoading(true);
+    try {
+      const { webhookPath, ...transport } = config;
+      const response = await fetch('/api/config/transport', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(transport)
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadTransport();
+      }
+    } catch (error) {
+      console.error('Error saving transport settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetTransport = async () => {
+    if (!confirm('العودة للإرسال عبر واتساب ويب وحذف بيانات Cloud API؟')) return;
+    const response = await fetch('/api/config/transport', { method: 'DELETE' });
+    const { success, message, ...defaults } = await response.json();
+    if (success) {
+      setConfig(defaults as TransportSettingsData);
+      setErrors([]);
+      setWarnings([]);
+    }
+  };
+
+  if (!config) return null;
+
+  const isCloud = config.provider === 'cloud-api';
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--primary-light), rgba(37, 99, 235, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>🔌 طريقة الإرسال</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              واتساب ويب بمسح كود QR، أو WhatsApp Business Cloud API الرسمي بدون متصفح
+            </p>
+          </div>
+          <span className={`badge ${isCloud ? 'badge-primary' : 'badge-success'}`}>
+            {isCloud ? '☁️ Cloud API' : '🌐 واتساب ويب'}
+          </span>
+        </div>
+      </div>
+      <div className="card-body">
+        <div className="flex gap-3 mb-3" style={{ flexWrap: 'wrap' }}>
+          <label>
+            <input type="radio" checked={!isCloud} onChange={() => setConfig({ ...config, provider: 'web' })} /> واتساب ويب (QR)
+          </label>
+          <label>
+            <input type="radio" checked={isCloud} onChange={() => setConfig({ ...config, provider: 'cloud-api' })} /> WhatsApp Business Cloud API
+          </label>
+        </div>
+
+        {isCloud && (
+          <>
+            <div className="alert alert-primary mb-3" style={{ fontSize: '0.9rem' }}>
+              <strong>🔗 رابط الـ webhook:</strong>{' '}
+              <code style={{ direction: 'ltr', display: 'inline-block' }}>
+                {typeof window !== 'undefined' ? window.location.origin : ''}{config.webhookPath}
+              </code>
+              <br />
+              سجّله في إعدادات تطبيق Meta واشترك في حقل messages لاستقبال ردود العملاء وإيصالات التسليم
+            </div>
+
+            <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))', gap: '1.5rem', marginBottom: '1.5rem' }}>
+              {CLOUD_FIELDS.map(({ key, label, secret, hint }) => (
+                <div key={key}>
+                  <label className="label">{label}</label>
+                  <input
+                    type={secret ? 'password' : 'text'}
+                    className="input"
+                    style={{ direction: 'ltr' }}
+                    value={config.cloudApi[key]}
+                    onChange={(e) => updateCloudApi({ [key]: e.target.value })}
+                  />
+                  {hint && (
+                    <p style={{ fontSize: '0.8rem', color: 'var(--gray-500)', marginTop: '0.25rem' }}>{hint}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <label className="label">📋 القوالب المعتمدة</label>
+            <p style={{ fontSize: '0.85rem', color: 'var(--gray-600)', marginBottom: '0.75rem' }}>
+              الرسائل الآلية لعميل لم يراسلك خلال 24 ساعة لا تُقبل إلا كقالب معتمد. أنشئ في Meta قالباً بمتغير واحد {'{{1}}'} - يوضع فيه نص الرسالة بعد استبدال المتغيرات. اترك الاسم فارغاً لإرسال النص العادي.
+            </p>
+            <div className="grid grid-cols-1 gap-2">
+              {TEMPLATE_TYPES.map(({ key, label }) => (
+                <div key={key} className="flex gap-2 items-center" style={{ flexWrap: 'wrap' }}>
+                  <span style={{ minWidth: '140px' }}>{label}</span>
+                  <input
+                    className="input"
+                    style={{ flex: 2, minWidth: '180px', direction: 'ltr' }}
+                    placeholder="order_update"
+                    value={config.cloudApi.templates[key]?.name || ''}
+                    onChange={(e) => updateTemplate(key, 'name', e.target.value)}
+                  />
+                  <input
+                    className="input"
+                    style={{ flex: 1, minWidth: '80px', direction: 'ltr' }}
+                    placeholder="ar"
+                    value={config.cloudApi.templates[key]?.language || ''}
+                    onChange={(e) => updateTemplate(key, 'language', e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveTransport}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ طريقة الإرسال'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetTransport} disabled={loading}>
+            ↩️ العودة لواتساب ويب
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
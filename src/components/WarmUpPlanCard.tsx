@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { WarmUpConfig } from '@/lib/types/config';
+import type { WarmUpPlan } from '@/lib/services/warm-up';
+
+interface NumberProgress {
+  id: string;
+  name: string;
+  plan: WarmUpPlan;
+  sentToday: number;
+}
+
+interface WarmUpProgress extends WarmUpConfig {
+  schedule: number[];
+  numbers: NumberProgress[];
+}
+
+export default function WarmUpPlanCard() {
+  const [progress, setProgress] = useState<WarmUpProgress | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadWarmUp();
+  }, []);
+
+  const loadWarmUp = async () => {
+    try {
+      const response = await fetch('/api/config/timing/warm-up');
+      setProgress(await response.json());
+    } catch (error) {
+      console.error('Error loading warm-up plan:', error);
+    }
+  };
+
+  const update = (patch: Partial<WarmUpConfig>) => {
+    setProgress(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const saveWarmUp = async () => {
+    if (!progress) return;
+    setLoading(true);
+    try {
+      const { schedule, numbers, ...config } = progress;
+      const response = await fetch('/api/config/timing/warm-up', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config)
+      });
+      const result = await response.json();
+
+      setErrors(response.ok ? [] : result.errors || [result.error]);
+      setWarnings(result.warnings || []);
+      if (response.ok) {
+        setSaved(true);
+        setTimeout(() => setSaved(false), 3000);
+        await loadWarmUp();
+      }
+    } catch (error) {
+      console.error('Error saving warm-up plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restartWarmUp = async (sessionId: string) => {
+    if (!confirm('بدء التسخين من اليوم؟ سيعود السقف اليومي لهذا الرقم لسقف اليوم الأول')) return;
+    try {
+      const response = await fetch('/api/config/timing/warm-up', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ restart: true, sessionId })
+      });
+      const { success, error, ...data } = await response.json();
+      if (success) {
+        setProgress(data as WarmUpProgress);
+      } else {
+        setErrors([error]);
+      }
+    } catch (error) {
+      console.error('Error restarting warm-up:', error);
+    }
+  };
+
+  const resetWarmUp = async () => {
+    if (!confirm('هل تريد استعادة خطة التسخين الافتراضية؟')) return;
+    const response = await fetch('/api/config/timing/warm-up', { method: 'DELETE' });
+    const { success } = await response.json();
+    if (success) {
+      setErrors([]);
+      setWarnings([]);
+      await loadWarmUp();
+    }
+  };
+
+  if (!progress) return null;
+
+  const maxCap = Math.max(...progress.schedule, 1);
+  const warmingUp = progress.numbers.filter(number => number.plan.active).length;
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <div className="card-header" style={{ background: 'linear-gradient(135deg, var(--success-light), rgba(5, 150, 105, 0.1))' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 style={{ marginBottom: '0.5rem' }}>🌱 تسخين الأرقام الجديدة</h3>
+            <p style={{ marginBottom: '0', color: 'var(--gray-600)' }}>
+              سقف إرسال يومي يرتفع تدريجياً من يوم ربط الرقم - الرسائل الزائدة تنتظر في الطابور لليوم التالي
+            </p>
+          </div>
+          <span className={`badge ${warmingUp > 0 ? 'badge-warning' : 'badge-success'}`}>
+            {warmingUp > 0 ? `🌱 ${warmingUp} رقم في التسخين` : '✅ بدون تسخين'}
+          </span>
+        </div>
+      </div>
+      <div className="card-body">
+        <div className="grid grid-cols-1 gap-3" style={{ marginBottom: '1.5rem' }}>
+          {progress.numbers.map(({ id, name, plan, sentToday }) => {
+            const todayUsage = plan.dailyCap ? Math.min(100, Math.round((sentToday / plan.dailyCap) * 100)) : 0;
+            return (
+              <div key={id} className="card" style={{ padding: '1rem', border: plan.active ? '2px solid var(--warning)' : '1px solid var(--gray-200)' }}>
+                <div className="flex items-center justify-between" style={{ gap: '0.5rem', flexWrap: 'wrap' }}>
+                  <div>
+                    <strong>{name}</strong> <span style={{ color: 'var(--gray-500)', fontSize: '0.85rem' }}>{plan.phone || 'غير مربوط'}</span>
+                  </div>
+                  <div className="flex gap-2 items-center">
+                    <span className={`badge ${plan.active ? 'badge-warning' : plan.linkedAt ? 'badge-success' : 'badge-secondary'}`}>
+                      {plan.active ? `🌱 اليوم ${plan.day} من ${plan.totalDays}` : plan.linkedAt ? '✅ انتهى التسخين' : '— بدون تسخين'}
+                    </span>
+                    {plan.phone && (
+                      <button className="btn btn-warning" onClick={() => restartWarmUp(id)} disabled={loading}>
+                        🌱 بدء التسخين من اليوم
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p style={{ fontSize: '0.85rem', color: 'var(--gray-600)', margin: '0.5rem 0 0' }}>
+                  {!plan.phone
+                    ? 'يبدأ التسخين تلقائياً عند مسح كود QR لهذا الرقم'
+                    : !plan.linkedAt
+                      ? 'الرقم كان مربوطاً قبل تتبع التسخين - لا يُطبق سقف. اضغط "بدء التسخين من اليوم" إذا كان الرقم جديداً'
+                      : plan.active
+                        ? `ربط في ${new Date(plan.linkedAt).toLocaleDateString('ar-EG')} - سقف اليوم ${plan.dailyCap} رسالة، أُرسل منها ${sentToday} خلال آخر 24 ساعة`
+                        : `ربط في ${new Date(plan.linkedAt).toLocaleDateString('ar-EG')} - انتهى التسخين ${plan.endsAt ? `في ${new Date(plan.endsAt).toLocaleDateString('ar-EG')}` : ''}`}
+                </p>
+                {plan.active && (
+                  <div style={{ background: 'var(--gray-200)', borderRadius: '999px', height: '8px', overflow: 'hidden', marginTop: '0.5rem' }}>
+                    <div style={{ width: `${todayUsage}%`, height: '100%', background: todayUsage >= 100 ? 'var(--warning)' : 'var(--success)' }} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <label className="label">📈 السقف اليومي خلال التسخين</label>
+        <div className="flex gap-1" style={{ alignItems: 'flex-end', height: '90px', marginBottom: '1.5rem' }}>
+          {progress.schedule.map((cap, index) => (
+            <div key={index} title={`اليوم ${index + 1}: ${cap}`} style={{ flex: 1, textAlign: 'center' }}>
+              <div
+                style={{
+                  height: `${Math.max(4, (cap / maxCap) * 70)}px`,
+                  // Days some number is on right now
+                  background: progress.numbers.some(number => number.plan.active && number.plan.day === index + 1) ? 'var(--warning)' : 'var(--gray-300)',
+                  borderRadius: '4px 4px 0 0'
+                }}
+              />
+              <div style={{ fontSize: '0.65rem', color: 'var(--gray-500)' }}>{cap}</div>
+            </div>
+          ))}
+        </div>
+
+        <label style={{ display: 'block', marginBottom: '1rem' }}>
+          <input type="checkbox" checked={progress.enabled} onChange={(e) => update({ enabled: e.target.checked })} /> تفعيل التسخين للأرقام الجديدة
+        </label>
+
+        <div className="grid grid-cols-1" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1.5rem' }}>
+          <div>
+            <label className="label">📆 مدة التسخين (أيام)</label>
+            <input type="number" className="input" min={1} max={90} value={progress.days} onChange={(e) => update({ days: Number(e.target.value) })} />
+          </div>
+          <div>
+            <label className="label">🐣 سقف اليوم الأول</label>
+            <input type="number" className="input" min={1} value={progress.startPerDay} onChange={(e) => update({ startPerDay: Number(e.target.value) })} />
+          </div>
+          <div>
+            <label className="label">🚀 سقف آخر يوم</label>
+            <input type="number" className="input" min={1} value={progress.targetPerDay} onChange={(e) => update({ targetPerDay: Number(e.target.value) })} />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="alert alert-danger" style={{ marginTop: '1rem' }}>
+            <strong>❌ أخطاء:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {errors.map((error, i) => <li key={i}>• {error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" style={{ marginTop: '1rem' }}>
+            <strong>⚠️ تحذيرات:</strong>
+            <ul style={{ marginTop: '0.5rem', paddingRight: '1rem' }}>
+              {warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2" style={{ marginTop: '1.5rem', flexWrap: 'wrap' }}>
+          <button
+            className={`btn ${saved ? 'btn-success' : 'btn-primary'}`}
+            onClick={saveWarmUp}
+            disabled={loading}
+          >
+            {saved ? '✅ تم الحفظ' : '💾 حفظ خطة التسخين'}
+          </button>
+          <button className="btn btn-secondary" onClick={resetWarmUp} disabled={loading}>
+            ↩️ استعادة الافتراضي
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { GoogleSheetsService } from './google-sheets';
 import { ConfigService } from './config';
 import { QueueService, MessageJob, ReminderJob } from './queue';
@@ -5,60 +6,135 @@ import { WhatsAppService } from './whatsapp';
 import { PhoneProcessor } from './phone-processor';
 import { NetworkResilienceService } from './network-resilience';
 import { setupGlobalErrorHandlers } from '../utils/error-handler';
-import { DuplicateGuardService } from './duplicate-guard';
-import type { SheetRow, MessageTemplates } from '../types/config';
+import { parseOrderDate } from '../utils/order-date';
+import { DuplicateGuardService, type MessageType } from './duplicate-guard';
+import { StatusRulesService } from './status-rules';
+import { OrderStateService, type OrderState } from './order-state';
+import { OrderTimelineService } from './order-timeline';
+import { FollowUpService } from './follow-up';
+import { SendWindowService } from './send-window';
+import { OfferService } from './offer';
+import { CouponService } from './coupons';
+import { TemplateExperimentService } from './template-experiments';
+import { CustomerService, type CustomerIndex, type CustomerOrder } from './customers';
+import { InboxService } from './inbox';
+import { MessageTracker } from './message-tracker';
+import { FlowService } from './flows';
+import { SendGovernorService } from './send-governor';
+import { SenderPoolService } from './sender-pool';
+import { TenantService } from './tenant';
+import { SmsService } from './sms';
+import { MediaService, type MessageAttachment } from './media';
+import type { SheetRow, MessageTemplates, StatusRule, StatusRuleAction, RuleMessageType, FollowUpSequence, SendWindowsConfig, OfferPolicyConfig, TemplateExperimentsConfig, SmsConfig, MessageChannel, MediaConfig } from '../types/config';
 
 // Setup global error handlers
 setupGlobalErrorHandlers();
 
+export interface SimulatedAction {
+  kind: 'send' | 'schedule' | 'cancel' | 'markFinal';
+  messageType?: string;
+  message?: string;
+  phoneNumber?: string;
+  delayHours?: number;
+  sendAt?: string;             // بعد تطبيق نوافذ الإرسال
+  deferred?: boolean;          // أُجلت بسبب ساعات الهدوء
+  variantId?: string;          // نسخة القالب في اختبار A/B
+  groupOrderIds?: string[];    // طلبات أخرى لنفس العميل في نفس الرسالة
+  channel?: MessageChannel;    // sms لعميل غير مسجل على الواتساب
+  media?: MessageAttachment;   // صورة المنتج أو ملف مرفق
+  note?: string;
+}
+
+export interface SimulatedOrder {
+  orderId: string;
+  rowIndex?: number;
+  customerName: string;
+  orderStatus: string;
+  targetNumber?: string;
+  actions: SimulatedAction[];
+  skipped: Array<{ messageType?: string; reason: string }>;
+}
+
+export interface SimulationPlan {
+  generatedAt: string;
+  totalRows: number;
+  orders: SimulatedOrder[];
+  summary: { send: number; schedule: number; cancel: number; skipped: number };
+}
+
+export interface BackfillOptions {
+  from: string;                // YYYY-MM-DD (تاريخ الطلب)
+  to: string;                  // YYYY-MM-DD شامل
+  messageTypes: RuleMessageType[];
+  dryRun?: boolean;            // معاينة فقط بدون إضافة للطابور
+}
+
+export interface BackfillResult {
+  dryRun: boolean;
+  from: string;
+  to: string;
+  messageTypes: RuleMessageType[];
+  matchedRows: number;
+  unparsedDates: number;
+  enqueued: number;
+  plan: SimulationPlan;
+}
+
+// Settings and customer index one processing run works with, loaded at its start
+interface CycleState {
+  offerPolicy: OfferPolicyConfig;
+  templateExperiments: TemplateExperimentsConfig;
+  sms: SmsConfig;
+  media: MediaConfig;
+  customerIndex: CustomerIndex | null;
+}
+
+interface SimulationContext {
+  plan: SimulationPlan;
+  orders: Map<string, SimulatedOrder>;
+  sendWindows: SendWindowsConfig;
+  state: CycleState;             // نسخة المحاكاة - لا تمس حالة المتجر التي تقرأها الدورة الحقيقية
+  queued: Map<string, Map<string, string>>;   // نوع الرسالة → الطلب → الطلب الذي خُططت رسالته وتغطيه
+}
+
+// Orders whose messages go out together - the leader's job carries the others
+interface ConsolidationGroup {
+  leaderId: string;
+  orders: CustomerOrder[];
+}
+
+// Dry-run plan for the current async call chain; undefined during real processing
+const simulationContext = new AsyncLocalStorage<SimulationContext>();
+
 export class AutomationEngine {
-  private static isRunning = false;
-  private static intervalId: NodeJS.Timeout | null = null;
-  private static processedOrders = new Set<string>();
-  private static orderStatusHistory = new Map<string, { status: string, timestamp: number }>();
-
-  // حالات الطلبات المصرية المدعومة حسب المواصفات
-  private static readonly EGYPTIAN_ORDER_STATUSES = {
-    // الحالة الأولى: طلب جديد (New Order)
-    NEW: 'جديد',
-    NEW_2: 'طلب جديد',
-    NEW_3: 'قيد المراجعة',
-    NEW_4: 'قيد المراجعه',
-    EMPTY: '',                    // طلب بدون حالة يُعتبر جديد
-    UNDEFINED: 'غير محدد',        // حالة افتراضية تُعتبر جديد
-    
-    // الحالة الثانية: لم يرد (No Answer)
-    NO_ANSWER_1: 'لم يتم الرد',
-    NO_ANSWER_2: 'لم يرد',
-    NO_ANSWER_3: 'لا يرد',
-    NO_ANSWER_4: 'عدم الرد',
-    
-    // الحالة الثالثة: تم التأكيد أو الشحن (Confirmed/Shipped)
-    CONFIRMED: 'تم التأكيد',
-    CONFIRMED_2: 'تم التاكيد',
-    CONFIRMED_3: 'مؤكد',
-    SHIPPED: 'تم الشحن',
-    SHIPPED_2: 'قيد الشحن',
-    
-    // الحالة الرابعة: تم الرفض (Rejected)
-    REJECTED_1: 'تم الرفض',
-    REJECTED_2: 'مرفوض',
-    REJECTED_3: 'رفض الاستلام',
-    REJECTED_4: 'رفض الأستلام',
-    REJECTED_5: 'لم يتم الاستلام',
-  } as const;
-
-  // Track sent messages to prevent duplicates
-  private static sentMessages = new Map<string, { messageType: string, timestamp: number }>();
-
-  // Enhanced duplicate prevention tracking
-  private static duplicateAttempts = new Map<string, {
-    orderId: string;
-    messageType: string;
-    attemptCount: number;
-    lastAttempt: number;
-    preventedDuplicates: number;
-  }>();
+  // Each store runs its own processing loop over its own sheet
+  private static scope = TenantService.scoped(() => ({
+    isRunning: false,
+    intervalId: null as NodeJS.Timeout | null,
+
+    // Track sent messages to prevent duplicates
+    sentMessages: new Map<string, { messageType: string, timestamp: number }>(),
+
+    // Enhanced duplicate prevention tracking
+    duplicateAttempts: new Map<string, {
+      orderId: string;
+      messageType: string;
+      attemptCount: number;
+      lastAttempt: number;
+      preventedDuplicates: number;
+    }>(),
+
+    // Empty status tracking
+    updatedFromEmptyStatus: new Set<string>(),
+    emptyStatusUpdates: new Map<string, number>(),
+
+    // Rejected-offer policy, refreshed every processing cycle
+    offerPolicy: ConfigService.getDefaultOfferPolicy() as OfferPolicyConfig,
+    templateExperiments: ConfigService.getDefaultTemplateExperiments() as TemplateExperimentsConfig,
+    sms: ConfigService.getDefaultSmsConfig() as SmsConfig,
+    media: ConfigService.getDefaultMediaConfig() as MediaConfig,
+    customerIndex: null as CustomerIndex | null
+  }));
 
   // Global duplicate prevention statistics
   private static duplicatePreventionStats = {
@@ -84,9 +160,6 @@ export class AutomationEngine {
   // Cache configuration
   private static readonly PHONE_CACHE_EXPIRATION = 1000 * 60 * 60 * 24; // 24 hours
 
-  // Empty status tracking
-  private static updatedFromEmptyStatus = new Set<string>();
-
   // Performance monitoring
   private static performanceStats = {
     processingStartTime: 0,
@@ -101,7 +174,7 @@ export class AutomationEngine {
   };
 
   static async start(): Promise<void> {
-    if (this.isRunning) {
+    if (this.scope().isRunning) {
       console.log('Automation engine is already running');
       return;
     }
@@ -110,14 +183,18 @@ export class AutomationEngine {
       console.log('🚀 Starting OPTIMIZED Egyptian WhatsApp automation engine with persistent connection...');
       
       // Reset any previous state
-      this.isRunning = false;
-      if (this.intervalId) {
-        clearInterval(this.intervalId);
-        this.intervalId = null;
+      this.scope().isRunning = false;
+      const { intervalId } = this.scope();
+      if (intervalId) {
+        clearInterval(intervalId);
+        this.scope().intervalId = null;
       }
       
+      // Load persistent order state so restarts don't re-treat every row as new
+      await OrderStateService.load();
+
       // Log supported statuses for debugging
-      this.logSupportedStatuses();
+      await this.logSupportedStatuses();
       
       // Initialize cache cleanup timer
       this.initializeCacheCleanup();
@@ -223,20 +300,20 @@ export class AutomationEngine {
       
       // STEP 6: Start the processing loop
       console.log('🚀 Step 6: Starting processing loop with persistent connection...');
-      this.isRunning = true;
+      this.scope().isRunning = true;
       
       try {
         await this.startProcessingLoop();
         console.log('✅ Processing loop started successfully');
       } catch (loopError) {
-        this.isRunning = false;
+        this.scope().isRunning = false;
         console.error('❌ Failed to start processing loop:', loopError);
         throw new Error(`Cannot start automation: Processing loop failed - ${loopError instanceof Error ? loopError.message : 'Unknown error'}`);
       }
       
       // STEP 7: Final validation
       console.log('🎯 Step 7: Final validation...');
-      if (!this.isRunning) {
+      if (!this.scope().isRunning) {
         throw new Error('Automation engine failed to start properly');
       }
       
@@ -248,10 +325,11 @@ export class AutomationEngine {
       console.error('❌ Error starting automation engine:', error);
       
       // Clean up on failure
-      this.isRunning = false;
-      if (this.intervalId) {
-        clearInterval(this.intervalId);
-        this.intervalId = null;
+      this.scope().isRunning = false;
+      const { intervalId } = this.scope();
+      if (intervalId) {
+        clearInterval(intervalId);
+        this.scope().intervalId = null;
       }
       
       // Re-throw with more context
@@ -263,17 +341,27 @@ export class AutomationEngine {
   static async stop(): Promise<void> {
     console.log('🛑 Stopping automation engine...');
     
-    this.isRunning = false;
+    this.scope().isRunning = false;
     
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    const { intervalId } = this.scope();
+    if (intervalId) {
+      clearInterval(intervalId);
+      this.scope().intervalId = null;
     }
     
+    // Persist pending order state before clearing caches
+    OrderStateService.flush();
+    OrderTimelineService.flush();
+    CouponService.flush();
+    InboxService.flush();
+    MessageTracker.flush();
+    SendGovernorService.flush();
+    SenderPoolService.flush();
+    
     // Clear all caches
     this.phoneValidationCache.clear();
-    this.duplicateAttempts.clear();
-    this.sentMessages.clear();
+    this.scope().duplicateAttempts.clear();
+    this.scope().sentMessages.clear();
     
     console.log('✅ Automation engine stopped successfully');
   }
@@ -293,13 +381,13 @@ export class AutomationEngine {
     const connectionHealth = whatsapp.getConnectionHealth();
     
     return {
-      isRunning: this.isRunning,
+      isRunning: this.scope().isRunning,
       performance: { ...this.performanceStats },
       duplicatePreventionStats: { ...this.duplicatePreventionStats },
       cacheStats: {
         phoneValidationCacheSize: this.phoneValidationCache.size,
-        duplicateAttemptsSize: this.duplicateAttempts.size,
-        sentMessagesSize: this.sentMessages.size
+        duplicateAttemptsSize: this.scope().duplicateAttempts.size,
+        sentMessagesSize: this.scope().sentMessages.size
       },
       whatsappConnectionHealth: connectionHealth
     };
@@ -313,7 +401,7 @@ export class AutomationEngine {
     
     const processLoop = async () => {
       // Check if engine is still supposed to be running
-      if (!this.isRunning) {
+      if (!this.scope().isRunning) {
         console.log('🛑 Automation engine stopped, exiting processing loop');
         return;
       }
@@ -360,6 +448,9 @@ export class AutomationEngine {
         // Start main processing
         console.log('🚀 Starting optimized order processing...');
         await this.processSheetDataOptimized();
+
+        // Close flows the customer stopped answering so their partial answers reach the order notes
+        await FlowService.expireSessions().catch(error => console.warn('⚠️ Could not expire conversation flows:', error));
         
         processingSuccess = true;
         
@@ -384,7 +475,7 @@ export class AutomationEngine {
         if (errorMessage.includes('Google Sheets access failed') && 
             errorMessage.includes('Authentication')) {
           console.error('🚨 Critical authentication error - stopping automation engine');
-          this.isRunning = false;
+          this.scope().isRunning = false;
           return;
         }
         
@@ -393,15 +484,15 @@ export class AutomationEngine {
       }
 
       // Schedule next processing cycle only if engine is still running
-      if (this.isRunning) {
+      if (this.scope().isRunning) {
         const nextCycleTime = processingSuccess ? checkInterval : Math.min(checkInterval * 2, 60000); // Backoff on failure
         console.log(`⏰ Next processing cycle in ${nextCycleTime / 1000} seconds...`);
         
-        this.intervalId = setTimeout(() => {
+        this.scope().intervalId = setTimeout(() => {
           processLoop().catch(error => {
             console.error('❌ Critical error in processing loop:', error);
             console.log('🛑 Stopping automation engine due to critical error');
-            this.isRunning = false;
+            this.scope().isRunning = false;
           });
         }, nextCycleTime);
       } else {
@@ -411,11 +502,11 @@ export class AutomationEngine {
 
     // Start the first processing cycle with a small delay
     console.log('🚀 Starting first processing cycle in 5 seconds...');
-    this.intervalId = setTimeout(() => {
+    this.scope().intervalId = setTimeout(() => {
       processLoop().catch(error => {
         console.error('❌ Critical error in initial processing loop:', error);
         console.log('🛑 Stopping automation engine due to critical startup error');
-        this.isRunning = false;
+        this.scope().isRunning = false;
         throw error;
       });
     }, 5000); // 5 second delay for initial startup
@@ -431,6 +522,9 @@ export class AutomationEngine {
       const timingConfig = await ConfigService.getTimingConfig();
       const reminderDelayHours = timingConfig.reminderDelayHours || 24;
       const rejectedOfferDelayHours = timingConfig.rejectedOfferDelayHours || 24;
+      const rules = await StatusRulesService.getActiveRules();
+      const sequences = await FollowUpService.getActiveSequences();
+      await this.loadCycleSettings();
       
       // Validate templates
       if (!templates || typeof templates !== 'object') {
@@ -442,6 +536,9 @@ export class AutomationEngine {
       console.log('📊 Fetching data with network resilience...');
       const sheetData = await NetworkResilienceService.getSheetDataResilient();
       console.log(`📋 Processing ${sheetData.length} orders from Google Sheets`);
+      await this.refreshCustomerIndex(sheetData);
+      const simulation = simulationContext.getStore();
+      if (simulation) simulation.plan.totalRows = sheetData.length;
       
       // Process in batches for better performance
       const batchSize = 50;
@@ -449,6 +546,7 @@ export class AutomationEngine {
       let skippedCount = 0;
       let invalidPhoneCount = 0;
       let whatsappValidationCount = 0;
+      let smsFallbackCount = 0;
 
       for (let i = 0; i < sheetData.length; i += batchSize) {
         const batch = sheetData.slice(i, i + batchSize);
@@ -456,45 +554,72 @@ export class AutomationEngine {
         for (const row of batch) {
           // Stage 1: FAST Data Sanitization & Phone Number Resolution
           const sanitizationResult = await this.sanitizeAndValidateRowOptimized(row);
+          await this.recordValidationTimeline(row, sanitizationResult);
           
-          if (!sanitizationResult.isValid) {
+          if (this.useSmsFallback(row, sanitizationResult)) {
+            smsFallbackCount++;
+          } else if (!sanitizationResult.isValid) {
             if (sanitizationResult.reason === 'invalid_phone') {
               invalidPhoneCount++;
             } else if (sanitizationResult.reason === 'not_whatsapp_user') {
               whatsappValidationCount++;
             }
             skippedCount++;
+            this.planSkip(row, sanitizationResult.details || sanitizationResult.reason || 'invalid');
             continue;
           }
 
           // Stage 2: Business Logic Application
           const orderId = row.orderId!;
           const currentStatus = row.orderStatus;
-          const previousStatusData = this.orderStatusHistory.get(orderId);
-          
-          // Update status history
-          this.orderStatusHistory.set(orderId, {
-            status: currentStatus,
-            timestamp: Date.now()
-          });
 
-          // Check if this is a new order or status change
-          const isNewOrder = !previousStatusData;
-          const statusChanged = previousStatusData && previousStatusData.status !== currentStatus;
+          // Update persistent status history (read-only during simulation)
+          const { state, previous, isNew: isNewOrder, statusChanged } = simulation
+            ? await OrderStateService.previewStatus(orderId, currentStatus)
+            : await OrderStateService.recordStatus(orderId, currentStatus);
+
+          if (isNewOrder) {
+            await this.recordTimeline(orderId, 'first_seen', `ظهر الطلب لأول مرة بالحالة "${state.status}"`, {
+              status: state.status,
+              rowIndex: row.rowIndex
+            });
+          } else if (statusChanged) {
+            await this.recordTimeline(orderId, 'status_changed', `تغيرت الحالة من "${previous?.status}" إلى "${state.status}"`, {
+              from: previous?.status,
+              to: state.status
+            });
+          }
+
+          // Repeat submissions of the same order keep their status history but never get messages
+          const { customerIndex } = this.cycle();
+          const duplicateOf = customerIndex ? CustomerService.getDuplicateOf(customerIndex, orderId) : undefined;
+          if (duplicateOf) {
+            if (isNewOrder) {
+              await this.recordTimeline(orderId, 'duplicate_detected', `طلب مكرر من نفس العميل - الطلب الأصلي ${duplicateOf}`, { duplicateOf });
+            }
+            this.planSkip(row, `طلب مكرر من نفس العميل (الطلب الأصلي ${duplicateOf})`);
+            continue;
+          }
 
           if (isNewOrder || statusChanged) {
             console.log(`📝 Processing order ${orderId}: ${isNewOrder ? 'NEW' : 'STATUS_CHANGE'} - ${currentStatus}`);
-            await this.handleEgyptianOrderStatusChange(row, templates, reminderDelayHours, rejectedOfferDelayHours);
+            await this.handleEgyptianOrderStatusChange(row, templates, rules, reminderDelayHours, rejectedOfferDelayHours);
+            await this.handleFollowUpSequences(row, templates, sequences, statusChanged);
             processedCount++;
-          } else if (previousStatusData) {
+          } else {
             // Check for reminder conditions
-            await this.checkReminderConditions(row, previousStatusData, templates, reminderDelayHours);
+            await this.checkReminderConditions(row, state, templates, rules, reminderDelayHours);
           }
+
+          this.planSkipIfIdle(row, isNewOrder || statusChanged ? 'لا يوجد إجراء لهذه الحالة' : 'الحالة لم تتغير منذ آخر فحص');
         }
       }
 
       console.log(`✅ Batch processing completed: ${processedCount} processed, ${skippedCount} skipped`);
       console.log(`📊 Skip reasons: ${invalidPhoneCount} invalid phones, ${whatsappValidationCount} not WhatsApp users`);
+      if (smsFallbackCount > 0) {
+        console.log(`📨 ${smsFallbackCount} customers without WhatsApp handled over SMS`);
+      }
       
       // Log network resilience stats
       const resilienceStats = NetworkResilienceService.getStats();
@@ -524,7 +649,7 @@ export class AutomationEngine {
    */
   private static async sanitizeAndValidateRowOptimized(row: SheetRow): Promise<{
     isValid: boolean;
-    reason?: 'missing_data' | 'invalid_phone' | 'not_whatsapp_user';
+    reason?: 'missing_data' | 'invalid_phone' | 'not_whatsapp_user' | 'whatsapp_unavailable';
     details?: string;
     finalPhone?: string;
   }> {
@@ -598,6 +723,15 @@ export class AutomationEngine {
     }
     
     const whatsappValidation = await whatsapp.validatePhoneNumber(finalPhone);
+
+    // The lookup itself failed (client not ready, lookup error) - say nothing about the number and try again next cycle
+    if (!whatsappValidation.isValid) {
+      return {
+        isValid: false,
+        reason: 'whatsapp_unavailable',
+        details: whatsappValidation.error || 'تعذر التحقق من الواتساب'
+      };
+    }
     
     // Cache the result
     this.phoneValidationCache.set(finalPhone, {
@@ -622,9 +756,46 @@ export class AutomationEngine {
     };
   }
 
+  /**
+   * عميل غير مسجل على الواتساب يكمل عبر SMS إذا كانت القناة الاحتياطية مفعلة.
+   * فقط عندما أكد الواتساب أن الرقم غير مسجل - فشل التحقق نفسه لا يحول العميل لرسائل مدفوعة
+   */
+  private static useSmsFallback(row: SheetRow, result: { isValid: boolean; reason?: string }): boolean {
+    if (result.isValid || result.reason !== 'not_whatsapp_user' || !this.cycle().sms.enabled) return false;
+    row.channel = 'sms';
+    return true;
+  }
+
+  /**
+   * تسجيل نتيجة تنظيف الرقم والتحقق من الواتساب في سجل الطلب
+   */
+  private static async recordValidationTimeline(
+    row: SheetRow,
+    result: { isValid: boolean; reason?: string; details?: string; finalPhone?: string }
+  ): Promise<void> {
+    if (simulationContext.getStore()) return;
+    const dedupe = { dedupe: true };
+
+    if (result.reason === 'missing_data' || result.reason === 'invalid_phone') {
+      await OrderTimelineService.record(row.orderId, 'phone_sanitized', 'فشل تنظيف الرقم', { valid: false, reason: result.details }, dedupe);
+      return;
+    }
+
+    await OrderTimelineService.record(row.orderId, 'phone_sanitized', 'تم تنظيف الرقم', { valid: true, phone: result.finalPhone || row.processedPhone }, dedupe);
+
+    if (result.reason === 'not_whatsapp_user') {
+      await OrderTimelineService.record(row.orderId, 'whatsapp_validated', 'الرقم غير مسجل على الواتساب', { registered: false, reason: result.details }, dedupe);
+    } else if (result.reason === 'whatsapp_unavailable') {
+      await OrderTimelineService.record(row.orderId, 'whatsapp_validated', 'تعذر التحقق من الواتساب - يعاد في الدورة القادمة', { registered: null, reason: result.details }, dedupe);
+    } else {
+      await OrderTimelineService.record(row.orderId, 'whatsapp_validated', 'الرقم مسجل على الواتساب', { registered: true }, dedupe);
+    }
+  }
+
   private static async handleEgyptianOrderStatusChange(
     row: SheetRow, 
     templates: MessageTemplates, 
+    rules: StatusRule[],
     reminderDelayHours: number, 
     rejectedOfferDelayHours: number
   ): Promise<void> {
@@ -635,9 +806,24 @@ export class AutomationEngine {
       return;
     }
 
+    console.log(`📋 Handling Egyptian order status change for ${orderId}: "${orderStatus}"`);
+    console.log(`🎯 Customer: ${name}, Phone: ${processedPhone}, Row: ${rowIndex}`);
+
+    // Normalize status for comparison
+    const status = (orderStatus || '').trim();
+    const rule = StatusRulesService.matchRule(status, rules);
+
+    if (!rule) {
+      console.log(`❓ Unknown status: "${status}" for order ${orderId} - no matching rule, no action taken`);
+      this.planSkip(row, `لا توجد قاعدة تطابق الحالة "${status}"`);
+      return;
+    }
+
+    console.log(`📐 ➤ Status "${status}" matched rule "${rule.name}" (${rule.id}) → ${rule.actions.map(a => a.type).join(', ')}`);
+
     // Get enabled status settings
     const statusSettings = await ConfigService.getStatusSettings();
-    const enabledStatuses = statusSettings?.enabledStatuses || {
+    const enabledStatuses: Record<RuleMessageType, boolean> = statusSettings?.enabledStatuses || {
       newOrder: true,
       noAnswer: true,
       shipped: true,
@@ -645,80 +831,116 @@ export class AutomationEngine {
       reminder: true
     };
 
-    console.log(`📋 Handling Egyptian order status change for ${orderId}: "${orderStatus}"`);
-    console.log(`🎯 Customer: ${name}, Phone: ${processedPhone}, Row: ${rowIndex}`);
+    // A new matching rule means the order is no longer final unless the rule says so
+    if (!simulationContext.getStore()) {
+      await OrderStateService.setFinal(orderId, false);
+    }
 
-    // Normalize status for comparison
-    const status = (orderStatus || '').trim();
+    for (const action of rule.actions) {
+      await this.executeRuleAction(row, action, templates, enabledStatuses, reminderDelayHours, rejectedOfferDelayHours);
+    }
+  }
 
-    switch (status) {
-      // New Order Cases
-      case this.EGYPTIAN_ORDER_STATUSES.NEW:
-      case this.EGYPTIAN_ORDER_STATUSES.NEW_2:
-      case this.EGYPTIAN_ORDER_STATUSES.NEW_3:
-      case this.EGYPTIAN_ORDER_STATUSES.NEW_4:
-      case this.EGYPTIAN_ORDER_STATUSES.UNDEFINED:
-        if (enabledStatuses.newOrder) {
-        console.log(`📋 ➤ New Order detected: "${status}" → Sending newOrder message`);
-        await this.handleNewOrder(row, templates, reminderDelayHours, 'جديد');
-        } else {
-          console.log(`🚫 New Order messages are disabled for status: "${status}"`);
-        }
-        break;
-        
-      // No Answer Case
-      case this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_1:
-      case this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_2:
-      case this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_3:
-      case this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_4:
-        if (enabledStatuses.noAnswer) {
-        console.log(`📞 ➤ No Answer detected: "${status}" → Sending noAnswer message`);
-        await this.handleNoAnswer(row, templates, reminderDelayHours);
-        } else {
-          console.log(`🚫 No Answer messages are disabled for status: "${status}"`);
-        }
-        break;
-        
-      // Refused Delivery Cases (The Smart Rejected Offer)
-      case this.EGYPTIAN_ORDER_STATUSES.REJECTED_1:
-      case this.EGYPTIAN_ORDER_STATUSES.REJECTED_2:
-      case this.EGYPTIAN_ORDER_STATUSES.REJECTED_3:
-      case this.EGYPTIAN_ORDER_STATUSES.REJECTED_4:
-      case this.EGYPTIAN_ORDER_STATUSES.REJECTED_5:
-        if (enabledStatuses.rejectedOffer) {
-        console.log(`🚫 ➤ Rejected Order detected: "${status}" → Scheduling rejectedOffer message (24h delay)`);
-        await this.handleRefusedDelivery(row, templates, rejectedOfferDelayHours);
-        } else {
-          console.log(`🚫 Rejected Offer messages are disabled for status: "${status}"`);
+  /**
+   * إلغاء خطوات المتابعة التي خرج الطلب من حالتها، وبدء التسلسلات المطابقة للحالة الجديدة
+   */
+  private static async handleFollowUpSequences(
+    row: SheetRow,
+    templates: MessageTemplates,
+    sequences: FollowUpSequence[],
+    statusChanged: boolean
+  ): Promise<void> {
+    const { orderId, processedPhone, name, rowIndex, orderStatus } = row;
+    if (!processedPhone || !orderId || !rowIndex) return;
+
+    if (statusChanged && !simulationContext.getStore()) {
+      await QueueService.cancelFollowUpJobs(orderId, job => !FollowUpService.isEntryStatus(job.entryStatuses, orderStatus));
+    }
+
+    // Moving between two entry statuses of a sequence keeps its steps - they must not be scheduled twice
+    const runningSequences = new Set((await QueueService.getPendingJobs(orderId))
+      .filter(job => job.queue === 'followUp')
+      .map(job => job.sequenceId));
+
+    for (const sequence of FollowUpService.matchSequences(orderStatus, sequences)) {
+      if (runningSequences.has(sequence.id)) {
+        this.planSkip(row, `سلسلة المتابعة "${sequence.name}" تعمل بالفعل لهذا الطلب`);
+        continue;
+      }
+      console.log(`🔁 Starting follow-up sequence "${sequence.name}" (${sequence.steps.length} steps) for order ${orderId}`);
+
+      for (const step of sequence.steps) {
+        const template = step.template
+          ? (row.channel === 'sms' && this.cycle().sms.templates[step.template]?.trim()) || templates[step.template]
+          : step.message || '';
+        const message = this.replaceMessageVariables(template, row);
+        if (this.planAction(row, {
+          kind: 'schedule',
+          messageType: `followUp:${sequence.id}:${step.id}`,
+          message,
+          phoneNumber: processedPhone,
+          delayHours: step.delayHours,
+          channel: row.channel
+        })) continue;
+
+        await QueueService.addFollowUpJob({
+          orderId,
+          rowIndex,
+          phoneNumber: processedPhone,
+          customerName: name,
+          sequenceId: sequence.id,
+          stepId: step.id,
+          entryStatuses: sequence.entryStatuses,
+          message,
+          ...(row.channel ? { channel: row.channel } : {})
+        }, step.delayHours);
+      }
+    }
+  }
+
+  /**
+   * تنفيذ إجراء واحد من قاعدة الحالة
+   */
+  private static async executeRuleAction(
+    row: SheetRow,
+    action: StatusRuleAction,
+    templates: MessageTemplates,
+    enabledStatuses: Record<RuleMessageType, boolean>,
+    reminderDelayHours: number,
+    rejectedOfferDelayHours: number
+  ): Promise<void> {
+    const orderId = row.orderId!;
+
+    switch (action.type) {
+      case 'send':
+        if (!enabledStatuses[action.template]) {
+          console.log(`🚫 ${action.template} messages are disabled - skipping for order ${orderId}`);
+          this.planSkip(row, 'نوع الرسالة معطل في الإعدادات', action.template);
+          return;
         }
+        await this.enqueueTemplateMessage(row, templates, action.template);
         break;
-        
-      // Confirmed Case
-      case this.EGYPTIAN_ORDER_STATUSES.CONFIRMED:
-      case this.EGYPTIAN_ORDER_STATUSES.CONFIRMED_2:
-      case this.EGYPTIAN_ORDER_STATUSES.CONFIRMED_3:
-      case this.EGYPTIAN_ORDER_STATUSES.SHIPPED:
-      case this.EGYPTIAN_ORDER_STATUSES.SHIPPED_2:
-        if (enabledStatuses.shipped) {
-        console.log(`📦 ➤ Shipped/Confirmed detected: "${status}" → Sending shipped message`);
-        await this.handleShipped(row, templates);
-        } else {
-          console.log(`🚫 Shipped messages are disabled for status: "${status}"`);
+
+      case 'schedule': {
+        if (!enabledStatuses[action.template]) {
+          console.log(`🚫 ${action.template} messages are disabled - not scheduling for order ${orderId}`);
+          this.planSkip(row, 'نوع الرسالة معطل في الإعدادات', action.template);
+          return;
         }
+        const defaultDelay = action.template === 'rejectedOffer' ? rejectedOfferDelayHours : reminderDelayHours;
+        await this.scheduleTemplateMessage(row, templates, action.template, action.delayHours ?? defaultDelay);
         break;
-        
-      // Empty status case (treated as new order)
-      case this.EGYPTIAN_ORDER_STATUSES.EMPTY:
-        if (enabledStatuses.newOrder) {
-        console.log(`📋 ➤ Empty Status detected (treated as new order) → Sending newOrder message`);
-        await this.handleNewOrder(row, templates, reminderDelayHours, 'جديد');
-        } else {
-          console.log(`🚫 New Order messages are disabled for empty status`);
-        }
+      }
+
+      case 'cancelPending':
+        if (this.planAction(row, { kind: 'cancel', note: 'إلغاء كل الرسائل المجدولة للطلب' })) break;
+        await QueueService.cancelPendingJobs(orderId);
         break;
-        
-      default:
-        console.log(`❓ Unknown status: "${status}" for order ${orderId} - no action taken`);
+
+      case 'markFinal':
+        if (this.planAction(row, { kind: 'markFinal', note: 'الطلب في حالة نهائية - لا تذكيرات بعدها' })) break;
+        await OrderStateService.setFinal(orderId, true);
+        console.log(`🏁 Order ${orderId} marked as final`);
         break;
     }
   }
@@ -729,11 +951,11 @@ export class AutomationEngine {
    */
   private static checkAndPreventDuplicate(
     orderId: string, 
-    messageType: 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder',
+    messageType: MessageType,
     customerName: string,
     phone?: string | null
   ): { shouldSend: boolean; reason: string; stats: any; promise: Promise<boolean> } {
-    const checkPromise = DuplicateGuardService.shouldSend(orderId, messageType as any, phone, customerName);
+    const checkPromise = DuplicateGuardService.shouldSend(orderId, messageType, phone, customerName);
     return {
       shouldSend: true,
       reason: 'pending persistent check',
@@ -747,109 +969,508 @@ export class AutomationEngine {
    */
   private static async markMessageAsSent(
     orderId: string, 
-    messageType: 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder',
+    messageType: MessageType,
     customerName: string,
     phone?: string | null
   ): Promise<void> {
-    await DuplicateGuardService.markSent(orderId, messageType as any, phone, customerName);
+    await DuplicateGuardService.markSent(orderId, messageType, phone, customerName);
     console.log(`✅ تم تسجيل إرسال رسالة ${messageType} للعميل ${customerName} (طلب ${orderId}) بشكل دائم`);
   }
 
-  private static async handleNewOrder(row: SheetRow, templates: MessageTemplates, reminderDelayHours: number, statusType: string): Promise<void> {
+  private static async enqueueTemplateMessage(row: SheetRow, templates: MessageTemplates, messageType: RuleMessageType, delayHours?: number): Promise<void> {
     const { orderId, processedPhone, name, rowIndex } = row;
     if (!processedPhone || !orderId || !rowIndex) return;
 
-    const duplicateCheck = this.checkAndPreventDuplicate(orderId, 'newOrder', name, processedPhone);
-    const allowed = await duplicateCheck.promise;
+    const allowed = await DuplicateGuardService.shouldSend(orderId, messageType, processedPhone, name);
     if (!allowed) {
-      console.log(`🚫 Duplicate prevented (persistent): newOrder for ${orderId}`);
-          return;
+      console.log(`🚫 Duplicate prevented (persistent): ${messageType} for ${orderId}`);
+      this.planSkip(row, 'أُرسلت هذه الرسالة من قبل', messageType);
+      return;
     }
 
-    const newOrderMessage = this.replaceMessageVariables(templates.newOrder, row);
-    const messageJob: MessageJob = { phoneNumber: processedPhone, message: newOrderMessage, orderId, rowIndex, messageType: 'newOrder' as any };
-    await QueueService.addMessageJob(messageJob);
-
-    // schedule reminder if enabled
-    const statusSettings = await ConfigService.getStatusSettings();
-    if (statusSettings?.enabledStatuses?.reminder) {
-      const reminderJob: ReminderJob = { orderId, rowIndex, phoneNumber: processedPhone, customerName: name, orderStatus: statusType };
-      await QueueService.addReminderJob(reminderJob, reminderDelayHours);
+    const group = await this.getConsolidationGroup(row, messageType);
+    if (group && group.leaderId !== orderId) {
+      console.log(`👥 ${messageType} for ${orderId} is merged into the message for order ${group.leaderId}`);
+      this.planSkip(row, `مدمجة في رسالة الطلب ${group.leaderId} لنفس العميل`, messageType);
+      return;
     }
+
+    const { template, variantId } = this.pickTemplate(row, templates, messageType);
+    const msg = this.replaceMessageVariables(template, group ? CustomerService.consolidatedRow(row, group.orders) : row);
+    const messageJob: MessageJob = {
+      phoneNumber: processedPhone,
+      message: msg,
+      orderId,
+      rowIndex,
+      messageType,
+      ...(variantId ? { variantId } : {}),
+      ...(group ? { groupOrderIds: group.orders.filter(order => order.orderId !== orderId).map(order => order.orderId) } : {}),
+      ...(row.channel ? { channel: row.channel } : {}),
+      ...this.attachmentFor(row, messageType)
+    };
+    await this.queueMessage(row, messageJob, delayHours);
   }
 
-  private static async handleNoAnswer(row: SheetRow, templates: MessageTemplates, reminderDelayHours: number): Promise<void> {
-    const { orderId, processedPhone, name, rowIndex } = row;
-    if (!processedPhone || !orderId || !rowIndex) return;
+  /**
+   * تجميع طلبات العميل في الشيت وتحديد المكرر منها - يُعاد بناؤه في كل دورة
+   */
+  private static async refreshCustomerIndex(sheetData: SheetRow[]): Promise<void> {
+    const grouping = await ConfigService.getCustomerGrouping();
+    // Repeat orders from one phone are judged per customer, so the phone/name keys must not block them
+    DuplicateGuardService.setMatchPhoneAndName(!grouping.enabled);
+    this.cycle().customerIndex = CustomerService.buildIndex(sheetData, grouping);
+  }
 
-    const allowed = await DuplicateGuardService.shouldSend(orderId, 'noAnswer', processedPhone, name);
-    if (!allowed) { console.log(`🚫 Duplicate prevented (persistent): noAnswer for ${orderId}`); return; }
+  /**
+   * حالة الدورة الحالية - حالة المتجر في المعالجة الحقيقية، أو نسخة المحاكاة أثناء المعاينة والتعويض
+   */
+  private static cycle(): CycleState {
+    return simulationContext.getStore()?.state || this.scope();
+  }
 
-    const msg = this.replaceMessageVariables(templates.noAnswer, row);
-    const messageJob: MessageJob = { phoneNumber: processedPhone, message: msg, orderId, rowIndex, messageType: 'noAnswer' } as any;
-    await QueueService.addMessageJob(messageJob);
+  private static async loadCycleSettings(): Promise<void> {
+    const cycle = this.cycle();
+    cycle.offerPolicy = await OfferService.getPolicy();
+    cycle.templateExperiments = await TemplateExperimentService.getConfig();
+    cycle.sms = await SmsService.getConfig();
+    cycle.media = await MediaService.getConfig();
   }
 
-  private static async handleShipped(row: SheetRow, templates: MessageTemplates): Promise<void> {
-    const { orderId, processedPhone, name, rowIndex } = row;
-    if (!processedPhone || !orderId || !rowIndex) return;
+  /**
+   * طلبات العميل المختلفة التي لم تُرسل لها هذه الرسالة ولم تدخل الطابور بعد - تخرج في رسالة هذا الطلب.
+   * إذا كان الطلب نفسه داخل رسالة في الطابور يكون قائد المجموعة هو صاحب تلك الرسالة. null إذا لم يكن هناك ما يُجمع
+   */
+  private static async getConsolidationGroup(row: SheetRow, messageType: RuleMessageType): Promise<ConsolidationGroup | null> {
+    const { customerIndex } = this.cycle();
+    if (!customerIndex || !row.orderId) return null;
+    const siblings = CustomerService.getSiblings(customerIndex, row.orderId);
+    if (siblings.length < 2) return null;
+
+    // A queued job is never rebuilt, so orders can only join a message that has not been queued yet
+    const queued = await this.getQueuedMessageOrders(messageType);
+    const queuedWith = queued.get(row.orderId);
+    if (queuedWith && queuedWith !== row.orderId) return { leaderId: queuedWith, orders: [] };
+
+    const pending: CustomerOrder[] = [];
+    for (const sibling of siblings) {
+      if (sibling.orderId !== row.orderId && queued.has(sibling.orderId)) continue;
+      const state = await OrderStateService.get(sibling.orderId);
+      if (state?.sentMessages?.[messageType]) continue;
+      if (!(await DuplicateGuardService.shouldSend(sibling.orderId, messageType))) continue;
+      pending.push(sibling);
+    }
+    return pending.length > 1 && pending.some(order => order.orderId === row.orderId) ? { leaderId: row.orderId, orders: pending } : null;
+  }
 
-    const allowed = await DuplicateGuardService.shouldSend(orderId, 'shipped', processedPhone, name);
-    if (!allowed) { console.log(`🚫 Duplicate prevented (persistent): shipped for ${orderId}`); return; }
+  /**
+   * الطلبات المغطاة برسائل من هذا النوع في الطابور - وأثناء المحاكاة الرسائل المخططة أيضاً
+   */
+  private static async getQueuedMessageOrders(messageType: RuleMessageType): Promise<Map<string, string>> {
+    const queued = await QueueService.getQueuedMessageOrders(messageType);
+    const context = simulationContext.getStore();
+    for (const [orderId, leaderId] of context?.queued.get(messageType) || []) {
+      queued.set(orderId, leaderId);
+    }
+    return queued;
+  }
 
-    const msg = this.replaceMessageVariables(templates.shipped, row);
-    const messageJob: MessageJob = { phoneNumber: processedPhone, message: msg, orderId, rowIndex, messageType: 'shipped' } as any;
-    await QueueService.addMessageJob(messageJob);
+  /**
+   * نص القالب لهذا الطلب - نسخة من اختبار A/B إذا كان مفعلاً لهذا النوع، أو النسخة القصيرة لعميل SMS
+   */
+  private static pickTemplate(row: SheetRow, templates: MessageTemplates, messageType: RuleMessageType) {
+    const template = templates[messageType] || (messageType === 'reminder' ? templates.newOrder : '');
+    const picked = TemplateExperimentService.pickVariant(this.cycle().templateExperiments, row.orderId!, messageType, template);
+    return row.channel === 'sms' ? SmsService.pickTemplate(this.cycle().sms, messageType, picked) : picked;
   }
 
-  private static async handleRefusedDelivery(row: SheetRow, templates: MessageTemplates, rejectedOfferDelayHours: number): Promise<void> {
-    const { orderId, processedPhone, name, rowIndex } = row;
+  /**
+   * صورة المنتج أو الملف المرفق بهذا النوع من الرسائل - رسائل SMS بلا مرفقات
+   */
+  private static attachmentFor(row: SheetRow, messageType: RuleMessageType): Pick<MessageJob, 'media'> {
+    if (row.channel === 'sms') return {};
+    const media = MediaService.attachmentFor(this.cycle().media, messageType, row.productName);
+    return media ? { media } : {};
+  }
+
+  private static async scheduleTemplateMessage(row: SheetRow, templates: MessageTemplates, messageType: RuleMessageType, delayHours: number): Promise<void> {
+    const { orderId, processedPhone, name, rowIndex, orderStatus } = row;
     if (!processedPhone || !orderId || !rowIndex) return;
 
-    const allowed = await DuplicateGuardService.shouldSend(orderId, 'rejectedOffer', processedPhone, name);
-    if (!allowed) { console.log(`🚫 Duplicate prevented (persistent): rejectedOffer for ${orderId}`); return; }
+    // Reminder and rejected-offer jobs re-check the sheet status when they fire
+    if (messageType === 'reminder' || messageType === 'rejectedOffer') {
+      const { template, variantId } = this.pickTemplate(row, templates, messageType);
+      if (this.planAction(row, {
+        kind: 'schedule',
+        messageType,
+        message: this.replaceMessageVariables(template, row),
+        phoneNumber: processedPhone,
+        delayHours,
+        variantId,
+        channel: row.channel,
+        note: 'يُعاد فحص الحالة في الشيت عند موعد الإرسال'
+      })) return;
+
+      const job: ReminderJob = {
+        orderId,
+        rowIndex,
+        phoneNumber: processedPhone,
+        customerName: name,
+        orderStatus: (orderStatus || '').trim(),
+        ...(row.channel ? { channel: row.channel } : {})
+      };
+      if (messageType === 'reminder') {
+        await QueueService.addReminderJob(job, delayHours);
+      } else {
+        await QueueService.addRejectedOfferJob(job, delayHours);
+      }
+      console.log(`⏰ Scheduled ${messageType} for order ${orderId} in ${delayHours}h`);
+      return;
+    }
 
-    const msg = this.replaceMessageVariables(templates.rejectedOffer, row);
-    const messageJob: MessageJob = { phoneNumber: processedPhone, message: msg, orderId, rowIndex, messageType: 'rejectedOffer' } as any;
-    await QueueService.addMessageJob(messageJob);
+    await this.enqueueTemplateMessage(row, templates, messageType, delayHours);
+    console.log(`⏰ Scheduled ${messageType} for order ${orderId} in ${delayHours}h`);
   }
 
   private static async checkReminderConditions(
     row: SheetRow, 
-    previousStatusData: { status: string, timestamp: number }, 
+    orderState: OrderState, 
     templates: MessageTemplates, 
+    rules: StatusRule[],
     reminderDelayHours: number
   ): Promise<void> {
     const { orderId, processedPhone, name, rowIndex } = row;
     if (!processedPhone || !orderId || !rowIndex) return;
+    if (orderState.isFinal || orderState.sentMessages.reminder) return;
 
-    const timeSinceLastStatus = Date.now() - previousStatusData.timestamp;
+    const timeSinceLastStatus = Date.now() - orderState.lastStatusChangeAt;
     const reminderThreshold = reminderDelayHours * 60 * 60 * 1000;
 
-    if (timeSinceLastStatus >= reminderThreshold && this.shouldSendReminderForStatus(row.orderStatus)) {
+    if (timeSinceLastStatus >= reminderThreshold && StatusRulesService.isReminderEligible(row.orderStatus, rules)) {
       const allowed = await DuplicateGuardService.shouldSend(orderId, 'reminder', processedPhone, name);
-      if (!allowed) { console.log(`🚫 Duplicate prevented (persistent): reminder for ${orderId}`); return; }
+      if (!allowed) {
+        console.log(`🚫 Duplicate prevented (persistent): reminder for ${orderId}`);
+        this.planSkip(row, 'أُرسل التذكير من قبل', 'reminder');
+        return;
+      }
+
+      const group = await this.getConsolidationGroup(row, 'reminder');
+      if (group && group.leaderId !== orderId) {
+        this.planSkip(row, `مدمجة في رسالة الطلب ${group.leaderId} لنفس العميل`, 'reminder');
+        return;
+      }
 
-      const msg = this.replaceMessageVariables(templates.reminder || templates.newOrder, row);
-      const messageJob: MessageJob = { phoneNumber: processedPhone, message: msg, orderId, rowIndex, messageType: 'reminder' } as any;
-        await QueueService.addMessageJob(messageJob);
+      const { template, variantId } = this.pickTemplate(row, templates, 'reminder');
+      const msg = this.replaceMessageVariables(template, group ? CustomerService.consolidatedRow(row, group.orders) : row);
+      const messageJob: MessageJob = {
+        phoneNumber: processedPhone,
+        message: msg,
+        orderId,
+        rowIndex,
+        messageType: 'reminder',
+        ...(variantId ? { variantId } : {}),
+        ...(group ? { groupOrderIds: group.orders.filter(order => order.orderId !== orderId).map(order => order.orderId) } : {}),
+        ...(row.channel ? { channel: row.channel } : {}),
+        ...this.attachmentFor(row, 'reminder')
+      };
+      await this.queueMessage(row, messageJob);
     }
   }
 
-  private static shouldSendReminderForStatus(orderStatus: string): boolean {
-    const status = (orderStatus || '').trim();
-    
-    // Send reminders for new orders and no-answer cases
-    return status === this.EGYPTIAN_ORDER_STATUSES.NEW ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NEW_2 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NEW_3 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NEW_4 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_1 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_2 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_3 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.NO_ANSWER_4 ||
-           status === this.EGYPTIAN_ORDER_STATUSES.EMPTY ||
-           status === this.EGYPTIAN_ORDER_STATUSES.UNDEFINED;
+  /**
+   * إضافة رسالة للطابور - أو تسجيلها في الخطة أثناء المحاكاة
+   */
+  private static async queueMessage(row: SheetRow, job: MessageJob, delayHours?: number): Promise<void> {
+    if (this.planAction(row, {
+      kind: delayHours ? 'schedule' : 'send',
+      messageType: job.messageType,
+      message: job.message,
+      phoneNumber: job.phoneNumber,
+      delayHours,
+      variantId: job.variantId,
+      groupOrderIds: job.groupOrderIds,
+      channel: job.channel,
+      media: job.media
+    })) return;
+
+    await QueueService.addMessageJob({ ...job, message: await this.applyCoupon(row, job.message) }, delayHours);
+  }
+
+  /**
+   * إصدار كود خصم للطلب إذا كانت الرسالة تحتوي {couponCode} أو {couponExpiry}
+   */
+  private static async applyCoupon(row: SheetRow, message: string, policy: OfferPolicyConfig = this.cycle().offerPolicy): Promise<string> {
+    return CouponService.applyVariables(
+      message,
+      { orderId: row.orderId!, phoneNumber: row.processedPhone, customerName: row.name, productName: row.productName },
+      OfferService.calculate(row, policy),
+      policy
+    );
+  }
+
+  private static async recordTimeline(...args: Parameters<typeof OrderTimelineService.record>): Promise<void> {
+    if (simulationContext.getStore()) return;
+    await OrderTimelineService.record(...args);
+  }
+
+  private static getPlannedOrder(context: SimulationContext, row: SheetRow): SimulatedOrder {
+    const key = row.orderId || `row-${row.rowIndex}`;
+    let order = context.orders.get(key);
+    if (!order) {
+      order = {
+        orderId: key,
+        rowIndex: row.rowIndex,
+        customerName: row.name,
+        orderStatus: (row.orderStatus || '').trim(),
+        targetNumber: row.processedPhone,
+        actions: [],
+        skipped: []
+      };
+      context.orders.set(key, order);
+      context.plan.orders.push(order);
+    }
+    return order;
+  }
+
+  /**
+   * تسجيل إجراء في خطة المحاكاة. تعيد true إذا كانت المحاكاة نشطة (ويجب عدم تنفيذ الإجراء فعلياً)
+   */
+  private static planAction(row: SheetRow, action: SimulatedAction): boolean {
+    const context = simulationContext.getStore();
+    if (!context) return false;
+
+    if (action.kind === 'send' || action.kind === 'schedule') {
+      this.applySendAt(context, action);
+      if (row.orderId && action.messageType) {
+        const planned = context.queued.get(action.messageType) || new Map<string, string>();
+        for (const orderId of [row.orderId, ...(action.groupOrderIds || [])]) planned.set(orderId, row.orderId);
+        context.queued.set(action.messageType, planned);
+      }
+    }
+
+    this.getPlannedOrder(context, row).actions.push(action);
+    return true;
+  }
+
+  private static applySendAt(context: SimulationContext, action: SimulatedAction): void {
+    const dueAt = new Date(Date.now() + (action.delayHours || 0) * 60 * 60 * 1000);
+    const opening = SendWindowService.getNextOpening(context.sendWindows, dueAt) || dueAt;
+    action.sendAt = opening.toISOString();
+    action.deferred = opening.getTime() > dueAt.getTime();
+  }
+
+  private static planSkip(row: SheetRow, reason: string, messageType?: string): void {
+    const context = simulationContext.getStore();
+    if (!context) return;
+    this.getPlannedOrder(context, row).skipped.push(messageType ? { messageType, reason } : { reason });
+  }
+
+  private static planSkipIfIdle(row: SheetRow, reason: string): void {
+    const context = simulationContext.getStore();
+    if (!context) return;
+    const order = this.getPlannedOrder(context, row);
+    if (order.actions.length === 0 && order.skipped.length === 0) {
+      order.skipped.push({ reason });
+    }
+  }
+
+  /**
+   * 🧪 محاكاة دورة معالجة كاملة على بيانات الشيت الحالية بدون إرسال أو تعديل أي حالة.
+   * تعيد خطة لكل طلب: الرسائل التي كانت ستُرسل وأسباب تخطي الباقي
+   */
+  static async simulate(): Promise<SimulationPlan> {
+    const context = this.createSimulationContext(await SendWindowService.getConfig());
+
+    console.log('🧪 Starting dry-run simulation...');
+    await simulationContext.run(context, () => this.processSheetDataOptimized());
+
+    const { plan } = context;
+    this.summarizePlan(plan);
+
+    console.log(`🧪 Simulation finished: ${plan.summary.send} sends, ${plan.summary.schedule} scheduled, ${plan.summary.skipped} skipped`);
+    return plan;
+  }
+
+  private static createSimulationContext(sendWindows: SendWindowsConfig): SimulationContext {
+    return {
+      plan: {
+        generatedAt: new Date().toISOString(),
+        totalRows: 0,
+        orders: [],
+        summary: { send: 0, schedule: 0, cancel: 0, skipped: 0 }
+      },
+      orders: new Map(),
+      sendWindows,
+      state: {
+        offerPolicy: ConfigService.getDefaultOfferPolicy(),
+        templateExperiments: ConfigService.getDefaultTemplateExperiments(),
+        sms: ConfigService.getDefaultSmsConfig(),
+        media: ConfigService.getDefaultMediaConfig(),
+        customerIndex: null
+      },
+      queued: new Map()
+    };
+  }
+
+  private static summarizePlan(plan: SimulationPlan): void {
+    plan.summary = { send: 0, schedule: 0, cancel: 0, skipped: 0 };
+    for (const order of plan.orders) {
+      for (const action of order.actions) {
+        if (action.kind === 'send') plan.summary.send++;
+        else if (action.kind === 'schedule') plan.summary.schedule++;
+        else if (action.kind === 'cancel') plan.summary.cancel++;
+      }
+      plan.summary.skipped += order.skipped.length;
+    }
+  }
+
+  /**
+   * 📥 تعويض الرسائل الفائتة (مثلاً بعد انقطاع الواتساب) للطلبات ضمن نطاق تاريخ الطلب.
+   * يقيّم كل طلب كأنه ظهر الآن بحالته الحالية، ثم يضيف للطابور فقط أنواع الرسائل المختارة
+   * التي لم تُرسل من قبل (DuplicateGuardService). مع dryRun تُعاد الخطة بدون أي إرسال
+   */
+  static async backfill(options: BackfillOptions): Promise<BackfillResult> {
+    const { from, to, messageTypes } = options;
+    const dryRun = options.dryRun !== false;
+    const selectedTypes = new Set<string>(messageTypes);
+
+    const { templates } = await ConfigService.getMessageTemplates();
+    const timingConfig = await ConfigService.getTimingConfig();
+    const reminderDelayHours = timingConfig.reminderDelayHours || 24;
+    const rejectedOfferDelayHours = timingConfig.rejectedOfferDelayHours || 24;
+    const rules = await StatusRulesService.getActiveRules();
+    const sendWindows = await SendWindowService.getConfig();
+    const timezone = sendWindows.timezone || 'Africa/Cairo';
+    const context = this.createSimulationContext(sendWindows);
+
+    console.log(`📥 ${dryRun ? 'Previewing' : 'Running'} backfill for orders ${from} → ${to} (${messageTypes.join(', ')})`);
+    const sheetData = await NetworkResilienceService.getSheetDataResilient();
+    await simulationContext.run(context, async () => {
+      await this.loadCycleSettings();
+      await this.refreshCustomerIndex(sheetData);
+    });
+
+    let unparsedDates = 0;
+    const rows: Array<{ row: SheetRow; orderedAt: number }> = [];
+    const rowsByOrderId = new Map<string, SheetRow>();
+    for (const row of sheetData) {
+      const orderDate = parseOrderDate(row.orderDate);
+      if (!orderDate) {
+        unparsedDates++;
+        continue;
+      }
+      if (orderDate.dateKey < from || orderDate.dateKey > to) continue;
+      const orderedAt = SendWindowService.fromLocal(orderDate.year, orderDate.month, orderDate.day, orderDate.minutes, timezone).getTime();
+      rows.push({ row, orderedAt });
+      if (row.orderId) rowsByOrderId.set(row.orderId, row);
+    }
+
+    context.plan.totalRows = rows.length;
+    const statusSince = new Map<string, number>();
+
+    // Evaluate the rules without side effects; the resulting plan is what would have been sent
+    await simulationContext.run(context, async () => {
+      for (const { row, orderedAt } of rows) {
+        const sanitizationResult = await this.sanitizeAndValidateRowOptimized(row);
+        if (!sanitizationResult.isValid && !this.useSmsFallback(row, sanitizationResult)) {
+          this.planSkip(row, sanitizationResult.details || sanitizationResult.reason || 'invalid');
+          continue;
+        }
+
+        const orderId = row.orderId!;
+        const { customerIndex } = this.cycle();
+        const duplicateOf = customerIndex ? CustomerService.getDuplicateOf(customerIndex, orderId) : undefined;
+        if (duplicateOf) {
+          this.planSkip(row, `طلب مكرر من نفس العميل (الطلب الأصلي ${duplicateOf})`);
+          continue;
+        }
+
+        const known = await OrderStateService.get(orderId);
+        // Orders the engine never saw are treated as if their status dates from the order date
+        const state: OrderState = known && known.status === (row.orderStatus || '').trim()
+          ? known
+          : { orderId, status: (row.orderStatus || '').trim(), firstSeenAt: orderedAt, lastStatusChangeAt: orderedAt, sentMessages: known?.sentMessages || {} };
+        statusSince.set(orderId, state.lastStatusChangeAt);
+
+        await this.handleEgyptianOrderStatusChange(row, templates, rules, reminderDelayHours, rejectedOfferDelayHours);
+        await this.checkReminderConditions(row, state, templates, rules, reminderDelayHours);
+      }
+    });
+
+    let enqueued = 0;
+    for (const order of context.plan.orders) {
+      const actions: SimulatedAction[] = [];
+      const seenTypes = new Set<string>();
+
+      for (const action of order.actions) {
+        if (action.kind !== 'send' && action.kind !== 'schedule') continue;
+        const messageType = action.messageType as RuleMessageType;
+
+        if (!selectedTypes.has(messageType) || seenTypes.has(messageType)) continue;
+        seenTypes.add(messageType);
+
+        const allowed = await DuplicateGuardService.shouldSend(order.orderId, messageType, action.phoneNumber, order.customerName);
+        if (!allowed) {
+          order.skipped.push({ messageType, reason: 'أُرسلت هذه الرسالة من قبل' });
+          continue;
+        }
+
+        // Delays count from the status change, so most of them have already elapsed
+        const elapsedHours = (Date.now() - (statusSince.get(order.orderId) ?? Date.now())) / (60 * 60 * 1000);
+        const remainingHours = Math.max(0, (action.delayHours || 0) - elapsedHours);
+        const planned: SimulatedAction = {
+          ...action,
+          kind: remainingHours > 0 ? 'schedule' : 'send',
+          delayHours: remainingHours > 0 ? Math.round(remainingHours * 10) / 10 : undefined,
+          note: 'تعويض رسالة فائتة'
+        };
+        this.applySendAt(context, planned);
+        actions.push(planned);
+
+        const sourceRow = rowsByOrderId.get(order.orderId);
+        // Reminders and offers still hours away go through their own queues, which re-check the sheet status when they fire
+        if (!dryRun && sourceRow && order.rowIndex && action.phoneNumber && planned.kind === 'schedule'
+          && (messageType === 'reminder' || messageType === 'rejectedOffer')) {
+          const job: ReminderJob = {
+            orderId: order.orderId,
+            rowIndex: order.rowIndex,
+            phoneNumber: action.phoneNumber,
+            customerName: order.customerName,
+            orderStatus: (sourceRow.orderStatus || '').trim(),
+            ...(action.channel ? { channel: action.channel } : {})
+          };
+          if (messageType === 'reminder') {
+            await QueueService.addReminderJob(job, planned.delayHours!);
+          } else {
+            await QueueService.addRejectedOfferJob(job, planned.delayHours!);
+          }
+          enqueued++;
+        } else if (!dryRun && sourceRow && order.rowIndex && action.phoneNumber && action.message) {
+          const messageJob: MessageJob = {
+            phoneNumber: action.phoneNumber,
+            message: await this.applyCoupon(sourceRow, action.message, context.state.offerPolicy),
+            orderId: order.orderId,
+            rowIndex: order.rowIndex,
+            messageType,
+            ...(action.variantId ? { variantId: action.variantId } : {}),
+            ...(action.groupOrderIds?.length ? { groupOrderIds: action.groupOrderIds } : {}),
+            ...(action.channel ? { channel: action.channel } : {}),
+            ...(action.media ? { media: action.media } : {})
+          };
+          await QueueService.addMessageJob(messageJob, planned.delayHours);
+          enqueued++;
+        }
+      }
+
+      order.actions = actions;
+      order.skipped = order.skipped.filter(skip => !skip.messageType || selectedTypes.has(skip.messageType));
+    }
+
+    // Only orders with something to send are interesting in a backfill report
+    context.plan.orders = context.plan.orders.filter(order => order.actions.length > 0 || order.skipped.length > 0);
+    this.summarizePlan(context.plan);
+
+    console.log(`📥 Backfill ${dryRun ? 'preview' : 'done'}: ${context.plan.summary.send + context.plan.summary.schedule} messages${dryRun ? '' : `, ${enqueued} enqueued`}`);
+    return { dryRun, from, to, messageTypes, matchedRows: rows.length, unparsedDates, enqueued, plan: context.plan };
   }
 
   private static replaceMessageVariables(template: string, row: SheetRow): string {
@@ -870,7 +1491,7 @@ export class AutomationEngine {
       console.log(`   - ProductName: "${row.productName}"`);
       console.log(`   - Template: "${template.substring(0, 100)}..."`);
       
-      const result = template
+      const rendered = template
         .replace(/\{name\}/g, row.name || 'عميل عزيز')
         .replace(/\{product\}/g, row.productName || 'المنتج')
         .replace(/\{productName\}/g, row.productName || 'المنتج')
@@ -888,6 +1509,8 @@ export class AutomationEngine {
         .replace(/\{trackingNumber\}/g, row.orderId || 'رقم التتبع')
         .replace(/\{quantity\}/g, row.quantity || '1')
         .replace(/\{total\}/g, row.totalPrice?.toString() || 'الإجمالي');
+      // {companyName} {amount} {discount}... come from the rejected-offer policy
+      const result = OfferService.applyVariables(rendered, row, this.cycle().offerPolicy);
       
       console.log(`✅ Message after replacement: "${result.substring(0, 150)}..."`);
       return result;
@@ -899,12 +1522,12 @@ export class AutomationEngine {
     }
   }
 
-  private static logSupportedStatuses(): void {
-    console.log('📋 Supported Egyptian Order Statuses:');
-    console.log('   New Orders:', Object.values(this.EGYPTIAN_ORDER_STATUSES).slice(0, 6));
-    console.log('   No Answer:', Object.values(this.EGYPTIAN_ORDER_STATUSES).slice(6, 10));
-    console.log('   Confirmed/Shipped:', Object.values(this.EGYPTIAN_ORDER_STATUSES).slice(10, 15));
-    console.log('   Rejected:', Object.values(this.EGYPTIAN_ORDER_STATUSES).slice(15));
+  private static async logSupportedStatuses(): Promise<void> {
+    const rules = await StatusRulesService.getActiveRules();
+    console.log(`📋 Active status rules (${rules.length}):`);
+    for (const rule of rules) {
+      console.log(`   ${rule.name}:`, rule.statuses, rule.patterns?.length ? `patterns: ${rule.patterns.join(' | ')}` : '');
+    }
   }
 
   private static initializeCacheCleanup(): void {
@@ -1041,7 +1664,7 @@ export class AutomationEngine {
 
       return {
         engine: {
-          isRunning: this.isRunning,
+          isRunning: this.scope().isRunning,
           lastCheck: new Date().toISOString(),
           nextCheck: new Date(Date.now() + 30000).toISOString(),
         },
@@ -1059,8 +1682,8 @@ export class AutomationEngine {
         },
         orderStatuses,
         egyptianStats: {
-          supportedStatuses: Object.values(this.EGYPTIAN_ORDER_STATUSES),
-          totalProcessed: this.processedOrders.size,
+          supportedStatuses: await StatusRulesService.getSupportedStatuses().catch(() => []),
+          totalProcessed: OrderStateService.size(),
           pendingOffers: Object.values(orderStatuses).reduce((sum, count) => 
             sum + (orderStatuses['مرفوض'] || 0), 0)
         }
@@ -1070,7 +1693,7 @@ export class AutomationEngine {
       // Return safe default stats instead of throwing
       return {
         engine: {
-          isRunning: this.isRunning,
+          isRunning: this.scope().isRunning,
           lastCheck: new Date().toISOString(),
           nextCheck: new Date(Date.now() + 30000).toISOString(),
         },
@@ -1088,7 +1711,7 @@ export class AutomationEngine {
         },
         orderStatuses: { 'خطأ في التكوين': 0 },
         egyptianStats: {
-          supportedStatuses: Object.values(this.EGYPTIAN_ORDER_STATUSES),
+          supportedStatuses: await StatusRulesService.getSupportedStatuses().catch(() => []),
           totalProcessed: 0,
           pendingOffers: 0
         }
@@ -1141,13 +1764,10 @@ export class AutomationEngine {
         // تتبع الطلبات المحدثة لمنع الرسائل المتكررة
         for (const detail of updateResult.details) {
           const orderId = `row_${detail.rowIndex}_${detail.customerName.substring(0, 3)}`;
-          this.updatedFromEmptyStatus.add(orderId);
+          this.scope().updatedFromEmptyStatus.add(orderId);
           
           // تسجيل وقت التحديث
-          this.orderStatusHistory.set(`${orderId}_empty_update`, {
-            status: 'updated_from_empty',
-            timestamp: Date.now()
-          });
+          this.scope().emptyStatusUpdates.set(orderId, Date.now());
           
           console.log(`📝 Marked order ${orderId} as updated from empty status`);
         }
@@ -1218,14 +1838,14 @@ export class AutomationEngine {
    */
   static resetEmptyStatusTracking(): void {
     console.log('🧹 Resetting empty status tracking...');
-    this.updatedFromEmptyStatus.clear();
+    this.scope().updatedFromEmptyStatus.clear();
     
     // إزالة تاريخ التحديثات القديمة (أكثر من 24 ساعة)
     const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
     
-    for (const [key, value] of this.orderStatusHistory.entries()) {
-      if (key.includes('_empty_update') && value.timestamp < oneDayAgo) {
-        this.orderStatusHistory.delete(key);
+    for (const [orderId, timestamp] of this.scope().emptyStatusUpdates.entries()) {
+      if (timestamp < oneDayAgo) {
+        this.scope().emptyStatusUpdates.delete(orderId);
       }
     }
     
@@ -1241,21 +1861,18 @@ export class AutomationEngine {
   } {
     const recentUpdates = [];
     
-    for (const [key, value] of this.orderStatusHistory.entries()) {
-      if (key.includes('_empty_update')) {
-        const orderId = key.replace('_empty_update', '');
-        const timeSinceUpdate = (Date.now() - value.timestamp) / 1000 / 60; // minutes
-        
-        recentUpdates.push({
-          orderId,
-          timestamp: value.timestamp,
-          timeSinceUpdate: Math.round(timeSinceUpdate)
-        });
-      }
+    for (const [orderId, timestamp] of this.scope().emptyStatusUpdates.entries()) {
+      const timeSinceUpdate = (Date.now() - timestamp) / 1000 / 60; // minutes
+      
+      recentUpdates.push({
+        orderId,
+        timestamp,
+        timeSinceUpdate: Math.round(timeSinceUpdate)
+      });
     }
 
     return {
-      trackedUpdatedOrders: this.updatedFromEmptyStatus.size,
+      trackedUpdatedOrders: this.scope().updatedFromEmptyStatus.size,
       recentUpdates: recentUpdates.sort((a, b) => b.timestamp - a.timestamp)
     };
   }
@@ -1273,8 +1890,8 @@ export class AutomationEngine {
   // Clear caches (for testing/debugging)
   static clearCaches(): void {
     this.phoneValidationCache.clear();
-    this.duplicateAttempts.clear();
-    this.sentMessages.clear();
+    this.scope().duplicateAttempts.clear();
+    this.scope().sentMessages.clear();
     this.performanceStats.cacheHits = 0;
     this.performanceStats.cacheMisses = 0;
     this.performanceStats.whatsappApiCalls = 0;
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { DEFAULT_SESSION_ID } from './sender-pool';
+import type { MessagingTransport, OutboundMedia, SendTextOptions, TransportEvents } from './transport';
+import type { DeliveryStatus } from './message-tracker';
+import type { CloudApiConfig, CloudApiTemplate } from '../types/config';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+// Customers can be sent free-form messages for 24 hours after they last wrote
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Cloud API status callbacks → delivery statuses (sent = accepted by the WhatsApp server)
+const STATUS_MAP: Record<string, DeliveryStatus> = {
+  sent: 'server',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed'
+};
+
+/**
+ * WhatsApp Business Cloud API: إرسال عبر Graph API واستقبال الردود وإيصالات التسليم عبر webhook
+ */
+export class CloudApiTransport implements MessagingTransport {
+  readonly provider = 'cloud-api' as const;
+  // The Cloud API number takes the place of the main web session
+  readonly sessionId = DEFAULT_SESSION_ID;
+  private handlers: Partial<TransportEvents> = {};
+  private lastInboundAt = new Map<string, number>();   // customer phone → when they last wrote
+
+  constructor(private config: CloudApiConfig) {}
+
+  configure(config: CloudApiConfig): void {
+    this.config = config;
+  }
+
+  isConnected(): boolean {
+    return !!(this.config.phoneNumberId && this.config.accessToken);
+  }
+
+  setEventHandlers(handlers: Partial<TransportEvents>): void {
+    this.handlers = { ...this.handlers, ...handlers };
+  }
+
+  private endpoint(resource: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/${this.config.apiVersion}/${resource}`;
+  }
+
+  private async request(resource: string, body: BodyInit, contentType?: string): Promise<any> {
+    const response = await fetch(this.endpoint(resource), {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        ...(contentType ? { 'Content-Type': contentType } : {})
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result?.error?.message || `Cloud API responded with ${response.status}`);
+    }
+    return result;
+  }
+
+  private async sendPayload(phoneNumber: string, payload: Record<string, unknown>): Promise<string | null> {
+    if (!this.isConnected()) {
+      console.warn('⚠️ Cloud API is not configured - phoneNumberId and accessToken are required');
+      return null;
+    }
+    try {
+      const result = await this.request(`${this.config.phoneNumberId}/messages`, JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: phoneNumber,
+        ...payload
+      }), 'application/json');
+      return result?.messages?.[0]?.id || null;
+    } catch (error) {
+      console.error(`❌ Cloud API send to ${phoneNumber} failed:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private inServiceWindow(phoneNumber: string): boolean {
+    const at = this.lastInboundAt.get(phoneNumber);
+    return at !== undefined && Date.now() - at < SERVICE_WINDOW_MS;
+  }
+
+  private templateFor(messageType?: string): CloudApiTemplate | undefined {
+    if (!messageType) return undefined;
+    const key = (messageType.startsWith('followUp') ? 'followUp' : messageType) as keyof CloudApiConfig['templates'];
+    return this.config.templates?.[key];
+  }
+
+  /**
+   * رسالة نصية - الرسائل الآلية لعميل لم يراسلنا خلال 24 ساعة تخرج كقالب معتمد ونصها متغير القالب
+   */
+  async sendText(phoneNumber: string, text: string, options: SendTextOptions = {}): Promise<string | null> {
+    const template = this.templateFor(options.messageType);
+    if (template && !this.inServiceWindow(phoneNumber)) {
+      return this.sendPayload(phoneNumber, {
+        type: 'template',
+        template: {
+          name: template.name,
+          language: { code: template.language },
+          components: [{
+            type: 'body',
+            // Template parameters may not contain line breaks, tabs or 4+ spaces in a row
+            parameters: [{ type: 'text', text: text.replace(/\s*[\n\t]+\s*/g, ' - ').replace(/ {4,}/g, '   ') }]
+          }]
+        }
+      });
+    }
+    return this.sendPayload(phoneNumber, { type: 'text', text: { body: text, preview_url: false } });
+  }
+
+  async sendMedia(phoneNumber: string, media: OutboundMedia): Promise<string | null> {
+    let source: Record<string, string>;
+    if (media.url) {
+      source = { link: media.url };
+    } else {
+      // File contents have to be uploaded first and referenced by id
+      try {
+        const form = new FormData();
+        form.append('messaging_product', 'whatsapp');
+        form.append('type', media.mimeType);
+        form.append('file', new Blob([Buffer.from(media.data || '', 'base64')], { type: media.mimeType }), media.filename || 'file');
+        const uploaded = await this.request(`${this.config.phoneNumberId}/media`, form);
+        source = { id: uploaded.id };
+      } catch (error) {
+        console.error(`❌ Cloud API media upload failed:`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    }
+
+    return this.sendPayload(phoneNumber, {
+      type: media.kind,
+      [media.kind]: {
+        ...source,
+        ...(media.caption && media.kind !== 'audio' ? { caption: media.caption } : {}),
+        ...(media.kind === 'document' && media.filename ? { filename: media.filename } : {})
+      }
+    });
+  }
+
+  // The Cloud API only shows "typing…" while answering a specific received message
+  async sendTyping(): Promise<void> {}
+
+  // There is no registration lookup in the Cloud API - undeliverable numbers come back as failed statuses
+  async checkRegistration(): Promise<boolean | null> {
+    return null;
+  }
+
+  /**
+   * التحقق من تسجيل الـ webhook: Meta ترسل hub.challenge ونعيده إذا تطابق رمز التأكيد
+   */
+  verifyChallenge(params: URLSearchParams): string | null {
+    const matches = params.get('hub.mode') === 'subscribe'
+      && !!this.config.verifyToken
+      && params.get('hub.verify_token') === this.config.verifyToken;
+    return matches ? params.get('hub.challenge') : null;
+  }
+
+  /**
+   * X-Hub-Signature-256 = HMAC-SHA256 of the raw body with the app secret.
+   * Without a secret nothing can be checked, so every call is refused - an unsigned call could opt out or cancel orders
+   */
+  verifySignature(rawBody: string, signature: string | null): boolean {
+    if (!this.config.appSecret || !signature) return false;
+    const expected = `sha256=${crypto.createHmac('sha256', this.config.appSecret).update(rawBody).digest('hex')}`;
+    return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * رسائل العملاء وإيصالات التسليم القادمة من الـ webhook
+   */
+  handleWebhook(payload: any): { messages: number; statuses: number } {
+    const counts = { messages: 0, statuses: 0 };
+    for (const entry of payload?.entry || []) {
+      for (const change of entry?.changes || []) {
+        const value = change?.value || {};
+        // One app can serve several numbers - only this store's number is ours
+        if (value.metadata?.phone_number_id && value.metadata.phone_number_id !== this.config.phoneNumberId) continue;
+
+        for (const message of value.messages || []) {
+          this.lastInboundAt.set(message.from, Date.now());
+          counts.messages++;
+          this.handlers.onMessage?.({
+            id: message.id,
+            from: message.from,
+            body: message.text?.body
+              ?? message.button?.text
+              ?? message.interactive?.button_reply?.title
+              ?? message.interactive?.list_reply?.title
+              ?? '',
+            timestamp: Number(message.timestamp) * 1000 || Date.now(),
+            sessionId: this.sessionId
+          });
+        }
+
+        for (const status of value.statuses || []) {
+          const mapped = STATUS_MAP[status.status];
+          if (!mapped) continue;
+          if (mapped === 'failed') {
+            console.warn(`⚠️ Cloud API message ${status.id} to ${status.recipient_id} failed:`, status.errors?.[0]?.title || 'unknown error');
+          }
+          counts.statuses++;
+          this.handlers.onMessageAck?.({
+            id: status.id,
+            status: mapped,
+            timestamp: Number(status.timestamp) * 1000 || Date.now()
+          });
+        }
+      }
+    }
+    return counts;
+  }
+}
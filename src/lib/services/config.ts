@@ -1,8 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
-import type { GoogleConfig, MessageTemplates, TimingConfig } from '../types/config';
-
-const CONFIG_DIR = path.join(process.cwd(), 'config');
+import { TenantService } from './tenant';
+import type { GoogleConfig, MessageTemplates, TimingConfig, StatusRulesConfig, FollowUpSequencesConfig, SendWindowsConfig, SendRateConfig, WarmUpConfig, OfferPolicyConfig, TemplateExperimentsConfig, CustomerGroupingConfig, OptOutConfig, ReplyActionsConfig, FaqAutoReplyConfig, ConversationFlowsConfig, SenderPoolConfig, TransportConfig, SmsConfig, MediaConfig } from '../types/config';
 
 // Default configurations
 const DEFAULT_GOOGLE_CONFIG: GoogleConfig = {
@@ -14,7 +13,7 @@ const DEFAULT_MESSAGE_TEMPLATES: MessageTemplates = {
   newOrder: 'السلام عليكم ورحمة الله مع حضرتك هبه✨\nطلبك ({productName}) في أيدٍ أمينة، وفريقنا بدأ في إعداده بكل شغف واهتمام. سنتواصل معك قريباً للتأكيد.\nشكراً لثقتك بنا !',
   noAnswer: 'السلام عليكم ورحمة الله وبركاته مع حضرتك هبه\nيبدو أننا لم نوفق في التواصل معك هاتفياً لتأكيد طلبك ({productName}). 😟\nحرصاً منا على عدم تأخيره، نرجو منك الرد علينا في أقرب فرصة. نحن في انتظارك!',
   shipped: 'أخبار رائعة، لحضرتك 🎉\nطلبك ({productName}) انطلق في رحلته إليك الآن. استعد لاستقبال جرعة من السعادة قريباً! 🚚\nشكراً لصبرك وحماسك.',
-  rejectedOffer: 'السلام عليكم اخبار حضرتك ايه؟\nقد لا يكون طلبك الأخير قد اكتمل، لكننا لم ننسَ اهتمامك بنا. ❤️\nتقديراً لذلك، يسعدنا أن نهديك فرصة ثانية بتخفيض خاص 20% على ({productName}). نأمل أن تستفيد من هذا الخصم!',
+  rejectedOffer: 'السلام عليكم اخبار حضرتك ايه؟\nقد لا يكون طلبك الأخير قد اكتمل، لكننا لم ننسَ اهتمامك بنا. ❤️\nتقديراً لذلك، يسعدنا أن نهديك فرصة ثانية بتخفيض خاص {discount} على ({productName}). نأمل أن تستفيد من هذا الخصم!\n🎟️ كود الخصم: {couponCode} (صالح حتى {couponExpiry})',
   reminder: 'السلام عليكم\n\nالمحترم/ة {name}\n\n⏰ تذكير بطلبكم رقم {orderId}\n\n💰 المبلغ: {amount} جنيه (دفع عند الاستلام)\n\n⚠️ تنبيه:\n• المنتج متوفر بكمية محدودة\n• السعر مضمون حتى نهاية اليوم\n• قد ينفذ في أي وقت\n\n📱 للتأكيد:\n• رد بكلمة \"أؤكد\"\n• أو اتصل بنا\n\n🎁 عند التأكيد اليوم: هدية مجانية\n\nفريق {companyName}',
   welcome: '',
   confirmed: '',
@@ -22,10 +21,60 @@ const DEFAULT_MESSAGE_TEMPLATES: MessageTemplates = {
   cancelled: ''
 };
 
+const DAYTIME_WINDOW = [{ start: '10:00', end: '22:00' }];
+
+const DEFAULT_SEND_WINDOWS: SendWindowsConfig = {
+  enabled: true,
+  timezone: 'Africa/Cairo',
+  weekly: {
+    sun: DAYTIME_WINDOW,
+    mon: DAYTIME_WINDOW,
+    tue: DAYTIME_WINDOW,
+    wed: DAYTIME_WINDOW,
+    thu: DAYTIME_WINDOW,
+    fri: [{ start: '14:00', end: '22:00' }],
+    sat: DAYTIME_WINDOW
+  },
+  fridayPrayerBlackout: { enabled: true, start: '11:30', end: '13:30' },
+  ramadan: {
+    enabled: false,
+    startDate: '',
+    endDate: '',
+    windows: [{ start: '12:00', end: '17:00' }, { start: '20:30', end: '23:59' }]
+  },
+  holidays: []
+};
+
+// A new number sending hundreds of identical messages an hour is the classic ban pattern
+const DEFAULT_SEND_RATE: SendRateConfig = {
+  enabled: true,
+  maxPerMinute: 6,
+  maxPerHour: 120,
+  maxPerDay: 800,
+  minGapSeconds: 8,
+  maxGapSeconds: 20,
+  typingIndicator: true,
+  autoPause: true,
+  failureRatePercent: 40,
+  failureWindow: 20,
+  pauseMinutes: 30
+};
+
+// A freshly linked SIM that jumps straight to hundreds of messages a day gets restricted within a day
+const DEFAULT_WARM_UP: WarmUpConfig = {
+  enabled: true,
+  days: 14,
+  startPerDay: 20,
+  targetPerDay: 800
+};
+
 const DEFAULT_TIMING_CONFIG: TimingConfig = {
   checkIntervalSeconds: 30,
   reminderDelayHours: 24,
-  rejectedOfferDelayHours: 48
+  rejectedOfferDelayHours: 48,
+  sendWindows: DEFAULT_SEND_WINDOWS,
+  sendRate: DEFAULT_SEND_RATE,
+  warmUp: DEFAULT_WARM_UP
 };
 
 const DEFAULT_STATUS_SETTINGS = {
@@ -45,18 +94,299 @@ const DEFAULT_STATUS_SETTINGS = {
   }
 };
 
+// قواعد الحالات الافتراضية - تطابق سلوك النظام الأصلي
+const DEFAULT_STATUS_RULES: StatusRulesConfig = {
+  rules: [
+    {
+      id: 'new-order',
+      name: 'طلب جديد',
+      enabled: true,
+      statuses: ['', 'جديد', 'طلب جديد', 'قيد المراجعة', 'قيد المراجعه', 'غير محدد'],
+      actions: [
+        { type: 'send', template: 'newOrder' },
+        { type: 'schedule', template: 'reminder' }
+      ],
+      remind: true
+    },
+    {
+      id: 'no-answer',
+      name: 'لم يرد',
+      enabled: true,
+      statuses: ['لم يتم الرد', 'لم يرد', 'لا يرد', 'عدم الرد'],
+      actions: [
+        { type: 'send', template: 'noAnswer' }
+      ],
+      remind: true
+    },
+    {
+      id: 'confirmed-shipped',
+      name: 'تم التأكيد / الشحن',
+      enabled: true,
+      statuses: ['تم التأكيد', 'تم التاكيد', 'مؤكد', 'تم الشحن', 'قيد الشحن'],
+      actions: [
+        { type: 'cancelPending' },
+        { type: 'send', template: 'shipped' }
+      ]
+    },
+    {
+      id: 'rejected',
+      name: 'مرفوض',
+      enabled: true,
+      statuses: ['تم الرفض', 'مرفوض', 'رفض الاستلام', 'رفض الأستلام', 'لم يتم الاستلام'],
+      actions: [
+        { type: 'cancelPending' },
+        { type: 'schedule', template: 'rejectedOffer' }
+      ]
+    }
+  ]
+};
+
+// تسلسلات المتابعة الافتراضية (معطلة حتى يفعلها المستخدم)
+const DEFAULT_FOLLOW_UP_SEQUENCES: FollowUpSequencesConfig = {
+  sequences: [
+    {
+      id: 'no-answer-follow-up',
+      name: 'متابعة عدم الرد',
+      enabled: false,
+      entryStatuses: ['لم يتم الرد', 'لم يرد', 'لا يرد', 'عدم الرد'],
+      steps: [
+        {
+          id: 'nudge',
+          delayHours: 6,
+          message: 'مرحباً {name} 👋\n\nحاولنا التواصل معك بخصوص طلبك ({productName}) ولم نتمكن من الوصول إليك.\n\nيرجى الرد على هذه الرسالة لتأكيد الطلب 🙏'
+        },
+        {
+          id: 'last-chance',
+          delayHours: 24,
+          message: '{name}، هذه فرصة أخيرة لتأكيد طلبك ({productName}) ⏳\n\nإذا لم نسمع منك خلال 24 ساعة سيتم إلغاء الطلب تلقائياً.'
+        }
+      ]
+    }
+  ]
+};
+
+// سياسة العرض الافتراضية: خصم 20% ثابت كما كان سابقاً
+const DEFAULT_OFFER_POLICY: OfferPolicyConfig = {
+  companyName: 'متجرنا',
+  tierBy: 'totalPrice',
+  defaultDiscount: { kind: 'percent', value: 20 },
+  tiers: [],
+  coupon: {
+    enabled: true,
+    prefix: 'BACK',
+    validityDays: 7
+  }
+};
+
+const DEFAULT_OPT_OUT: OptOutConfig = {
+  enabled: true,
+  keywords: ['stop', 'unsubscribe', 'الغاء', 'لا ترسل', 'توقف', 'ايقاف الرسائل'],
+  confirmationMessage: 'تم إيقاف رسائلنا لهذا الرقم ✅\nلن تصلك رسائل أخرى منا.'
+};
+
+// الكتابة في الشيت معطلة افتراضياً - الشيت للقراءة فقط حتى يفعلها المستخدم
+const DEFAULT_REPLY_ACTIONS: ReplyActionsConfig = {
+  enabled: true,
+  writeToSheet: false,
+  confirmKeywords: ['أؤكد', 'تمام', 'موافق', 'confirm'],
+  cancelKeywords: ['الغاء الطلب', 'الغي الطلب', 'مش عايز', 'مش عاوز', 'cancel'],
+  confirmedStatus: 'تم التأكيد',
+  cancelledStatus: 'ملغي',
+  confirmAck: 'شكراً {name} ✅\nتم تأكيد طلبك رقم {orderId} وسيتم شحنه قريباً.',
+  cancelAck: 'تم إلغاء طلبك رقم {orderId} بناءً على طلبك.\nنتمنى خدمتك في وقت آخر 🙏',
+  pendingAck: 'شكراً {name} 🙏\nتم استلام ردك بخصوص طلبك رقم {orderId} وسيتواصل معك فريقنا قريباً.'
+};
+
+// ردود تلقائية على أكثر الأسئلة تكراراً (معطلة حتى يراجع المستخدم النصوص)
+const DEFAULT_FAQ_AUTO_REPLY: FaqAutoReplyConfig = {
+  enabled: false,
+  cooldownMinutes: 60,
+  businessHoursOnly: false,
+  handoffMessage: 'شكراً لتواصلك {name} 🙏\nتم تحويل رسالتك لفريق خدمة العملاء وسيتم الرد عليك في أقرب وقت.',
+  // Specific questions first - "الشحن بكام" must not be answered by the price rule
+  rules: [
+    {
+      id: 'shipping',
+      name: 'الشحن',
+      enabled: true,
+      keywords: ['الشحن بكام', 'مصاريف الشحن', 'سعر الشحن', 'التوصيل بكام'],
+      reply: 'الإجمالي {total} جنيه شامل مصاريف الشحن لـ {governorate} 🚚'
+    },
+    {
+      id: 'delivery-time',
+      name: 'موعد التوصيل',
+      enabled: true,
+      keywords: ['هيوصل امتى', 'امتى يوصل', 'ميعاد التوصيل', 'موعد التوصيل'],
+      pattern: '(هيوصل|يوصل|التوصيل|الاستلام).*(امتي|امتى|متي|متى|كام يوم)',
+      reply: 'طلبك رقم {orderId} يصل خلال 2 - 4 أيام عمل من تأكيده 📦\nحالة الطلب الآن: {orderStatus}'
+    },
+    {
+      id: 'price',
+      name: 'السعر',
+      enabled: true,
+      keywords: ['السعر', 'سعره', 'بكام', 'كام سعر', 'التمن'],
+      reply: 'سعر {productName} في طلبك {total} جنيه شامل الشحن 💰\nالدفع عند الاستلام.'
+    }
+  ]
+};
+
+// The number linked before sender pools existed keeps sending alone until more are added
+const DEFAULT_SENDER_POOL: SenderPoolConfig = {
+  routing: 'sticky',
+  numbers: [{ id: 'default', name: 'الرقم الرئيسي', enabled: true, dailyCap: 1000 }],
+  maxConsecutiveFailures: 3,
+  failureCooldownMinutes: 15
+};
+
+// واتساب ويب كما كان - Cloud API يحتاج بيانات حساب Meta
+const DEFAULT_TRANSPORT: TransportConfig = {
+  provider: 'web',
+  cloudApi: {
+    phoneNumberId: '',
+    accessToken: '',
+    apiVersion: 'v20.0',
+    baseUrl: 'https://graph.facebook.com',
+    verifyToken: '',
+    appSecret: '',
+    templates: {}
+  }
+};
+
+// SMS معطل حتى تُضاف بيانات مزود الخدمة - القوالب قصيرة لأن رسالة SMS العربية 70 حرفاً
+const DEFAULT_SMS: SmsConfig = {
+  enabled: false,
+  provider: 'stub',
+  senderId: '',
+  phoneFormat: 'international',
+  http: {
+    url: '',
+    method: 'POST',
+    bodyFormat: 'form',
+    params: {
+      username: '',
+      password: '',
+      sender: '{sender}',
+      mobile: '{phone}',
+      message: '{message}'
+    },
+    headers: {},
+    successMatch: '',
+    messageIdPath: ''
+  },
+  templates: {
+    newOrder: 'استلمنا طلبك ({productName}) وسنتصل بك قريباً للتأكيد. شكراً لثقتك',
+    noAnswer: 'حاولنا الاتصال بك لتأكيد طلبك ({productName}). من فضلك اتصل بنا',
+    shipped: 'طلبك ({productName}) تم شحنه وفي الطريق إليك',
+    rejectedOffer: 'خصم {discount} على ({productName}) لتكمل طلبك.\nالكود: {couponCode}',
+    reminder: 'تذكير بطلبك رقم {orderId} - المبلغ {amount} جنيه. للتأكيد اتصل بنا'
+  }
+};
+
+// حدود واتساب لحجم الوسائط - بدون مرفقات حتى تُختار في القوالب
+const DEFAULT_MEDIA: MediaConfig = {
+  enabled: true,
+  maxSizeMb: { image: 5, document: 100, audio: 16 },
+  assets: [],
+  products: [],
+  attachments: {}
+};
+
+// نماذج أسئلة مرقمة (معطلة حتى يراجع المستخدم الأسئلة)
+const DEFAULT_CONVERSATION_FLOWS: ConversationFlowsConfig = {
+  enabled: false,
+  timeoutMinutes: 24 * 60,
+  maxInvalidAttempts: 2,
+  invalidChoiceMessage: 'من فضلك رد برقم من {choices} فقط',
+  writeNotes: true,
+  flows: [
+    {
+      id: 'delivery-day',
+      name: 'يوم التوصيل',
+      enabled: true,
+      triggerKeywords: ['تغيير الموعد', 'ميعاد الاستلام'],
+      steps: [
+        {
+          id: 'day',
+          question: 'اختر اليوم المناسب لاستلام طلبك رقم {orderId}:',
+          type: 'choice',
+          choices: [{ label: 'السبت' }, { label: 'الأحد' }, { label: 'الاثنين' }, { label: 'أي يوم' }],
+          next: 'time',
+          noteLabel: 'يوم التوصيل'
+        },
+        {
+          id: 'time',
+          question: 'والوقت المناسب؟',
+          type: 'choice',
+          choices: [{ label: 'صباحاً' }, { label: 'مساءً' }],
+          noteLabel: 'وقت التوصيل'
+        }
+      ],
+      completionMessage: 'تم تسجيل الموعد ✅ شكراً {name}'
+    },
+    {
+      id: 'address-check',
+      name: 'تأكيد العنوان',
+      enabled: true,
+      triggerKeywords: [],
+      steps: [
+        {
+          id: 'confirm',
+          question: 'هل العنوان صحيح؟\n{address} - {city} - {governorate}',
+          type: 'choice',
+          choices: [{ label: 'نعم' }, { label: 'لا، أريد تعديله', next: 'new-address' }],
+          noteLabel: 'العنوان صحيح'
+        },
+        {
+          id: 'new-address',
+          question: 'من فضلك اكتب العنوان بالتفصيل (المنطقة، الشارع، رقم العمارة، علامة مميزة)',
+          type: 'text',
+          noteLabel: 'العنوان الجديد'
+        }
+      ],
+      completionMessage: 'شكراً {name}، تم تسجيل ردك على طلب {orderId} ✅'
+    }
+  ]
+};
+
+const DEFAULT_CUSTOMER_GROUPING: CustomerGroupingConfig = {
+  enabled: true,
+  duplicateWindowHours: 24,
+  consolidateMessages: true
+};
+
+// تجربة افتراضية لرسالة عدم الرد (معطلة حتى يفعلها المستخدم)
+const DEFAULT_TEMPLATE_EXPERIMENTS: TemplateExperimentsConfig = {
+  conversionWindowHours: 48,
+  successRuleIds: ['confirmed-shipped'],
+  experiments: {
+    noAnswer: {
+      enabled: false,
+      variants: [
+        { id: 'control', name: 'النص الحالي', weight: 50 },
+        {
+          id: 'short',
+          name: 'نص قصير',
+          weight: 50,
+          text: 'مرحباً {name} 👋\nحاولنا الاتصال بحضرتك بخصوص طلبك ({productName}).\nرد بكلمة "أؤكد" لتأكيد الطلب 🙏'
+        }
+      ]
+    }
+  }
+};
+
 export class ConfigService {
-  private static async ensureConfigDir(): Promise<void> {
+  // Each store reads its own config files (config/ for the main store, config/tenants/<id> for the others)
+  private static async ensureConfigDir(configDir: string): Promise<void> {
     try {
-      await fs.access(CONFIG_DIR);
+      await fs.access(configDir);
     } catch (error) {
-      await fs.mkdir(CONFIG_DIR, { recursive: true });
+      await fs.mkdir(configDir, { recursive: true });
     }
   }
 
   private static async readConfigFile<T>(filename: string, defaultValue: T): Promise<T> {
     try {
-      const filePath = path.join(CONFIG_DIR, filename);
+      const filePath = path.join(TenantService.getDataDir(), filename);
       const content = await fs.readFile(filePath, 'utf-8');
       return JSON.parse(content);
     } catch (error) {
@@ -67,8 +397,9 @@ export class ConfigService {
 
   private static async writeConfigFile<T>(filename: string, data: T): Promise<void> {
     try {
-      await this.ensureConfigDir();
-      const filePath = path.join(CONFIG_DIR, filename);
+      const configDir = TenantService.getDataDir();
+      await this.ensureConfigDir(configDir);
+      const filePath = path.join(configDir, filename);
       await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
     } catch (error) {
       console.error(`Error writing config file ${filename}:`, error);
@@ -97,7 +428,26 @@ export class ConfigService {
 
   // Timing Configuration
   static async getTimingConfig(): Promise<TimingConfig> {
-    return this.readConfigFile<TimingConfig>('timing.json', DEFAULT_TIMING_CONFIG);
+    const config = await this.readConfigFile<TimingConfig>('timing.json', DEFAULT_TIMING_CONFIG);
+    // Older timing.json files predate send windows and rate limits
+    return {
+      ...config,
+      sendWindows: config.sendWindows || this.getDefaultSendWindows(),
+      sendRate: { ...DEFAULT_SEND_RATE, ...config.sendRate },
+      warmUp: { ...DEFAULT_WARM_UP, ...config.warmUp }
+    };
+  }
+
+  static getDefaultSendWindows(): SendWindowsConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_SEND_WINDOWS));
+  }
+
+  static getDefaultSendRate(): SendRateConfig {
+    return { ...DEFAULT_SEND_RATE };
+  }
+
+  static getDefaultWarmUp(): WarmUpConfig {
+    return { ...DEFAULT_WARM_UP };
   }
 
   static async setTimingConfig(config: TimingConfig): Promise<void> {
@@ -113,14 +463,193 @@ export class ConfigService {
     return this.writeConfigFile('status-settings.json', settings);
   }
 
+  // Status Rules
+  static async getStatusRules(): Promise<StatusRulesConfig> {
+    return this.readConfigFile<StatusRulesConfig>('status-rules.json', DEFAULT_STATUS_RULES);
+  }
+
+  static async setStatusRules(config: StatusRulesConfig): Promise<void> {
+    return this.writeConfigFile('status-rules.json', config);
+  }
+
+  static getDefaultStatusRules(): StatusRulesConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_STATUS_RULES));
+  }
+
+  // Follow-up Sequences
+  static async getFollowUpSequences(): Promise<FollowUpSequencesConfig> {
+    return this.readConfigFile<FollowUpSequencesConfig>('follow-up-sequences.json', DEFAULT_FOLLOW_UP_SEQUENCES);
+  }
+
+  static async setFollowUpSequences(config: FollowUpSequencesConfig): Promise<void> {
+    return this.writeConfigFile('follow-up-sequences.json', config);
+  }
+
+  static getDefaultFollowUpSequences(): FollowUpSequencesConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_FOLLOW_UP_SEQUENCES));
+  }
+
+  // Rejected-offer Policy
+  static async getOfferPolicy(): Promise<OfferPolicyConfig> {
+    return this.readConfigFile<OfferPolicyConfig>('offer-policy.json', DEFAULT_OFFER_POLICY);
+  }
+
+  static async setOfferPolicy(config: OfferPolicyConfig): Promise<void> {
+    return this.writeConfigFile('offer-policy.json', config);
+  }
+
+  static getDefaultOfferPolicy(): OfferPolicyConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_OFFER_POLICY));
+  }
+
+  // Opt-out keywords
+  static async getOptOutConfig(): Promise<OptOutConfig> {
+    const config = await this.readConfigFile<OptOutConfig>('opt-out-settings.json', DEFAULT_OPT_OUT);
+    return { ...DEFAULT_OPT_OUT, ...config };
+  }
+
+  static async setOptOutConfig(config: OptOutConfig): Promise<void> {
+    return this.writeConfigFile('opt-out-settings.json', config);
+  }
+
+  static getDefaultOptOutConfig(): OptOutConfig {
+    return { ...DEFAULT_OPT_OUT, keywords: [...DEFAULT_OPT_OUT.keywords] };
+  }
+
+  // Reply keywords (confirm / cancel)
+  static async getReplyActions(): Promise<ReplyActionsConfig> {
+    const config = await this.readConfigFile<ReplyActionsConfig>('reply-actions.json', DEFAULT_REPLY_ACTIONS);
+    return { ...DEFAULT_REPLY_ACTIONS, ...config };
+  }
+
+  static async setReplyActions(config: ReplyActionsConfig): Promise<void> {
+    return this.writeConfigFile('reply-actions.json', config);
+  }
+
+  static getDefaultReplyActions(): ReplyActionsConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_REPLY_ACTIONS));
+  }
+
+  // FAQ auto-reply
+  static async getFaqAutoReply(): Promise<FaqAutoReplyConfig> {
+    const config = await this.readConfigFile<FaqAutoReplyConfig>('faq-auto-reply.json', DEFAULT_FAQ_AUTO_REPLY);
+    return { ...DEFAULT_FAQ_AUTO_REPLY, ...config };
+  }
+
+  static async setFaqAutoReply(config: FaqAutoReplyConfig): Promise<void> {
+    return this.writeConfigFile('faq-auto-reply.json', config);
+  }
+
+  static getDefaultFaqAutoReply(): FaqAutoReplyConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_FAQ_AUTO_REPLY));
+  }
+
+  // Numbered-menu conversation flows
+  static async getConversationFlows(): Promise<ConversationFlowsConfig> {
+    const config = await this.readConfigFile<ConversationFlowsConfig>('conversation-flows.json', DEFAULT_CONVERSATION_FLOWS);
+    return { ...DEFAULT_CONVERSATION_FLOWS, ...config };
+  }
+
+  static async setConversationFlows(config: ConversationFlowsConfig): Promise<void> {
+    return this.writeConfigFile('conversation-flows.json', config);
+  }
+
+  static getDefaultConversationFlows(): ConversationFlowsConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_CONVERSATION_FLOWS));
+  }
+
+  // WhatsApp sender numbers
+  static async getSenderPool(): Promise<SenderPoolConfig> {
+    const config = await this.readConfigFile<SenderPoolConfig>('sender-pool.json', DEFAULT_SENDER_POOL);
+    return { ...DEFAULT_SENDER_POOL, ...config };
+  }
+
+  static async setSenderPool(config: SenderPoolConfig): Promise<void> {
+    return this.writeConfigFile('sender-pool.json', config);
+  }
+
+  static getDefaultSenderPool(): SenderPoolConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_SENDER_POOL));
+  }
+
+  // Messaging transport
+  static async getTransportConfig(): Promise<TransportConfig> {
+    const config = await this.readConfigFile<TransportConfig>('transport.json', DEFAULT_TRANSPORT);
+    return { ...DEFAULT_TRANSPORT, ...config, cloudApi: { ...DEFAULT_TRANSPORT.cloudApi, ...config.cloudApi } };
+  }
+
+  static async setTransportConfig(config: TransportConfig): Promise<void> {
+    return this.writeConfigFile('transport.json', config);
+  }
+
+  static getDefaultTransportConfig(): TransportConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_TRANSPORT));
+  }
+
+  // SMS fallback
+  static async getSmsConfig(): Promise<SmsConfig> {
+    const config = await this.readConfigFile<SmsConfig>('sms.json', DEFAULT_SMS);
+    return { ...DEFAULT_SMS, ...config, http: { ...DEFAULT_SMS.http, ...config.http } };
+  }
+
+  static async setSmsConfig(config: SmsConfig): Promise<void> {
+    return this.writeConfigFile('sms.json', config);
+  }
+
+  static getDefaultSmsConfig(): SmsConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_SMS));
+  }
+
+  // Media attachments
+  static async getMediaConfig(): Promise<MediaConfig> {
+    const config = await this.readConfigFile<MediaConfig>('media.json', DEFAULT_MEDIA);
+    return { ...DEFAULT_MEDIA, ...config, maxSizeMb: { ...DEFAULT_MEDIA.maxSizeMb, ...config.maxSizeMb } };
+  }
+
+  static async setMediaConfig(config: MediaConfig): Promise<void> {
+    return this.writeConfigFile('media.json', config);
+  }
+
+  static getDefaultMediaConfig(): MediaConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_MEDIA));
+  }
+
+  // Customer Grouping
+  static async getCustomerGrouping(): Promise<CustomerGroupingConfig> {
+    const config = await this.readConfigFile<CustomerGroupingConfig>('customer-grouping.json', DEFAULT_CUSTOMER_GROUPING);
+    return { ...DEFAULT_CUSTOMER_GROUPING, ...config };
+  }
+
+  static async setCustomerGrouping(config: CustomerGroupingConfig): Promise<void> {
+    return this.writeConfigFile('customer-grouping.json', config);
+  }
+
+  static getDefaultCustomerGrouping(): CustomerGroupingConfig {
+    return { ...DEFAULT_CUSTOMER_GROUPING };
+  }
+
+  // Template A/B Experiments
+  static async getTemplateExperiments(): Promise<TemplateExperimentsConfig> {
+    return this.readConfigFile<TemplateExperimentsConfig>('template-experiments.json', DEFAULT_TEMPLATE_EXPERIMENTS);
+  }
+
+  static async setTemplateExperiments(config: TemplateExperimentsConfig): Promise<void> {
+    return this.writeConfigFile('template-experiments.json', config);
+  }
+
+  static getDefaultTemplateExperiments(): TemplateExperimentsConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_TEMPLATE_EXPERIMENTS));
+  }
+
   // Get all configurations
   static async getAllConfigs() {
     try {
-    const [google, messages, timing, statusSettings] = await Promise.all([
+    const [google, messages, timing, statusSettings, statusRules] = await Promise.all([
       this.getGoogleConfig(),
       this.getMessageTemplates(),
       this.getTimingConfig(),
       this.getStatusSettings(),
+      this.getStatusRules(),
     ]);
 
     return {
@@ -128,6 +657,7 @@ export class ConfigService {
       messages: messages.templates,
       timing,
         statusSettings: statusSettings || DEFAULT_STATUS_SETTINGS,
+      statusRules,
     };
     } catch (error) {
       console.error('Error getting all configs:', error);
@@ -137,6 +667,7 @@ export class ConfigService {
         messages: DEFAULT_MESSAGE_TEMPLATES,
         timing: DEFAULT_TIMING_CONFIG,
         statusSettings: DEFAULT_STATUS_SETTINGS,
+        statusRules: DEFAULT_STATUS_RULES,
       };
     }
   }
@@ -147,12 +678,14 @@ export class ConfigService {
     messages: { exists: boolean; valid: boolean };
     timing: { exists: boolean; valid: boolean };
     statusSettings: { exists: boolean; valid: boolean };
+    statusRules: { exists: boolean; valid: boolean };
   }> {
     const health = {
       google: { exists: false, valid: false, configured: false },
       messages: { exists: false, valid: false },
       timing: { exists: false, valid: false },
-      statusSettings: { exists: false, valid: false }
+      statusSettings: { exists: false, valid: false },
+      statusRules: { exists: false, valid: false }
     };
 
     try {
@@ -177,6 +710,11 @@ export class ConfigService {
       health.statusSettings.exists = true;
       health.statusSettings.valid = !!(statusConfig.enabledStatuses);
 
+      // Check status rules
+      const statusRules = await this.getStatusRules();
+      health.statusRules.exists = true;
+      health.statusRules.valid = Array.isArray(statusRules.rules) && statusRules.rules.length > 0;
+
     } catch (error) {
       console.error('Error checking config health:', error);
     }
@@ -0,0 +1,349 @@
+import fs from 'fs';
+import path from 'path';
+import { TenantService } from './tenant';
+import crypto from 'crypto';
+import type { DiscountValue, OfferPolicyConfig } from '../types/config';
+import type { OfferCalculation } from './offer';
+import { OrderStateService } from './order-state';
+import { OrderTimelineService } from './order-timeline';
+
+export interface Coupon {
+  code: string;
+  orderId: string;
+  phoneNumber?: string;
+  customerName?: string;
+  productName?: string;
+  discount: DiscountValue;
+  originalAmount: number;
+  discountedAmount: number;
+  createdAt: number;
+  expiresAt: number;
+  sentAt?: number;             // وقت خروج الرسالة التي تحمل الكود (الكود يُصدر عند إضافتها للطابور)
+  redeemedAt?: number;
+  redeemedAmount?: number;     // المبلغ المحصل فعلياً عند الاستخدام (الافتراضي: discountedAmount)
+  redeemedOrderId?: string;    // رقم الطلب الجديد الذي استُخدم فيه الكود
+}
+
+export type CouponStatus = 'active' | 'redeemed' | 'expired';
+
+export interface CouponRecipient {
+  orderId: string;
+  phoneNumber?: string;
+  customerName?: string;
+  productName?: string;
+}
+
+export interface CouponReport {
+  offersSent: number;
+  issued: number;              // الأكواد التي وصلت للعملاء فعلاً
+  active: number;
+  redeemed: number;
+  expired: number;
+  redemptionRate: number;      // % من الأكواد المصدرة
+  recoveredRevenue: number;    // إجمالي المبالغ المحصلة من الأكواد المستخدمة
+  discountGiven: number;       // إجمالي الخصومات الممنوحة فعلياً
+}
+
+export interface RedeemResult {
+  success: boolean;
+  coupon?: Coupon;
+  reason?: 'not_found' | 'already_redeemed' | 'expired';
+  error?: string;
+}
+
+const FILE_NAME = 'coupons.json';
+const REDIS_URL = process.env.REDIS_URL;
+const REDIS_HASH = 'coupons';
+const PERSIST_DEBOUNCE_MS = 1000;
+
+// No 0/O/1/I so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const COUPON_VARIABLES = /\{couponCode\}|\{couponExpiry\}/;
+
+class FileStore {
+  private persistTimer: NodeJS.Timeout | null = null;
+  private pending: Record<string, Coupon> | null = null;
+  private readonly filePath: string;
+
+  constructor(private readonly dir: string) {
+    this.filePath = path.join(dir, FILE_NAME);
+  }
+
+  load(): Record<string, Coupon> {
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      if (fs.existsSync(this.filePath)) {
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (e) {
+      console.warn('Coupons: could not load file store, starting empty', e);
+    }
+    return {};
+  }
+
+  save(data: Record<string, Coupon>) {
+    this.pending = data;
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.pending) return;
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.pending, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn('Coupons: could not persist file store', e);
+    }
+    this.pending = null;
+  }
+}
+
+class RedisStore {
+  private client: any | null = null;
+  private connecting = false;
+
+  private async getClient() {
+    if (!REDIS_URL) return null;
+    if (this.client) return this.client;
+    if (this.connecting) return null;
+    try {
+      this.connecting = true;
+      const { createClient } = await import('redis');
+      const client = createClient({ url: REDIS_URL });
+      client.on('error', (err: any) => console.warn('Coupons Redis error', err));
+      await client.connect();
+      this.client = client;
+      return this.client;
+    } catch (e) {
+      console.warn('Coupons: Redis not available, using file fallback');
+      return null;
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  async loadAll(): Promise<Record<string, Coupon> | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: Record<string, string> = await c.hGetAll(TenantService.redisKey(REDIS_HASH));
+    const result: Record<string, Coupon> = {};
+    for (const [code, value] of Object.entries(raw)) {
+      try {
+        result[code] = JSON.parse(value);
+      } catch {
+        // Skip corrupted entries
+      }
+    }
+    return result;
+  }
+
+  async put(coupon: Coupon): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    await c.hSet(TenantService.redisKey(REDIS_HASH), coupon.code, JSON.stringify(coupon));
+  }
+}
+
+const fileStore = TenantService.scoped(tenantId => new FileStore(TenantService.getDataDir(tenantId)));
+const redisStore = new RedisStore();
+
+/**
+ * كوبونات العروض الخاصة: كود فريد لكل طلب مرفوض مع تاريخ انتهاء وتتبع الاستخدام
+ */
+export class CouponService {
+  private static scope = TenantService.scoped(() => ({ coupons: new Map<string, Coupon>(), loaded: false }));
+
+  private static async ensureLoaded(): Promise<void> {
+    if (this.scope().loaded) return;
+    const fromFile = fileStore().load();
+    const fromRedis = await redisStore.loadAll().catch(() => null);
+    const source = fromRedis && Object.keys(fromRedis).length > 0 ? fromRedis : fromFile;
+    this.scope().coupons = new Map(Object.entries(source));
+    this.scope().loaded = true;
+  }
+
+  private static async save(coupon: Coupon): Promise<void> {
+    this.scope().coupons.set(coupon.code, coupon);
+    // Best-effort write to both stores
+    await redisStore.put(coupon).catch(() => void 0);
+    fileStore().save(Object.fromEntries(this.scope().coupons));
+  }
+
+  static normalizeCode(code: string): string {
+    return (code || '').trim().toUpperCase();
+  }
+
+  static getStatus(coupon: Coupon, now: number = Date.now()): CouponStatus {
+    if (coupon.redeemedAt) return 'redeemed';
+    return coupon.expiresAt <= now ? 'expired' : 'active';
+  }
+
+  private static generateCode(prefix: string): string {
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    let suffix = '';
+    for (const byte of bytes) {
+      suffix += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+    }
+    const cleanPrefix = (prefix || '').trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return cleanPrefix ? `${cleanPrefix}-${suffix}` : suffix;
+  }
+
+  /**
+   * إصدار كود للطلب - أو إعادة الكود الساري الموجود له (حتى لا يحصل العميل على كودين لنفس الطلب)
+   */
+  static async issue(recipient: CouponRecipient, offer: OfferCalculation, policy: OfferPolicyConfig): Promise<Coupon> {
+    await this.ensureLoaded();
+
+    const existing = Array.from(this.scope().coupons.values())
+      .find(coupon => coupon.orderId === recipient.orderId && this.getStatus(coupon) === 'active');
+    if (existing) return existing;
+
+    let code = this.generateCode(policy.coupon.prefix);
+    while (this.scope().coupons.has(code)) {
+      code = this.generateCode(policy.coupon.prefix);
+    }
+
+    const now = Date.now();
+    const coupon: Coupon = {
+      code,
+      orderId: recipient.orderId,
+      phoneNumber: recipient.phoneNumber,
+      customerName: recipient.customerName,
+      productName: recipient.productName,
+      discount: offer.discount,
+      originalAmount: offer.originalAmount,
+      discountedAmount: offer.discountedAmount,
+      createdAt: now,
+      expiresAt: now + policy.coupon.validityDays * 24 * 60 * 60 * 1000
+    };
+
+    await this.save(coupon);
+    await OrderTimelineService.record(recipient.orderId, 'coupon_issued', `تم إصدار كود الخصم ${code}`, {
+      code,
+      discount: offer.discountLabel,
+      expiresAt: new Date(coupon.expiresAt).toISOString()
+    });
+    console.log(`🎟️ Coupon ${code} issued for order ${recipient.orderId} (${offer.discountLabel})`);
+    return coupon;
+  }
+
+  static formatExpiry(coupon: Coupon): string {
+    return new Date(coupon.expiresAt).toLocaleDateString('ar-EG', {
+      timeZone: 'Africa/Cairo',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric'
+    });
+  }
+
+  /**
+   * تعويض {couponCode} و {couponExpiry} في الرسالة - يصدر الكود فقط إذا كانت الرسالة تستخدمه
+   * وعند إيقاف الأكواد يُحذف السطر الذي يعرض الكود كاملاً بدل أن يظهر فارغاً
+   */
+  static async applyVariables(
+    message: string,
+    recipient: CouponRecipient,
+    offer: OfferCalculation,
+    policy: OfferPolicyConfig
+  ): Promise<string> {
+    if (!COUPON_VARIABLES.test(message)) return message;
+    if (!policy.coupon.enabled) {
+      return message.split('\n').filter(line => !COUPON_VARIABLES.test(line)).join('\n');
+    }
+
+    const coupon = await this.issue(recipient, offer, policy);
+    return message
+      .replace(/\{couponCode\}/g, coupon.code)
+      .replace(/\{couponExpiry\}/g, this.formatExpiry(coupon));
+  }
+
+  /**
+   * تسجيل وصول الأكواد الموجودة في رسالة أُرسلت بنجاح - الأكواد التي لم تخرج رسالتها لا تدخل في التقرير
+   */
+  static async markSent(orderId: string, message: string): Promise<void> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    for (const coupon of this.scope().coupons.values()) {
+      if (coupon.orderId !== orderId || coupon.sentAt || !message.includes(coupon.code)) continue;
+      await this.save({ ...coupon, sentAt: now });
+    }
+  }
+
+  static async find(code: string): Promise<Coupon | null> {
+    await this.ensureLoaded();
+    return this.scope().coupons.get(this.normalizeCode(code)) || null;
+  }
+
+  static async list(): Promise<Coupon[]> {
+    await this.ensureLoaded();
+    return Array.from(this.scope().coupons.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * تسجيل استخدام الكود (مرة واحدة فقط وقبل انتهاء صلاحيته)
+   */
+  static async redeem(code: string, options: { amount?: number; orderId?: string } = {}): Promise<RedeemResult> {
+    const coupon = await this.find(code);
+    if (!coupon) {
+      return { success: false, reason: 'not_found', error: 'كود الخصم غير موجود' };
+    }
+
+    const status = this.getStatus(coupon);
+    if (status === 'redeemed') {
+      return { success: false, coupon, reason: 'already_redeemed', error: 'تم استخدام كود الخصم من قبل' };
+    }
+    if (status === 'expired') {
+      return { success: false, coupon, reason: 'expired', error: 'انتهت صلاحية كود الخصم' };
+    }
+
+    const redeemed: Coupon = {
+      ...coupon,
+      redeemedAt: Date.now(),
+      redeemedAmount: options.amount ?? coupon.discountedAmount,
+      ...(options.orderId ? { redeemedOrderId: options.orderId } : {})
+    };
+    await this.save(redeemed);
+    await OrderTimelineService.record(coupon.orderId, 'coupon_redeemed', `تم استخدام كود الخصم ${coupon.code}`, {
+      code: coupon.code,
+      amount: redeemed.redeemedAmount,
+      redeemedOrderId: options.orderId
+    });
+    console.log(`🎟️ Coupon ${coupon.code} redeemed for ${redeemed.redeemedAmount} (order ${coupon.orderId})`);
+    return { success: true, coupon: redeemed };
+  }
+
+  /**
+   * كم استعادت رسائل العرض الخاص فعلياً
+   */
+  static async getReport(): Promise<CouponReport> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    // A coupon whose message was deferred, blocked or failed never reached the customer
+    const coupons = Array.from(this.scope().coupons.values()).filter(coupon => coupon.sentAt || coupon.redeemedAt);
+    const redeemed = coupons.filter(coupon => this.getStatus(coupon, now) === 'redeemed');
+    const states = await OrderStateService.getAll();
+
+    return {
+      offersSent: states.filter(state => state.sentMessages?.rejectedOffer).length,
+      issued: coupons.length,
+      active: coupons.filter(coupon => this.getStatus(coupon, now) === 'active').length,
+      redeemed: redeemed.length,
+      expired: coupons.filter(coupon => this.getStatus(coupon, now) === 'expired').length,
+      redemptionRate: coupons.length > 0 ? Math.round((redeemed.length / coupons.length) * 1000) / 10 : 0,
+      recoveredRevenue: redeemed.reduce((sum, coupon) => sum + (coupon.redeemedAmount ?? coupon.discountedAmount), 0),
+      discountGiven: redeemed.reduce((sum, coupon) => sum + (coupon.originalAmount - coupon.discountedAmount), 0)
+    };
+  }
+
+  static flush(): void {
+    fileStore().flush();
+  }
+}
@@ -0,0 +1,168 @@
+import { PhoneProcessor } from './phone-processor';
+import { normalizeArabic } from '../utils/arabic';
+import { parseOrderDate } from '../utils/order-date';
+import type { CustomerGroupingConfig, SheetRow } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export interface CustomerOrder {
+  orderId: string;
+  rowIndex?: number;
+  productName: string;
+  orderStatus: string;
+  totalPrice: string;
+  orderedAt?: number;          // وقت الطلب من عمود التاريخ (للمقارنة فقط)
+  duplicateOf?: string;        // الطلب الأصلي إذا كان هذا الصف مكرراً
+}
+
+export interface Customer {
+  phone: string;               // الرقم بعد التوحيد (201XXXXXXXXX)
+  name: string;
+  orders: CustomerOrder[];
+}
+
+export interface CustomerIndex {
+  customers: Map<string, Customer>;
+  byOrderId: Map<string, Customer>;
+  consolidateMessages: boolean;
+}
+
+type CustomerRow = Pick<SheetRow, 'orderId' | 'rowIndex' | 'name' | 'processedPhone' | 'productName' | 'orderStatus' | 'totalPrice' | 'orderDate'>;
+
+function parseAmount(value: string | undefined): number {
+  const amount = parseFloat(String(value ?? '').replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660)).replace(/[^\d.]/g, ''));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * العميل = كل الطلبات القادمة من نفس الرقم. يكشف الطلبات المكررة ويجمع رسائل الطلبات المختلفة في رسالة واحدة
+ */
+export class CustomerService {
+  static customerKey(row: Pick<SheetRow, 'processedPhone'>): string {
+    return PhoneProcessor.formatToInternational(row.processedPhone || '');
+  }
+
+  /**
+   * تجميع صفوف الشيت حسب العميل وتحديد الصفوف المكررة (نفس المنتج خلال duplicateWindowHours)
+   */
+  static buildIndex(rows: CustomerRow[], config: CustomerGroupingConfig): CustomerIndex {
+    const customers = new Map<string, Customer>();
+    const byOrderId = new Map<string, Customer>();
+    if (!config.enabled) {
+      return { customers, byOrderId, consolidateMessages: false };
+    }
+
+    for (const row of rows) {
+      const phone = this.customerKey(row);
+      if (!phone || !row.orderId) continue;
+
+      let customer = customers.get(phone);
+      if (!customer) {
+        customer = { phone, name: row.name || '', orders: [] };
+        customers.set(phone, customer);
+      }
+
+      const orderDate = parseOrderDate(row.orderDate);
+      customer.orders.push({
+        orderId: row.orderId,
+        rowIndex: row.rowIndex,
+        productName: row.productName || '',
+        orderStatus: (row.orderStatus || '').trim(),
+        totalPrice: row.totalPrice || '',
+        orderedAt: orderDate
+          ? Date.UTC(orderDate.year, orderDate.month - 1, orderDate.day) + orderDate.minutes * 60 * 1000
+          : undefined
+      });
+      byOrderId.set(row.orderId, customer);
+    }
+
+    const windowMs = config.duplicateWindowHours * 60 * 60 * 1000;
+    for (const customer of customers.values()) {
+      if (customer.orders.length < 2) continue;
+
+      // Oldest first, so the original order is the one that keeps its messages
+      customer.orders.sort((a, b) =>
+        (a.orderedAt ?? Infinity) - (b.orderedAt ?? Infinity) || (a.rowIndex ?? 0) - (b.rowIndex ?? 0));
+
+      const originals: CustomerOrder[] = [];
+      for (const order of customer.orders) {
+        const product = normalizeArabic(order.productName);
+        // Rows without a readable date are never flagged - a wrong guess would silently drop a real order
+        const original = order.orderedAt === undefined || !product ? undefined : originals.find(candidate =>
+          candidate.orderedAt !== undefined &&
+          normalizeArabic(candidate.productName) === product &&
+          order.orderedAt! - candidate.orderedAt <= windowMs
+        );
+        if (original) {
+          order.duplicateOf = original.orderId;
+        } else {
+          originals.push(order);
+        }
+      }
+    }
+
+    return { customers, byOrderId, consolidateMessages: config.consolidateMessages };
+  }
+
+  static getDuplicateOf(index: CustomerIndex, orderId: string): string | undefined {
+    // Identical rows share a generated orderId; the order is a duplicate only if none of its rows is an original
+    const rows = index.byOrderId.get(orderId)?.orders.filter(order => order.orderId === orderId) || [];
+    return rows.length > 0 && rows.every(order => order.duplicateOf) ? rows[0].duplicateOf : undefined;
+  }
+
+  /**
+   * معلومات العميل لصف معين في الشيت (لصفحة الطلبات)
+   */
+  static describeRow(index: CustomerIndex, row: Pick<SheetRow, 'processedPhone' | 'rowIndex'>): { phone: string; orderCount: number; duplicateOf?: string } | null {
+    const customer = index.customers.get(this.customerKey(row));
+    const order = customer?.orders.find(candidate => candidate.rowIndex === row.rowIndex);
+    if (!customer || !order) return null;
+    return { phone: customer.phone, orderCount: customer.orders.length, ...(order.duplicateOf ? { duplicateOf: order.duplicateOf } : {}) };
+  }
+
+  /**
+   * الطلبات الأصلية الأخرى لنفس العميل بنفس الحالة - مرشحة لرسالة مجمعة واحدة (مرتبة حسب الصف)
+   */
+  static getSiblings(index: CustomerIndex, orderId: string): CustomerOrder[] {
+    if (!index.consolidateMessages) return [];
+    const customer = index.byOrderId.get(orderId);
+    const self = customer?.orders.find(order => order.orderId === orderId);
+    if (!customer || !self) return [];
+
+    const status = normalizeArabic(self.orderStatus);
+    return customer.orders
+      .filter(order => !order.duplicateOf && normalizeArabic(order.orderStatus) === status)
+      .sort((a, b) => (a.rowIndex ?? 0) - (b.rowIndex ?? 0));
+  }
+
+  /**
+   * صف واحد يمثل كل طلبات المجموعة: المنتجات مجمعة والإجمالي مجموع الأسعار
+   */
+  static consolidatedRow<T extends CustomerRow>(row: T, orders: CustomerOrder[]): T {
+    const products = orders.map(order => order.productName).filter(Boolean);
+    const total = orders.reduce((sum, order) => sum + parseAmount(order.totalPrice), 0);
+    return {
+      ...row,
+      productName: products.join(' + ') || row.productName,
+      totalPrice: total > 0 ? String(total) : row.totalPrice
+    };
+  }
+
+  static validate(config: CustomerGroupingConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['customerGrouping must be an object'], warnings };
+    }
+    if (typeof config.duplicateWindowHours !== 'number' || config.duplicateWindowHours < 0 || config.duplicateWindowHours > 720) {
+      errors.push('duplicateWindowHours must be between 0 and 720');
+    } else if (config.duplicateWindowHours === 0) {
+      warnings.push('duplicateWindowHours is 0 - only orders with the exact same time are treated as duplicates');
+    }
+    if (!config.enabled && config.consolidateMessages) {
+      warnings.push('consolidateMessages has no effect while grouping is disabled');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -1,13 +1,17 @@
 import fs from 'fs';
 import path from 'path';
+import { TenantService } from './tenant';
+import { ConfigService } from './config';
 
-export type MessageType = 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder';
+export type MessageType = 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder' | `followUp:${string}`;
 
 const FILE_NAME = 'sent-messages.json';
-const FILE_DIR = process.env.CONFIG_DIR || path.resolve('./config');
-const FILE_PATH = path.join(FILE_DIR, FILE_NAME);
 const REDIS_URL = process.env.REDIS_URL;
 
+// When customer grouping is on, repeat orders from one phone are handled per customer instead.
+// Loaded from the saved settings on first use so it holds after a restart
+const matchPhoneAndName = TenantService.scoped(() => ({ enabled: null as boolean | null }));
+
 function buildKeys(orderId: string, phone?: string | null, name?: string | null, type?: MessageType) {
   const keys: string[] = [];
   const safeOrder = (orderId || '').trim();
@@ -15,6 +19,8 @@ function buildKeys(orderId: string, phone?: string | null, name?: string | null,
   const safeName = (name || '').trim();
   const t = type || 'newOrder';
   if (safeOrder) keys.push(`msg:order:${t}:${safeOrder}`);
+  // Every order runs its own follow-up sequence, so a customer's earlier order must not block it
+  if (t.startsWith('followUp:')) return keys;
   if (safePhone) keys.push(`msg:phone:${t}:${safePhone}`);
   if (safeName) keys.push(`msg:name:${t}:${safeName}`);
   return keys;
@@ -23,15 +29,20 @@ function buildKeys(orderId: string, phone?: string | null, name?: string | null,
 class FileStore {
   private data: Set<string> = new Set();
   private initialized = false;
+  private readonly filePath: string;
+
+  constructor(private readonly dir: string) {
+    this.filePath = path.join(dir, FILE_NAME);
+  }
 
   private ensureLoaded() {
     if (this.initialized) return;
     try {
-      if (!fs.existsSync(FILE_DIR)) {
-        fs.mkdirSync(FILE_DIR, { recursive: true });
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
       }
-      if (fs.existsSync(FILE_PATH)) {
-        const raw = fs.readFileSync(FILE_PATH, 'utf-8');
+      if (fs.existsSync(this.filePath)) {
+        const raw = fs.readFileSync(this.filePath, 'utf-8');
         const arr: string[] = JSON.parse(raw);
         this.data = new Set(arr);
       }
@@ -45,7 +56,7 @@ class FileStore {
 
   private persist() {
     try {
-      fs.writeFileSync(FILE_PATH, JSON.stringify(Array.from(this.data), null, 2), 'utf-8');
+      fs.writeFileSync(this.filePath, JSON.stringify(Array.from(this.data), null, 2), 'utf-8');
     } catch (e) {
       console.warn('DuplicateGuard: could not persist file store', e);
     }
@@ -91,7 +102,7 @@ class RedisStore {
     const c = await this.getClient();
     if (!c) return false;
     for (const k of keys) {
-      const exists = await c.exists(k);
+      const exists = await c.exists(TenantService.redisKey(k));
       if (exists) return true;
     }
     return false;
@@ -102,22 +113,33 @@ class RedisStore {
     if (!c) return;
     const pipeline = c.multi();
     for (const k of keys) {
-      pipeline.set(k, '1');
+      pipeline.set(TenantService.redisKey(k), '1');
     }
     await pipeline.exec();
   }
 }
 
-const fileStore = new FileStore();
+const fileStore = TenantService.scoped(tenantId => new FileStore(TenantService.getDataDir(tenantId)));
 const redisStore = new RedisStore();
 
 export class DuplicateGuardService {
+  /**
+   * Whether a message already sent to the same phone or name blocks other orders (on by default)
+   */
+  static setMatchPhoneAndName(enabled: boolean): void {
+    matchPhoneAndName().enabled = enabled;
+  }
+
   static async shouldSend(orderId: string, type: MessageType, phone?: string | null, name?: string | null): Promise<boolean> {
-    const keys = buildKeys(orderId, phone, name, type);
+    const setting = matchPhoneAndName();
+    if (setting.enabled === null) {
+      setting.enabled = !(await ConfigService.getCustomerGrouping()).enabled;
+    }
+    const keys = setting.enabled ? buildKeys(orderId, phone, name, type) : buildKeys(orderId, null, null, type);
     // Prefer Redis if available
     const redisHas = await redisStore.hasAny(keys);
     if (redisHas) return false;
-    const fileHas = fileStore.hasAny(keys);
+    const fileHas = fileStore().hasAny(keys);
     return !fileHas;
   }
 
@@ -125,6 +147,6 @@ export class DuplicateGuardService {
     const keys = buildKeys(orderId, phone, name, type);
     // Best-effort write
     await redisStore.addAll(keys).catch(() => void 0);
-    fileStore.addAll(keys);
+    fileStore().addAll(keys);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { ConfigService } from './config';
+import { GoogleSheetsService } from './google-sheets';
+import { InboxService, type InboxMessage } from './inbox';
+import { OptOutService } from './opt-out';
+import { SendWindowService } from './send-window';
+import { matchKeyword, normalizeArabic } from '../utils/arabic';
+import { renderOrderTemplate } from '../utils/order-template';
+import type { FaqAutoReplyConfig, FaqRule } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export interface AutoReply {
+  text: string;
+  ruleKey: string;             // معرف القاعدة أو HANDOFF_KEY
+  handled: boolean;            // الرد يجيب على السؤال - لا يحتاج تدخل الفريق
+}
+
+// Cooldown key for the "passed to the team" reply
+export const HANDOFF_KEY = 'handoff';
+
+/**
+ * رد تلقائي على الأسئلة المتكررة (السعر، الشحن، موعد التوصيل...) وتحويل باقي الرسائل للفريق
+ */
+export class FaqAutoReplyService {
+  private static compile(pattern: string | undefined): RegExp | null {
+    if (!pattern || !pattern.trim()) return null;
+    try {
+      return new RegExp(pattern, 'i');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * أول قاعدة مفعلة تطابق الرسالة (بالكلمات أو بالتعبير النمطي) - القواعد تُفحص بالترتيب
+   */
+  static matchRule(body: string, rules: FaqRule[]): FaqRule | null {
+    const normalized = normalizeArabic(body);
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+      if (matchKeyword(body, rule.keywords || [])) return rule;
+      // Patterns are tried on the raw text and the normalized text (أ/ا، ى/ي، ة/ه)
+      const regex = this.compile(rule.pattern);
+      if (regex && (regex.test(body) || regex.test(normalized))) return rule;
+    }
+    return null;
+  }
+
+  /**
+   * الرد المناسب لرسالة واردة - null إذا لم يجب الرد (معطل، خارج ساعات العمل، فترة التهدئة...)
+   */
+  static async handleMessage(message: InboxMessage): Promise<AutoReply | null> {
+    const config = await ConfigService.getFaqAutoReply();
+    if (!config.enabled) return null;
+    if (await OptOutService.isOptedOut(message.phone)) return null;
+
+    if (config.businessHoursOnly) {
+      // Business hours are the send windows from the timing settings, even while they are off for automation
+      const windows = await SendWindowService.getConfig();
+      if (!SendWindowService.isOpen({ ...windows, enabled: true })) return null;
+    }
+
+    const rule = this.matchRule(message.body, config.rules);
+    const ruleKey = rule ? rule.id : HANDOFF_KEY;
+    const template = rule ? rule.reply : config.handoffMessage;
+    if (!template.trim()) return null;
+
+    const state = await InboxService.getState(message.phone);
+    const lastReplyAt = state.autoReplies?.[ruleKey];
+    if (lastReplyAt && message.receivedAt - lastReplyAt < config.cooldownMinutes * 60 * 1000) {
+      console.log(`🤖 Auto-reply "${ruleKey}" for ${message.phone} skipped (cooldown)`);
+      return null;
+    }
+
+    const text = renderOrderTemplate(template, await this.findOrderRow(message));
+    console.log(`🤖 Auto-reply "${ruleKey}" for ${message.phone}`);
+    return { text, ruleKey, handled: !!rule };
+  }
+
+  private static async findOrderRow(message: InboxMessage) {
+    const orderId = message.orderIds[0];
+    if (!orderId) return null;
+    try {
+      const rows = await GoogleSheetsService.getSheetData();
+      return rows.find(row => row.orderId === orderId) || null;
+    } catch (error) {
+      console.warn(`🤖 Could not load order ${orderId} for auto-reply`, error);
+      return null;
+    }
+  }
+
+  static validate(config: FaqAutoReplyConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['faqAutoReply must be an object'], warnings };
+    }
+    if (typeof config.cooldownMinutes !== 'number' || config.cooldownMinutes < 0 || config.cooldownMinutes > 10080) {
+      errors.push('cooldownMinutes must be between 0 and 10080 (one week)');
+    }
+    if (typeof config.handoffMessage !== 'string') {
+      errors.push('handoffMessage must be a string');
+    }
+    if (!Array.isArray(config.rules)) {
+      return { isValid: false, errors: [...errors, 'rules must be an array'], warnings };
+    }
+
+    const ids = new Set<string>();
+    config.rules.forEach((rule, index) => {
+      const label = rule.name || rule.id || `#${index + 1}`;
+      if (!rule.id || !/^[a-z0-9-]+$/.test(rule.id)) {
+        errors.push(`Rule ${label}: id must use lowercase letters, digits and dashes`);
+      } else if (rule.id === HANDOFF_KEY) {
+        errors.push(`Rule ${label}: id "${HANDOFF_KEY}" is reserved`);
+      } else if (ids.has(rule.id)) {
+        errors.push(`Rule ${label}: duplicate id "${rule.id}"`);
+      }
+      ids.add(rule.id);
+
+      const keywords = (rule.keywords || []).filter(keyword => keyword && keyword.trim());
+      if (keywords.length === 0 && !rule.pattern?.trim()) {
+        errors.push(`Rule ${label}: needs keywords or a pattern`);
+      }
+      if (rule.pattern?.trim() && !this.compile(rule.pattern)) {
+        errors.push(`Rule ${label}: invalid pattern "${rule.pattern}"`);
+      }
+      if (!rule.reply || !rule.reply.trim()) {
+        errors.push(`Rule ${label}: reply is required`);
+      }
+    });
+
+    // A keyword of an earlier rule swallows later rules that contain it
+    config.rules.forEach((rule, index) => {
+      for (const earlier of config.rules.slice(0, index)) {
+        const shadowed = (rule.keywords || []).filter(keyword => matchKeyword(keyword, earlier.keywords || []));
+        if (shadowed.length > 0) {
+          warnings.push(`Rule ${rule.name || rule.id}: ${shadowed.join(', ')} is answered by the earlier rule ${earlier.name || earlier.id}`);
+        }
+      }
+    });
+
+    if (config.enabled && config.cooldownMinutes === 0) {
+      warnings.push('cooldownMinutes is 0 - a customer repeating a question gets the same reply every time');
+    }
+    if (config.enabled && !config.handoffMessage.trim()) {
+      warnings.push('No handoff message - unmatched messages wait silently for the team');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,377 @@
+import { ConfigService } from './config';
+import { GoogleSheetsService } from './google-sheets';
+import { InboxService, type InboxMessage } from './inbox';
+import { OptOutService } from './opt-out';
+import { OrderTimelineService } from './order-timeline';
+import { matchKeyword, normalizeArabic } from '../utils/arabic';
+import { renderOrderTemplate } from '../utils/order-template';
+import type { ConversationFlow, ConversationFlowsConfig, FlowStep, SheetRow } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export interface FlowAnswer {
+  stepId: string;
+  label: string;               // noteLabel وقت الإجابة
+  value: string;
+  answeredAt: number;
+}
+
+// حالة النموذج لكل محادثة - تُحفظ مع حالة المحادثة في صندوق الرسائل
+export interface FlowSession {
+  flowId: string;
+  stepId: string;              // السؤال الذي ننتظر إجابته
+  orderId?: string;
+  startedAt: number;
+  lastActivityAt: number;
+  startedBy: string;           // 'customer' أو اسم الموظف
+  invalidAttempts: number;
+  answers: FlowAnswer[];
+}
+
+export type FlowEndReason = 'completed' | 'timeout' | 'invalid' | 'cancelled';
+
+export interface FlowStepResult {
+  flowId: string;
+  ended?: FlowEndReason;
+  reply: string | null;        // الرسالة التالية للعميل (سؤال أو رد الإنهاء)
+}
+
+const END_LABELS: Record<FlowEndReason, string> = {
+  completed: 'اكتمل',
+  timeout: 'انتهت المهلة',
+  invalid: 'ردود غير مفهومة',
+  cancelled: 'أُلغي'
+};
+
+/**
+ * نماذج أسئلة بخيارات مرقمة عبر واتساب - الإجابات تُكتب في ملاحظات الطلب وسجله
+ */
+export class FlowService {
+  /**
+   * نص السؤال مع الخيارات المرقمة
+   */
+  static renderQuestion(step: FlowStep, row?: SheetRow | null): string {
+    const question = renderOrderTemplate(step.question, row);
+    if (step.type !== 'choice') return question;
+    const choices = (step.choices || []).map((choice, index) => `${index + 1}- ${choice.label}`);
+    return [question, ...choices].join('\n');
+  }
+
+  /**
+   * رقم الخيار من رد العميل: "2" أو "٢" أو "2-" أو نص الخيار نفسه - null إذا لم يُفهم
+   */
+  static parseChoice(body: string, step: FlowStep): number | null {
+    const choices = step.choices || [];
+    const normalized = normalizeArabic(body);
+
+    const numbered = normalized.match(/^(\d+)\s*[-.)]?$/);
+    if (numbered) {
+      const index = parseInt(numbered[1], 10) - 1;
+      return index >= 0 && index < choices.length ? index : null;
+    }
+
+    const byLabel = choices.findIndex(choice => normalizeArabic(choice.label) === normalized);
+    return byLabel >= 0 ? byLabel : null;
+  }
+
+  private static isExpired(session: FlowSession, config: ConversationFlowsConfig, now = Date.now()): boolean {
+    return now - session.lastActivityAt > config.timeoutMinutes * 60 * 1000;
+  }
+
+  private static async findOrderRow(orderId: string | undefined): Promise<SheetRow | null> {
+    if (!orderId) return null;
+    try {
+      const rows = await GoogleSheetsService.getSheetData();
+      return rows.find(row => row.orderId === orderId) || null;
+    } catch (error) {
+      console.warn(`📋 Could not load order ${orderId} for flow`, error);
+      return null;
+    }
+  }
+
+  /**
+   * بدء نموذج مع العميل - تعيد السؤال الأول الذي يجب إرساله
+   */
+  static async start(phone: string, flowId: string, options: { orderId?: string; startedBy?: string } = {}): Promise<string> {
+    const config = await ConfigService.getConversationFlows();
+    const flow = config.flows.find(candidate => candidate.id === flowId);
+    if (!flow || !flow.enabled) throw new Error(`Flow "${flowId}" not found or disabled`);
+    const first = flow.steps[0];
+    if (!first) throw new Error(`Flow "${flowId}" has no steps`);
+
+    const normalized = InboxService.normalizePhone(phone);
+    const orderId = options.orderId || (await InboxService.getConversation(normalized))
+      .reverse()
+      .find(message => message.orderIds.length > 0)?.orderIds[0];
+
+    const previous = (await InboxService.getState(normalized)).flow;
+    if (previous) {
+      await this.finish(normalized, previous, 'cancelled', config);
+    }
+
+    const now = Date.now();
+    await InboxService.setFlowSession(normalized, {
+      flowId,
+      stepId: first.id,
+      ...(orderId ? { orderId } : {}),
+      startedAt: now,
+      lastActivityAt: now,
+      startedBy: options.startedBy || 'customer',
+      invalidAttempts: 0,
+      answers: []
+    });
+
+    if (orderId) {
+      await OrderTimelineService.record(orderId, 'flow_started', `بدء نموذج "${flow.name}"`, {
+        flowId,
+        phone: normalized,
+        startedBy: options.startedBy || 'customer'
+      });
+    }
+    console.log(`📋 Flow "${flowId}" started for ${normalized}${orderId ? ` (order ${orderId})` : ''}`);
+    return this.renderQuestion(first, await this.findOrderRow(orderId));
+  }
+
+  /**
+   * رسالة واردة: إجابة على النموذج الجاري، أو كلمة تبدأ نموذجاً جديداً.
+   * null = الرسالة ليست جزءاً من نموذج (أو أنهى النموذج دون رد) وتكمل لباقي الردود التلقائية
+   */
+  static async handleMessage(message: InboxMessage): Promise<FlowStepResult | null> {
+    const config = await ConfigService.getConversationFlows();
+    if (!config.enabled) return null;
+
+    const session = (await InboxService.getState(message.phone)).flow;
+    if (session) {
+      return this.handleAnswer(message, session, config);
+    }
+
+    const flow = config.flows.find(candidate => candidate.enabled && matchKeyword(message.body, candidate.triggerKeywords || []));
+    if (!flow || await OptOutService.isOptedOut(message.phone)) return null;
+    return { flowId: flow.id, reply: await this.start(message.phone, flow.id, { orderId: message.orderIds[0] }) };
+  }
+
+  private static async handleAnswer(message: InboxMessage, session: FlowSession, config: ConversationFlowsConfig): Promise<FlowStepResult | null> {
+    if (this.isExpired(session, config, message.receivedAt)) {
+      await this.finish(message.phone, session, 'timeout', config);
+      return null;
+    }
+
+    const flow = config.flows.find(candidate => candidate.id === session.flowId);
+    const step = flow?.steps.find(candidate => candidate.id === session.stepId);
+    if (!flow || !step) {
+      // The flow was edited or removed while the customer was answering
+      await this.finish(message.phone, session, 'cancelled', config);
+      return null;
+    }
+
+    // "stop" in the middle of a flow ends it and goes on to the opt-out handling
+    const optOut = await ConfigService.getOptOutConfig();
+    if (optOut.enabled && matchKeyword(message.body, optOut.keywords)) {
+      await this.finish(message.phone, session, 'cancelled', config);
+      return null;
+    }
+
+    const choiceIndex = step.type === 'choice' ? this.parseChoice(message.body, step) : null;
+    const value = step.type === 'choice'
+      ? (choiceIndex !== null ? step.choices![choiceIndex].label : null)
+      : message.body.trim() || null;
+
+    const row = await this.findOrderRow(session.orderId);
+    if (value === null) {
+      const invalidAttempts = session.invalidAttempts + 1;
+      if (invalidAttempts >= config.maxInvalidAttempts) {
+        // Hand the conversation to the team (FAQ handoff / inbox)
+        await this.finish(message.phone, session, 'invalid', config);
+        return null;
+      }
+      await InboxService.setFlowSession(message.phone, { ...session, invalidAttempts, lastActivityAt: message.receivedAt });
+      const choices = (step.choices || []).map((_, index) => index + 1).join('، ');
+      const hint = config.invalidChoiceMessage.replace(/\{choices\}/g, choices);
+      return { flowId: flow.id, reply: `${hint}\n\n${this.renderQuestion(step, row)}` };
+    }
+
+    const answer: FlowAnswer = { stepId: step.id, label: step.noteLabel || step.id, value, answeredAt: message.receivedAt };
+    const updated: FlowSession = { ...session, answers: [...session.answers, answer], invalidAttempts: 0, lastActivityAt: message.receivedAt };
+    if (session.orderId) {
+      await OrderTimelineService.record(session.orderId, 'flow_answer', `${flow.name} - ${answer.label}: ${value.slice(0, 100)}`, {
+        flowId: flow.id,
+        stepId: step.id,
+        value,
+        messageId: message.id
+      });
+    }
+
+    const nextId = (choiceIndex !== null ? step.choices![choiceIndex].next : undefined) || step.next;
+    const next = nextId ? flow.steps.find(candidate => candidate.id === nextId) : undefined;
+    if (next) {
+      await InboxService.setFlowSession(message.phone, { ...updated, stepId: next.id });
+      return { flowId: flow.id, reply: this.renderQuestion(next, row) };
+    }
+
+    await this.finish(message.phone, updated, 'completed', config, row);
+    return {
+      flowId: flow.id,
+      ended: 'completed',
+      reply: flow.completionMessage.trim() ? renderOrderTemplate(flow.completionMessage, row) : null
+    };
+  }
+
+  /**
+   * إنهاء النموذج: كتابة الإجابات في ملاحظة الطلب وتسجيل النهاية في سجل الطلب
+   */
+  static async finish(
+    phone: string,
+    session: FlowSession,
+    reason: FlowEndReason,
+    config?: ConversationFlowsConfig,
+    row?: SheetRow | null
+  ): Promise<void> {
+    await InboxService.setFlowSession(phone, null);
+    const flowsConfig = config || await ConfigService.getConversationFlows();
+    const flow = flowsConfig.flows.find(candidate => candidate.id === session.flowId);
+    const name = flow?.name || session.flowId;
+    const summary = session.answers.map(answer => `${answer.label}: ${answer.value}`).join(' | ');
+    console.log(`📋 Flow "${session.flowId}" for ${phone} ended (${reason})`);
+    if (!session.orderId) return;
+
+    let noted = false;
+    if (session.answers.length > 0 && flowsConfig.writeNotes) {
+      const orderRow = row !== undefined ? row : await this.findOrderRow(session.orderId);
+      if (orderRow?.rowIndex) {
+        const time = new Date(session.answers[session.answers.length - 1].answeredAt).toLocaleString('ar-EG');
+        const partial = reason === 'completed' ? '' : ` (${END_LABELS[reason]})`;
+        noted = await GoogleSheetsService.addNote(orderRow.rowIndex, `📋 ${name}${partial}: ${summary} - ${time}`)
+          .then(() => true)
+          .catch(error => {
+            console.warn(`⚠️ Could not add flow note to row ${orderRow.rowIndex}:`, error);
+            return false;
+          });
+      }
+    }
+
+    await OrderTimelineService.record(session.orderId, 'flow_ended', `نموذج "${name}": ${END_LABELS[reason]}${summary ? ` - ${summary.slice(0, 200)}` : ''}`, {
+      flowId: session.flowId,
+      reason,
+      answers: session.answers,
+      noted
+    });
+  }
+
+  /**
+   * إنهاء النماذج التي لم يرد عليها العميل خلال المهلة (تُستدعى مع كل دورة معالجة)
+   */
+  static async expireSessions(): Promise<number> {
+    const config = await ConfigService.getConversationFlows();
+    let expired = 0;
+    for (const { phone, session } of await InboxService.listFlowSessions()) {
+      if (!this.isExpired(session, config)) continue;
+      await this.finish(phone, session, 'timeout', config);
+      expired++;
+    }
+    return expired;
+  }
+
+  static validate(config: ConversationFlowsConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['conversationFlows must be an object'], warnings };
+    }
+    if (typeof config.timeoutMinutes !== 'number' || config.timeoutMinutes < 1 || config.timeoutMinutes > 7 * 24 * 60) {
+      errors.push('timeoutMinutes must be between 1 and 10080 (one week)');
+    }
+    if (typeof config.maxInvalidAttempts !== 'number' || config.maxInvalidAttempts < 1 || config.maxInvalidAttempts > 10) {
+      errors.push('maxInvalidAttempts must be between 1 and 10');
+    }
+    if (typeof config.invalidChoiceMessage !== 'string' || !config.invalidChoiceMessage.trim()) {
+      errors.push('invalidChoiceMessage is required');
+    }
+    if (!Array.isArray(config.flows)) {
+      return { isValid: false, errors: [...errors, 'flows must be an array'], warnings };
+    }
+
+    const flowIds = new Set<string>();
+    const triggers = new Map<string, string>();
+    config.flows.forEach((flow, index) => {
+      const label = flow.name || flow.id || `#${index + 1}`;
+      if (!flow.id || !/^[a-z0-9-]+$/.test(flow.id)) {
+        errors.push(`Flow ${label}: id must use lowercase letters, digits and dashes`);
+      } else if (flowIds.has(flow.id)) {
+        errors.push(`Flow ${label}: duplicate id "${flow.id}"`);
+      }
+      flowIds.add(flow.id);
+
+      this.validateSteps(flow, label, errors, warnings);
+
+      for (const keyword of flow.triggerKeywords || []) {
+        const other = triggers.get(normalizeArabic(keyword));
+        if (other) warnings.push(`Flow ${label}: trigger "${keyword}" already starts ${other}`);
+        else triggers.set(normalizeArabic(keyword), label);
+      }
+    });
+
+    if (config.enabled && !config.writeNotes) {
+      warnings.push('writeNotes is off - answers are kept in the order timeline only');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private static validateSteps(flow: ConversationFlow, label: string, errors: string[], warnings: string[]) {
+    if (!Array.isArray(flow.steps) || flow.steps.length === 0) {
+      errors.push(`Flow ${label}: needs at least one step`);
+      return;
+    }
+
+    const stepIds = new Set(flow.steps.map(step => step.id));
+    if (stepIds.size !== flow.steps.length) {
+      errors.push(`Flow ${label}: step ids must be unique`);
+    }
+
+    const reachable = new Set<string>();
+    const visit = (stepId: string | undefined) => {
+      if (!stepId || reachable.has(stepId)) return;
+      const step = flow.steps.find(candidate => candidate.id === stepId);
+      if (!step) return;
+      reachable.add(stepId);
+      visit(step.next);
+      (step.choices || []).forEach(choice => visit(choice.next));
+    };
+    visit(flow.steps[0].id);
+
+    flow.steps.forEach(step => {
+      const stepLabel = `${label} / ${step.id || '?'}`;
+      if (!step.id || !/^[a-z0-9-]+$/.test(step.id)) {
+        errors.push(`Step ${stepLabel}: id must use lowercase letters, digits and dashes`);
+      }
+      if (!step.question || !step.question.trim()) {
+        errors.push(`Step ${stepLabel}: question is required`);
+      }
+      if (step.type !== 'choice' && step.type !== 'text') {
+        errors.push(`Step ${stepLabel}: type must be "choice" or "text"`);
+      }
+      if (step.type === 'choice') {
+        const choices = step.choices || [];
+        if (choices.length < 2) errors.push(`Step ${stepLabel}: needs at least two choices`);
+        if (choices.length > 9) warnings.push(`Step ${stepLabel}: more than 9 choices is hard to answer by number`);
+        if (choices.some(choice => !choice.label || !choice.label.trim())) {
+          errors.push(`Step ${stepLabel}: every choice needs a label`);
+        }
+      }
+      for (const target of [step.next, ...(step.choices || []).map(choice => choice.next)]) {
+        if (target && !stepIds.has(target)) {
+          errors.push(`Step ${stepLabel}: next step "${target}" does not exist`);
+        }
+      }
+      if (step.id && !reachable.has(step.id)) {
+        warnings.push(`Step ${stepLabel}: is never reached from the first step`);
+      }
+    });
+
+    // A loop without an exit keeps asking until the timeout
+    const loops = flow.steps.some(step => step.next === step.id);
+    if (loops) {
+      errors.push(`Flow ${label}: a step cannot lead to itself`);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { ConfigService } from './config';
+import { normalizeArabic } from '../utils/arabic';
+import type { FollowUpSequence, FollowUpSequencesConfig, RuleMessageType } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const RULE_MESSAGE_TYPES: RuleMessageType[] = ['newOrder', 'noAnswer', 'shipped', 'rejectedOffer', 'reminder'];
+const MAX_STEP_DELAY_HOURS = 24 * 30;
+
+export class FollowUpService {
+  /**
+   * تحميل التسلسلات المفعلة فقط
+   */
+  static async getActiveSequences(): Promise<FollowUpSequence[]> {
+    const config = await ConfigService.getFollowUpSequences();
+    return (config.sequences || []).filter(sequence => sequence.enabled !== false);
+  }
+
+  static isEntryStatus(entryStatuses: string[], orderStatus: string): boolean {
+    const normalized = normalizeArabic(orderStatus || '');
+    return entryStatuses.some(status => normalizeArabic(status) === normalized);
+  }
+
+  /**
+   * التسلسلات التي تبدأ عند دخول الطلب في هذه الحالة
+   */
+  static matchSequences(orderStatus: string, sequences: FollowUpSequence[]): FollowUpSequence[] {
+    return sequences.filter(sequence => this.isEntryStatus(sequence.entryStatuses || [], orderStatus));
+  }
+
+  /**
+   * التحقق من صحة إعداد التسلسلات قبل الحفظ
+   */
+  static validate(config: FollowUpSequencesConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || !Array.isArray(config.sequences)) {
+      return { isValid: false, errors: ['sequences must be an array'], warnings };
+    }
+
+    const seenIds = new Set<string>();
+
+    config.sequences.forEach((sequence, index) => {
+      const label = sequence?.id ? `Sequence "${sequence.id}"` : `Sequence #${index + 1}`;
+
+      if (!sequence || typeof sequence !== 'object') {
+        errors.push(`${label}: must be an object`);
+        return;
+      }
+
+      if (!sequence.id || typeof sequence.id !== 'string') {
+        errors.push(`${label}: missing id`);
+      } else if (seenIds.has(sequence.id)) {
+        errors.push(`${label}: duplicate id`);
+      } else {
+        seenIds.add(sequence.id);
+      }
+
+      if (!sequence.name || typeof sequence.name !== 'string') {
+        errors.push(`${label}: missing name`);
+      }
+
+      if (!Array.isArray(sequence.entryStatuses) || sequence.entryStatuses.length === 0) {
+        errors.push(`${label}: at least one entry status is required`);
+      }
+
+      if (!Array.isArray(sequence.steps) || sequence.steps.length === 0) {
+        errors.push(`${label}: at least one step is required`);
+        return;
+      }
+
+      const seenSteps = new Set<string>();
+      let previousDelay = -1;
+
+      for (const step of sequence.steps) {
+        const stepLabel = `${label} step "${step?.id || '?'}"`;
+
+        if (!step.id || typeof step.id !== 'string') {
+          errors.push(`${stepLabel}: missing id`);
+        } else if (seenSteps.has(step.id)) {
+          errors.push(`${stepLabel}: duplicate step id`);
+        } else {
+          seenSteps.add(step.id);
+        }
+
+        if (typeof step.delayHours !== 'number' || step.delayHours < 0 || step.delayHours > MAX_STEP_DELAY_HOURS) {
+          errors.push(`${stepLabel}: delayHours must be between 0 and ${MAX_STEP_DELAY_HOURS}`);
+        } else if (step.delayHours < previousDelay) {
+          warnings.push(`${stepLabel}: fires before the previous step`);
+        }
+        previousDelay = typeof step.delayHours === 'number' ? step.delayHours : previousDelay;
+
+        if (step.template !== undefined && !RULE_MESSAGE_TYPES.includes(step.template)) {
+          errors.push(`${stepLabel}: unknown template "${step.template}"`);
+        }
+        if (!step.template && !(step.message || '').trim()) {
+          errors.push(`${stepLabel}: either a template or a message is required`);
+        }
+      }
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -531,12 +531,42 @@ export class GoogleSheetsService {
   }
 
   /**
-   * إضافة تعليق أو ملاحظة لصف معين - معطل للقراءة فقط
+   * إضافة ملاحظة (Note) على خلية الحالة في صف معين - تُضاف تحت الملاحظة الموجودة
    */
   static async addNote(rowIndex: number, note: string): Promise<void> {
-    // دالة معطلة - النظام في وضع القراءة فقط
-    console.log(`🔒 READ-ONLY MODE: Would add note to row ${rowIndex}: ${note}`);
-    return Promise.resolve();
+    const { auth, spreadsheetUrl } = await this.getAuthenticatedClient();
+    const sheets = google.sheets({ version: 'v4', auth });
+    const spreadsheetId = this.extractSpreadsheetId(spreadsheetUrl);
+
+    // A:P reads go to the first sheet, so the note goes there too
+    const current = await sheets.spreadsheets.get({
+      spreadsheetId,
+      ranges: [`L${rowIndex}`],
+      fields: 'sheets(properties.sheetId,data.rowData.values.note)'
+    });
+    const sheet = current.data.sheets?.[0];
+    const previousNote = sheet?.data?.[0]?.rowData?.[0]?.values?.[0]?.note || '';
+
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [{
+          updateCells: {
+            range: {
+              sheetId: sheet?.properties?.sheetId ?? 0,
+              startRowIndex: rowIndex - 1,
+              endRowIndex: rowIndex,
+              startColumnIndex: 11, // L
+              endColumnIndex: 12
+            },
+            rows: [{ values: [{ note: previousNote ? `${previousNote}\n${note}` : note }] }],
+            fields: 'note'
+          }
+        }]
+      }
+    });
+
+    console.log(`📝 Added note to row ${rowIndex}: ${note}`);
   }
 
   /**
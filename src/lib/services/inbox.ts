@@ -0,0 +1,522 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigService } from './config';
+import { TenantService } from './tenant';
+import { GoogleSheetsService } from './google-sheets';
+import { PhoneProcessor } from './phone-processor';
+import { CustomerService, type CustomerIndex, type CustomerOrder } from './customers';
+import { OrderTimelineService } from './order-timeline';
+import { MessageTracker, type SentMessage } from './message-tracker';
+import type { InboundMessage } from './whatsapp-persistent-connection';
+import type { FlowSession } from './flows';
+import type { SheetRow } from '../types/config';
+
+export interface InboxMessage {
+  id: string;
+  phone: string;               // الرقم بعد التوحيد (201XXXXXXXXX)
+  body: string;
+  receivedAt: number;
+  direction?: 'in' | 'out';    // غير محدد = رسالة واردة من العميل
+  sentBy?: string;             // اسم الموظف للرسائل اليدوية
+  customerName?: string;
+  orderIds: string[];          // أحدث طلبات العميل وقت وصول الرسالة (الأحدث أولاً)
+}
+
+export interface ConversationState {
+  handled: boolean;
+  handledAt?: number;
+  handledBy?: string;
+  assignedTo?: string;
+  lastReadAt?: number;
+  autoReplies?: Record<string, number>; // آخر رد تلقائي لكل قاعدة (لفترة التهدئة)
+  flow?: FlowSession;          // نموذج الأسئلة الجاري مع العميل
+}
+
+export interface ConversationSummary extends ConversationState {
+  phone: string;
+  customerName?: string;
+  lastMessage: string;
+  lastMessageAt: number;
+  lastDirection: 'in' | 'out';
+  messageCount: number;
+  unreadCount: number;
+  orderIds: string[];
+}
+
+// رسالة في المحادثة: ردود العميل والموظفين من الصندوق، والرسائل التلقائية من MessageTracker
+export interface ThreadItem {
+  id: string;
+  direction: 'in' | 'out';
+  source: 'customer' | 'agent' | 'automation';
+  body: string;
+  at: number;
+  orderId?: string;
+  messageType?: string;
+  status?: SentMessage['status'];
+  sentBy?: string;
+}
+
+export interface ConversationThread {
+  conversation: ConversationSummary | null;
+  items: ThreadItem[];
+  orders: SheetRow[];          // كل طلبات الرقم في الشيت (الأحدث أولاً)
+}
+
+const REDIS_URL = process.env.REDIS_URL;
+const REDIS_CONVERSATIONS = 'inbox:conversations';
+const REDIS_STATE = 'inbox:state';
+const MAX_MESSAGES_PER_PHONE = 500;
+const LINKED_ORDERS = 3;
+const ORDER_INDEX_TTL_MS = 5 * 60 * 1000;
+const PERSIST_DEBOUNCE_MS = 1000;
+const AUTO_REPLY_SENDER = 'رد تلقائي';
+
+class FileStore<T> {
+  private data: Record<string, T> = {};
+  private initialized = false;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private readonly filePath: string;
+
+  constructor(private readonly dir: string, fileName: string) {
+    this.filePath = path.join(dir, fileName);
+  }
+
+  private ensureLoaded() {
+    if (this.initialized) return;
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      if (fs.existsSync(this.filePath)) {
+        this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (e) {
+      console.warn(`Inbox: could not load ${this.filePath}, starting empty`, e);
+      this.data = {};
+    }
+    this.initialized = true;
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.initialized) return;
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn(`Inbox: could not persist ${this.filePath}`, e);
+    }
+  }
+
+  get(key: string): T | undefined {
+    this.ensureLoaded();
+    return this.data[key];
+  }
+
+  keys(): string[] {
+    this.ensureLoaded();
+    return Object.keys(this.data);
+  }
+
+  set(key: string, value: T) {
+    this.ensureLoaded();
+    this.data[key] = value;
+    this.schedulePersist();
+  }
+}
+
+class RedisStore {
+  private client: any | null = null;
+  private connecting = false;
+
+  private async getClient() {
+    if (!REDIS_URL) return null;
+    if (this.client) return this.client;
+    if (this.connecting) return null;
+    try {
+      this.connecting = true;
+      const { createClient } = await import('redis');
+      const client = createClient({ url: REDIS_URL });
+      client.on('error', (err: any) => console.warn('Inbox Redis error', err));
+      await client.connect();
+      this.client = client;
+      return this.client;
+    } catch (e) {
+      console.warn('Inbox: Redis not available, using file fallback');
+      return null;
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  async get(phone: string): Promise<InboxMessage[] | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: string[] = await c.lRange(TenantService.redisKey(`inbox:${phone}`), 0, -1);
+    return raw.map(item => JSON.parse(item));
+  }
+
+  async phones(): Promise<string[] | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    return c.zRange(TenantService.redisKey(REDIS_CONVERSATIONS), 0, -1);
+  }
+
+  async append(phone: string, message: InboxMessage): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    const key = TenantService.redisKey(`inbox:${phone}`);
+    await c.multi()
+      .rPush(key, JSON.stringify(message))
+      .lTrim(key, -MAX_MESSAGES_PER_PHONE, -1)
+      .zAdd(TenantService.redisKey(REDIS_CONVERSATIONS), { score: message.receivedAt, value: phone })
+      .exec();
+  }
+
+  async getState(phone: string): Promise<ConversationState | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: string | null = await c.hGet(TenantService.redisKey(REDIS_STATE), phone);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async putState(phone: string, state: ConversationState): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    await c.hSet(TenantService.redisKey(REDIS_STATE), phone, JSON.stringify(state));
+  }
+
+  async allStates(): Promise<Record<string, ConversationState> | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: Record<string, string> = await c.hGetAll(TenantService.redisKey(REDIS_STATE));
+    return Object.fromEntries(Object.entries(raw).map(([phone, value]) => [phone, JSON.parse(value)]));
+  }
+}
+
+const messageStore = TenantService.scoped(tenantId => new FileStore<InboxMessage[]>(TenantService.getDataDir(tenantId), 'inbox.json'));
+const stateStore = TenantService.scoped(tenantId => new FileStore<ConversationState>(TenantService.getDataDir(tenantId), 'inbox-conversations.json'));
+const redisStore = new RedisStore();
+
+/**
+ * صندوق الرسائل المشترك: ردود العملاء مربوطة بطلباتهم وردود الموظفين وحالة كل محادثة
+ */
+export class InboxService {
+  private static orderIndex = TenantService.scoped(() => ({ current: null as { index: CustomerIndex; builtAt: number } | null }));
+
+  static normalizePhone(phone: string): string {
+    return PhoneProcessor.formatToInternational(phone) || (phone || '').replace(/\D+/g, '');
+  }
+
+  /**
+   * فهرس العملاء من الشيت (مخزن مؤقتاً لبضع دقائق حتى لا نقرأ الشيت مع كل رسالة)
+   */
+  private static async getOrderIndex(): Promise<CustomerIndex> {
+    const cache = this.orderIndex();
+    if (cache.current && Date.now() - cache.current.builtAt < ORDER_INDEX_TTL_MS) {
+      return cache.current.index;
+    }
+    const grouping = await ConfigService.getCustomerGrouping();
+    const rows = await GoogleSheetsService.getSheetData();
+    // Linking replies needs the phone index even when message grouping is switched off
+    const index = CustomerService.buildIndex(rows, { ...grouping, enabled: true, consolidateMessages: false });
+    cache.current = { index, builtAt: Date.now() };
+    return index;
+  }
+
+  /**
+   * أحدث طلبات هذا الرقم (الأحدث أولاً) - الطلبات المكررة لا تُربط
+   */
+  static async findRecentOrders(phone: string): Promise<{ customerName?: string; orders: CustomerOrder[] }> {
+    try {
+      const index = await this.getOrderIndex();
+      const customer = index.customers.get(this.normalizePhone(phone));
+      if (!customer) return { orders: [] };
+
+      const orders = customer.orders
+        .filter(order => !order.duplicateOf)
+        .sort((a, b) => (b.orderedAt ?? 0) - (a.orderedAt ?? 0) || (b.rowIndex ?? 0) - (a.rowIndex ?? 0))
+        .slice(0, LINKED_ORDERS);
+      return { customerName: customer.name, orders };
+    } catch (error) {
+      // A reply is still worth keeping even if the sheet is unreachable
+      console.warn(`Inbox: could not link orders for ${phone}`, error);
+      return { orders: [] };
+    }
+  }
+
+  private static async append(message: InboxMessage): Promise<void> {
+    // Best-effort write to both stores
+    await redisStore.append(message.phone, message).catch(() => void 0);
+    messageStore().set(message.phone, [...(messageStore().get(message.phone) || []), message].slice(-MAX_MESSAGES_PER_PHONE));
+  }
+
+  /**
+   * حفظ رسالة واردة وربطها بطلبات العميل - تعيد null إذا كانت الرسالة محفوظة من قبل
+   */
+  static async record(inbound: InboundMessage): Promise<InboxMessage | null> {
+    const phone = this.normalizePhone(inbound.from);
+    if (!phone) return null;
+
+    const existing = await this.getConversation(phone);
+    if (existing.some(message => message.id === inbound.id)) return null;
+
+    const { customerName, orders } = await this.findRecentOrders(phone);
+    const message: InboxMessage = {
+      id: inbound.id,
+      phone,
+      body: inbound.body,
+      receivedAt: inbound.timestamp || Date.now(),
+      ...(customerName ? { customerName } : {}),
+      orderIds: orders.map(order => order.orderId)
+    };
+    await this.append(message);
+
+    // A new reply reopens a conversation that was marked as handled
+    const state = await this.getState(phone);
+    if (state.handled) {
+      await this.saveState(phone, { ...state, handled: false, handledAt: undefined, handledBy: undefined });
+    }
+
+    for (const order of orders) {
+      await OrderTimelineService.record(order.orderId, 'reply_received', `رد العميل: "${inbound.body.slice(0, 100)}"`, {
+        messageId: inbound.id,
+        phone
+      });
+    }
+
+    console.log(`📥 Reply from ${phone}${orders.length ? ` (orders ${message.orderIds.join(', ')})` : ' (no matching order)'}`);
+    return message;
+  }
+
+  private static async appendOutgoing(phone: string, body: string, sentBy: string | undefined, source: string): Promise<InboxMessage> {
+    const conversation = await this.getConversation(phone);
+    const linked = [...conversation].reverse().find(message => message.orderIds.length > 0);
+    const now = Date.now();
+
+    const message: InboxMessage = {
+      id: `out_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      phone,
+      body,
+      receivedAt: now,
+      direction: 'out',
+      ...(sentBy ? { sentBy } : {}),
+      orderIds: linked?.orderIds || []
+    };
+    await this.append(message);
+
+    if (message.orderIds[0]) {
+      await OrderTimelineService.record(message.orderIds[0], 'message_sent', `رد ${sentBy ? `من ${sentBy}` : 'يدوي'}: "${body.slice(0, 100)}"`, {
+        source,
+        phone,
+        ...(sentBy ? { sentBy } : {})
+      });
+    }
+    return message;
+  }
+
+  /**
+   * حفظ رد أرسله موظف من صفحة الصندوق (بعد نجاح الإرسال)
+   */
+  static async recordOutgoing(phone: string, body: string, sentBy?: string): Promise<InboxMessage> {
+    const normalized = this.normalizePhone(phone);
+    const message = await this.appendOutgoing(normalized, body, sentBy || 'فريق الدعم', 'inbox');
+    // Replying means the agent has read everything before it
+    await this.saveState(normalized, { ...(await this.getState(normalized)), lastReadAt: message.receivedAt });
+    return message;
+  }
+
+  /**
+   * حفظ رد أرسله النظام تلقائياً - لا يغير حالة القراءة حتى يراه الفريق.
+   * ruleKey يسجل وقت الرد لفترة التهدئة، و handled يغلق المحادثة إذا كان الرد كافياً
+   */
+  static async recordAutoReply(phone: string, body: string, options: { ruleKey?: string; handled?: boolean } = {}): Promise<InboxMessage> {
+    const normalized = this.normalizePhone(phone);
+    const message = await this.appendOutgoing(normalized, body, AUTO_REPLY_SENDER, 'auto_reply');
+
+    if (options.ruleKey || options.handled) {
+      const state = await this.getState(normalized);
+      await this.saveState(normalized, {
+        ...state,
+        ...(options.ruleKey ? { autoReplies: { ...state.autoReplies, [options.ruleKey]: message.receivedAt } } : {}),
+        ...(options.handled ? { handled: true, handledAt: message.receivedAt, handledBy: AUTO_REPLY_SENDER } : {})
+      });
+    }
+    return message;
+  }
+
+  static async getConversation(phone: string): Promise<InboxMessage[]> {
+    const normalized = this.normalizePhone(phone);
+    const fromRedis = await redisStore.get(normalized).catch(() => null);
+    const messages = fromRedis && fromRedis.length > 0 ? fromRedis : messageStore().get(normalized) || [];
+    return [...messages].sort((a, b) => a.receivedAt - b.receivedAt);
+  }
+
+  static async getState(phone: string): Promise<ConversationState> {
+    const normalized = this.normalizePhone(phone);
+    const fromRedis = await redisStore.getState(normalized).catch(() => null);
+    return fromRedis || stateStore().get(normalized) || { handled: false };
+  }
+
+  private static async saveState(phone: string, state: ConversationState): Promise<void> {
+    await redisStore.putState(phone, state).catch(() => void 0);
+    stateStore().set(phone, state);
+  }
+
+  /**
+   * بدء أو إنهاء (null) نموذج الأسئلة الجاري مع العميل
+   */
+  static async setFlowSession(phone: string, session: FlowSession | null): Promise<void> {
+    const normalized = this.normalizePhone(phone);
+    const { flow, ...state } = await this.getState(normalized);
+    await this.saveState(normalized, session ? { ...state, flow: session } : state);
+  }
+
+  /**
+   * كل النماذج الجارية (لإنهاء المنتهية مهلتها)
+   */
+  static async listFlowSessions(): Promise<Array<{ phone: string; session: FlowSession }>> {
+    const fromRedis = await redisStore.allStates().catch(() => null);
+    const states = fromRedis
+      ? Object.entries(fromRedis)
+      : stateStore().keys().map(phone => [phone, stateStore().get(phone)!] as const);
+    return states
+      .filter(([, state]) => state?.flow)
+      .map(([phone, state]) => ({ phone, session: state.flow! }));
+  }
+
+  /**
+   * تحديث حالة المحادثة: تمت المعالجة / مسندة إلى / تمت القراءة
+   */
+  static async updateConversation(
+    phone: string,
+    patch: { handled?: boolean; assignedTo?: string | null; read?: boolean },
+    agent?: string
+  ): Promise<ConversationState> {
+    const normalized = this.normalizePhone(phone);
+    const state = { ...(await this.getState(normalized)) };
+
+    if (patch.handled !== undefined) {
+      state.handled = patch.handled;
+      state.handledAt = patch.handled ? Date.now() : undefined;
+      state.handledBy = patch.handled ? agent : undefined;
+    }
+    if (patch.assignedTo !== undefined) {
+      state.assignedTo = patch.assignedTo?.trim() || undefined;
+    }
+    if (patch.read || patch.handled) {
+      state.lastReadAt = Date.now();
+    }
+
+    await this.saveState(normalized, state);
+    return state;
+  }
+
+  private static summarize(phone: string, messages: InboxMessage[], state: ConversationState): ConversationSummary | null {
+    const last = messages[messages.length - 1];
+    if (!last) return null;
+    const incoming = messages.filter(message => message.direction !== 'out');
+    return {
+      phone,
+      customerName: [...messages].reverse().find(message => message.customerName)?.customerName,
+      lastMessage: last.body,
+      lastMessageAt: last.receivedAt,
+      lastDirection: last.direction || 'in',
+      messageCount: messages.length,
+      unreadCount: incoming.filter(message => message.receivedAt > (state.lastReadAt ?? 0)).length,
+      orderIds: [...incoming].reverse().find(message => message.orderIds.length > 0)?.orderIds || [],
+      ...state
+    };
+  }
+
+  /**
+   * كل المحادثات: غير المقروءة أولاً ثم حسب آخر رسالة
+   */
+  static async listConversations(): Promise<ConversationSummary[]> {
+    const fromRedis = await redisStore.phones().catch(() => null);
+    const phones = fromRedis && fromRedis.length > 0 ? fromRedis : messageStore().keys();
+
+    const summaries: ConversationSummary[] = [];
+    for (const phone of phones) {
+      const summary = this.summarize(phone, await this.getConversation(phone), await this.getState(phone));
+      if (summary) summaries.push(summary);
+    }
+    return summaries.sort((a, b) =>
+      Number(b.unreadCount > 0) - Number(a.unreadCount > 0) || b.lastMessageAt - a.lastMessageAt);
+  }
+
+  /**
+   * المحادثة كاملة: رسائل العميل والموظفين والرسائل التلقائية مرتبة زمنياً، مع طلبات العميل من الشيت
+   */
+  static async getThread(phone: string): Promise<ConversationThread> {
+    const normalized = this.normalizePhone(phone);
+    const messages = await this.getConversation(normalized);
+
+    const items: ThreadItem[] = messages.map(message => ({
+      id: message.id,
+      direction: message.direction || 'in',
+      source: message.direction !== 'out' ? 'customer' : message.sentBy === AUTO_REPLY_SENDER ? 'automation' : 'agent',
+      body: message.body,
+      at: message.receivedAt,
+      ...(message.orderIds[0] ? { orderId: message.orderIds[0] } : {}),
+      ...(message.sentBy ? { sentBy: message.sentBy } : {})
+    }));
+    // Status syncs also create placeholder entries without content - only real sends belong in the thread
+    for (const sent of MessageTracker.getPhoneMessages(normalized)) {
+      if (!sent.messageContent) continue;
+      items.push({
+        id: sent.id,
+        direction: 'out',
+        source: 'automation',
+        body: sent.messageContent,
+        at: new Date(sent.timestamp).getTime(),
+        orderId: sent.orderId,
+        messageType: sent.messageType,
+        status: sent.status
+      });
+    }
+
+    let orders: SheetRow[] = [];
+    try {
+      const rows = await GoogleSheetsService.getSheetData();
+      orders = rows
+        .filter(row => CustomerService.customerKey(row) === normalized)
+        .sort((a, b) => (b.rowIndex ?? 0) - (a.rowIndex ?? 0));
+    } catch (error) {
+      console.warn(`Inbox: could not load orders for ${normalized}`, error);
+    }
+
+    return {
+      conversation: this.summarize(normalized, messages, await this.getState(normalized)),
+      items: items.sort((a, b) => a.at - b.at),
+      orders
+    };
+  }
+
+  /**
+   * الرسائل المرتبطة بطلب معين
+   */
+  static async getOrderMessages(orderId: string): Promise<InboxMessage[]> {
+    const conversations = await this.listConversations();
+    const messages: InboxMessage[] = [];
+    for (const conversation of conversations) {
+      for (const message of await this.getConversation(conversation.phone)) {
+        if (message.orderIds.includes(orderId)) messages.push(message);
+      }
+    }
+    return messages.sort((a, b) => a.receivedAt - b.receivedAt);
+  }
+
+  static flush(): void {
+    messageStore().flush();
+    stateStore().flush();
+  }
+}
@@ -0,0 +1,326 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { ConfigService } from './config';
+import { TenantService } from './tenant';
+import { normalizeArabic } from '../utils/arabic';
+import type { OutboundMedia } from './transport';
+import type { MediaAsset, MediaConfig, MediaKind, RuleMessageType, TemplateAttachment } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const MEDIA_DIR = 'media';
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+// Linked files are downloaded again after an hour in case they changed
+const URL_CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHE_BYTES = 64 * 1024 * 1024;
+const MB = 1024 * 1024;
+
+// Formats WhatsApp accepts for each kind
+const MIME_TYPES: Record<MediaKind, Record<string, string>> = {
+  image: { 'image/jpeg': '.jpg', 'image/png': '.png', 'image/webp': '.webp' },
+  document: { 'application/pdf': '.pdf' },
+  audio: { 'audio/ogg': '.ogg', 'audio/mpeg': '.mp3', 'audio/mp4': '.m4a', 'audio/aac': '.aac', 'audio/amr': '.amr' }
+};
+
+export interface MessageAttachment {
+  assetId: string;
+  asCaption: boolean;
+}
+
+interface CachedFile {
+  data: string;                // base64
+  mimeType: string;
+  bytes: number;
+  version: string;             // mtime للملفات المرفوعة أو الرابط
+  loadedAt: number;
+}
+
+/**
+ * مكتبة الوسائط: صور المنتجات وملفات PDF والرسائل الصوتية المرفقة بالرسائل الآلية
+ */
+export class MediaService {
+  private static scope = TenantService.scoped(() => ({
+    cache: new Map<string, CachedFile>(),    // by asset id, oldest first
+    cacheBytes: 0
+  }));
+
+  static async getConfig(): Promise<MediaConfig> {
+    return ConfigService.getMediaConfig();
+  }
+
+  static getMediaDir(): string {
+    return path.join(TenantService.getDataDir(), MEDIA_DIR);
+  }
+
+  static getFilePath(asset: MediaAsset): string | null {
+    // Only bare file names are stored, so a tampered config cannot point outside the media directory
+    return asset.file ? path.join(this.getMediaDir(), path.basename(asset.file)) : null;
+  }
+
+  static kindOf(mimeType: string): MediaKind | null {
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    return (Object.keys(MIME_TYPES) as MediaKind[]).find(kind => type in MIME_TYPES[kind]) || null;
+  }
+
+  private static guessMimeType(url: string, kind: MediaKind): string {
+    const extension = path.extname(new URL(url).pathname).toLowerCase();
+    const match = Object.entries(MIME_TYPES[kind]).find(([, ext]) => ext === extension || (extension === '.jpeg' && ext === '.jpg'));
+    return match ? match[0] : Object.keys(MIME_TYPES[kind])[0];
+  }
+
+  /**
+   * سبب رفض الملف - أو null إذا كان نوعه وحجمه مقبولين
+   */
+  static checkFile(config: MediaConfig, mimeType: string, bytes: number): string | null {
+    const kind = this.kindOf(mimeType);
+    if (!kind) {
+      return `Unsupported file type ${mimeType || 'unknown'} - use JPG, PNG or WebP images, PDF documents or OGG, MP3, M4A, AAC or AMR audio`;
+    }
+    if (bytes === 0) {
+      return 'The file is empty';
+    }
+    if (bytes > config.maxSizeMb[kind] * MB) {
+      return `The ${kind} is ${(bytes / MB).toFixed(1)} MB - the limit is ${config.maxSizeMb[kind]} MB`;
+    }
+    return null;
+  }
+
+  /**
+   * حفظ ملف مرفوع في مجلد الوسائط وإضافته للمكتبة
+   */
+  static async saveUpload(name: string, mimeType: string, data: Buffer): Promise<MediaAsset> {
+    const config = await this.getConfig();
+    const problem = this.checkFile(config, mimeType, data.length);
+    if (problem) throw new Error(problem);
+
+    const kind = this.kindOf(mimeType)!;
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    const id = crypto.randomBytes(6).toString('hex');
+    const file = `${id}${MIME_TYPES[kind][type]}`;
+    await fs.promises.mkdir(this.getMediaDir(), { recursive: true });
+    await fs.promises.writeFile(path.join(this.getMediaDir(), file), data);
+
+    const asset: MediaAsset = { id, name: name || file, kind, mimeType: type, file, size: data.length, createdAt: new Date().toISOString() };
+    await ConfigService.setMediaConfig({ ...config, assets: [...config.assets, asset] });
+    console.log(`🖼️ Media ${asset.name} (${kind}, ${(data.length / 1024).toFixed(0)} KB) added to the library`);
+    return asset;
+  }
+
+  /**
+   * إضافة ملف برابط عام - يُحمّل ويُفحص حجمه عند أول إرسال
+   */
+  static async addUrl(name: string, url: string, kind: MediaKind): Promise<MediaAsset> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('url must be a valid URL');
+    }
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      throw new Error('url must start with http or https');
+    }
+    if (!(kind in MIME_TYPES)) {
+      throw new Error('kind must be image, document or audio');
+    }
+
+    const config = await this.getConfig();
+    const asset: MediaAsset = {
+      id: crypto.randomBytes(6).toString('hex'),
+      name: name || path.basename(parsed.pathname) || parsed.hostname,
+      kind,
+      mimeType: this.guessMimeType(url, kind),
+      url,
+      createdAt: new Date().toISOString()
+    };
+    await ConfigService.setMediaConfig({ ...config, assets: [...config.assets, asset] });
+    return asset;
+  }
+
+  /**
+   * حذف ملف من المكتبة مع ربط المنتجات والقوالب التي تستخدمه
+   */
+  static async removeAsset(assetId: string): Promise<boolean> {
+    const config = await this.getConfig();
+    const asset = config.assets.find(item => item.id === assetId);
+    if (!asset) return false;
+
+    const filePath = this.getFilePath(asset);
+    if (filePath) {
+      await fs.promises.rm(filePath, { force: true });
+    }
+    const attachments = Object.fromEntries(
+      Object.entries(config.attachments).filter(([, attachment]) => attachment?.assetId !== assetId)
+    ) as MediaConfig['attachments'];
+    await ConfigService.setMediaConfig({
+      ...config,
+      assets: config.assets.filter(item => item.id !== assetId),
+      products: config.products.filter(product => product.assetId !== assetId),
+      attachments
+    });
+    this.evict(assetId);
+    return true;
+  }
+
+  /**
+   * صورة المنتج: أول ربط يظهر اسمه داخل اسم المنتج في الطلب
+   */
+  static findProductImage(config: MediaConfig, productName: string): MediaAsset | null {
+    const product = normalizeArabic(productName || '');
+    if (!product) return null;
+    const match = config.products.find(entry => {
+      const name = normalizeArabic(entry.product);
+      return name && product.includes(name);
+    });
+    return match ? config.assets.find(asset => asset.id === match.assetId) || null : null;
+  }
+
+  /**
+   * المرفق الذي يخرج مع رسالة من هذا النوع لهذا المنتج - null إذا لا يوجد
+   */
+  static attachmentFor(config: MediaConfig, messageType: RuleMessageType, productName: string): MessageAttachment | null {
+    const attachment: TemplateAttachment | undefined = config.attachments?.[messageType];
+    if (!config.enabled || !attachment) return null;
+
+    const asset = attachment.source === 'productImage'
+      ? this.findProductImage(config, productName)
+      : config.assets.find(item => item.id === attachment.assetId);
+    return asset ? { assetId: asset.id, asCaption: attachment.asCaption } : null;
+  }
+
+  /**
+   * تجهيز الملف للإرسال - من الذاكرة إذا حُمّل من قبل ولم يتغير
+   */
+  static async load(assetId: string): Promise<OutboundMedia> {
+    const config = await this.getConfig();
+    const asset = config.assets.find(item => item.id === assetId);
+    if (!asset) throw new Error(`Media ${assetId} is no longer in the library`);
+
+    const filePath = this.getFilePath(asset);
+    let cached: CachedFile;
+    if (filePath) {
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      if (!stat) throw new Error(`Media file for ${asset.name} is missing`);
+      cached = await this.cached(asset.id, String(stat.mtimeMs), false, async () => ({
+        data: await fs.promises.readFile(filePath),
+        mimeType: asset.mimeType
+      }));
+    } else if (asset.url) {
+      cached = await this.cached(asset.id, asset.url, true, () => this.download(asset.url!, asset.mimeType, config.maxSizeMb[asset.kind]));
+    } else {
+      throw new Error(`Media ${asset.name} has neither a file nor a url`);
+    }
+
+    // Limits may have been lowered since the file was added
+    const problem = this.checkFile(config, cached.mimeType, cached.bytes);
+    if (problem) throw new Error(`${asset.name}: ${problem}`);
+
+    const extension = MIME_TYPES[asset.kind][cached.mimeType] || '';
+    return {
+      kind: asset.kind,
+      mimeType: cached.mimeType,
+      data: cached.data,
+      ...(asset.url ? { url: asset.url } : {}),
+      filename: asset.name.toLowerCase().endsWith(extension) ? asset.name : `${asset.name}${extension}`
+    };
+  }
+
+  private static async cached(
+    assetId: string,
+    version: string,
+    expires: boolean,
+    read: () => Promise<{ data: Buffer; mimeType: string }>
+  ): Promise<CachedFile> {
+    const scope = this.scope();
+    const hit = scope.cache.get(assetId);
+    if (hit && hit.version === version && (!expires || Date.now() - hit.loadedAt < URL_CACHE_TTL_MS)) {
+      return hit;
+    }
+
+    const { data, mimeType } = await read();
+    const entry: CachedFile = { data: data.toString('base64'), mimeType, bytes: data.length, version, loadedAt: Date.now() };
+    this.evict(assetId);
+    scope.cache.set(assetId, entry);
+    scope.cacheBytes += entry.bytes;
+    // Drop the least recently loaded files once the cache is full
+    for (const [id, file] of scope.cache) {
+      if (scope.cacheBytes <= MAX_CACHE_BYTES || id === assetId) break;
+      this.evict(id);
+    }
+    return entry;
+  }
+
+  private static evict(assetId: string) {
+    const scope = this.scope();
+    const entry = scope.cache.get(assetId);
+    if (!entry) return;
+    scope.cacheBytes -= entry.bytes;
+    scope.cache.delete(assetId);
+  }
+
+  private static async download(url: string, expectedType: string, maxSizeMb: number): Promise<{ data: Buffer; mimeType: string }> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Downloading ${url} failed with ${response.status}`);
+    }
+    // Refuse oversized files before reading them when the server says how big they are
+    const length = Number(response.headers.get('content-length'));
+    if (length > maxSizeMb * MB) {
+      throw new Error(`${url} is ${(length / MB).toFixed(1)} MB - the limit is ${maxSizeMb} MB`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    // File hosts often serve everything as a generic binary stream
+    return { data, mimeType: !mimeType || mimeType.endsWith('/octet-stream') ? expectedType : mimeType };
+  }
+
+  static validate(config: MediaConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['media must be an object'], warnings };
+    }
+    for (const kind of Object.keys(MIME_TYPES) as MediaKind[]) {
+      const limit = config.maxSizeMb?.[kind];
+      if (typeof limit !== 'number' || limit <= 0 || limit > 100) {
+        errors.push(`maxSizeMb.${kind} must be between 0 and 100`);
+      }
+    }
+    if (config.maxSizeMb?.image > 5) {
+      warnings.push('WhatsApp rejects images larger than 5 MB');
+    }
+    if (config.maxSizeMb?.audio > 16) {
+      warnings.push('WhatsApp rejects audio larger than 16 MB');
+    }
+
+    const assets = new Map((config.assets || []).map(asset => [asset.id, asset]));
+    (config.products || []).forEach((entry, index) => {
+      const label = entry.product || `#${index + 1}`;
+      if (!entry.product?.trim()) {
+        errors.push(`Product image ${label}: product name is required`);
+      }
+      const asset = assets.get(entry.assetId);
+      if (!asset) {
+        errors.push(`Product image ${label}: pick an image from the library`);
+      } else if (asset.kind !== 'image') {
+        errors.push(`Product image ${label}: ${asset.name} is not an image`);
+      }
+    });
+
+    for (const [messageType, attachment] of Object.entries(config.attachments || {})) {
+      if (!attachment) continue;
+      if (!['productImage', 'asset'].includes(attachment.source)) {
+        errors.push(`Attachment for ${messageType}: source must be productImage or asset`);
+      } else if (attachment.source === 'asset' && !assets.has(attachment.assetId || '')) {
+        errors.push(`Attachment for ${messageType}: pick a file from the library`);
+      } else if (attachment.source === 'productImage' && (config.products || []).length === 0) {
+        warnings.push(`Attachment for ${messageType}: no product images are mapped yet, so the message goes out without a picture`);
+      }
+      if (attachment.asCaption && attachment.source === 'asset' && assets.get(attachment.assetId || '')?.kind === 'audio') {
+        warnings.push(`Attachment for ${messageType}: voice notes cannot carry a caption - the text is sent as its own message`);
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
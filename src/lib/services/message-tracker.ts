@@ -1,27 +1,76 @@
+import fs from 'fs';
+import path from 'path';
 import { QueueService } from './queue';
+import { PhoneProcessor } from './phone-processor';
+import { TenantService } from './tenant';
+import type { MessageType } from './duplicate-guard';
+import type { RuleMessageType, MessageChannel } from '../types/config';
+
+// On the server the tracker has no localStorage - sent messages are kept in a file instead
+const FILE_NAME = 'message-tracker.json';
+
+// إيصالات واتساب: وصلت للسيرفر ← وصلت للجهاز ← قُرئت
+export type DeliveryStatus = 'server' | 'delivered' | 'read' | 'failed';
+
+const DELIVERY_RANK: Record<DeliveryStatus, number> = { server: 1, delivered: 2, read: 3, failed: 4 };
+
+// Acks can arrive before the queue records the message it just sent
+const MAX_PENDING_ACKS = 500;
 
 export interface SentMessage {
   id: string;
   orderId: string;
   phoneNumber: string;
-  messageType: 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder';
+  messageType: MessageType;
   timestamp: string;
   status: 'sent' | 'failed' | 'pending';
+  messageId?: string;              // معرف رسالة واتساب (لربط إيصالات الاستلام والقراءة)
+  senderId?: string;               // رقم الإرسال (جلسة) الذي خرجت منه الرسالة
+  channel?: MessageChannel;        // فارغ في الرسائل القديمة = واتساب
+  deliveryStatus?: DeliveryStatus;
+  deliveredAt?: string;
+  readAt?: string;
   messageContent?: string;
   errorMessage?: string;
   rowIndex?: number;
 }
 
+export interface DeliveryRate {
+  tracked: number;                 // رسائل مرسلة لها معرف (يمكن تتبع إيصالاتها)
+  delivered: number;               // وصلت للجهاز (تشمل المقروءة)
+  read: number;
+  failed: number;
+  deliveredRate: number;           // نسبة مئوية من tracked
+  readRate: number;
+}
+
 export class MessageTracker {
-  private static sentMessages = new Map<string, SentMessage[]>();
   private static readonly STORAGE_KEY = 'whatsapp_sent_messages';
+  private static scope = TenantService.scoped(() => ({
+    sentMessages: new Map<string, SentMessage[]>(),
+    loaded: false,
+    persistTimer: null as NodeJS.Timeout | null,
+    pendingAcks: new Map<string, { status: DeliveryStatus; at: number }>()
+  }));
+
+  // Each store's messages are read from its own file on first use
+  private static state() {
+    const scope = this.scope();
+    if (!scope.loaded) this.loadFromStorage();
+    return scope;
+  }
 
   /**
    * تسجيل رسالة مرسلة
    */
   static recordSentMessage(sentMessage: SentMessage): void {
     const orderId = sentMessage.orderId;
-    const existingMessages = this.sentMessages.get(orderId) || [];
+    const earlyAck = sentMessage.messageId ? this.state().pendingAcks.get(sentMessage.messageId) : undefined;
+    if (earlyAck) {
+      this.state().pendingAcks.delete(sentMessage.messageId!);
+      this.applyAck(sentMessage, earlyAck.status, earlyAck.at);
+    }
+    const existingMessages = this.state().sentMessages.get(orderId) || [];
     
     // Check if this message type already exists for this order
     const existingMessageIndex = existingMessages.findIndex(
@@ -36,7 +85,7 @@ export class MessageTracker {
       existingMessages.push(sentMessage);
     }
     
-    this.sentMessages.set(orderId, existingMessages);
+    this.state().sentMessages.set(orderId, existingMessages);
     this.persistToStorage();
     
     console.log(`📝 Message tracked: ${sentMessage.messageType} for order ${orderId}`);
@@ -46,7 +95,7 @@ export class MessageTracker {
    * التحقق من إرسال نوع رسالة معين لطلب معين
    */
   static hasMessageBeenSent(orderId: string, messageType: SentMessage['messageType']): boolean {
-    const orderMessages = this.sentMessages.get(orderId);
+    const orderMessages = this.state().sentMessages.get(orderId);
     if (!orderMessages) return false;
     
     return orderMessages.some(msg => 
@@ -59,14 +108,28 @@ export class MessageTracker {
    * الحصول على جميع الرسائل المرسلة لطلب معين
    */
   static getOrderMessages(orderId: string): SentMessage[] {
-    return this.sentMessages.get(orderId) || [];
+    return this.state().sentMessages.get(orderId) || [];
+  }
+
+  /**
+   * كل الرسائل المرسلة لرقم معين (بعد توحيد صيغة الرقم) - الأقدم أولاً
+   */
+  static getPhoneMessages(phone: string): SentMessage[] {
+    const normalized = PhoneProcessor.formatToInternational(phone);
+    if (!normalized) return [];
+
+    const messages: SentMessage[] = [];
+    for (const orderMessages of this.state().sentMessages.values()) {
+      messages.push(...orderMessages.filter(msg => PhoneProcessor.formatToInternational(msg.phoneNumber) === normalized));
+    }
+    return messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
   }
 
   /**
    * الحصول على آخر رسالة من نوع معين لطلب معين
    */
   static getLastMessage(orderId: string, messageType: SentMessage['messageType']): SentMessage | null {
-    const orderMessages = this.sentMessages.get(orderId);
+    const orderMessages = this.state().sentMessages.get(orderId);
     if (!orderMessages) return null;
     
     const messages = orderMessages
@@ -85,7 +148,7 @@ export class MessageTracker {
     status: SentMessage['status'],
     errorMessage?: string
   ): void {
-    const orderMessages = this.sentMessages.get(orderId);
+    const orderMessages = this.state().sentMessages.get(orderId);
     if (!orderMessages) return;
     
     const messageIndex = orderMessages.findIndex(msg => msg.messageType === messageType);
@@ -95,13 +158,86 @@ export class MessageTracker {
         orderMessages[messageIndex].errorMessage = errorMessage;
       }
       
-      this.sentMessages.set(orderId, orderMessages);
+      this.state().sentMessages.set(orderId, orderMessages);
       this.persistToStorage();
       
       console.log(`🔄 Message status updated: ${messageType} for order ${orderId} -> ${status}`);
     }
   }
 
+  private static applyAck(message: SentMessage, status: DeliveryStatus, at: number): boolean {
+    // Receipts only move forward (a late "delivered" must not undo "read")
+    if (message.deliveryStatus && DELIVERY_RANK[message.deliveryStatus] >= DELIVERY_RANK[status]) return false;
+
+    const time = new Date(at).toISOString();
+    message.deliveryStatus = status;
+    if (status === 'failed') {
+      message.status = 'failed';
+      message.errorMessage = message.errorMessage || 'WhatsApp reported a delivery error';
+    }
+    if ((status === 'delivered' || status === 'read') && !message.deliveredAt) {
+      message.deliveredAt = time;
+    }
+    if (status === 'read') {
+      message.readAt = time;
+    }
+    return true;
+  }
+
+  /**
+   * تسجيل إيصال واتساب (وصول / قراءة / خطأ) لرسالة مرسلة بمعرفها
+   */
+  static recordAck(messageId: string, status: DeliveryStatus, at: number = Date.now()): SentMessage | null {
+    for (const orderMessages of this.state().sentMessages.values()) {
+      const message = orderMessages.find(msg => msg.messageId === messageId);
+      if (!message) continue;
+
+      if (this.applyAck(message, status, at)) {
+        this.persistToStorage();
+        console.log(`📬 ${message.messageType} for order ${message.orderId} -> ${status}`);
+      }
+      return message;
+    }
+
+    // Not recorded yet (or not an automated message) - keep the latest receipt for a while
+    const pending = this.state().pendingAcks.get(messageId);
+    if (!pending || DELIVERY_RANK[pending.status] < DELIVERY_RANK[status]) {
+      this.state().pendingAcks.set(messageId, { status, at });
+    }
+    if (this.state().pendingAcks.size > MAX_PENDING_ACKS) {
+      this.state().pendingAcks.delete(this.state().pendingAcks.keys().next().value!);
+    }
+    return null;
+  }
+
+  /**
+   * نسب الوصول والقراءة لكل نوع رسالة (فقط الرسائل التي لها معرف واتساب - رسائل SMS بلا إيصالات)
+   */
+  static getDeliveryStats(): { overall: DeliveryRate; byType: Record<string, DeliveryRate> } {
+    const empty = (): DeliveryRate => ({ tracked: 0, delivered: 0, read: 0, failed: 0, deliveredRate: 0, readRate: 0 });
+    const overall = empty();
+    const byType: Record<string, DeliveryRate> = {};
+
+    for (const orderMessages of this.state().sentMessages.values()) {
+      for (const message of orderMessages) {
+        if (!message.messageId || message.channel === 'sms') continue;
+        const rates = [overall, byType[message.messageType] || (byType[message.messageType] = empty())];
+        for (const rate of rates) {
+          rate.tracked++;
+          if (message.deliveryStatus === 'delivered' || message.deliveryStatus === 'read') rate.delivered++;
+          if (message.deliveryStatus === 'read') rate.read++;
+          if (message.deliveryStatus === 'failed') rate.failed++;
+        }
+      }
+    }
+
+    for (const rate of [overall, ...Object.values(byType)]) {
+      rate.deliveredRate = rate.tracked ? Math.round((rate.delivered / rate.tracked) * 1000) / 10 : 0;
+      rate.readRate = rate.tracked ? Math.round((rate.read / rate.tracked) * 1000) / 10 : 0;
+    }
+    return { overall, byType };
+  }
+
   /**
    * الحصول على إحصائيات الرسائل
    */
@@ -110,24 +246,29 @@ export class MessageTracker {
     sentMessages: number;
     failedMessages: number;
     pendingMessages: number;
-    messagesByType: Record<SentMessage['messageType'], number>;
+    messagesByType: Record<RuleMessageType, number>;
+    messagesByChannel: Record<MessageChannel, number>;
   } {
     let totalMessages = 0;
     let sentMessages = 0;
     let failedMessages = 0;
     let pendingMessages = 0;
-    const messagesByType: Record<SentMessage['messageType'], number> = {
+    const messagesByType: Record<RuleMessageType, number> = {
       newOrder: 0,
       noAnswer: 0,
       shipped: 0,
       rejectedOffer: 0,
       reminder: 0
     };
+    const messagesByChannel: Record<MessageChannel, number> = { whatsapp: 0, sms: 0 };
 
-    for (const orderMessages of this.sentMessages.values()) {
+    for (const orderMessages of this.state().sentMessages.values()) {
       for (const message of orderMessages) {
         totalMessages++;
-        messagesByType[message.messageType]++;
+        messagesByChannel[message.channel || 'whatsapp']++;
+        if (message.messageType in messagesByType) {
+          messagesByType[message.messageType as RuleMessageType]++;
+        }
         
         switch (message.status) {
           case 'sent':
@@ -148,7 +289,8 @@ export class MessageTracker {
       sentMessages,
       failedMessages,
       pendingMessages,
-      messagesByType
+      messagesByType,
+      messagesByChannel
     };
   }
 
@@ -161,7 +303,7 @@ export class MessageTracker {
     
     let cleanedCount = 0;
     
-    for (const [orderId, messages] of this.sentMessages.entries()) {
+    for (const [orderId, messages] of this.state().sentMessages.entries()) {
       const filteredMessages = messages.filter(msg => 
         new Date(msg.timestamp) > thirtyDaysAgo
       );
@@ -170,9 +312,9 @@ export class MessageTracker {
         cleanedCount += messages.length - filteredMessages.length;
         
         if (filteredMessages.length > 0) {
-          this.sentMessages.set(orderId, filteredMessages);
+          this.state().sentMessages.set(orderId, filteredMessages);
         } else {
-          this.sentMessages.delete(orderId);
+          this.state().sentMessages.delete(orderId);
         }
       }
     }
@@ -187,23 +329,28 @@ export class MessageTracker {
    * إعادة تعيين جميع الرسائل
    */
   static resetAllMessages(): void {
-    this.sentMessages.clear();
+    this.state().sentMessages.clear();
     this.persistToStorage();
     console.log('🔄 All message tracking data reset');
   }
 
+  private static filePath(): string {
+    return path.join(TenantService.getDataDir(), FILE_NAME);
+  }
+
   /**
    * تحميل البيانات من التخزين المحلي
    */
   static loadFromStorage(): void {
     try {
-      if (typeof window !== 'undefined') {
-        const stored = localStorage.getItem(this.STORAGE_KEY);
-        if (stored) {
-          const data = JSON.parse(stored);
-          this.sentMessages = new Map(Object.entries(data));
-          console.log(`📚 Loaded ${this.sentMessages.size} orders with message tracking`);
-        }
+      const stored = typeof window !== 'undefined'
+        ? localStorage.getItem(this.STORAGE_KEY)
+        : fs.existsSync(this.filePath()) ? fs.readFileSync(this.filePath(), 'utf-8') : null;
+      this.scope().loaded = true;
+      if (stored) {
+        const data = JSON.parse(stored);
+        this.scope().sentMessages = new Map(Object.entries(data));
+        console.log(`📚 Loaded ${this.scope().sentMessages.size} orders with message tracking`);
       }
     } catch (error) {
       console.error('Error loading message tracking data:', error);
@@ -216,9 +363,34 @@ export class MessageTracker {
   private static persistToStorage(): void {
     try {
       if (typeof window !== 'undefined') {
-        const data = Object.fromEntries(this.sentMessages.entries());
+        const data = Object.fromEntries(this.state().sentMessages.entries());
         localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+      } else if (!this.state().persistTimer) {
+        // Status syncs touch every order, so file writes are batched
+        const timer = setTimeout(() => this.flush(), 1000);
+        timer.unref?.();
+        this.state().persistTimer = timer;
+      }
+    } catch (error) {
+      console.error('Error persisting message tracking data:', error);
+    }
+  }
+
+  /**
+   * حفظ الرسائل في الملف فوراً (على السيرفر)
+   */
+  static flush(): void {
+    const state = this.state();
+    if (state.persistTimer) {
+      clearTimeout(state.persistTimer);
+      state.persistTimer = null;
+    }
+    if (typeof window !== 'undefined') return;
+    try {
+      if (!fs.existsSync(TenantService.getDataDir())) {
+        fs.mkdirSync(TenantService.getDataDir(), { recursive: true });
       }
+      fs.writeFileSync(this.filePath(), JSON.stringify(Object.fromEntries(this.state().sentMessages.entries())), 'utf-8');
     } catch (error) {
       console.error('Error persisting message tracking data:', error);
     }
@@ -285,12 +457,14 @@ export class MessageTracker {
     type: string;
     timestamp: string;
     status: 'sent' | 'failed' | 'pending';
+    deliveryStatus?: DeliveryStatus;
   }> {
     const messages = this.getOrderMessages(orderId);
     return messages.map(msg => ({
       type: msg.messageType,
       timestamp: msg.timestamp,
-      status: msg.status
+      status: msg.status,
+      ...(msg.deliveryStatus ? { deliveryStatus: msg.deliveryStatus } : {})
     }));
   }
 
@@ -298,16 +472,16 @@ export class MessageTracker {
    * تصدير جميع بيانات الرسائل
    */
   static exportAllData(): Record<string, SentMessage[]> {
-    return Object.fromEntries(this.sentMessages.entries());
+    return Object.fromEntries(this.state().sentMessages.entries());
   }
 
   /**
    * استيراد بيانات الرسائل
    */
   static importData(data: Record<string, SentMessage[]>): void {
-    this.sentMessages = new Map(Object.entries(data));
+    this.state().sentMessages = new Map(Object.entries(data));
     this.persistToStorage();
-    console.log(`📥 Imported message tracking data for ${this.sentMessages.size} orders`);
+    console.log(`📥 Imported message tracking data for ${this.state().sentMessages.size} orders`);
   }
 }
 
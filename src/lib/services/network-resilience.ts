@@ -1,6 +1,7 @@
 import { GoogleSheetsService } from './google-sheets';
 import { WhatsAppService } from './whatsapp';
 import { ConfigService } from './config';
+import type { SendTextOptions } from './transport';
 
 // Ensure fetch is available in production environments
 if (typeof fetch === 'undefined') {
@@ -317,12 +318,12 @@ export class NetworkResilienceService {
   /**
    * Resilient WhatsApp message sending
    */
-  static async sendWhatsAppMessageResilient(phoneNumber: string, message: string): Promise<boolean> {
+  static async sendWhatsAppMessageResilient(phoneNumber: string, message: string, sessionId?: string, options?: SendTextOptions): Promise<string | null> {
     return this.executeWhatsAppOperation(
       async () => {
         console.log(`📱 Attempting resilient WhatsApp message send to ${phoneNumber}...`);
         const whatsapp = WhatsAppService.getInstance();
-        return await whatsapp.sendMessage(phoneNumber, message);
+        return await whatsapp.sendMessage(phoneNumber, message, sessionId, options);
       },
       `WhatsApp Message Send to ${phoneNumber}`
     );
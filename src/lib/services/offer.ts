@@ -0,0 +1,168 @@
+import { ConfigService } from './config';
+import { normalizeArabic } from '../utils/arabic';
+import type { DiscountTier, DiscountValue, OfferPolicyConfig, SheetRow } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export interface OfferCalculation {
+  originalAmount: number;
+  discountedAmount: number;
+  savedAmount: number;
+  discount: DiscountValue;
+  discountLabel: string;       // "20%" أو "50 جنيه"
+  tierId?: string;
+}
+
+type OfferRow = Pick<SheetRow, 'totalPrice' | 'productName'>;
+
+function parseAmount(value: string | number | undefined): number {
+  const text = String(value ?? '')
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[^\d.]/g, '');
+  const amount = parseFloat(text);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * حساب خصم عرض الطلبات المرفوضة حسب السياسة (نسبة أو مبلغ ثابت، بشرائح حسب القيمة أو المنتج)
+ */
+export class OfferService {
+  static async getPolicy(): Promise<OfferPolicyConfig> {
+    const defaults = ConfigService.getDefaultOfferPolicy();
+    const policy = await ConfigService.getOfferPolicy();
+    return { ...defaults, ...policy, coupon: { ...defaults.coupon, ...policy.coupon } };
+  }
+
+  /**
+   * أول شريحة تطابق الطلب، أو الخصم الافتراضي
+   */
+  static resolveDiscount(row: OfferRow, policy: OfferPolicyConfig): { discount: DiscountValue; tier?: DiscountTier } {
+    const amount = parseAmount(row.totalPrice);
+    const product = normalizeArabic(row.productName || '');
+
+    const tier = (policy.tiers || []).find(candidate => {
+      if (policy.tierBy === 'product') {
+        return !!product && (candidate.products || []).some(name => {
+          const normalized = normalizeArabic(name);
+          return !!normalized && product.includes(normalized);
+        });
+      }
+      const aboveMin = candidate.minTotal === undefined || amount >= candidate.minTotal;
+      const belowMax = candidate.maxTotal === undefined || amount < candidate.maxTotal;
+      return aboveMin && belowMax;
+    });
+
+    return tier
+      ? { discount: { kind: tier.kind, value: tier.value }, tier }
+      : { discount: policy.defaultDiscount };
+  }
+
+  static calculate(row: OfferRow, policy: OfferPolicyConfig): OfferCalculation {
+    const originalAmount = parseAmount(row.totalPrice);
+    const { discount, tier } = this.resolveDiscount(row, policy);
+
+    const rawSaving = discount.kind === 'percent'
+      ? originalAmount * (discount.value / 100)
+      : discount.value;
+    const discountedAmount = Math.max(0, Math.round(originalAmount - rawSaving));
+
+    return {
+      originalAmount,
+      discountedAmount,
+      savedAmount: Math.round(originalAmount - discountedAmount),
+      discount,
+      discountLabel: discount.kind === 'percent' ? `${discount.value}%` : `${discount.value} جنيه`,
+      tierId: tier?.id
+    };
+  }
+
+  /**
+   * تعويض متغيرات العرض: {companyName} {amount} {discount} {discountedAmount} {savedAmount}
+   */
+  static applyVariables(template: string, row: OfferRow, policy: OfferPolicyConfig): string {
+    const offer = this.calculate(row, policy);
+    return template
+      .replace(/\{companyName\}/g, policy.companyName || 'متجرنا')
+      .replace(/\{amount\}/g, offer.originalAmount.toString())
+      .replace(/\{discount\}/g, offer.discountLabel)
+      .replace(/\{discountedAmount\}/g, offer.discountedAmount.toString())
+      .replace(/\{savedAmount\}/g, offer.savedAmount.toString());
+  }
+
+  /**
+   * التحقق من صحة سياسة العرض قبل الحفظ
+   */
+  static validate(policy: OfferPolicyConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!policy || typeof policy !== 'object') {
+      return { isValid: false, errors: ['offerPolicy must be an object'], warnings };
+    }
+
+    if (!policy.companyName || !policy.companyName.trim()) {
+      warnings.push('companyName is empty - {companyName} will fall back to "متجرنا"');
+    }
+    if (policy.tierBy !== 'totalPrice' && policy.tierBy !== 'product') {
+      errors.push('tierBy must be "totalPrice" or "product"');
+    }
+
+    const checkDiscount = (label: string, discount: DiscountValue) => {
+      if (!discount || (discount.kind !== 'percent' && discount.kind !== 'fixed')) {
+        errors.push(`${label}: kind must be "percent" or "fixed"`);
+        return;
+      }
+      if (typeof discount.value !== 'number' || !Number.isFinite(discount.value) || discount.value < 0) {
+        errors.push(`${label}: value must be a positive number`);
+      } else if (discount.kind === 'percent' && discount.value > 100) {
+        errors.push(`${label}: percent discount cannot exceed 100`);
+      } else if (discount.kind === 'percent' && discount.value >= 50) {
+        warnings.push(`${label}: ${discount.value}% is a very large discount`);
+      }
+    };
+
+    checkDiscount('defaultDiscount', policy.defaultDiscount);
+
+    if (policy.coupon) {
+      if (typeof policy.coupon.validityDays !== 'number' || policy.coupon.validityDays < 1 || policy.coupon.validityDays > 365) {
+        errors.push('coupon.validityDays must be between 1 and 365');
+      }
+      if (policy.coupon.prefix && !/^[A-Za-z0-9]{0,10}$/.test(policy.coupon.prefix)) {
+        errors.push('coupon.prefix may only contain up to 10 latin letters and digits');
+      }
+    }
+
+    if (!Array.isArray(policy.tiers)) {
+      errors.push('tiers must be an array');
+      return { isValid: false, errors, warnings };
+    }
+
+    const seenIds = new Set<string>();
+    policy.tiers.forEach((tier, index) => {
+      const label = tier?.id ? `Tier "${tier.id}"` : `Tier #${index + 1}`;
+      if (!tier?.id) {
+        errors.push(`${label}: missing id`);
+      } else if (seenIds.has(tier.id)) {
+        errors.push(`${label}: duplicate id`);
+      } else {
+        seenIds.add(tier.id);
+      }
+
+      checkDiscount(label, tier);
+
+      if (policy.tierBy === 'product') {
+        if (!Array.isArray(tier.products) || tier.products.filter(Boolean).length === 0) {
+          errors.push(`${label}: at least one product is required when tiering by product`);
+        }
+      } else {
+        if (tier.minTotal === undefined && tier.maxTotal === undefined) {
+          warnings.push(`${label}: no minTotal/maxTotal - matches every order`);
+        }
+        if (tier.minTotal !== undefined && tier.maxTotal !== undefined && tier.maxTotal <= tier.minTotal) {
+          errors.push(`${label}: maxTotal must be greater than minTotal`);
+        }
+      }
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
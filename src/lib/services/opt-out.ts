@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import { TenantService } from './tenant';
+import { ConfigService } from './config';
+import { PhoneProcessor } from './phone-processor';
+import { normalizeArabic, matchKeyword } from '../utils/arabic';
+import type { OptOutConfig } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export type OptOutSource = 'keyword' | 'manual' | 'import';
+
+export interface OptOutEntry {
+  phone: string;               // الرقم بعد التوحيد (201XXXXXXXXX)
+  optedOutAt: number;
+  source: OptOutSource;
+  keyword?: string;            // الكلمة التي أرسلها العميل
+  note?: string;
+}
+
+export interface OptOutImportResult {
+  added: number;
+  skipped: number;             // موجود مسبقاً
+  invalid: string[];
+}
+
+const FILE_NAME = 'opt-out.json';
+const REDIS_URL = process.env.REDIS_URL;
+const REDIS_HASH = 'opt-out';
+
+class FileStore {
+  private readonly filePath: string;
+
+  constructor(private readonly dir: string) {
+    this.filePath = path.join(dir, FILE_NAME);
+  }
+
+  load(): Record<string, OptOutEntry> {
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      if (fs.existsSync(this.filePath)) {
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (e) {
+      console.warn('OptOut: could not load file store, starting empty', e);
+    }
+    return {};
+  }
+
+  // Written straight away - losing an opt-out on restart means messaging someone who asked us to stop
+  save(data: Record<string, OptOutEntry>) {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn('OptOut: could not persist file store', e);
+    }
+  }
+}
+
+class RedisStore {
+  private client: any | null = null;
+  private connecting = false;
+
+  private async getClient() {
+    if (!REDIS_URL) return null;
+    if (this.client) return this.client;
+    if (this.connecting) return null;
+    try {
+      this.connecting = true;
+      const { createClient } = await import('redis');
+      const client = createClient({ url: REDIS_URL });
+      client.on('error', (err: any) => console.warn('OptOut Redis error', err));
+      await client.connect();
+      this.client = client;
+      return this.client;
+    } catch (e) {
+      console.warn('OptOut: Redis not available, using file fallback');
+      return null;
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  async loadAll(): Promise<Record<string, OptOutEntry> | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: Record<string, string> = await c.hGetAll(TenantService.redisKey(REDIS_HASH));
+    const result: Record<string, OptOutEntry> = {};
+    for (const [phone, value] of Object.entries(raw)) {
+      try {
+        result[phone] = JSON.parse(value);
+      } catch {
+        // Skip corrupted entries
+      }
+    }
+    return result;
+  }
+
+  async put(entry: OptOutEntry): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    await c.hSet(TenantService.redisKey(REDIS_HASH), entry.phone, JSON.stringify(entry));
+  }
+
+  async remove(phone: string): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    await c.hDel(TenantService.redisKey(REDIS_HASH), phone);
+  }
+}
+
+const fileStore = TenantService.scoped(tenantId => new FileStore(TenantService.getDataDir(tenantId)));
+const redisStore = new RedisStore();
+
+/**
+ * قائمة العملاء الذين طلبوا إيقاف الرسائل - تُفحص قبل أي إرسال
+ */
+export class OptOutService {
+  private static scope = TenantService.scoped(() => ({ entries: new Map<string, OptOutEntry>(), loaded: false }));
+
+  private static async ensureLoaded(): Promise<void> {
+    if (this.scope().loaded) return;
+    const fromFile = fileStore().load();
+    const fromRedis = await redisStore.loadAll().catch(() => null);
+    const source = fromRedis && Object.keys(fromRedis).length > 0 ? fromRedis : fromFile;
+    this.scope().entries = new Map(Object.entries(source));
+    this.scope().loaded = true;
+  }
+
+  /**
+   * توحيد الرقم بنفس طريقة أرقام الشيت حتى تتطابق 01XXXXXXXXX و +201XXXXXXXXX
+   */
+  static normalizePhone(phone: string): string {
+    return PhoneProcessor.formatToInternational(phone || '');
+  }
+
+  static async isOptedOut(phone: string): Promise<boolean> {
+    await this.ensureLoaded();
+    const normalized = this.normalizePhone(phone);
+    return !!normalized && this.scope().entries.has(normalized);
+  }
+
+  static async get(phone: string): Promise<OptOutEntry | null> {
+    await this.ensureLoaded();
+    return this.scope().entries.get(this.normalizePhone(phone)) || null;
+  }
+
+  static async list(): Promise<OptOutEntry[]> {
+    await this.ensureLoaded();
+    return Array.from(this.scope().entries.values()).sort((a, b) => b.optedOutAt - a.optedOutAt);
+  }
+
+  /**
+   * إضافة رقم للقائمة - تعيد null إذا كان الرقم غير صالح
+   */
+  static async add(phone: string, source: OptOutSource, details: { keyword?: string; note?: string; optedOutAt?: number } = {}): Promise<OptOutEntry | null> {
+    await this.ensureLoaded();
+    const normalized = this.normalizePhone(phone);
+    if (!normalized) return null;
+
+    const existing = this.scope().entries.get(normalized);
+    if (existing) return existing;
+
+    const entry: OptOutEntry = {
+      phone: normalized,
+      optedOutAt: details.optedOutAt ?? Date.now(),
+      source,
+      ...(details.keyword ? { keyword: details.keyword } : {}),
+      ...(details.note ? { note: details.note } : {})
+    };
+    this.scope().entries.set(normalized, entry);
+    // Best-effort write to both stores
+    await redisStore.put(entry).catch(() => void 0);
+    fileStore().save(Object.fromEntries(this.scope().entries));
+    console.log(`🚫 ${normalized} opted out (${source}${details.keyword ? `: "${details.keyword}"` : ''})`);
+    return entry;
+  }
+
+  static async remove(phone: string): Promise<boolean> {
+    await this.ensureLoaded();
+    const normalized = this.normalizePhone(phone);
+    if (!this.scope().entries.delete(normalized)) return false;
+    await redisStore.remove(normalized).catch(() => void 0);
+    fileStore().save(Object.fromEntries(this.scope().entries));
+    console.log(`✅ ${normalized} removed from opt-out list`);
+    return true;
+  }
+
+  /**
+   * رسالة واردة من عميل: تسجيل إلغاء الاشتراك إذا احتوت على كلمة إيقاف.
+   * تعيد رسالة التأكيد التي يجب إرسالها (أو null)
+   */
+  static async handleInboundMessage(phone: string, body: string): Promise<string | null> {
+    const config = await ConfigService.getOptOutConfig();
+    if (!config.enabled) return null;
+
+    const keyword = matchKeyword(body, config.keywords);
+    if (!keyword) return null;
+    if (await this.isOptedOut(phone)) return null;
+
+    const entry = await this.add(phone, 'keyword', { keyword });
+    return entry && config.confirmationMessage.trim() ? config.confirmationMessage : null;
+  }
+
+  /**
+   * استيراد أرقام من نص (سطر لكل رقم أو CSV بعمود الرقم أولاً)
+   */
+  static async import(text: string): Promise<OptOutImportResult> {
+    const result: OptOutImportResult = { added: 0, skipped: 0, invalid: [] };
+    const lines = (text || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+    for (const line of lines) {
+      const rawPhone = line.split(/[,;\t]/)[0].trim().replace(/^"|"$/g, '');
+      // CSV header row from export()
+      if (/^phone$/i.test(rawPhone)) continue;
+
+      const normalized = this.normalizePhone(rawPhone);
+      if (!normalized) {
+        result.invalid.push(rawPhone);
+      } else if (await this.isOptedOut(normalized)) {
+        result.skipped++;
+      } else {
+        await this.add(normalized, 'import');
+        result.added++;
+      }
+    }
+
+    return result;
+  }
+
+  static async export(): Promise<string> {
+    const entries = await this.list();
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const rows = entries.map(entry => [
+      entry.phone,
+      new Date(entry.optedOutAt).toISOString(),
+      entry.source,
+      escape(entry.keyword || ''),
+      escape(entry.note || '')
+    ].join(','));
+    return ['phone,optedOutAt,source,keyword,note', ...rows].join('\n');
+  }
+
+  static validate(config: OptOutConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['optOut must be an object'], warnings };
+    }
+    if (!Array.isArray(config.keywords)) {
+      errors.push('keywords must be an array');
+    } else if (config.keywords.filter(keyword => keyword && keyword.trim()).length === 0) {
+      warnings.push('No keywords - customers cannot opt out by message');
+    } else {
+      for (const keyword of config.keywords) {
+        if (normalizeArabic(keyword).length < 2) {
+          errors.push(`Keyword "${keyword}" is too short`);
+        }
+      }
+    }
+    if (typeof config.confirmationMessage !== 'string') {
+      errors.push('confirmationMessage must be a string');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
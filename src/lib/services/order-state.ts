@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { TenantService } from './tenant';
+import type { MessageType } from './duplicate-guard';
+
+// نسخة القالب التي استلمها الطلب (اختبار A/B) وأول تغير للحالة بعدها
+export interface ExperimentExposure {
+  variantId: string;
+  sentAt: number;
+  statusAtSend: string;
+  nextStatus?: string;
+  nextStatusAt?: number;
+}
+
+export interface OrderState {
+  orderId: string;
+  status: string;
+  firstSeenAt: number;
+  lastStatusChangeAt: number;
+  isFinal?: boolean;
+  sentMessages: Partial<Record<MessageType, number>>; // messageType -> sent timestamp
+  experiments?: Partial<Record<MessageType, ExperimentExposure>>;
+}
+
+export interface StatusUpdateResult {
+  state: OrderState;
+  previous: OrderState | null;
+  isNew: boolean;
+  statusChanged: boolean;
+}
+
+const FILE_NAME = 'order-state.json';
+const REDIS_URL = process.env.REDIS_URL;
+const REDIS_HASH = 'order:state';
+const PERSIST_DEBOUNCE_MS = 1000;
+
+class FileStore {
+  private persistTimer: NodeJS.Timeout | null = null;
+  private pending: Record<string, OrderState> | null = null;
+  private readonly filePath: string;
+
+  constructor(private readonly dir: string) {
+    this.filePath = path.join(dir, FILE_NAME);
+  }
+
+  load(): Record<string, OrderState> {
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      if (fs.existsSync(this.filePath)) {
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (e) {
+      console.warn('OrderState: could not load file store, starting empty', e);
+    }
+    return {};
+  }
+
+  // A sheet cycle touches many orders; coalesce writes into one file write
+  save(data: Record<string, OrderState>) {
+    this.pending = data;
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.pending) return;
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.pending, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn('OrderState: could not persist file store', e);
+    }
+    this.pending = null;
+  }
+}
+
+class RedisStore {
+  private client: any | null = null;
+  private connecting = false;
+
+  private async getClient() {
+    if (!REDIS_URL) return null;
+    if (this.client) return this.client;
+    if (this.connecting) return null;
+    try {
+      this.connecting = true;
+      const { createClient } = await import('redis');
+      const client = createClient({ url: REDIS_URL });
+      client.on('error', (err: any) => console.warn('OrderState Redis error', err));
+      await client.connect();
+      this.client = client;
+      return this.client;
+    } catch (e) {
+      console.warn('OrderState: Redis not available, using file fallback');
+      return null;
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  async loadAll(): Promise<Record<string, OrderState> | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: Record<string, string> = await c.hGetAll(TenantService.redisKey(REDIS_HASH));
+    const result: Record<string, OrderState> = {};
+    for (const [orderId, value] of Object.entries(raw)) {
+      try {
+        result[orderId] = JSON.parse(value);
+      } catch {
+        // Skip corrupted entries
+      }
+    }
+    return result;
+  }
+
+  async put(state: OrderState): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    await c.hSet(TenantService.redisKey(REDIS_HASH), state.orderId, JSON.stringify(state));
+  }
+}
+
+const fileStore = TenantService.scoped(tenantId => new FileStore(TenantService.getDataDir(tenantId)));
+const redisStore = new RedisStore();
+
+/**
+ * حالة الطلبات الدائمة - تبقى بعد إعادة التشغيل
+ * (الحالة الحالية، أول ظهور، آخر تغيير للحالة، الرسائل المرسلة)
+ */
+export class OrderStateService {
+  private static scope = TenantService.scoped(() => ({ states: new Map<string, OrderState>(), loaded: false }));
+
+  /**
+   * تحميل الحالة من Redis (إن وجد) أو من الملف
+   */
+  static async load(): Promise<number> {
+    const fromFile = fileStore().load();
+    const fromRedis = await redisStore.loadAll().catch(() => null);
+    const source = fromRedis && Object.keys(fromRedis).length > 0 ? fromRedis : fromFile;
+
+    this.scope().states = new Map(Object.entries(source));
+    this.scope().loaded = true;
+    console.log(`🗃️ Loaded persistent state for ${this.scope().states.size} orders${fromRedis ? ' (Redis)' : ''}`);
+    return this.scope().states.size;
+  }
+
+  private static async ensureLoaded(): Promise<void> {
+    if (!this.scope().loaded) await this.load();
+  }
+
+  private static async save(state: OrderState): Promise<void> {
+    this.scope().states.set(state.orderId, state);
+    // Best-effort write to both stores
+    await redisStore.put(state).catch(() => void 0);
+    fileStore().save(Object.fromEntries(this.scope().states));
+  }
+
+  static async get(orderId: string): Promise<OrderState | null> {
+    await this.ensureLoaded();
+    return this.scope().states.get(orderId) || null;
+  }
+
+  static async getAll(): Promise<OrderState[]> {
+    await this.ensureLoaded();
+    return Array.from(this.scope().states.values());
+  }
+
+  static size(): number {
+    return this.scope().states.size;
+  }
+
+  /**
+   * تسجيل الحالة الحالية للطلب كما ظهرت في الشيت
+   */
+  static async recordStatus(orderId: string, status: string): Promise<StatusUpdateResult> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    const normalized = (status || '').trim();
+    const existing = this.scope().states.get(orderId);
+
+    if (!existing) {
+      const state: OrderState = { orderId, status: normalized, firstSeenAt: now, lastStatusChangeAt: now, sentMessages: {} };
+      await this.save(state);
+      return { state, previous: null, isNew: true, statusChanged: false };
+    }
+
+    if (existing.status === normalized) {
+      return { state: existing, previous: existing, isNew: false, statusChanged: false };
+    }
+
+    const previous = { ...existing, sentMessages: { ...existing.sentMessages } };
+    const state: OrderState = {
+      ...existing,
+      status: normalized,
+      lastStatusChangeAt: now,
+      ...(existing.experiments ? { experiments: this.withNextStatus(existing.experiments, normalized, now) } : {})
+    };
+    await this.save(state);
+    return { state, previous, isNew: false, statusChanged: true };
+  }
+
+  /**
+   * نفس نتيجة recordStatus بدون حفظ أي تغيير (للمحاكاة)
+   */
+  static async previewStatus(orderId: string, status: string): Promise<StatusUpdateResult> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    const normalized = (status || '').trim();
+    const existing = this.scope().states.get(orderId);
+
+    if (!existing) {
+      return { state: { orderId, status: normalized, firstSeenAt: now, lastStatusChangeAt: now, sentMessages: {} }, previous: null, isNew: true, statusChanged: false };
+    }
+    if (existing.status === normalized) {
+      return { state: existing, previous: existing, isNew: false, statusChanged: false };
+    }
+    return { state: { ...existing, status: normalized, lastStatusChangeAt: now }, previous: existing, isNew: false, statusChanged: true };
+  }
+
+  // The first transition after each pending exposure is its experiment outcome
+  private static withNextStatus(
+    experiments: NonNullable<OrderState['experiments']>,
+    status: string,
+    at: number
+  ): NonNullable<OrderState['experiments']> {
+    const updated: NonNullable<OrderState['experiments']> = {};
+    for (const [messageType, exposure] of Object.entries(experiments)) {
+      updated[messageType as MessageType] = exposure && !exposure.nextStatus
+        ? { ...exposure, nextStatus: status, nextStatusAt: at }
+        : exposure;
+    }
+    return updated;
+  }
+
+  static async markMessageSent(orderId: string, messageType: MessageType, variantId?: string): Promise<void> {
+    await this.ensureLoaded();
+    const existing = this.scope().states.get(orderId);
+    if (!existing) return;
+
+    const now = Date.now();
+    const experiments = variantId
+      ? { ...existing.experiments, [messageType]: { variantId, sentAt: now, statusAtSend: existing.status } }
+      : existing.experiments;
+    await this.save({
+      ...existing,
+      sentMessages: { ...existing.sentMessages, [messageType]: now },
+      ...(experiments ? { experiments } : {})
+    });
+  }
+
+  static async setFinal(orderId: string, isFinal: boolean): Promise<void> {
+    await this.ensureLoaded();
+    const existing = this.scope().states.get(orderId);
+    if (!existing || !!existing.isFinal === isFinal) return;
+    await this.save({ ...existing, isFinal });
+  }
+
+  /**
+   * كتابة أي تغييرات معلقة على القرص فوراً (عند الإيقاف)
+   */
+  static flush(): void {
+    fileStore().flush();
+  }
+
+  static getStats(): { totalOrders: number; finalOrders: number; ordersWithMessages: number } {
+    const states = Array.from(this.scope().states.values());
+    return {
+      totalOrders: states.length,
+      finalOrders: states.filter(s => s.isFinal).length,
+      ordersWithMessages: states.filter(s => Object.keys(s.sentMessages || {}).length > 0).length
+    };
+  }
+}
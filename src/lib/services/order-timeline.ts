@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { TenantService } from './tenant';
+
+export type TimelineEventType =
+  | 'first_seen'
+  | 'status_changed'
+  | 'phone_sanitized'
+  | 'whatsapp_validated'
+  | 'job_enqueued'
+  | 'job_deferred'
+  | 'message_sent'
+  | 'message_failed'
+  | 'reminder_scheduled'
+  | 'reminder_cancelled'
+  | 'coupon_issued'
+  | 'coupon_redeemed'
+  | 'duplicate_detected'
+  | 'opted_out'
+  | 'reply_received'
+  | 'reply_action'
+  | 'flow_started'
+  | 'flow_answer'
+  | 'flow_ended';
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  timestamp: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+const FILE_NAME = 'order-timeline.json';
+const REDIS_URL = process.env.REDIS_URL;
+const MAX_EVENTS_PER_ORDER = 200;
+const PERSIST_DEBOUNCE_MS = 1000;
+
+class FileStore {
+  private data: Record<string, TimelineEvent[]> = {};
+  private initialized = false;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private readonly filePath: string;
+
+  constructor(private readonly dir: string) {
+    this.filePath = path.join(dir, FILE_NAME);
+  }
+
+  private ensureLoaded() {
+    if (this.initialized) return;
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      if (fs.existsSync(this.filePath)) {
+        this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (e) {
+      console.warn('OrderTimeline: could not load file store, starting empty', e);
+      this.data = {};
+    }
+    this.initialized = true;
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.initialized) return;
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn('OrderTimeline: could not persist file store', e);
+    }
+  }
+
+  get(orderId: string): TimelineEvent[] {
+    this.ensureLoaded();
+    return this.data[orderId] || [];
+  }
+
+  append(orderId: string, event: TimelineEvent) {
+    this.ensureLoaded();
+    const events = this.data[orderId] || [];
+    events.push(event);
+    this.data[orderId] = events.slice(-MAX_EVENTS_PER_ORDER);
+    this.schedulePersist();
+  }
+}
+
+class RedisStore {
+  private client: any | null = null;
+  private connecting = false;
+
+  private async getClient() {
+    if (!REDIS_URL) return null;
+    if (this.client) return this.client;
+    if (this.connecting) return null;
+    try {
+      this.connecting = true;
+      const { createClient } = await import('redis');
+      const client = createClient({ url: REDIS_URL });
+      client.on('error', (err: any) => console.warn('OrderTimeline Redis error', err));
+      await client.connect();
+      this.client = client;
+      return this.client;
+    } catch (e) {
+      console.warn('OrderTimeline: Redis not available, using file fallback');
+      return null;
+    } finally {
+      this.connecting = false;
+    }
+  }
+
+  async get(orderId: string): Promise<TimelineEvent[] | null> {
+    const c = await this.getClient();
+    if (!c) return null;
+    const raw: string[] = await c.lRange(TenantService.redisKey(`order:timeline:${orderId}`), 0, -1);
+    return raw.map(item => JSON.parse(item));
+  }
+
+  async append(orderId: string, event: TimelineEvent): Promise<void> {
+    const c = await this.getClient();
+    if (!c) return;
+    const key = TenantService.redisKey(`order:timeline:${orderId}`);
+    await c.multi().rPush(key, JSON.stringify(event)).lTrim(key, -MAX_EVENTS_PER_ORDER, -1).exec();
+  }
+}
+
+const fileStore = TenantService.scoped(tenantId => new FileStore(TenantService.getDataDir(tenantId)));
+const redisStore = new RedisStore();
+
+/**
+ * سجل أحداث كل طلب (أول ظهور، تغير الحالة، التحقق من الرقم، الإرسال...)
+ */
+export class OrderTimelineService {
+  /**
+   * تسجيل حدث للطلب. مع dedupe يتم تجاهل الحدث إذا كان مطابقاً لآخر حدث من نفس النوع
+   * (مفيد للفحوصات التي تتكرر كل دورة مثل التحقق من الرقم)
+   */
+  static async record(
+    orderId: string | undefined,
+    type: TimelineEventType,
+    message: string,
+    details?: Record<string, unknown>,
+    options: { dedupe?: boolean } = {}
+  ): Promise<void> {
+    if (!orderId) return;
+
+    try {
+      if (options.dedupe) {
+        const last = [...fileStore().get(orderId)].reverse().find(event => event.type === type);
+        if (last && last.message === message && JSON.stringify(last.details || {}) === JSON.stringify(details || {})) {
+          return;
+        }
+      }
+
+      const event: TimelineEvent = { type, timestamp: Date.now(), message, ...(details ? { details } : {}) };
+      // Best-effort write to both stores
+      await redisStore.append(orderId, event).catch(() => void 0);
+      fileStore().append(orderId, event);
+    } catch (error) {
+      // The timeline must never break message processing
+      console.warn(`OrderTimeline: could not record ${type} for ${orderId}`, error);
+    }
+  }
+
+  static async getTimeline(orderId: string): Promise<TimelineEvent[]> {
+    const fromRedis = await redisStore.get(orderId).catch(() => null);
+    const events = fromRedis && fromRedis.length > 0 ? fromRedis : fileStore().get(orderId);
+    return [...events].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  static flush(): void {
+    fileStore().flush();
+  }
+}
@@ -1,17 +1,42 @@
+import fs from 'fs';
+import path from 'path';
 import { Queue, Worker, Job } from 'bullmq';
 import { WhatsAppService } from './whatsapp';
 import { GoogleSheetsService } from './google-sheets';
 import { NetworkResilienceService } from './network-resilience';
 import { ConfigService } from './config';
-import type { SheetRow } from '../types/config';
-import { DuplicateGuardService } from './duplicate-guard';
+import type { SheetRow, MessageChannel, RuleMessageType } from '../types/config';
+import { DuplicateGuardService, type MessageType } from './duplicate-guard';
+import { OrderStateService } from './order-state';
+import { OrderTimelineService } from './order-timeline';
+import { normalizeArabic } from '../utils/arabic';
+import { SendWindowService } from './send-window';
+import { StatusRulesService } from './status-rules';
+import { OfferService } from './offer';
+import { CouponService } from './coupons';
+import { TemplateExperimentService } from './template-experiments';
+import { OptOutService } from './opt-out';
+import { FollowUpService } from './follow-up';
+import { MessageTracker } from './message-tracker';
+import { SendGovernorService } from './send-governor';
+import { SenderPoolService } from './sender-pool';
+import { TenantService, DEFAULT_TENANT_ID } from './tenant';
+import { SmsService } from './sms';
+import { MediaService, type MessageAttachment } from './media';
+import type { OutboundMedia } from './transport';
 
 export interface MessageJob {
   phoneNumber: string;
   message: string;
   orderId: string;
   rowIndex: number;
-  messageType: 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder';
+  messageType: MessageType;
+  variantId?: string;          // نسخة القالب عند وجود اختبار A/B
+  groupOrderIds?: string[];    // طلبات أخرى لنفس العميل تغطيها هذه الرسالة
+  tenantId?: string;           // المتجر صاحب الطلب (فارغ في المهام القديمة = المتجر الرئيسي)
+  channel?: MessageChannel;    // فارغ = واتساب
+  media?: MessageAttachment;   // صورة أو ملف يخرج مع الرسالة
+  throttled?: boolean;         // أُجلت من قبل بسبب حدود الإرسال (يُسجل التأجيل مرة واحدة)
 }
 
 export interface ReminderJob {
@@ -20,34 +45,124 @@ export interface ReminderJob {
   phoneNumber: string;
   customerName: string;
   orderStatus: string;
+  tenantId?: string;
+  channel?: MessageChannel;
 }
 
+export interface FollowUpJob {
+  orderId: string;
+  rowIndex: number;
+  phoneNumber: string;
+  customerName: string;
+  sequenceId: string;
+  stepId: string;
+  entryStatuses: string[];   // الخطوة تُلغى إذا خرجت الحالة من هذه القائمة
+  message: string;           // الرسالة بعد استبدال المتغيرات وقت الجدولة
+  tenantId?: string;
+  channel?: MessageChannel;
+}
+
+export interface PendingJobInfo {
+  queue: 'message' | 'reminder' | 'rejectedOffer' | 'followUp';
+  orderId: string;
+  dueAt: number;
+  messageType?: string;
+  sequenceId?: string;
+  stepId?: string;
+}
+
+const LOCAL_QUEUE_PERSIST_DEBOUNCE_MS = 1000;
+// A follow-up step this close to its planned gap after the previous step is sent as is
+const FOLLOW_UP_GAP_TOLERANCE_MS = 15 * 60 * 1000;
+
 // Local queue implementation for development/fallback
+// Items are kept in a file so delayed reminders and follow-up steps survive a restart
 class LocalQueue<T> {
-  private items: Array<T & { delay?: number }> = [];
-  private isProcessing = false;
+  private items: Array<T & { dueAt: number }> = [];
+  private persistTimer: NodeJS.Timeout | null = null;
+  private readonly dir: string;
+  private readonly filePath: string;
+
+  // Jobs carry their own tenantId, so one file per queue serves every store
+  constructor(name: string) {
+    this.dir = TenantService.getDataDir(DEFAULT_TENANT_ID);
+    this.filePath = path.join(this.dir, `queue-${name}.json`);
+    this.items = this.load();
+  }
+
+  private load(): Array<T & { dueAt: number }> {
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      if (fs.existsSync(this.filePath)) {
+        const items = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        return Array.isArray(items) ? items : [];
+      }
+    } catch (e) {
+      console.warn('LocalQueue: could not load file store, starting empty', e);
+    }
+    return [];
+  }
+
+  // Coalesce the writes of a whole cycle into one file write
+  private save() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => this.flush(), LOCAL_QUEUE_PERSIST_DEBOUNCE_MS);
+    this.persistTimer.unref?.();
+  }
+
+  private flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.items, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn('LocalQueue: could not persist file store', e);
+    }
+  }
 
   async add(data: T, options?: { delay?: number }): Promise<void> {
-    this.items.push({ ...data, delay: options?.delay || 0 });
+    this.items.push({ ...data, dueAt: Date.now() + (options?.delay || 0) });
+    this.save();
   }
 
+  // Pending items stay on disk for the next start
   async close(): Promise<void> {
+    this.flush();
     this.items = [];
-    this.isProcessing = false;
   }
 
   size(): number {
     return this.items.length;
   }
 
+  countWhere(predicate: (item: T) => boolean): number {
+    return this.items.filter(predicate).length;
+  }
+
   // Add method to get items for external processing
-  get currentItems(): Array<T & { delay?: number }> {
+  get currentItems(): Array<T & { dueAt: number }> {
     return [...this.items];
   }
 
-  // Clear processed items
-  clearItems(): void {
-    this.items = [];
+  // Remove and return the items whose delay has elapsed
+  takeDue(now = Date.now()): T[] {
+    const due = this.items.filter(item => item.dueAt <= now);
+    if (due.length === 0) return due;
+    this.items = this.items.filter(item => item.dueAt > now);
+    this.save();
+    return due;
+  }
+
+  // Remove matching items, returns how many were removed
+  removeWhere(predicate: (item: T) => boolean): number {
+    const before = this.items.length;
+    this.items = this.items.filter(item => !predicate(item));
+    if (this.items.length !== before) this.save();
+    return before - this.items.length;
   }
 }
 
@@ -65,10 +180,13 @@ export class QueueService {
   private static messageQueue: Queue<MessageJob> | LocalQueue<MessageJob>;
   private static reminderQueue: Queue<ReminderJob> | LocalQueue<ReminderJob>;
   private static rejectedOfferQueue: Queue<ReminderJob> | LocalQueue<ReminderJob>;
+  private static followUpQueue: Queue<FollowUpJob> | LocalQueue<FollowUpJob>;
   private static messageWorker: Worker<MessageJob> | null;
   private static reminderWorker: Worker<ReminderJob> | null;
   private static rejectedOfferWorker: Worker<ReminderJob> | null;
+  private static followUpWorker: Worker<FollowUpJob> | null;
   private static localProcessingInterval: NodeJS.Timeout | null = null;
+  private static isProcessingLocal = false;
 
   private static async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
@@ -78,9 +196,10 @@ export class QueueService {
         console.warn('⚠️ Queue initialization failed, forcing local fallback:', e);
         // Force local fallback
         this.useRedis = false;
-        this.messageQueue = new LocalQueue<MessageJob>();
-        this.reminderQueue = new LocalQueue<ReminderJob>();
-        this.rejectedOfferQueue = new LocalQueue<ReminderJob>();
+        this.messageQueue = new LocalQueue<MessageJob>('message');
+        this.reminderQueue = new LocalQueue<ReminderJob>('reminder');
+        this.rejectedOfferQueue = new LocalQueue<ReminderJob>('rejected-offer');
+        this.followUpQueue = new LocalQueue<FollowUpJob>('follow-up');
         this.startLocalProcessing();
         this.isInitialized = true;
       }
@@ -88,6 +207,8 @@ export class QueueService {
   }
 
   static async initialize() {
+    // Every store's engine calls this on start - the queues and their restored items are shared
+    if (this.isInitialized) return;
     try {
       if (process.env.REDIS_URL) {
         try {
@@ -133,9 +254,21 @@ export class QueueService {
             },
           });
 
+          this.followUpQueue = new Queue<FollowUpJob>('follow-up-queue', {
+            connection: {
+              host: new URL(process.env.REDIS_URL).hostname,
+              port: parseInt(new URL(process.env.REDIS_URL).port || '6379'),
+              password: new URL(process.env.REDIS_URL).password || undefined,
+            },
+            defaultJobOptions: {
+              removeOnComplete: 100,
+              removeOnFail: 50,
+            },
+          });
+
           // Initialize workers
           this.messageWorker = new Worker<MessageJob>('message-queue', async (job) => {
-            await this.processMessageJob(job);
+            await TenantService.run(this.jobTenant(job.data), () => this.processMessageJob(job));
           }, {
             connection: {
               host: new URL(process.env.REDIS_URL).hostname,
@@ -146,7 +279,7 @@ export class QueueService {
           });
 
           this.reminderWorker = new Worker<ReminderJob>('reminder-queue', async (job) => {
-            await this.processReminderJob(job);
+            await TenantService.run(this.jobTenant(job.data), () => this.processReminderJob(job));
           }, {
             connection: {
               host: new URL(process.env.REDIS_URL).hostname,
@@ -157,7 +290,18 @@ export class QueueService {
           });
 
           this.rejectedOfferWorker = new Worker<ReminderJob>('rejected-offer-queue', async (job) => {
-            await this.processRejectedOfferJob(job);
+            await TenantService.run(this.jobTenant(job.data), () => this.processRejectedOfferJob(job));
+          }, {
+            connection: {
+              host: new URL(process.env.REDIS_URL).hostname,
+              port: parseInt(new URL(process.env.REDIS_URL).port || '6379'),
+              password: new URL(process.env.REDIS_URL).password || undefined,
+            },
+            concurrency: 1,
+          });
+
+          this.followUpWorker = new Worker<FollowUpJob>('follow-up-queue', async (job) => {
+            await TenantService.run(this.jobTenant(job.data), () => this.processFollowUpJob(job));
           }, {
             connection: {
               host: new URL(process.env.REDIS_URL).hostname,
@@ -170,6 +314,7 @@ export class QueueService {
           // Set up error handlers
           this.setupErrorHandlers();
 
+          this.useRedis = true;
           console.log('Redis queue service initialized successfully');
         } catch (redisError) {
           console.warn('⚠️ Redis unavailable, switching to local fallback:', redisError);
@@ -179,12 +324,14 @@ export class QueueService {
 
       if (!this.useRedis) {
         // Local fallback queues
-        this.messageQueue = new LocalQueue<MessageJob>();
-        this.reminderQueue = new LocalQueue<ReminderJob>();
-        this.rejectedOfferQueue = new LocalQueue<ReminderJob>();
+        this.messageQueue = new LocalQueue<MessageJob>('message');
+        this.reminderQueue = new LocalQueue<ReminderJob>('reminder');
+        this.rejectedOfferQueue = new LocalQueue<ReminderJob>('rejected-offer');
+        this.followUpQueue = new LocalQueue<FollowUpJob>('follow-up');
         this.messageWorker = null;
         this.reminderWorker = null;
         this.rejectedOfferWorker = null;
+        this.followUpWorker = null;
         this.startLocalProcessing();
       }
 
@@ -197,83 +344,72 @@ export class QueueService {
   }
 
   private static startLocalProcessing() {
-    // Process local queue every 5 seconds
+    // Process due local jobs every 5 seconds; delayed jobs stay queued until their time comes
     this.localProcessingInterval = setInterval(async () => {
+      if (this.isProcessingLocal) return;
+      this.isProcessingLocal = true;
       try {
         // Process message queue
-        const messageJobs = (this.messageQueue as LocalQueue<MessageJob>).currentItems;
+        const messageJobs = (this.messageQueue as LocalQueue<MessageJob>).takeDue();
         if (messageJobs.length > 0) {
           console.log(`📱 Processing ${messageJobs.length} local message jobs...`);
           for (const job of messageJobs) {
             try {
-              // Apply delay if specified
-              if (job.delay && job.delay > 0) {
-                await new Promise(resolve => setTimeout(resolve, job.delay));
-              }
-              
+              // Gaps between consecutive sends come from SendGovernorService
               // Create proper job structure
-              const jobData = { data: job as MessageJob };
-              await this.processMessageJob(jobData as Job<MessageJob>);
+              const jobData = { data: job };
+              await TenantService.run(this.jobTenant(job), () => this.processMessageJob(jobData as Job<MessageJob>));
             } catch (error) {
               console.error('Error processing local message job:', error);
             }
           }
-          // Clear processed items
-          (this.messageQueue as LocalQueue<MessageJob>).clearItems();
         }
 
         // Process reminder queue
-        const reminderJobs = (this.reminderQueue as LocalQueue<ReminderJob>).currentItems;
+        const reminderJobs = (this.reminderQueue as LocalQueue<ReminderJob>).takeDue();
         if (reminderJobs.length > 0) {
           console.log(`⏰ Processing ${reminderJobs.length} local reminder jobs...`);
           for (const job of reminderJobs) {
             try {
-              // Apply delay if specified
-              if (job.delay && job.delay > 0) {
-                await new Promise(resolve => setTimeout(resolve, job.delay));
-              }
-              
-              // Create proper job structure
-              const jobData = { data: job as ReminderJob };
-              await this.processReminderJob(jobData as Job<ReminderJob>);
+              const jobData = { data: job };
+              await TenantService.run(this.jobTenant(job), () => this.processReminderJob(jobData as Job<ReminderJob>));
             } catch (error) {
               console.error('Error processing local reminder job:', error);
             }
           }
-          // Clear processed items
-          (this.reminderQueue as LocalQueue<ReminderJob>).clearItems();
         }
 
         // Process rejected offer queue
-        const rejectedJobs = (this.rejectedOfferQueue as LocalQueue<ReminderJob>).currentItems;
+        const rejectedJobs = (this.rejectedOfferQueue as LocalQueue<ReminderJob>).takeDue();
         if (rejectedJobs.length > 0) {
           console.log(`❌ Processing ${rejectedJobs.length} local rejected offer jobs...`);
           for (const job of rejectedJobs) {
             try {
-              // Apply delay if specified
-              if (job.delay && job.delay > 0) {
-                await new Promise(resolve => setTimeout(resolve, job.delay));
-              }
-              
-              // Create proper job structure with proper ReminderJob interface
-              const reminderJobData: ReminderJob = {
-                orderId: job.orderId,
-                rowIndex: job.rowIndex,
-                phoneNumber: job.phoneNumber,
-                customerName: job.customerName,
-                orderStatus: 'رفض الاستلام' // Default status for rejected offers
-              };
-              const jobData = { data: reminderJobData };
-              await this.processRejectedOfferJob(jobData as Job<ReminderJob>);
+              const jobData = { data: job };
+              await TenantService.run(this.jobTenant(job), () => this.processRejectedOfferJob(jobData as Job<ReminderJob>));
             } catch (error) {
               console.error('Error processing local rejected offer job:', error);
             }
           }
-          // Clear processed items
-          (this.rejectedOfferQueue as LocalQueue<ReminderJob>).clearItems();
+        }
+
+        // Process follow-up sequence steps
+        const followUpJobs = (this.followUpQueue as LocalQueue<FollowUpJob>).takeDue();
+        if (followUpJobs.length > 0) {
+          console.log(`🔁 Processing ${followUpJobs.length} local follow-up jobs...`);
+          for (const job of followUpJobs) {
+            try {
+              const jobData = { data: job };
+              await TenantService.run(this.jobTenant(job), () => this.processFollowUpJob(jobData as Job<FollowUpJob>));
+            } catch (error) {
+              console.error('Error processing local follow-up job:', error);
+            }
+          }
         }
       } catch (error) {
         console.error('Error in local queue processing:', error);
+      } finally {
+        this.isProcessingLocal = false;
       }
     }, 5000);
   }
@@ -290,25 +426,72 @@ export class QueueService {
     this.rejectedOfferWorker?.on('failed', (job, err) => {
       console.error(`Rejected offer job ${job?.id} failed:`, err);
     });
+
+    this.followUpWorker?.on('failed', (job, err) => {
+      console.error(`Follow-up job ${job?.id} failed:`, err);
+    });
+  }
+
+  // The queues are shared by all stores - jobs carry their store and are processed inside it
+  private static jobTenant(data: { tenantId?: string }): string {
+    return data?.tenantId || DEFAULT_TENANT_ID;
+  }
+
+  private static isCurrentTenant(data: { tenantId?: string }): boolean {
+    return this.jobTenant(data) === TenantService.currentId();
   }
 
-  // Add immediate message to queue
-  static async addMessageJob(jobData: MessageJob): Promise<void> {
+  // Add message to queue (immediate unless delayHours is given). requeue = a job put back while sending, already in the timeline
+  static async addMessageJob(jobData: MessageJob, delayHours?: number, requeue = false): Promise<void> {
     await this.ensureInitialized();
-    if (this.useRedis) {
-      await (this.messageQueue as Queue<MessageJob>).add('send-message', jobData, {
-        delay: Math.random() * 2000 + 1000,
+    jobData = { ...jobData, tenantId: TenantService.currentId() };
+    let delay = delayHours ? delayHours * 60 * 60 * 1000 : Math.random() * 2000 + 1000;
+
+    // Messages that would go out during quiet hours wait for the next send window
+    const deferredUntil = await this.getSendWindowDeferral(Date.now() + delay);
+    if (deferredUntil) {
+      delay = deferredUntil.getTime() - Date.now();
+      console.log(`🌙 Outside send window - deferring ${jobData.messageType} for order ${jobData.orderId} until ${deferredUntil.toISOString()}`);
+      await OrderTimelineService.record(jobData.orderId, 'job_deferred', `تم تأجيل رسالة ${jobData.messageType} لخارج ساعات الهدوء`, {
+        messageType: jobData.messageType,
+        until: deferredUntil.toISOString()
       });
+    }
+
+    if (this.useRedis) {
+      await (this.messageQueue as Queue<MessageJob>).add('send-message', jobData, { delay });
     } else {
-      await (this.messageQueue as LocalQueue<MessageJob>).add(jobData, {
-        delay: Math.random() * 2000 + 1000,
+      await (this.messageQueue as LocalQueue<MessageJob>).add(jobData, { delay });
+    }
+    if (!requeue) {
+      await OrderTimelineService.record(jobData.orderId, 'job_enqueued', `تمت إضافة رسالة ${jobData.messageType} للطابور`, {
+        messageType: jobData.messageType,
+        ...(delayHours ? { delayHours } : {})
       });
     }
   }
 
+  // Next send-window opening (with jitter so deferred messages don't all fire at once), or null if sending is allowed at dueAt
+  private static async getSendWindowDeferral(dueAt: number): Promise<Date | null> {
+    try {
+      const config = await SendWindowService.getConfig();
+      const opening = SendWindowService.getNextOpening(config, new Date(dueAt));
+      if (!opening) {
+        if (config.enabled) console.warn('⚠️ No send window in the next two weeks - sending without restriction');
+        return null;
+      }
+      if (opening.getTime() <= dueAt) return null;
+      return new Date(opening.getTime() + Math.random() * 10 * 60 * 1000);
+    } catch (error) {
+      console.warn('⚠️ Could not evaluate send windows, sending without restriction:', error);
+      return null;
+    }
+  }
+
   // Add delayed reminder job
   static async addReminderJob(jobData: ReminderJob, delayHours: number): Promise<void> {
     await this.ensureInitialized();
+    jobData = { ...jobData, tenantId: TenantService.currentId() };
     if (this.useRedis) {
       await (this.reminderQueue as Queue<ReminderJob>).add('send-reminder', jobData, {
         delay: delayHours * 60 * 60 * 1000,
@@ -318,11 +501,16 @@ export class QueueService {
         delay: delayHours * 60 * 60 * 1000,
       });
     }
+    await OrderTimelineService.record(jobData.orderId, 'reminder_scheduled', `تمت جدولة تذكير بعد ${delayHours} ساعة`, {
+      messageType: 'reminder',
+      delayHours
+    });
   }
 
   // Add delayed rejected offer job
   static async addRejectedOfferJob(jobData: ReminderJob, delayHours: number): Promise<void> {
     await this.ensureInitialized();
+    jobData = { ...jobData, tenantId: TenantService.currentId() };
     if (this.useRedis) {
       await (this.rejectedOfferQueue as Queue<ReminderJob>).add('send-rejected-offer', jobData, {
         delay: delayHours * 60 * 60 * 1000,
@@ -332,21 +520,276 @@ export class QueueService {
         delay: delayHours * 60 * 60 * 1000,
       });
     }
+    await OrderTimelineService.record(jobData.orderId, 'reminder_scheduled', `تمت جدولة العرض الخاص بعد ${delayHours} ساعة`, {
+      messageType: 'rejectedOffer',
+      delayHours
+    });
+  }
+
+  // Add a delayed follow-up sequence step
+  static async addFollowUpJob(jobData: FollowUpJob, delayHours: number): Promise<void> {
+    await this.ensureInitialized();
+    jobData = { ...jobData, tenantId: TenantService.currentId() };
+    const delay = delayHours * 60 * 60 * 1000;
+    if (this.useRedis) {
+      await (this.followUpQueue as Queue<FollowUpJob>).add('send-follow-up', jobData, { delay });
+    } else {
+      await (this.followUpQueue as LocalQueue<FollowUpJob>).add(jobData, { delay });
+    }
+    await OrderTimelineService.record(jobData.orderId, 'reminder_scheduled', `تمت جدولة خطوة المتابعة "${jobData.stepId}" بعد ${delayHours} ساعة`, {
+      sequenceId: jobData.sequenceId,
+      stepId: jobData.stepId,
+      delayHours
+    });
+  }
+
+  // Cancel all pending (waiting/delayed) jobs for an order
+  static async cancelPendingJobs(orderId: string): Promise<number> {
+    await this.ensureInitialized();
+    let cancelled = 0;
+
+    if (this.useRedis) {
+      const queues = [this.messageQueue, this.reminderQueue, this.rejectedOfferQueue, this.followUpQueue] as Queue<MessageJob | ReminderJob | FollowUpJob>[];
+      for (const queue of queues) {
+        const jobs = await queue.getJobs(['waiting', 'delayed']);
+        for (const job of jobs) {
+          if (job?.data?.orderId === orderId && this.isCurrentTenant(job.data)) {
+            await job.remove();
+            cancelled++;
+          }
+        }
+      }
+    } else {
+      const matches = (job: { orderId: string; tenantId?: string }) => job.orderId === orderId && this.isCurrentTenant(job);
+      cancelled += (this.messageQueue as LocalQueue<MessageJob>).removeWhere(matches);
+      cancelled += (this.reminderQueue as LocalQueue<ReminderJob>).removeWhere(matches);
+      cancelled += (this.rejectedOfferQueue as LocalQueue<ReminderJob>).removeWhere(matches);
+      cancelled += (this.followUpQueue as LocalQueue<FollowUpJob>).removeWhere(matches);
+    }
+
+    if (cancelled > 0) {
+      console.log(`🗑️ Cancelled ${cancelled} pending jobs for order ${orderId}`);
+      await OrderTimelineService.record(orderId, 'reminder_cancelled', `تم إلغاء ${cancelled} رسالة مجدولة`, { count: cancelled });
+    }
+    return cancelled;
+  }
+
+  // Cancel pending follow-up steps whose sequence entry status no longer matches
+  static async cancelFollowUpJobs(orderId: string, shouldCancel: (job: FollowUpJob) => boolean = () => true): Promise<number> {
+    await this.ensureInitialized();
+    let cancelled = 0;
+
+    if (this.useRedis) {
+      const jobs = await (this.followUpQueue as Queue<FollowUpJob>).getJobs(['waiting', 'delayed']);
+      for (const job of jobs) {
+        if (job?.data?.orderId === orderId && this.isCurrentTenant(job.data) && shouldCancel(job.data)) {
+          await job.remove();
+          cancelled++;
+        }
+      }
+    } else {
+      cancelled = (this.followUpQueue as LocalQueue<FollowUpJob>).removeWhere(job => job.orderId === orderId && this.isCurrentTenant(job) && shouldCancel(job));
+    }
+
+    if (cancelled > 0) {
+      console.log(`🗑️ Cancelled ${cancelled} follow-up steps for order ${orderId}`);
+      await OrderTimelineService.record(orderId, 'reminder_cancelled', `تم إلغاء ${cancelled} خطوة متابعة بعد تغير الحالة`, { count: cancelled });
+    }
+    return cancelled;
+  }
+
+  // List pending (waiting/delayed) jobs for an order, soonest first
+  static async getPendingJobs(orderId: string): Promise<PendingJobInfo[]> {
+    await this.ensureInitialized();
+    const pending: PendingJobInfo[] = [];
+    const queues: Array<[PendingJobInfo['queue'], Queue<any> | LocalQueue<any>]> = [
+      ['message', this.messageQueue],
+      ['reminder', this.reminderQueue],
+      ['rejectedOffer', this.rejectedOfferQueue],
+      ['followUp', this.followUpQueue]
+    ];
+
+    for (const [name, queue] of queues) {
+      if (this.useRedis) {
+        const jobs = await (queue as Queue<any>).getJobs(['waiting', 'delayed']);
+        for (const job of jobs) {
+          if (job?.data?.orderId !== orderId || !this.isCurrentTenant(job.data)) continue;
+          pending.push({
+            queue: name,
+            orderId,
+            dueAt: job.timestamp + (job.opts?.delay || 0),
+            messageType: job.data.messageType,
+            sequenceId: job.data.sequenceId,
+            stepId: job.data.stepId
+          });
+        }
+      } else {
+        for (const item of (queue as LocalQueue<any>).currentItems) {
+          if (item.orderId !== orderId || !this.isCurrentTenant(item)) continue;
+          pending.push({
+            queue: name,
+            orderId,
+            dueAt: item.dueAt,
+            messageType: item.messageType,
+            sequenceId: item.sequenceId,
+            stepId: item.stepId
+          });
+        }
+      }
+    }
+
+    return pending.sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  // Orders already covered by a queued message of this type (the job's own order and the orders merged into it), mapped to the job's order
+  static async getQueuedMessageOrders(messageType: MessageType): Promise<Map<string, string>> {
+    await this.ensureInitialized();
+    const jobs = this.useRedis
+      ? (await (this.messageQueue as Queue<MessageJob>).getJobs(['waiting', 'delayed', 'active'])).map(job => job?.data)
+      : (this.messageQueue as LocalQueue<MessageJob>).currentItems;
+
+    const covered = new Map<string, string>();
+    for (const data of jobs) {
+      if (!data || data.messageType !== messageType || !this.isCurrentTenant(data)) continue;
+      covered.set(data.orderId, data.orderId);
+      for (const groupOrderId of data.groupOrderIds || []) covered.set(groupOrderId, data.orderId);
+    }
+    return covered;
   }
 
   // Process message job
   static async processMessageJob(job: Job<MessageJob>): Promise<void> {
-    const { phoneNumber, message, orderId, rowIndex, messageType } = job.data;
+    const { phoneNumber, message, orderId, rowIndex, messageType, variantId, groupOrderIds, channel = 'whatsapp', media } = job.data;
+    let attempted = false;
     
     try {
-      console.log(`📱 Processing message job for order ${orderId} with network resilience...`);
-      
-      // Use NetworkResilienceService for resilient WhatsApp message sending
-      const success = await NetworkResilienceService.sendWhatsAppMessageResilient(phoneNumber, message);
+      // The window may have closed while the job was waiting - put it back until the next opening
+      if (await this.getSendWindowDeferral(Date.now())) {
+        await this.addMessageJob(job.data, undefined, true);
+        return;
+      }
+
+      // Checked at send time so an opt-out stops jobs that were queued before it arrived
+      if (await OptOutService.isOptedOut(phoneNumber)) {
+        console.log(`🚫 ${phoneNumber} opted out - dropping ${messageType} for ${orderId}`);
+        await OrderTimelineService.record(orderId, 'opted_out', `لم تُرسل رسالة ${messageType} لأن العميل طلب إيقاف الرسائل`, { messageType, phoneNumber });
+        return;
+      }
+
+      // The same message may have been queued twice (e.g. by a backfill) before either copy went out
+      if (!(await DuplicateGuardService.shouldSend(orderId, messageType, phoneNumber, ''))) {
+        console.log(`🚫 Duplicate prevented at send time: ${messageType} for ${orderId}`);
+        return;
+      }
+
+      let senderId: string | undefined;
+      let messageId: string | null;
+      if (channel === 'sms') {
+        // SMS goes through the gateway - WhatsApp rate caps and sender numbers don't apply
+        console.log(`📨 Sending ${messageType} for order ${orderId} over SMS`);
+        messageId = await SmsService.send(phoneNumber, message);
+      } else {
+        // Rate caps and auto-pause: put the job back until a slot frees up (waits out the random gap otherwise)
+        const slot = await SendGovernorService.acquire();
+        if (!slot.allowed) {
+          console.log(`🐢 Send throttled (${slot.reason}) - ${messageType} for ${orderId} retries at ${new Date(slot.retryAt).toISOString()}`);
+          if (!job.data.throttled) {
+            await OrderTimelineService.record(orderId, 'job_deferred', `تم تأجيل رسالة ${messageType} بسبب حد الإرسال`, {
+              messageType,
+              reason: slot.reason,
+              until: new Date(slot.retryAt).toISOString()
+            });
+          }
+          await this.addMessageJob({ ...job.data, throttled: true }, Math.max(0, slot.retryAt - Date.now()) / (60 * 60 * 1000), true);
+          return;
+        }
+
+        // Per-number caps, warm-up and health: wait for a free sender number instead of failing
+        const whatsapp = WhatsAppService.getInstance();
+        const sender = await SenderPoolService.pick(phoneNumber, whatsapp.getConnectedSessionIds());
+        if ('retryAt' in sender) {
+          const { minGapSeconds } = await SendGovernorService.getConfig();
+          const retryAt = SendGovernorService.reserveRetry(sender.retryAt, minGapSeconds * 1000);
+          console.log(`📵 No sender number available (${sender.reason}) - ${messageType} for ${orderId} retries at ${new Date(retryAt).toISOString()}`);
+          if (!job.data.throttled) {
+            await OrderTimelineService.record(orderId, 'job_deferred', `تم تأجيل رسالة ${messageType} لعدم توفر رقم إرسال`, {
+              messageType,
+              reason: sender.reason,
+              until: new Date(retryAt).toISOString()
+            });
+          }
+          await this.addMessageJob({ ...job.data, throttled: true }, Math.max(0, retryAt - Date.now()) / (60 * 60 * 1000), true);
+          return;
+        }
+        senderId = sender.sessionId;
+
+        const typingMs = await SendGovernorService.getTypingDuration(message);
+        if (typingMs > 0) {
+          await whatsapp.sendTyping(phoneNumber, typingMs, senderId);
+        }
+
+        console.log(`📱 Processing message job for order ${orderId} with network resilience...`);
+        const attachment = media ? await this.loadAttachment(orderId, messageType, media) : null;
+        
+        // Use NetworkResilienceService for resilient WhatsApp message sending
+        attempted = true;
+        messageId = null;
+        // Voice notes have no caption, so their text always goes out as its own message
+        const captioned = !!attachment && media!.asCaption && attachment.kind !== 'audio';
+        if (captioned) {
+          messageId = await whatsapp.sendMedia(phoneNumber, { ...attachment!, caption: message }, senderId);
+          if (!messageId) {
+            console.warn(`⚠️ ${messageType} for ${orderId} could not go out with its attachment - sending the text alone`);
+          }
+        }
+        if (!messageId) {
+          messageId = await NetworkResilienceService.sendWhatsAppMessageResilient(phoneNumber, message, senderId, { messageType });
+          if (messageId && attachment && !captioned) {
+            await this.sendAttachment(orderId, messageType, phoneNumber, attachment, senderId);
+          }
+        }
+      }
       
-      if (success) {
+      if (messageId) {
+        if (channel === 'whatsapp') {
+          await SendGovernorService.recordResult(true);
+        }
         // Mark as sent in persistent duplicate guard ONLY on success
-        await DuplicateGuardService.markSent(orderId, messageType as any, phoneNumber, '');
+        await DuplicateGuardService.markSent(orderId, messageType, phoneNumber, '');
+        await OrderStateService.markMessageSent(orderId, messageType, variantId);
+        await CouponService.markSent(orderId, message);
+        await OrderTimelineService.record(orderId, 'message_sent', `تم إرسال رسالة ${messageType}${channel === 'sms' ? ' عبر SMS' : ''}`, {
+          messageType,
+          phoneNumber,
+          senderId,
+          channel,
+          ...(media ? { attachment: media.assetId } : {}),
+          ...(variantId ? { variantId } : {}),
+          ...(groupOrderIds?.length ? { groupOrderIds } : {})
+        });
+        MessageTracker.recordSentMessage({
+          id: `${orderId}_${messageType}_${Date.now()}`,
+          orderId,
+          phoneNumber,
+          messageType,
+          timestamp: new Date().toISOString(),
+          status: 'sent',
+          messageId,
+          senderId,
+          channel,
+          messageContent: message,
+          rowIndex
+        });
+        // One consolidated message covers the customer's other orders too
+        for (const groupOrderId of groupOrderIds || []) {
+          await DuplicateGuardService.markSent(groupOrderId, messageType, phoneNumber, '');
+          await OrderStateService.markMessageSent(groupOrderId, messageType);
+          await OrderTimelineService.record(groupOrderId, 'message_sent', `تم إرسال رسالة ${messageType} مجمعة مع الطلب ${orderId}`, {
+            messageType,
+            phoneNumber,
+            consolidatedWith: orderId
+          });
+        }
         // Update Google Sheets with the sent message status - DISABLED (READ-ONLY MODE)
         // await GoogleSheetsService.updateWhatsAppStatus(
         //   rowIndex,
@@ -356,10 +799,30 @@ export class QueueService {
         console.log(`🔒 READ-ONLY: Would update row ${rowIndex} with status: ${messageType} sent`);
         console.log(`✅ Message sent successfully to ${phoneNumber} for order ${orderId} (resilient)`);
       } else {
-        throw new Error('Failed to send WhatsApp message');
+        throw new Error(channel === 'sms' ? 'Failed to send SMS' : 'Failed to send WhatsApp message');
       }
     } catch (error) {
       console.error(`❌ Error processing message job for order ${orderId}:`, error);
+      if (attempted) {
+        await SendGovernorService.recordResult(false);
+      }
+      await OrderTimelineService.record(orderId, 'message_failed', `فشل إرسال رسالة ${messageType}${channel === 'sms' ? ' عبر SMS' : ''}`, {
+        messageType,
+        channel,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      MessageTracker.recordSentMessage({
+        id: `${orderId}_${messageType}_${Date.now()}`,
+        orderId,
+        phoneNumber,
+        messageType,
+        timestamp: new Date().toISOString(),
+        status: 'failed',
+        channel,
+        messageContent: message,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        rowIndex
+      });
       
       // Log network resilience stats for debugging
       const stats = NetworkResilienceService.getStats();
@@ -377,9 +840,43 @@ export class QueueService {
     }
   }
 
+  /**
+   * تجهيز مرفق الرسالة - إذا تعذر (ملف محذوف أو أكبر من الحد) تخرج الرسالة بدونه
+   */
+  private static async loadAttachment(orderId: string, messageType: MessageType, media: MessageAttachment): Promise<OutboundMedia | null> {
+    try {
+      return await MediaService.load(media.assetId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ Attachment for ${messageType} of ${orderId} skipped: ${reason}`);
+      await OrderTimelineService.record(orderId, 'message_failed', `تعذر تجهيز مرفق رسالة ${messageType} - أُرسلت بدونه`, { messageType, error: reason });
+      return null;
+    }
+  }
+
+  /**
+   * المرفق كرسالة ثانية بعد النص - فشله لا يعيد إرسال النص
+   */
+  private static async sendAttachment(orderId: string, messageType: MessageType, phoneNumber: string, attachment: OutboundMedia, senderId: string): Promise<void> {
+    const mediaId = await WhatsAppService.getInstance().sendMedia(phoneNumber, attachment, senderId);
+    if (!mediaId) {
+      console.warn(`⚠️ Attachment for ${messageType} of ${orderId} failed to send`);
+      await OrderTimelineService.record(orderId, 'message_failed', `فشل إرسال مرفق رسالة ${messageType}`, { messageType, phoneNumber, senderId });
+    }
+  }
+
+  /**
+   * مرفق الرسالة حسب إعدادات الوسائط ومنتج الطلب - رسائل SMS بلا مرفقات
+   */
+  private static async attachmentFor(messageType: RuleMessageType, row: SheetRow, channel?: MessageChannel): Promise<Pick<MessageJob, 'media'>> {
+    if (channel === 'sms') return {};
+    const media = MediaService.attachmentFor(await MediaService.getConfig(), messageType, row.productName);
+    return media ? { media } : {};
+  }
+
   // Process reminder job
   static async processReminderJob(job: Job<ReminderJob>): Promise<void> {
-    const { orderId, rowIndex, phoneNumber, customerName, orderStatus } = job.data;
+    const { orderId, rowIndex, phoneNumber, customerName, orderStatus, channel } = job.data;
     
     try {
       // Get current sheet data to check if status has changed
@@ -393,7 +890,10 @@ export class QueueService {
 
       // Get message template
       const { templates } = await ConfigService.getMessageTemplates();
-      const message = templates.reminder
+      const experiments = await TemplateExperimentService.getConfig();
+      const picked = TemplateExperimentService.pickVariant(experiments, orderId, 'reminder', templates.reminder);
+      const { template, variantId } = channel === 'sms' ? SmsService.pickTemplate(await SmsService.getConfig(), 'reminder', picked) : picked;
+      const message = template
         .replace('{name}', customerName)
         .replace('{orderId}', orderId);
 
@@ -404,6 +904,9 @@ export class QueueService {
         orderId,
         rowIndex,
         messageType: 'reminder',
+        ...(variantId ? { variantId } : {}),
+        ...(channel ? { channel } : {}),
+        ...(await this.attachmentFor('reminder', currentRow, channel))
       };
 
       await this.addMessageJob(messageJob);
@@ -416,35 +919,51 @@ export class QueueService {
 
   // Process rejected offer job
   static async processRejectedOfferJob(job: Job<ReminderJob>): Promise<void> {
-    const { orderId, rowIndex, phoneNumber, customerName } = job.data;
+    const { orderId, rowIndex, phoneNumber, customerName, channel } = job.data;
     
     try {
-      // Get current sheet data to check if status is still rejected
+      // Get current sheet data to check the order is still in a status that triggers the offer
       const sheetData = await GoogleSheetsService.getSheetData() as (SheetRow & { rowIndex: number })[];
       const currentRow = sheetData.find((row) => row.orderId === orderId);
+      const rules = await StatusRulesService.getActiveRules();
       
-      if (!currentRow || (currentRow.orderStatus !== 'مرفوض' && currentRow.orderStatus !== 'تم الرفض')) {
+      if (!currentRow || !StatusRulesService.triggersTemplate(currentRow.orderStatus, 'rejectedOffer', rules)) {
         console.log(`Order ${orderId} status has changed from rejected, skipping offer`);
+        await OrderTimelineService.record(orderId, 'reminder_cancelled', 'تم تخطي العرض الخاص لأن الطلب لم يعد مرفوضاً', {
+          messageType: 'rejectedOffer',
+          status: currentRow?.orderStatus
+        });
         return;
       }
 
-      // Get message template
+      const allowed = await DuplicateGuardService.shouldSend(orderId, 'rejectedOffer', phoneNumber, customerName);
+      if (!allowed) {
+        console.log(`🚫 Duplicate prevented (persistent): rejectedOffer for ${orderId}`);
+        return;
+      }
+
+      // Get message template and discount policy
       const { templates } = await ConfigService.getMessageTemplates();
+      const policy = await OfferService.getPolicy();
+      const offer = OfferService.calculate(currentRow, policy);
+      const experiments = await TemplateExperimentService.getConfig();
+      const picked = TemplateExperimentService.pickVariant(experiments, orderId, 'rejectedOffer', templates.rejectedOffer);
+      const { template, variantId } = channel === 'sms' ? SmsService.pickTemplate(await SmsService.getConfig(), 'rejectedOffer', picked) : picked;
       
-      // Calculate discount amounts
-      const originalAmount = parseFloat(currentRow.totalPrice?.toString() || '0');
-      const discountedAmount = Math.round(originalAmount * 0.8); // 20% discount
-      const savedAmount = originalAmount - discountedAmount;
-      
-      // Replace variables in the message
-      const message = templates.rejectedOffer
-        .replace(/{name}/g, customerName)
-        .replace(/{orderId}/g, orderId)
-        .replace(/{amount}/g, originalAmount.toString())
-        .replace(/{discountedAmount}/g, discountedAmount.toString())
-        .replace(/{savedAmount}/g, savedAmount.toString())
-        .replace(/{productName}/g, currentRow.productName || 'المنتج')
-        .replace(/{companyName}/g, 'متجرنا');
+      // Replace variables in the message (mints a coupon when the template asks for one)
+      const message = await CouponService.applyVariables(
+        OfferService.applyVariables(
+          template
+            .replace(/{name}/g, customerName)
+            .replace(/{orderId}/g, orderId)
+            .replace(/{productName}/g, currentRow.productName || 'المنتج'),
+          currentRow,
+          policy
+        ),
+        { orderId, phoneNumber, customerName, productName: currentRow.productName },
+        offer,
+        policy
+      );
 
       // Send rejected offer message
       const messageJob: MessageJob = {
@@ -453,44 +972,111 @@ export class QueueService {
         orderId,
         rowIndex,
         messageType: 'rejectedOffer',
+        ...(variantId ? { variantId } : {}),
+        ...(channel ? { channel } : {}),
+        ...(await this.attachmentFor('rejectedOffer', currentRow, channel))
       };
 
       await this.addMessageJob(messageJob);
-      console.log(`🎁 Rejected offer sent for order ${orderId} - 20% discount offer`);
+      console.log(`🎁 Rejected offer queued for order ${orderId} - ${offer.discountLabel} discount${offer.tierId ? ` (tier ${offer.tierId})` : ''}`);
     } catch (error) {
       console.error(`Error processing rejected offer job for order ${orderId}:`, error);
       throw error;
     }
   }
 
-  // Get queue statistics
+  // Process follow-up sequence step
+  static async processFollowUpJob(job: Job<FollowUpJob>): Promise<void> {
+    const { orderId, rowIndex, phoneNumber, customerName, sequenceId, stepId, entryStatuses, message, channel } = job.data;
+
+    try {
+      // Get current sheet data to check the order is still in the sequence entry status
+      const sheetData = await GoogleSheetsService.getSheetData() as (SheetRow & { rowIndex: number })[];
+      const currentRow = sheetData.find((row) => row.orderId === orderId);
+      const currentStatus = normalizeArabic(currentRow?.orderStatus || '');
+
+      if (!currentRow || !entryStatuses.some(status => normalizeArabic(status) === currentStatus)) {
+        console.log(`Order ${orderId} left the entry status of sequence ${sequenceId}, skipping step ${stepId}`);
+        await OrderTimelineService.record(orderId, 'reminder_cancelled', `تم تخطي خطوة المتابعة "${stepId}" لأن الحالة تغيرت`, { sequenceId, stepId });
+        return;
+      }
+
+      const messageType: MessageType = `followUp:${sequenceId}:${stepId}`;
+      const allowed = await DuplicateGuardService.shouldSend(orderId, messageType, phoneNumber, customerName);
+      if (!allowed) {
+        console.log(`🚫 Duplicate prevented (persistent): ${messageType} for ${orderId}`);
+        return;
+      }
+
+      // After a restart the steps that came due while the app was down fire together - keep the gap after the previous step
+      const waitMs = await this.getFollowUpStepWait(orderId, sequenceId, stepId);
+      if (waitMs > FOLLOW_UP_GAP_TOLERANCE_MS) {
+        console.log(`⏳ Follow-up step ${sequenceId}/${stepId} for ${orderId} is too close to the previous step, re-planning`);
+        await this.addFollowUpJob(job.data, Math.round(waitMs / 60000) / 60);
+        return;
+      }
+
+      await this.addMessageJob({ phoneNumber, message, orderId, rowIndex, messageType, ...(channel ? { channel } : {}) });
+      console.log(`🔁 Follow-up step ${sequenceId}/${stepId} queued for order ${orderId}`);
+    } catch (error) {
+      console.error(`Error processing follow-up job for order ${orderId}:`, error);
+      throw error;
+    }
+  }
+
+  // Time left before a step may go out: the planned gap after the previous step of its sequence, counted from when that step was sent
+  private static async getFollowUpStepWait(orderId: string, sequenceId: string, stepId: string): Promise<number> {
+    const sequence = (await FollowUpService.getActiveSequences()).find(candidate => candidate.id === sequenceId);
+    const index = sequence ? sequence.steps.findIndex(step => step.id === stepId) : -1;
+    if (!sequence || index <= 0) return 0;
+
+    const previous = sequence.steps[index - 1];
+    const gapMs = (sequence.steps[index].delayHours - previous.delayHours) * 60 * 60 * 1000;
+    const previousType: MessageType = `followUp:${sequenceId}:${previous.id}`;
+
+    // The previous step is still waiting in the message queue - the whole gap is still ahead
+    const pending = await this.getPendingJobs(orderId);
+    if (pending.some(job => job.queue === 'message' && job.messageType === previousType)) return gapMs;
+
+    const sentAt = (await OrderStateService.get(orderId))?.sentMessages[previousType];
+    return sentAt ? sentAt + gapMs - Date.now() : 0;
+  }
+
+  // Get queue statistics for the current store
   static async getQueueStats() {
+    const ownJobs = (jobs: Job[]) => jobs.filter(job => this.isCurrentTenant(job.data)).length;
+    const ownItems = (item: { tenantId?: string }) => this.isCurrentTenant(item);
     if (this.useRedis) {
-      const [messageWaiting, messageActive, reminderWaiting, rejectedWaiting] = await Promise.all([
+      const [messageWaiting, messageActive, reminderWaiting, rejectedWaiting, followUpWaiting] = await Promise.all([
         (this.messageQueue as Queue<MessageJob>).getWaiting(),
         (this.messageQueue as Queue<MessageJob>).getActive(),
         (this.reminderQueue as Queue<ReminderJob>).getWaiting(),
         (this.rejectedOfferQueue as Queue<ReminderJob>).getWaiting(),
+        (this.followUpQueue as Queue<FollowUpJob>).getWaiting(),
       ]);
 
       return {
         messageQueue: {
-          waiting: messageWaiting.length,
-          active: messageActive.length,
+          waiting: ownJobs(messageWaiting),
+          active: ownJobs(messageActive),
         },
         reminderQueue: {
-          waiting: reminderWaiting.length,
+          waiting: ownJobs(reminderWaiting),
         },
         rejectedOfferQueue: {
-          waiting: rejectedWaiting.length,
+          waiting: ownJobs(rejectedWaiting),
+        },
+        followUpQueue: {
+          waiting: ownJobs(followUpWaiting),
         },
       };
     } else {
-      const [messageWaiting, messageActive, reminderWaiting, rejectedWaiting] = await Promise.all([
-        (this.messageQueue as LocalQueue<MessageJob>).size(),
-        (this.messageQueue as LocalQueue<MessageJob>).size(), // Active jobs are not tracked in LocalQueue
-        (this.reminderQueue as LocalQueue<ReminderJob>).size(),
-        (this.rejectedOfferQueue as LocalQueue<ReminderJob>).size(),
+      const [messageWaiting, messageActive, reminderWaiting, rejectedWaiting, followUpWaiting] = await Promise.all([
+        (this.messageQueue as LocalQueue<MessageJob>).countWhere(ownItems),
+        (this.messageQueue as LocalQueue<MessageJob>).countWhere(ownItems), // Active jobs are not tracked in LocalQueue
+        (this.reminderQueue as LocalQueue<ReminderJob>).countWhere(ownItems),
+        (this.rejectedOfferQueue as LocalQueue<ReminderJob>).countWhere(ownItems),
+        (this.followUpQueue as LocalQueue<FollowUpJob>).countWhere(ownItems),
       ]);
 
       return {
@@ -504,6 +1090,9 @@ export class QueueService {
         rejectedOfferQueue: {
           waiting: rejectedWaiting,
         },
+        followUpQueue: {
+          waiting: followUpWaiting,
+        },
       };
     }
   }
@@ -528,6 +1117,7 @@ export class QueueService {
       await (this.messageQueue as LocalQueue<MessageJob>).close();
       await (this.reminderQueue as LocalQueue<ReminderJob>).close();
       await (this.rejectedOfferQueue as LocalQueue<ReminderJob>).close();
+      await (this.followUpQueue as LocalQueue<FollowUpJob>).close();
     }
   }
 } 
\ No newline at end of file
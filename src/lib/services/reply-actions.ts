@@ -0,0 +1,181 @@
+import { ConfigService } from './config';
+import { GoogleSheetsService } from './google-sheets';
+import { StatusRulesService } from './status-rules';
+import { OrderTimelineService } from './order-timeline';
+import { OptOutService } from './opt-out';
+import { matchKeyword, toWordText } from '../utils/arabic';
+import { renderOrderTemplate } from '../utils/order-template';
+import type { InboxMessage } from './inbox';
+import type { ReplyActionsConfig } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export type ReplyAction = 'confirm' | 'cancel';
+
+export interface ReplyActionResult {
+  action: ReplyAction;
+  keyword: string;
+  orderId: string;
+  oldStatus: string;
+  newStatus: string;
+  written: boolean;            // هل تم التحديث في الشيت فعلاً
+  ack: string | null;          // الرد الذي يجب إرساله للعميل - لا يُذكر التأكيد أو الإلغاء إلا بعد تحديث الشيت
+}
+
+// "مش تمام" / "لا أؤكد" must not confirm the order
+const NEGATIONS = ['مش', 'لا', 'مو', 'ما', 'غير', 'not', 'no', 'dont'];
+
+const ACTION_LABELS: Record<ReplyAction, string> = {
+  confirm: 'تأكيد',
+  cancel: 'إلغاء'
+};
+
+/**
+ * تأكيد أو إلغاء الطلب عندما يرد العميل بكلمة مفتاحية (مثل "أؤكد" في رسالة التذكير)
+ */
+export class ReplyActionService {
+  /**
+   * الإجراء المطلوب من نص الرد - الإلغاء له الأولوية، والتأكيد المنفي لا يُحتسب
+   */
+  static detect(body: string, config: ReplyActionsConfig): { action: ReplyAction; keyword: string } | null {
+    const cancelKeyword = matchKeyword(body, config.cancelKeywords);
+    if (cancelKeyword) return { action: 'cancel', keyword: cancelKeyword };
+
+    const confirmKeyword = matchKeyword(body, config.confirmKeywords);
+    if (!confirmKeyword) return null;
+
+    const words = toWordText(body);
+    const keyword = toWordText(confirmKeyword).trim();
+    const negated = NEGATIONS.some(negation => words.includes(` ${negation} ${keyword} `));
+    return negated ? null : { action: 'confirm', keyword: confirmKeyword };
+  }
+
+  /**
+   * تنفيذ الإجراء على أحدث طلب مرتبط بالرسالة - تعيد null إذا لم يكن الرد تأكيداً أو إلغاءً لطلب معلق
+   */
+  static async handleReply(message: InboxMessage): Promise<ReplyActionResult | null> {
+    const config = await ConfigService.getReplyActions();
+    if (!config.enabled) return null;
+
+    const detected = this.detect(message.body, config);
+    if (!detected) return null;
+
+    const orderId = message.orderIds[0];
+    if (!orderId) {
+      console.log(`💬 ${message.phone} replied "${detected.keyword}" but has no linked order`);
+      return null;
+    }
+
+    // Fresh read - the status may have changed since the reply was linked
+    const rows = await GoogleSheetsService.getSheetData();
+    const row = rows.find(candidate => candidate.orderId === orderId);
+    if (!row || !row.rowIndex) {
+      console.warn(`💬 Order ${orderId} not found in the sheet, ignoring "${detected.keyword}"`);
+      return null;
+    }
+
+    const oldStatus = (row.orderStatus || '').trim();
+    const label = ACTION_LABELS[detected.action];
+    const rules = await StatusRulesService.getActiveRules();
+    // Only orders still waiting for the customer (reminder rules) can be confirmed or cancelled by reply
+    if (!StatusRulesService.isReminderEligible(oldStatus, rules)) {
+      await OrderTimelineService.record(orderId, 'reply_action', `تجاهل ${label} بالرد: حالة الطلب "${oldStatus}" ليست معلقة`, {
+        action: detected.action,
+        keyword: detected.keyword,
+        oldStatus,
+        messageId: message.id
+      });
+      return null;
+    }
+
+    const newStatus = detected.action === 'confirm' ? config.confirmedStatus : config.cancelledStatus;
+    // Without a sheet write the order stays pending, so repeated replies would be acknowledged again and again
+    const alreadyAcked = !config.writeToSheet && (await OrderTimelineService.getTimeline(orderId))
+      .some(event => event.type === 'reply_action' && event.details?.action === detected.action && event.details?.acked);
+    let written = false;
+    if (config.writeToSheet) {
+      const update = await GoogleSheetsService.updateSingleOrderStatus(row.rowIndex, newStatus, row.name);
+      if (!update.success) {
+        await OrderTimelineService.record(orderId, 'reply_action', `فشل ${label} الطلب في الشيت: ${update.error}`, {
+          action: detected.action,
+          keyword: detected.keyword,
+          oldStatus,
+          newStatus,
+          messageId: message.id
+        });
+        return null;
+      }
+      written = true;
+
+      const time = new Date(message.receivedAt).toLocaleString('ar-EG');
+      await GoogleSheetsService.addNote(row.rowIndex, `${label} برد العميل "${message.body.slice(0, 100)}" - ${time}`)
+        .catch(error => console.warn(`⚠️ Could not add note to row ${row.rowIndex}:`, error));
+    } else {
+      console.log(`🔒 Sheet writes disabled: would set order ${orderId} to "${newStatus}"`);
+    }
+
+    // The customer is only told the order changed when the sheet really changed
+    const template = written ? (detected.action === 'confirm' ? config.confirmAck : config.cancelAck) : config.pendingAck;
+    const ack = template?.trim() && !alreadyAcked && !(await OptOutService.isOptedOut(message.phone))
+      ? renderOrderTemplate(template, row)
+      : null;
+
+    await OrderTimelineService.record(orderId, 'reply_action', written
+      ? `${label} بالرد "${detected.keyword}": "${oldStatus}" ← "${newStatus}"`
+      : `${label} بالرد "${detected.keyword}" (الكتابة في الشيت معطلة)`, {
+      action: detected.action,
+      keyword: detected.keyword,
+      oldStatus,
+      newStatus,
+      written,
+      acked: !!ack,
+      messageId: message.id
+    });
+
+    console.log(`💬 Order ${orderId} ${detected.action === 'confirm' ? 'confirmed' : 'cancelled'} by reply from ${message.phone}`);
+    return { action: detected.action, keyword: detected.keyword, orderId, oldStatus, newStatus, written, ack };
+  }
+
+  static validate(config: ReplyActionsConfig, optOutKeywords: string[] = []): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['replyActions must be an object'], warnings };
+    }
+    for (const field of ['confirmKeywords', 'cancelKeywords'] as const) {
+      if (!Array.isArray(config[field])) {
+        errors.push(`${field} must be an array`);
+      } else if (config[field].filter(keyword => keyword && keyword.trim()).length === 0) {
+        warnings.push(`${field} is empty`);
+      }
+    }
+    for (const field of ['confirmedStatus', 'cancelledStatus'] as const) {
+      if (typeof config[field] !== 'string' || !config[field].trim()) {
+        errors.push(`${field} is required`);
+      }
+    }
+    for (const field of ['confirmAck', 'cancelAck', 'pendingAck'] as const) {
+      if (typeof config[field] !== 'string') {
+        errors.push(`${field} must be a string`);
+      }
+    }
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings };
+    }
+
+    const overlap = config.confirmKeywords.filter(keyword => matchKeyword(keyword, config.cancelKeywords));
+    if (overlap.length > 0) {
+      errors.push(`Keywords used for both confirm and cancel: ${overlap.join(', ')}`);
+    }
+    // A reply that matches an opt-out keyword stops all messages instead of cancelling the order
+    const shadowed = config.cancelKeywords.filter(keyword => matchKeyword(keyword, optOutKeywords));
+    if (shadowed.length > 0) {
+      warnings.push(`Cancel keywords that also contain an opt-out keyword are handled as cancel first: ${shadowed.join(', ')}`);
+    }
+    if (config.enabled && !config.writeToSheet) {
+      warnings.push('writeToSheet is off - replies are logged and answered with pendingAck, the sheet is not updated and the order is not confirmed or cancelled');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
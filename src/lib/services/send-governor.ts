@@ -0,0 +1,302 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigService } from './config';
+import { TenantService } from './tenant';
+import type { SendRateConfig } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const FILE_NAME = 'send-governor.json';
+const PERSIST_DEBOUNCE_MS = 1000;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// "typing…" lasts about as long as a person would take to type a short message
+const TYPING_MIN_MS = 2000;
+const TYPING_MAX_MS = 8000;
+const TYPING_MS_PER_CHAR = 40;
+// Deferred messages are woken at least this far apart, even with no gap configured
+const MIN_RETRY_SPACING_MS = 5000;
+
+interface GovernorState {
+  sentAt: number[];            // أوقات الإرسال الناجح خلال آخر 24 ساعة
+  outcomes: boolean[];         // نتائج آخر المحاولات (true = نجحت)
+  lastAttemptAt: number | null;
+  nextGapMs: number;           // الفاصل العشوائي قبل الرسالة التالية
+  pausedUntil: number | null;
+  pauseReason: string | null;
+}
+
+export interface SendBudgetWindow {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface SendGovernorStatus {
+  enabled: boolean;
+  paused: boolean;
+  pausedUntil: string | null;
+  pauseReason: string | null;
+  budget: { minute: SendBudgetWindow; hour: SendBudgetWindow; day: SendBudgetWindow };
+  recentFailureRate: number;   // نسبة مئوية على آخر failureWindow محاولة
+  recentAttempts: number;
+  nextSendAt: string | null;   // أقرب وقت مسموح للرسالة التالية
+}
+
+export type SendSlot = { allowed: true } | { allowed: false; retryAt: number; reason: string };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * التحكم في سرعة الإرسال: سقف لكل دقيقة/ساعة/يوم، فواصل عشوائية بين الرسائل، وإيقاف تلقائي عند ارتفاع نسبة الفشل
+ */
+export class SendGovernorService {
+  // Each store sends from its own numbers, so each has its own budget
+  private static scope = TenantService.scoped(() => ({
+    state: null as GovernorState | null,
+    persistTimer: null as NodeJS.Timeout | null,
+    lastRetryAt: 0               // آخر موعد محجوز لرسالة مؤجلة
+  }));
+
+  static async getConfig(): Promise<SendRateConfig> {
+    const timing = await ConfigService.getTimingConfig();
+    return timing.sendRate || ConfigService.getDefaultSendRate();
+  }
+
+  private static load(): GovernorState {
+    const scope = this.scope();
+    if (scope.state) return scope.state;
+    scope.state = { sentAt: [], outcomes: [], lastAttemptAt: null, nextGapMs: 0, pausedUntil: null, pauseReason: null };
+    try {
+      const filePath = path.join(TenantService.getDataDir(), FILE_NAME);
+      if (fs.existsSync(filePath)) {
+        scope.state = { ...scope.state, ...JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+      }
+    } catch (e) {
+      console.warn('Send governor: could not load state, starting fresh', e);
+    }
+    return scope.state!;
+  }
+
+  private static schedulePersist() {
+    const scope = this.scope();
+    if (scope.persistTimer) return;
+    scope.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    scope.persistTimer.unref?.();
+  }
+
+  static flush() {
+    const scope = this.scope();
+    if (scope.persistTimer) {
+      clearTimeout(scope.persistTimer);
+      scope.persistTimer = null;
+    }
+    if (!scope.state) return;
+    try {
+      const dir = TenantService.getDataDir();
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(dir, FILE_NAME), JSON.stringify(scope.state), 'utf-8');
+    } catch (e) {
+      console.warn('Send governor: could not persist state', e);
+    }
+  }
+
+  private static countSince(sentAt: number[], since: number): number {
+    return sentAt.filter(time => time > since).length;
+  }
+
+  private static randomGap(config: SendRateConfig): number {
+    const min = Math.max(0, config.minGapSeconds) * 1000;
+    const max = Math.max(min, config.maxGapSeconds * 1000);
+    return min + Math.random() * (max - min);
+  }
+
+  /**
+   * أقرب وقت تسمح فيه الحدود بالإرسال (null = مسموح الآن)
+   */
+  private static blockedUntil(config: SendRateConfig, now: number): { until: number; reason: string; spacingMs: number } | null {
+    const state = this.load();
+    if (state.pausedUntil && state.pausedUntil > now) {
+      return { until: state.pausedUntil, reason: state.pauseReason || 'paused', spacingMs: config.minGapSeconds * 1000 };
+    }
+
+    const limits: Array<{ window: number; limit: number; reason: string }> = [
+      { window: DAY_MS, limit: config.maxPerDay, reason: 'daily cap reached' },
+      { window: HOUR_MS, limit: config.maxPerHour, reason: 'hourly cap reached' },
+      { window: MINUTE_MS, limit: config.maxPerMinute, reason: 'per-minute cap reached' }
+    ];
+    for (const { window, limit, reason } of limits) {
+      const inWindow = state.sentAt.filter(time => time > now - window);
+      if (limit > 0 && inWindow.length >= limit) {
+        // A slot frees up when the oldest send in the window ages out; after that the cap allows one send per window / limit
+        return { until: inWindow[inWindow.length - limit] + window, reason, spacingMs: Math.max(config.minGapSeconds * 1000, window / limit) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * حجز دور للإرسال: ينتظر الفاصل العشوائي منذ آخر رسالة، أو يعيد وقت المحاولة التالية إذا تجاوزنا الحد أو الإرسال متوقف
+   */
+  static async acquire(): Promise<SendSlot> {
+    const config = await this.getConfig();
+    if (!config.enabled) return { allowed: true };
+
+    const blocked = this.blockedUntil(config, Date.now());
+    if (blocked) {
+      return { allowed: false, retryAt: this.reserveRetry(blocked.until, blocked.spacingMs), reason: blocked.reason };
+    }
+
+    const state = this.load();
+    const wait = state.lastAttemptAt ? state.lastAttemptAt + state.nextGapMs - Date.now() : 0;
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * موعد محاولة لرسالة مؤجلة: كل رسالة تأخذ دوراً بعد التي قبلها بدلاً من أن تستيقظ كلها معاً عند earliest
+   */
+  static reserveRetry(earliest: number, spacingMs: number): number {
+    const scope = this.scope();
+    const retryAt = Math.max(earliest, scope.lastRetryAt + Math.max(MIN_RETRY_SPACING_MS, spacingMs));
+    scope.lastRetryAt = retryAt;
+    return retryAt;
+  }
+
+  /**
+   * مدة "يكتب..." المناسبة لطول الرسالة (0 = معطل)
+   */
+  static async getTypingDuration(message: string): Promise<number> {
+    const config = await this.getConfig();
+    if (!config.enabled || !config.typingIndicator) return 0;
+    return Math.min(TYPING_MAX_MS, Math.max(TYPING_MIN_MS, message.length * TYPING_MS_PER_CHAR));
+  }
+
+  /**
+   * تسجيل نتيجة محاولة إرسال - يوقف الإرسال تلقائياً إذا ارتفعت نسبة الفشل
+   */
+  static async recordResult(success: boolean): Promise<void> {
+    const config = await this.getConfig();
+    const state = this.load();
+    const now = Date.now();
+
+    state.lastAttemptAt = now;
+    state.nextGapMs = this.randomGap(config);
+    state.outcomes = [...state.outcomes, success].slice(-Math.max(1, config.failureWindow));
+    if (success) {
+      state.sentAt = [...state.sentAt.filter(time => time > now - DAY_MS), now];
+    }
+
+    const failures = state.outcomes.filter(outcome => !outcome).length;
+    const failureRate = (failures / state.outcomes.length) * 100;
+    // Half a window of history before judging, so two early failures don't stop everything
+    const enoughHistory = state.outcomes.length >= Math.ceil(config.failureWindow / 2);
+    if (config.enabled && config.autoPause && !success && enoughHistory && failureRate >= config.failureRatePercent) {
+      this.pause(config.pauseMinutes, `auto: ${Math.round(failureRate)}% of the last ${state.outcomes.length} sends failed`);
+      // Start the next window clean, otherwise the first failure after resuming pauses again
+      state.outcomes = [];
+    }
+    this.schedulePersist();
+  }
+
+  static pause(minutes: number, reason: string): void {
+    const state = this.load();
+    state.pausedUntil = Date.now() + minutes * MINUTE_MS;
+    state.pauseReason = reason;
+    this.schedulePersist();
+    console.warn(`⏸️ Sending paused for ${minutes} minutes (${reason})`);
+  }
+
+  static resume(): void {
+    const state = this.load();
+    state.pausedUntil = null;
+    state.pauseReason = null;
+    state.outcomes = [];
+    this.schedulePersist();
+    console.log('▶️ Sending resumed');
+  }
+
+  static async getStatus(): Promise<SendGovernorStatus> {
+    const config = await this.getConfig();
+    const state = this.load();
+    const now = Date.now();
+
+    const window = (since: number, limit: number): SendBudgetWindow => {
+      const used = this.countSince(state.sentAt, since);
+      return { used, limit, remaining: Math.max(0, limit - used) };
+    };
+    const paused = !!state.pausedUntil && state.pausedUntil > now;
+    const blocked = config.enabled ? this.blockedUntil(config, now) : null;
+    const gapUntil = config.enabled && state.lastAttemptAt ? state.lastAttemptAt + state.nextGapMs : now;
+    const nextSendAt = Math.max(blocked?.until ?? now, gapUntil);
+    const failures = state.outcomes.filter(outcome => !outcome).length;
+
+    return {
+      enabled: config.enabled,
+      paused,
+      pausedUntil: paused ? new Date(state.pausedUntil!).toISOString() : null,
+      pauseReason: paused ? state.pauseReason : null,
+      budget: {
+        minute: window(now - MINUTE_MS, config.maxPerMinute),
+        hour: window(now - HOUR_MS, config.maxPerHour),
+        day: window(now - DAY_MS, config.maxPerDay)
+      },
+      recentFailureRate: state.outcomes.length ? Math.round((failures / state.outcomes.length) * 1000) / 10 : 0,
+      recentAttempts: state.outcomes.length,
+      nextSendAt: nextSendAt > now ? new Date(nextSendAt).toISOString() : null
+    };
+  }
+
+  static validate(config: SendRateConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['sendRate must be an object'], warnings };
+    }
+    const ranges: Array<[keyof SendRateConfig, number, number]> = [
+      ['maxPerMinute', 1, 60],
+      ['maxPerHour', 1, 3600],
+      ['maxPerDay', 1, 50000],
+      ['minGapSeconds', 0, 3600],
+      ['maxGapSeconds', 0, 3600],
+      ['failureRatePercent', 1, 100],
+      ['failureWindow', 2, 500],
+      ['pauseMinutes', 1, 24 * 60]
+    ];
+    for (const [field, min, max] of ranges) {
+      const value = config[field];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        errors.push(`${field} must be between ${min} and ${max}`);
+      }
+    }
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings };
+    }
+
+    if (config.maxGapSeconds < config.minGapSeconds) {
+      errors.push('maxGapSeconds must be greater than or equal to minGapSeconds');
+    }
+    if (config.maxPerHour > config.maxPerDay) {
+      warnings.push('maxPerHour is above maxPerDay - the daily cap is reached within the hour');
+    }
+    if (config.maxPerMinute * 60 < config.maxPerHour) {
+      warnings.push('maxPerMinute × 60 is below maxPerHour - the hourly cap can never be reached');
+    }
+    if (config.minGapSeconds > 0 && 60 / config.minGapSeconds < config.maxPerMinute) {
+      warnings.push(`With at least ${config.minGapSeconds}s between messages no more than ${Math.floor(60 / config.minGapSeconds)} go out per minute`);
+    }
+    if (config.enabled && config.maxGapSeconds < 3) {
+      warnings.push('Gaps under 3 seconds look automated to WhatsApp');
+    }
+    if (config.enabled && !config.autoPause) {
+      warnings.push('autoPause is off - sending continues even if most messages fail');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,234 @@
+import { ConfigService } from './config';
+import type { SendWindowsConfig, TimeRange, Weekday } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MAX_LOOKAHEAD_DAYS = 14;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  weekday: Weekday;
+  minutes: number;           // دقائق منذ منتصف الليل بالتوقيت المحلي
+  seconds: number;
+  dateKey: string;           // YYYY-MM-DD
+}
+
+type MinuteRange = [number, number];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function parseTime(value: string): number | null {
+  const match = TIME_PATTERN.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function toMinuteRanges(ranges: TimeRange[]): MinuteRange[] {
+  return (ranges || [])
+    .map(range => [parseTime(range.start), parseTime(range.end)] as [number | null, number | null])
+    .filter((range): range is MinuteRange => range[0] !== null && range[1] !== null && range[1] > range[0]);
+}
+
+function subtractRange(ranges: MinuteRange[], [blockStart, blockEnd]: MinuteRange): MinuteRange[] {
+  const result: MinuteRange[] = [];
+  for (const [start, end] of ranges) {
+    if (blockEnd <= start || blockStart >= end) {
+      result.push([start, end]);
+      continue;
+    }
+    if (blockStart > start) result.push([start, blockStart]);
+    if (blockEnd < end) result.push([blockEnd, end]);
+  }
+  return result;
+}
+
+/**
+ * نوافذ الإرسال وساعات الهدوء (بتوقيت القاهرة افتراضياً)
+ */
+export class SendWindowService {
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  static async getConfig(): Promise<SendWindowsConfig> {
+    const timing = await ConfigService.getTimingConfig();
+    return timing.sendWindows || ConfigService.getDefaultSendWindows();
+  }
+
+  private static getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        weekday: 'short',
+        hourCycle: 'h23'
+      });
+      this.formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+
+  static toLocal(date: Date, timezone: string): LocalDateTime {
+    const parts: Record<string, string> = {};
+    for (const part of this.getFormatter(timezone).formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+    const year = Number(parts.year);
+    const month = Number(parts.month);
+    const day = Number(parts.day);
+    return {
+      year,
+      month,
+      day,
+      weekday: parts.weekday.toLowerCase().slice(0, 3) as Weekday,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+      seconds: Number(parts.second),
+      dateKey: `${year}-${pad(month)}-${pad(day)}`
+    };
+  }
+
+  // Offset between the zone's wall clock and UTC at a given instant
+  private static getOffsetMs(date: Date, timezone: string): number {
+    const local = this.toLocal(date, timezone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes, local.seconds);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+  }
+
+  /**
+   * تحويل وقت محلي (تاريخ + دقائق) إلى لحظة UTC مع مراعاة التوقيت الصيفي
+   */
+  static fromLocal(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+    const firstOffset = this.getOffsetMs(new Date(wallClock), timezone);
+    const candidate = wallClock - firstOffset;
+    const secondOffset = this.getOffsetMs(new Date(candidate), timezone);
+    return new Date(secondOffset === firstOffset ? candidate : wallClock - secondOffset);
+  }
+
+  /**
+   * النوافذ المسموحة ليوم معين بعد تطبيق العطلات ورمضان وصلاة الجمعة
+   */
+  static getWindowsForDay(config: SendWindowsConfig, dateKey: string, weekday: Weekday): MinuteRange[] {
+    if ((config.holidays || []).includes(dateKey)) return [];
+
+    const ramadan = config.ramadan;
+    const inRamadan = !!ramadan?.enabled && !!ramadan.startDate && !!ramadan.endDate &&
+      dateKey >= ramadan.startDate && dateKey <= ramadan.endDate;
+
+    let windows = toMinuteRanges(inRamadan ? ramadan.windows : config.weekly?.[weekday] || []);
+
+    const blackout = config.fridayPrayerBlackout;
+    if (weekday === 'fri' && blackout?.enabled) {
+      const start = parseTime(blackout.start);
+      const end = parseTime(blackout.end);
+      if (start !== null && end !== null && end > start) {
+        windows = subtractRange(windows, [start, end]);
+      }
+    }
+
+    return windows.sort((a, b) => a[0] - b[0]);
+  }
+
+  static isOpen(config: SendWindowsConfig, date: Date = new Date()): boolean {
+    if (!config.enabled) return true;
+    const local = this.toLocal(date, config.timezone || 'Africa/Cairo');
+    return this.getWindowsForDay(config, local.dateKey, local.weekday)
+      .some(([start, end]) => local.minutes >= start && local.minutes < end);
+  }
+
+  /**
+   * أقرب لحظة يُسمح فيها بالإرسال بدءاً من from (أو from نفسها إن كانت النافذة مفتوحة).
+   * تعيد null إذا لم توجد نافذة خلال الأسبوعين القادمين
+   */
+  static getNextOpening(config: SendWindowsConfig, from: Date = new Date()): Date | null {
+    if (this.isOpen(config, from)) return from;
+
+    const timezone = config.timezone || 'Africa/Cairo';
+    const local = this.toLocal(from, timezone);
+
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+      const calendarDay = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+      const year = calendarDay.getUTCFullYear();
+      const month = calendarDay.getUTCMonth() + 1;
+      const day = calendarDay.getUTCDate();
+      const dateKey = `${year}-${pad(month)}-${pad(day)}`;
+
+      for (const [start] of this.getWindowsForDay(config, dateKey, WEEKDAYS[calendarDay.getUTCDay()])) {
+        if (offset === 0 && start <= local.minutes) continue;
+        return this.fromLocal(year, month, day, start, timezone);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * التحقق من صحة إعداد نوافذ الإرسال قبل الحفظ
+   */
+  static validate(config: SendWindowsConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['sendWindows must be an object'], warnings };
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: config.timezone });
+    } catch {
+      errors.push(`Unknown timezone "${config.timezone}"`);
+    }
+
+    const checkRanges = (label: string, ranges: TimeRange[]) => {
+      if (!Array.isArray(ranges)) {
+        errors.push(`${label}: must be an array`);
+        return;
+      }
+      for (const range of ranges) {
+        const start = parseTime(range?.start);
+        const end = parseTime(range?.end);
+        if (start === null || end === null) {
+          errors.push(`${label}: times must be HH:mm (got "${range?.start}"-"${range?.end}")`);
+        } else if (end <= start) {
+          errors.push(`${label}: end must be after start (${range.start}-${range.end})`);
+        }
+      }
+    };
+
+    for (const day of WEEKDAYS) {
+      checkRanges(`weekly.${day}`, config.weekly?.[day] || []);
+    }
+
+    if (config.fridayPrayerBlackout?.enabled) {
+      checkRanges('fridayPrayerBlackout', [config.fridayPrayerBlackout]);
+    }
+
+    if (config.ramadan?.enabled) {
+      checkRanges('ramadan.windows', config.ramadan.windows);
+      if (!DATE_PATTERN.test(config.ramadan.startDate) || !DATE_PATTERN.test(config.ramadan.endDate)) {
+        errors.push('ramadan: startDate and endDate must be YYYY-MM-DD');
+      } else if (config.ramadan.endDate < config.ramadan.startDate) {
+        errors.push('ramadan: endDate must be after startDate');
+      }
+    }
+
+    for (const holiday of config.holidays || []) {
+      if (!DATE_PATTERN.test(holiday)) {
+        errors.push(`holidays: "${holiday}" must be YYYY-MM-DD`);
+      }
+    }
+
+    if (config.enabled && WEEKDAYS.every(day => toMinuteRanges(config.weekly?.[day] || []).length === 0)) {
+      warnings.push('No weekly windows are defined - messages will be sent without restriction');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigService } from './config';
+import { TenantService } from './tenant';
+import { WarmUpService } from './warm-up';
+import type { SenderNumber, SenderPoolConfig } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const FILE_NAME = 'sender-pool-state.json';
+const PERSIST_DEBOUNCE_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STICKY_TTL_MS = 30 * DAY_MS;
+// How long to wait before retrying when no sender number is connected at all
+const NO_SENDER_RETRY_MS = 5 * 60 * 1000;
+
+// The number linked before sender pools existed
+export const DEFAULT_SESSION_ID = 'default';
+
+interface SenderFailures {
+  consecutive: number;
+  lastFailureAt: number | null;
+  lastError: string | null;
+}
+
+interface PoolState {
+  sentAt: Record<string, number[]>;                              // إرسال ناجح خلال آخر 24 ساعة لكل رقم
+  failures: Record<string, SenderFailures>;
+  sticky: Record<string, { sessionId: string; at: number }>;     // رقم العميل → رقم الإرسال
+  cursor: number;                                                 // مؤشر التناوب
+}
+
+export interface SenderHealth {
+  id: string;
+  name: string;
+  enabled: boolean;
+  connected: boolean;
+  phone: string | null;              // رقم الواتساب المربوط بالجلسة
+  sentToday: number;
+  dailyCap: number;                  // السقف الفعلي بعد التسخين
+  warmUpDay: number | null;
+  consecutiveFailures: number;
+  coolingDownUntil: string | null;
+  lastError: string | null;
+  available: boolean;
+  availableAt: number | null;        // أقرب وقت يصبح فيه الرقم متاحاً (null = غير معروف - غير متصل أو معطل)
+  reason: string | null;             // سبب عدم الإتاحة
+}
+
+export interface SenderStatus extends SenderHealth {
+  qrCode: string | null;             // كود QR أثناء انتظار ربط الرقم
+  sessionExists: boolean;
+  sessionHealth: string;
+}
+
+export type SenderPick =
+  | { sessionId: string }
+  | { sessionId: null; retryAt: number; reason: string };
+
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+/**
+ * توزيع الرسائل على أرقام الإرسال: تناوب، نفس الرقم لنفس العميل، أو احتياط بالترتيب - مع سقف يومي وصحة كل رقم
+ */
+export class SenderPoolService {
+  private static scope = TenantService.scoped(() => ({
+    state: null as PoolState | null,
+    persistTimer: null as NodeJS.Timeout | null
+  }));
+
+  private static load(): PoolState {
+    const scope = this.scope();
+    if (scope.state) return scope.state;
+    scope.state = { sentAt: {}, failures: {}, sticky: {}, cursor: 0 };
+    try {
+      const filePath = path.join(TenantService.getDataDir(), FILE_NAME);
+      if (fs.existsSync(filePath)) {
+        scope.state = { ...scope.state, ...JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+      }
+    } catch (e) {
+      console.warn('Sender pool: could not load state, starting fresh', e);
+    }
+    return scope.state!;
+  }
+
+  private static schedulePersist() {
+    const scope = this.scope();
+    if (scope.persistTimer) return;
+    scope.persistTimer = setTimeout(() => this.flush(), PERSIST_DEBOUNCE_MS);
+    scope.persistTimer.unref?.();
+  }
+
+  static flush() {
+    const scope = this.scope();
+    if (scope.persistTimer) {
+      clearTimeout(scope.persistTimer);
+      scope.persistTimer = null;
+    }
+    if (!scope.state) return;
+    try {
+      const cutoff = Date.now() - STICKY_TTL_MS;
+      for (const [phone, entry] of Object.entries(scope.state.sticky)) {
+        if (entry.at < cutoff) delete scope.state.sticky[phone];
+      }
+      const dir = TenantService.getDataDir();
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(dir, FILE_NAME), JSON.stringify(scope.state), 'utf-8');
+    } catch (e) {
+      console.warn('Sender pool: could not persist state', e);
+    }
+  }
+
+  static async getConfig(): Promise<SenderPoolConfig> {
+    return ConfigService.getSenderPool();
+  }
+
+  private static sentWithin(sessionId: string, now: number): number[] {
+    return (this.load().sentAt[sessionId] || []).filter(time => time > now - DAY_MS);
+  }
+
+  static getSentToday(sessionId: string): number {
+    return this.sentWithin(sessionId, Date.now()).length;
+  }
+
+  private static async describe(number: SenderNumber, config: SenderPoolConfig, connectedIds: string[], now: number): Promise<SenderHealth> {
+    const state = this.load();
+    const warmUp = WarmUpService.getPlan(await WarmUpService.getConfig(), number.id, now);
+    const dailyCap = warmUp.dailyCap !== null ? Math.min(number.dailyCap, warmUp.dailyCap) : number.dailyCap;
+    const sent = this.sentWithin(number.id, now);
+    const failures = state.failures[number.id] || { consecutive: 0, lastFailureAt: null, lastError: null };
+    const cooldownEnds = failures.consecutive >= config.maxConsecutiveFailures && failures.lastFailureAt
+      ? failures.lastFailureAt + config.failureCooldownMinutes * 60 * 1000
+      : null;
+    const coolingDown = cooldownEnds !== null && cooldownEnds > now;
+    const connected = connectedIds.includes(number.id);
+
+    let reason: string | null = null;
+    let availableAt: number | null = now;
+    if (!number.enabled) {
+      reason = 'disabled';
+      availableAt = null;
+    } else if (!connected) {
+      reason = 'not connected';
+      availableAt = null;
+    } else if (coolingDown) {
+      reason = `${failures.consecutive} failures in a row`;
+      availableAt = cooldownEnds;
+    } else if (sent.length >= dailyCap) {
+      reason = warmUp.dailyCap !== null && warmUp.dailyCap <= number.dailyCap ? 'warm-up daily cap reached' : 'daily cap reached';
+      // A slot frees up when the oldest send in the window ages out
+      availableAt = sent[sent.length - Math.max(1, dailyCap)] + DAY_MS;
+    }
+
+    return {
+      id: number.id,
+      name: number.name,
+      enabled: number.enabled,
+      connected,
+      phone: WarmUpService.getLinkRecord(number.id)?.phone || null,
+      sentToday: sent.length,
+      dailyCap,
+      warmUpDay: warmUp.active ? warmUp.day : null,
+      consecutiveFailures: failures.consecutive,
+      coolingDownUntil: coolingDown ? new Date(cooldownEnds!).toISOString() : null,
+      lastError: failures.lastError,
+      available: reason === null,
+      availableAt,
+      reason
+    };
+  }
+
+  /**
+   * حالة كل أرقام الإرسال بالترتيب
+   */
+  static async getHealth(connectedIds: string[]): Promise<SenderHealth[]> {
+    const config = await this.getConfig();
+    const now = Date.now();
+    return Promise.all(config.numbers.map(number => this.describe(number, config, connectedIds, now)));
+  }
+
+  /**
+   * اختيار رقم الإرسال لرسالة آلية حسب سياسة التوزيع - أو وقت المحاولة التالية إذا لم يتوفر رقم
+   */
+  static async pick(customerPhone: string, connectedIds: string[]): Promise<SenderPick> {
+    const config = await this.getConfig();
+    const health = await this.getHealth(connectedIds);
+    const available = health.filter(sender => sender.available);
+
+    if (available.length === 0) {
+      const waits = health.map(sender => sender.availableAt).filter((time): time is number => time !== null);
+      return waits.length > 0
+        ? { sessionId: null, retryAt: Math.min(...waits), reason: 'all sender numbers are at their cap or cooling down' }
+        : { sessionId: null, retryAt: Date.now() + NO_SENDER_RETRY_MS, reason: 'no sender number is connected' };
+    }
+
+    const state = this.load();
+    const phone = normalizePhone(customerPhone);
+    let sessionId: string;
+    if (config.routing === 'failover') {
+      sessionId = available[0].id;
+    } else {
+      const sticky = config.routing === 'sticky' ? state.sticky[phone] : undefined;
+      if (sticky && available.some(sender => sender.id === sticky.sessionId)) {
+        sessionId = sticky.sessionId;
+      } else {
+        // Round-robin, also for a sticky customer whose number is down or full - they move to the next one
+        sessionId = available[state.cursor % available.length].id;
+        state.cursor = (state.cursor + 1) % 1000000;
+      }
+    }
+
+    if (config.routing === 'sticky') {
+      state.sticky[phone] = { sessionId, at: Date.now() };
+    }
+    this.schedulePersist();
+    return { sessionId };
+  }
+
+  /**
+   * الرقم الذي يرد على العميل (ردود صندوق الرسائل والردود التلقائية) - لا يخضع للسقف اليومي
+   */
+  static async sessionFor(customerPhone: string, connectedIds: string[]): Promise<string> {
+    const config = await this.getConfig();
+    const sticky = this.load().sticky[normalizePhone(customerPhone)];
+    if (sticky && connectedIds.includes(sticky.sessionId)) {
+      return sticky.sessionId;
+    }
+    const fallback = config.numbers.find(number => number.enabled && connectedIds.includes(number.id));
+    return fallback ? fallback.id : DEFAULT_SESSION_ID;
+  }
+
+  /**
+   * العميل راسل هذا الرقم - الردود التالية تخرج منه
+   */
+  static rememberCustomer(customerPhone: string, sessionId: string): void {
+    this.load().sticky[normalizePhone(customerPhone)] = { sessionId, at: Date.now() };
+    this.schedulePersist();
+  }
+
+  static recordSend(sessionId: string, success: boolean, error?: string): void {
+    const state = this.load();
+    const now = Date.now();
+    if (success) {
+      state.sentAt[sessionId] = [...this.sentWithin(sessionId, now), now];
+      delete state.failures[sessionId];
+    } else {
+      const previous = state.failures[sessionId];
+      state.failures[sessionId] = {
+        consecutive: (previous?.consecutive || 0) + 1,
+        lastFailureAt: now,
+        lastError: error || 'send failed'
+      };
+    }
+    this.schedulePersist();
+  }
+
+  static validate(config: SenderPoolConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['senderPool must be an object'], warnings };
+    }
+    if (!['round-robin', 'sticky', 'failover'].includes(config.routing)) {
+      errors.push('routing must be round-robin, sticky or failover');
+    }
+    if (typeof config.maxConsecutiveFailures !== 'number' || config.maxConsecutiveFailures < 1 || config.maxConsecutiveFailures > 50) {
+      errors.push('maxConsecutiveFailures must be between 1 and 50');
+    }
+    if (typeof config.failureCooldownMinutes !== 'number' || config.failureCooldownMinutes < 1 || config.failureCooldownMinutes > 24 * 60) {
+      errors.push('failureCooldownMinutes must be between 1 and 1440');
+    }
+    if (!Array.isArray(config.numbers) || config.numbers.length === 0) {
+      return { isValid: false, errors: [...errors, 'numbers must list at least one sender'], warnings };
+    }
+
+    const ids = new Set<string>();
+    config.numbers.forEach((number, index) => {
+      const label = number.name || number.id || `#${index + 1}`;
+      if (!number.id || !/^[a-z0-9-]+$/.test(number.id)) {
+        errors.push(`Number ${label}: id must use lowercase letters, digits and dashes`);
+      } else if (ids.has(number.id)) {
+        errors.push(`Number ${label}: duplicate id "${number.id}"`);
+      }
+      ids.add(number.id);
+      if (typeof number.dailyCap !== 'number' || number.dailyCap < 1 || number.dailyCap > 50000) {
+        errors.push(`Number ${label}: dailyCap must be between 1 and 50000`);
+      }
+    });
+
+    if (!ids.has(DEFAULT_SESSION_ID)) {
+      errors.push(`The main number "${DEFAULT_SESSION_ID}" cannot be removed`);
+    }
+    if (!config.numbers.some(number => number.enabled)) {
+      warnings.push('No sender number is enabled - automated messages wait in the queue');
+    }
+    if (config.routing === 'failover' && config.numbers.filter(number => number.enabled).length === 1) {
+      warnings.push('failover needs a second enabled number to fail over to');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,240 @@
+import { ConfigService } from './config';
+import { TenantService } from './tenant';
+import type { RuleMessageType, SmsConfig, SmsHttpGatewayConfig, SmsProviderType } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const MAX_OUTBOX = 50;
+// Multi-part messages lose a few characters per part to the joining header
+const GSM_LIMITS = { single: 160, part: 153 };
+const UNICODE_LIMITS = { single: 70, part: 67 };
+// Longer templates cost more than three messages per customer
+const MAX_TEMPLATE_SEGMENTS = 3;
+
+// The basic GSM-7 alphabet - anything else (Arabic, emoji) forces UCS-2
+const GSM_CHARS = /^[A-Za-z0-9 @£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ!"#¤%&'()*+,\-./:;<=>?¡ÄÖÑÜ§¿äöñüà\n\r]*$/;
+
+export interface SmsSegments {
+  encoding: 'gsm' | 'unicode';
+  length: number;
+  segments: number;
+}
+
+export interface StubSmsMessage {
+  id: string;
+  to: string;
+  sender: string;
+  text: string;
+  sentAt: string;
+}
+
+/**
+ * مزود رسائل SMS - بوابة HTTP لمزود الخدمة أو مزود تجريبي لا يرسل شيئاً
+ */
+export interface SmsProvider {
+  readonly type: SmsProviderType;
+  send(phoneNumber: string, text: string, sender: string): Promise<string | null>;
+}
+
+/**
+ * بوابة HTTP عامة: الرابط والمعاملات والهيدرز من الإعدادات، فتناسب أغلب مزودي SMS في مصر
+ */
+export class HttpSmsProvider implements SmsProvider {
+  readonly type = 'http' as const;
+
+  constructor(private readonly config: SmsHttpGatewayConfig) {}
+
+  async send(phoneNumber: string, text: string, sender: string): Promise<string | null> {
+    const values: Record<string, string> = { phone: phoneNumber, message: text, sender };
+    const fill = (value: string, encode: (text: string) => string = text => text) =>
+      value.replace(/\{(phone|message|sender)\}/g, (_, key) => encode(values[key]));
+
+    try {
+      const params = Object.fromEntries(Object.entries(this.config.params || {}).map(([key, value]) => [key, fill(value)]));
+      const headers = Object.fromEntries(Object.entries(this.config.headers || {}).map(([key, value]) => [key, fill(value)]));
+
+      // GET gateways often take everything in the url itself
+      let url = fill(this.config.url, encodeURIComponent);
+      let body: string | undefined;
+      if (this.config.method === 'GET' || this.config.bodyFormat === 'query') {
+        const target = new URL(url);
+        for (const [key, value] of Object.entries(params)) target.searchParams.set(key, value);
+        url = target.toString();
+      } else if (this.config.bodyFormat === 'json') {
+        body = JSON.stringify(params);
+        headers['Content-Type'] ||= 'application/json';
+      } else {
+        body = new URLSearchParams(params).toString();
+        headers['Content-Type'] ||= 'application/x-www-form-urlencoded';
+      }
+
+      const response = await fetch(url, {
+        method: this.config.method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      const responseText = await response.text();
+      if (!response.ok) {
+        throw new Error(`SMS gateway responded with ${response.status}: ${responseText.slice(0, 200)}`);
+      }
+      // Many gateways answer 200 with an error code in the body
+      if (this.config.successMatch && !responseText.includes(this.config.successMatch)) {
+        throw new Error(`SMS gateway rejected the message: ${responseText.slice(0, 200)}`);
+      }
+      return this.readMessageId(responseText) || `sms_${Date.now()}`;
+    } catch (error) {
+      console.error(`❌ SMS to ${phoneNumber} failed:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private readMessageId(responseText: string): string | null {
+    if (!this.config.messageIdPath) return null;
+    try {
+      const value = this.config.messageIdPath
+        .split('.')
+        .reduce<unknown>((node, key) => (node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), JSON.parse(responseText));
+      return value == null ? null : String(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * مزود تجريبي: يسجل الرسائل في صندوق صادر محلي بدلاً من إرسالها
+ */
+export class StubSmsProvider implements SmsProvider {
+  readonly type = 'stub' as const;
+
+  constructor(private readonly outbox: StubSmsMessage[]) {}
+
+  async send(phoneNumber: string, text: string, sender: string): Promise<string | null> {
+    const message: StubSmsMessage = {
+      id: `stub_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      to: phoneNumber,
+      sender,
+      text,
+      sentAt: new Date().toISOString()
+    };
+    this.outbox.unshift(message);
+    this.outbox.splice(MAX_OUTBOX);
+    console.log(`📨 [SMS stub] → ${phoneNumber}: ${text}`);
+    return message.id;
+  }
+}
+
+/**
+ * قناة SMS الاحتياطية للعملاء غير المسجلين على الواتساب
+ */
+export class SmsService {
+  private static scope = TenantService.scoped(() => ({ outbox: [] as StubSmsMessage[] }));
+
+  static async getConfig(): Promise<SmsConfig> {
+    return ConfigService.getSmsConfig();
+  }
+
+  static createProvider(config: SmsConfig): SmsProvider {
+    return config.provider === 'http' ? new HttpSmsProvider(config.http) : new StubSmsProvider(this.scope().outbox);
+  }
+
+  /**
+   * الأرقام محفوظة بالصيغة الدولية بدون + - بعض المزودين يطلبون صيغة أخرى
+   */
+  static formatPhone(phoneNumber: string, format: SmsConfig['phoneFormat']): string {
+    const digits = phoneNumber.replace(/\D/g, '');
+    if (format === 'plus') return `+${digits}`;
+    if (format === 'local' && digits.startsWith('20')) return `0${digits.slice(2)}`;
+    return digits;
+  }
+
+  static async send(phoneNumber: string, text: string, config?: SmsConfig): Promise<string | null> {
+    const sms = config || await this.getConfig();
+    return this.createProvider(sms).send(this.formatPhone(phoneNumber, sms.phoneFormat), text, sms.senderId);
+  }
+
+  /**
+   * النسخة القصيرة من القالب لعميل SMS - أو قالب الواتساب إذا لم تُكتب نسخة
+   */
+  static pickTemplate(config: SmsConfig, messageType: RuleMessageType, fallback: { template: string; variantId?: string }): { template: string; variantId?: string } {
+    const template = config.templates?.[messageType];
+    return template?.trim() ? { template } : fallback;
+  }
+
+  static countSegments(text: string): SmsSegments {
+    const encoding = GSM_CHARS.test(text) ? 'gsm' : 'unicode';
+    const limits = encoding === 'gsm' ? GSM_LIMITS : UNICODE_LIMITS;
+    // UCS-2 counts in UTF-16 code units, so an emoji takes two
+    const length = text.length;
+    const segments = length <= limits.single ? 1 : Math.ceil(length / limits.part);
+    return { encoding, length, segments };
+  }
+
+  static getOutbox(): StubSmsMessage[] {
+    return this.scope().outbox;
+  }
+
+  static validate(config: SmsConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['sms must be an object'], warnings };
+    }
+    if (!['http', 'stub'].includes(config.provider)) {
+      errors.push('provider must be http or stub');
+    }
+    if (!['international', 'plus', 'local'].includes(config.phoneFormat)) {
+      errors.push('phoneFormat must be international, plus or local');
+    }
+
+    if (config.provider === 'http') {
+      const http = config.http;
+      if (!http || typeof http !== 'object') {
+        return { isValid: false, errors: [...errors, 'http gateway settings are required for the http provider'], warnings };
+      }
+      try {
+        const url = new URL(http.url);
+        if (url.protocol === 'http:' && !['localhost', '127.0.0.1'].includes(url.hostname)) {
+          warnings.push('Gateway url uses plain http - credentials are sent unencrypted');
+        }
+      } catch {
+        errors.push('Gateway url must be a valid URL');
+      }
+      if (!['GET', 'POST'].includes(http.method)) {
+        errors.push('method must be GET or POST');
+      }
+      if (!['json', 'form', 'query'].includes(http.bodyFormat)) {
+        errors.push('bodyFormat must be json, form or query');
+      }
+      const placeholders = [...Object.values(http.params || {}), http.url].join(' ');
+      if (!placeholders.includes('{phone}')) {
+        errors.push('One gateway parameter must contain {phone}');
+      }
+      if (!placeholders.includes('{message}')) {
+        errors.push('One gateway parameter must contain {message}');
+      }
+      if (!http.successMatch) {
+        warnings.push('successMatch is empty - any 2xx reply counts as sent, even if the gateway reports an error in the body');
+      }
+    }
+
+    if (config.enabled && !config.senderId) {
+      warnings.push('senderId is empty - most Egyptian gateways reject messages without an approved sender name');
+    }
+    if (config.enabled && config.provider === 'stub') {
+      warnings.push('The stub provider only logs messages - customers without WhatsApp receive nothing');
+    }
+
+    for (const [messageType, template] of Object.entries(config.templates || {})) {
+      if (!template?.trim()) continue;
+      const { segments } = this.countSegments(template);
+      if (segments > MAX_TEMPLATE_SEGMENTS) {
+        warnings.push(`SMS template for ${messageType} is ${segments} messages long before variables are filled in`);
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,179 @@
+import { ConfigService } from './config';
+import { normalizeArabic } from '../utils/arabic';
+import type { StatusRule, StatusRuleAction, StatusRulesConfig, RuleMessageType } from '../types/config';
+
+const RULE_MESSAGE_TYPES: RuleMessageType[] = ['newOrder', 'noAnswer', 'shipped', 'rejectedOffer', 'reminder'];
+const RULE_ACTION_TYPES: StatusRuleAction['type'][] = ['send', 'schedule', 'cancelPending', 'markFinal'];
+
+export interface StatusRulesValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export class StatusRulesService {
+  /**
+   * تحميل القواعد المفعلة فقط
+   */
+  static async getActiveRules(): Promise<StatusRule[]> {
+    const config = await ConfigService.getStatusRules();
+    return (config.rules || []).filter(rule => rule.enabled !== false);
+  }
+
+  /**
+   * إيجاد أول قاعدة تطابق الحالة (الترتيب في الملف هو الأولوية)
+   */
+  static matchRule(orderStatus: string, rules: StatusRule[]): StatusRule | null {
+    const raw = (orderStatus || '').trim();
+    const normalized = normalizeArabic(raw);
+
+    for (const rule of rules) {
+      if ((rule.statuses || []).some(status => normalizeArabic(status) === normalized)) {
+        return rule;
+      }
+
+      for (const pattern of rule.patterns || []) {
+        try {
+          if (new RegExp(pattern, 'i').test(raw)) {
+            return rule;
+          }
+        } catch {
+          // Invalid patterns are reported by validate(); skip at runtime
+        }
+      }
+    }
+
+    return null;
+  }
+
+  static async findRule(orderStatus: string): Promise<StatusRule | null> {
+    const rules = await this.getActiveRules();
+    return this.matchRule(orderStatus, rules);
+  }
+
+  /**
+   * هل الحالة تستحق رسالة تذكير
+   */
+  static isReminderEligible(orderStatus: string, rules: StatusRule[]): boolean {
+    const rule = this.matchRule(orderStatus, rules);
+    return !!rule?.remind && !rule.actions.some(action => action.type === 'markFinal');
+  }
+
+  /**
+   * هل القاعدة المطابقة للحالة ترسل (أو تجدول) هذا القالب
+   * - تستخدم لإعادة التحقق من حالة الطلب قبل إرسال رسالة مجدولة
+   */
+  static triggersTemplate(orderStatus: string, template: RuleMessageType, rules: StatusRule[]): boolean {
+    const rule = this.matchRule(orderStatus, rules);
+    return !!rule && rule.actions.some(action =>
+      (action.type === 'send' || action.type === 'schedule') && action.template === template
+    );
+  }
+
+  /**
+   * جميع قيم الحالات المعرفة في القواعد المفعلة (للعرض والتشخيص)
+   */
+  static async getSupportedStatuses(): Promise<string[]> {
+    const rules = await this.getActiveRules();
+    return rules.flatMap(rule => rule.statuses || []);
+  }
+
+  /**
+   * التحقق من صحة إعداد القواعد قبل الحفظ
+   */
+  static validate(config: StatusRulesConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || !Array.isArray(config.rules)) {
+      return { isValid: false, errors: ['rules must be an array'], warnings };
+    }
+
+    const seenIds = new Set<string>();
+    const seenStatuses = new Map<string, string>();
+
+    config.rules.forEach((rule, index) => {
+      const label = rule?.id ? `Rule "${rule.id}"` : `Rule #${index + 1}`;
+
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`${label}: must be an object`);
+        return;
+      }
+
+      if (!rule.id || typeof rule.id !== 'string') {
+        errors.push(`${label}: missing id`);
+      } else if (seenIds.has(rule.id)) {
+        errors.push(`${label}: duplicate id`);
+      } else {
+        seenIds.add(rule.id);
+      }
+
+      if (!rule.name || typeof rule.name !== 'string') {
+        errors.push(`${label}: missing name`);
+      }
+
+      const statuses = Array.isArray(rule.statuses) ? rule.statuses : [];
+      const patterns = Array.isArray(rule.patterns) ? rule.patterns : [];
+
+      if (!Array.isArray(rule.statuses)) {
+        errors.push(`${label}: statuses must be an array`);
+      }
+      if (rule.patterns !== undefined && !Array.isArray(rule.patterns)) {
+        errors.push(`${label}: patterns must be an array`);
+      }
+      if (statuses.length === 0 && patterns.length === 0) {
+        errors.push(`${label}: at least one status or pattern is required`);
+      }
+
+      for (const status of statuses) {
+        if (typeof status !== 'string') {
+          errors.push(`${label}: statuses must be strings`);
+          continue;
+        }
+        const key = normalizeArabic(status);
+        const owner = seenStatuses.get(key);
+        if (owner && owner !== rule.id && rule.enabled !== false) {
+          warnings.push(`${label}: status "${status}" is already handled by rule "${owner}" and will never match here`);
+        } else if (rule.enabled !== false) {
+          seenStatuses.set(key, rule.id);
+        }
+      }
+
+      for (const pattern of patterns) {
+        try {
+          new RegExp(pattern, 'i');
+        } catch {
+          errors.push(`${label}: invalid pattern "${pattern}"`);
+        }
+      }
+
+      if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+        errors.push(`${label}: at least one action is required`);
+        return;
+      }
+
+      for (const action of rule.actions) {
+        if (!action || !RULE_ACTION_TYPES.includes(action.type)) {
+          errors.push(`${label}: unknown action type "${(action as { type?: unknown } | null)?.type}"`);
+          continue;
+        }
+        if (action.type === 'send' || action.type === 'schedule') {
+          if (!RULE_MESSAGE_TYPES.includes(action.template)) {
+            errors.push(`${label}: unknown template "${action.template}"`);
+          }
+        }
+        if (action.type === 'schedule' && action.delayHours !== undefined) {
+          if (typeof action.delayHours !== 'number' || action.delayHours <= 0 || action.delayHours > 336) {
+            errors.push(`${label}: delayHours must be between 0 and 336`);
+          }
+        }
+      }
+
+      if (rule.remind && rule.actions.some(action => action.type === 'markFinal')) {
+        warnings.push(`${label}: final rules never receive reminders`);
+      }
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import { ConfigService } from './config';
+import { OrderStateService } from './order-state';
+import { StatusRulesService, type StatusRulesValidation } from './status-rules';
+import type { RuleMessageType, TemplateExperimentsConfig, TemplateVariant } from '../types/config';
+
+export interface VariantChoice {
+  template: string;
+  variantId?: string;          // فارغ عندما لا توجد تجربة مفعلة لهذا النوع
+}
+
+export interface VariantResult {
+  id: string;
+  name: string;
+  weight: number;
+  sent: number;                // عدد الطلبات التي استلمت هذه النسخة
+  decided: number;             // تغيرت حالتها أو انتهت مدة التحويل
+  pending: number;             // ما زالت داخل مدة التحويل بدون تغيير
+  converted: number;
+  conversionRate: number;      // % من decided
+}
+
+export interface ExperimentResult {
+  messageType: RuleMessageType;
+  enabled: boolean;
+  variants: VariantResult[];
+}
+
+export interface ExperimentResults {
+  conversionWindowHours: number;
+  successRuleIds: string[];
+  experiments: ExperimentResult[];
+}
+
+const MESSAGE_TYPES: RuleMessageType[] = ['newOrder', 'noAnswer', 'shipped', 'rejectedOffer', 'reminder'];
+
+/**
+ * اختبار A/B لنصوص الرسائل: توزيع الطلبات على النسخ حسب الوزن وقياس التحويل من تغير الحالة التالي
+ */
+export class TemplateExperimentService {
+  static async getConfig(): Promise<TemplateExperimentsConfig> {
+    const defaults = ConfigService.getDefaultTemplateExperiments();
+    const config = await ConfigService.getTemplateExperiments();
+    return { ...defaults, ...config, experiments: config.experiments || {} };
+  }
+
+  /**
+   * اختيار نسخة للطلب - ثابت لنفس الطلب ونوع الرسالة حتى تبقى النسخة كما هي عند إعادة المحاولة
+   */
+  static pickVariant(
+    config: TemplateExperimentsConfig,
+    orderId: string,
+    messageType: RuleMessageType,
+    baseTemplate: string
+  ): VariantChoice {
+    const experiment = config.experiments?.[messageType];
+    const variants = (experiment?.variants || []).filter(variant => variant.weight > 0);
+    if (!experiment?.enabled || variants.length === 0) {
+      return { template: baseTemplate };
+    }
+
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const hash = crypto.createHash('md5').update(`${orderId}:${messageType}`).digest();
+    let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+    let chosen: TemplateVariant = variants[variants.length - 1];
+    for (const variant of variants) {
+      if (point < variant.weight) {
+        chosen = variant;
+        break;
+      }
+      point -= variant.weight;
+    }
+
+    return { template: chosen.text?.trim() ? chosen.text : baseTemplate, variantId: chosen.id };
+  }
+
+  /**
+   * نتائج التجارب من الطلبات المحفوظة: التحويل = أول تغير للحالة بعد الإرسال إلى حالة نجاح خلال المدة المحددة
+   */
+  static async getResults(): Promise<ExperimentResults> {
+    const config = await this.getConfig();
+    const rules = await StatusRulesService.getActiveRules();
+    const successRuleIds = new Set(config.successRuleIds || []);
+    const windowMs = (config.conversionWindowHours || 48) * 60 * 60 * 1000;
+    const now = Date.now();
+    const states = await OrderStateService.getAll();
+
+    const experiments: ExperimentResult[] = [];
+    for (const messageType of MESSAGE_TYPES) {
+      const experiment = config.experiments?.[messageType];
+      const results = new Map<string, VariantResult>();
+      for (const variant of experiment?.variants || []) {
+        results.set(variant.id, { id: variant.id, name: variant.name, weight: variant.weight, sent: 0, decided: 0, pending: 0, converted: 0, conversionRate: 0 });
+      }
+
+      for (const state of states) {
+        const exposure = state.experiments?.[messageType];
+        if (!exposure) continue;
+
+        let result = results.get(exposure.variantId);
+        if (!result) {
+          // Variant removed from the config after orders received it
+          result = { id: exposure.variantId, name: exposure.variantId, weight: 0, sent: 0, decided: 0, pending: 0, converted: 0, conversionRate: 0 };
+          results.set(exposure.variantId, result);
+        }
+
+        result.sent++;
+        const changedInWindow = exposure.nextStatus !== undefined
+          && exposure.nextStatusAt !== undefined
+          && exposure.nextStatusAt - exposure.sentAt <= windowMs;
+
+        if (changedInWindow) {
+          result.decided++;
+          const rule = StatusRulesService.matchRule(exposure.nextStatus!, rules);
+          if (rule && successRuleIds.has(rule.id)) result.converted++;
+        } else if (exposure.nextStatus !== undefined || now - exposure.sentAt > windowMs) {
+          result.decided++;
+        } else {
+          result.pending++;
+        }
+      }
+
+      if (!experiment && results.size === 0) continue;
+
+      const variants = Array.from(results.values()).map(result => ({
+        ...result,
+        conversionRate: result.decided > 0 ? Math.round((result.converted / result.decided) * 1000) / 10 : 0
+      }));
+      experiments.push({ messageType, enabled: !!experiment?.enabled, variants });
+    }
+
+    return {
+      conversionWindowHours: config.conversionWindowHours,
+      successRuleIds: config.successRuleIds,
+      experiments
+    };
+  }
+
+  /**
+   * التحقق من إعدادات التجارب قبل الحفظ
+   */
+  static validate(config: TemplateExperimentsConfig, ruleIds: string[] = []): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['templateExperiments must be an object'], warnings };
+    }
+
+    if (typeof config.conversionWindowHours !== 'number' || config.conversionWindowHours <= 0 || config.conversionWindowHours > 720) {
+      errors.push('conversionWindowHours must be between 1 and 720');
+    }
+
+    if (!Array.isArray(config.successRuleIds) || config.successRuleIds.length === 0) {
+      errors.push('successRuleIds must list at least one status rule');
+    } else if (ruleIds.length > 0) {
+      for (const id of config.successRuleIds) {
+        if (!ruleIds.includes(id)) warnings.push(`successRuleIds: unknown rule "${id}"`);
+      }
+    }
+
+    for (const [messageType, experiment] of Object.entries(config.experiments || {})) {
+      if (!experiment) continue;
+      if (!MESSAGE_TYPES.includes(messageType as RuleMessageType)) {
+        errors.push(`Unknown message type "${messageType}"`);
+        continue;
+      }
+      if (!Array.isArray(experiment.variants)) {
+        errors.push(`${messageType}: variants must be an array`);
+        continue;
+      }
+
+      const seenIds = new Set<string>();
+      experiment.variants.forEach((variant, index) => {
+        const label = variant?.id ? `${messageType} variant "${variant.id}"` : `${messageType} variant #${index + 1}`;
+        if (!variant?.id) {
+          errors.push(`${label}: missing id`);
+        } else if (seenIds.has(variant.id)) {
+          errors.push(`${label}: duplicate id`);
+        } else {
+          seenIds.add(variant.id);
+        }
+        if (typeof variant.weight !== 'number' || !Number.isFinite(variant.weight) || variant.weight < 0) {
+          errors.push(`${label}: weight must be a positive number`);
+        }
+      });
+
+      if (experiment.enabled) {
+        const active = experiment.variants.filter(variant => variant.weight > 0);
+        if (active.length < 2) {
+          warnings.push(`${messageType}: an enabled experiment needs at least two variants with weight > 0`);
+        }
+        if (experiment.variants.filter(variant => !variant.text?.trim()).length > 1) {
+          warnings.push(`${messageType}: more than one variant uses the base template text`);
+        }
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
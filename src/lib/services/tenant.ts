@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { NextRequest } from 'next/server';
+import type { Tenant } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const ROOT_DIR = process.env.CONFIG_DIR || path.resolve('./config');
+const REGISTRY_PATH = path.join(ROOT_DIR, 'tenants.json');
+const TENANTS_DIR = path.join(ROOT_DIR, 'tenants');
+
+// The store that existed before tenants keeps its files directly in config/
+export const DEFAULT_TENANT_ID = 'default';
+export const TENANT_COOKIE = 'tenant';
+export const TENANT_HEADER = 'x-tenant-id';
+
+// Store whose data the current async call chain reads and writes; unset means the default store
+const tenantContext = new AsyncLocalStorage<string>();
+
+/**
+ * المتاجر: كل متجر له ملفات إعداداته وحالته وجلسة الواتساب ودورة المحرك الخاصة به
+ */
+export class TenantService {
+  private static tenants: Tenant[] | null = null;
+  private static scopes: Array<Map<string, unknown>> = [];
+
+  static currentId(): string {
+    return tenantContext.getStore() || DEFAULT_TENANT_ID;
+  }
+
+  /**
+   * تشغيل دالة في سياق متجر - كل ما تستدعيه (حتى المؤقتات والوعود) يقرأ ويكتب بيانات هذا المتجر
+   */
+  static run<T>(tenantId: string, fn: () => T): T {
+    return tenantContext.run(tenantId, fn);
+  }
+
+  static getDataDir(tenantId: string = this.currentId()): string {
+    return tenantId === DEFAULT_TENANT_ID ? ROOT_DIR : path.join(TENANTS_DIR, tenantId);
+  }
+
+  /**
+   * مفتاح Redis خاص بالمتجر - مفاتيح المتجر الرئيسي لا تتغير
+   */
+  static redisKey(key: string, tenantId: string = this.currentId()): string {
+    return tenantId === DEFAULT_TENANT_ID ? key : `tenant:${tenantId}:${key}`;
+  }
+
+  /**
+   * نسخة منفصلة من قيمة لكل متجر تُنشأ عند أول استخدام داخل المتجر
+   */
+  static scoped<T>(create: (tenantId: string) => T): () => T {
+    const values = new Map<string, T>();
+    this.scopes.push(values as Map<string, unknown>);
+    return () => {
+      const tenantId = this.currentId();
+      if (!values.has(tenantId)) {
+        values.set(tenantId, create(tenantId));
+      }
+      return values.get(tenantId)!;
+    };
+  }
+
+  private static load(): Tenant[] {
+    if (this.tenants) return this.tenants;
+    this.tenants = [];
+    try {
+      if (fs.existsSync(REGISTRY_PATH)) {
+        this.tenants = JSON.parse(fs.readFileSync(REGISTRY_PATH, 'utf-8'));
+      }
+    } catch (e) {
+      console.warn('Tenants: could not load the store list, using the main store only', e);
+    }
+    if (!this.tenants!.some(tenant => tenant.id === DEFAULT_TENANT_ID)) {
+      this.tenants!.unshift({ id: DEFAULT_TENANT_ID, name: 'المتجر الرئيسي', createdAt: new Date(0).toISOString() });
+    }
+    return this.tenants!;
+  }
+
+  private static save() {
+    try {
+      if (!fs.existsSync(ROOT_DIR)) {
+        fs.mkdirSync(ROOT_DIR, { recursive: true });
+      }
+      fs.writeFileSync(REGISTRY_PATH, JSON.stringify(this.load(), null, 2), 'utf-8');
+    } catch (e) {
+      console.error('Tenants: could not persist the store list', e);
+      throw new Error('Failed to write configuration file: tenants.json');
+    }
+  }
+
+  static list(): Tenant[] {
+    return [...this.load()];
+  }
+
+  static get(tenantId: string): Tenant | null {
+    return this.load().find(tenant => tenant.id === tenantId) || null;
+  }
+
+  static create(id: string, name: string): Tenant {
+    const tenant: Tenant = { id, name, createdAt: new Date().toISOString() };
+    this.load().push(tenant);
+    this.save();
+    fs.mkdirSync(this.getDataDir(id), { recursive: true });
+    console.log(`🏪 Store ${id} created`);
+    return tenant;
+  }
+
+  static rename(id: string, name: string): Tenant | null {
+    const tenant = this.get(id);
+    if (!tenant) return null;
+    tenant.name = name;
+    this.save();
+    return tenant;
+  }
+
+  /**
+   * حذف المتجر من القائمة - ملفاته تبقى في config/tenants/<id> ويمكن استرجاعها بإنشائه بنفس المعرف
+   */
+  static remove(id: string): boolean {
+    if (id === DEFAULT_TENANT_ID || !this.get(id)) return false;
+    this.tenants = this.load().filter(tenant => tenant.id !== id);
+    this.save();
+    for (const values of this.scopes) {
+      values.delete(id);
+    }
+    console.log(`🏪 Store ${id} removed from the store list`);
+    return true;
+  }
+
+  static validate(tenant: { id: string; name: string }, isNew: boolean): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!tenant.id || !/^[a-z0-9-]{2,32}$/.test(tenant.id)) {
+      errors.push('id must be 2-32 lowercase letters, digits and dashes');
+    } else if (isNew && this.get(tenant.id)) {
+      errors.push(`A store with id "${tenant.id}" already exists`);
+    } else if (isNew && fs.existsSync(this.getDataDir(tenant.id))) {
+      warnings.push(`Files from an earlier store "${tenant.id}" were found and will be reused`);
+    }
+    if (!tenant.name || !tenant.name.trim()) {
+      errors.push('name is required');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * المتجر المطلوب: ترويسة x-tenant-id، ثم ?tenant=، ثم كوكي مبدل المتاجر - والمتجر الرئيسي إذا لم يُحدد أو لم يعد موجوداً
+   */
+  static resolve(request?: NextRequest): string {
+    const requested = request?.headers.get(TENANT_HEADER)
+      || request?.nextUrl?.searchParams.get('tenant')
+      || request?.cookies?.get(TENANT_COOKIE)?.value;
+    return requested && this.get(requested) ? requested : DEFAULT_TENANT_ID;
+  }
+}
+
+/**
+ * Runs an API route handler inside the store the request selects
+ */
+export function withTenant<H extends (request: NextRequest, ...args: any[]) => Promise<Response>>(handler: H): H {
+  return ((request: NextRequest, ...args: any[]) =>
+    TenantService.run(TenantService.resolve(request), () => handler(request, ...args))) as H;
+}
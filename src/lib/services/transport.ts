@@ -0,0 +1,138 @@
+import { ConfigService } from './config';
+import type { WhatsAppPersistentConnection, InboundMessage, MessageAckEvent } from './whatsapp-persistent-connection';
+import type { MediaKind, TransportConfig, TransportProvider } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+export interface OutboundMedia {
+  kind: MediaKind;
+  mimeType: string;
+  url?: string;                // رابط عام للملف
+  data?: string;               // أو محتوى الملف base64
+  filename?: string;
+  caption?: string;
+}
+
+export interface SendTextOptions {
+  messageType?: string;        // نوع الرسالة الآلية - Cloud API يختار القالب المعتمد بناءً عليه
+}
+
+export interface TransportEvents {
+  onMessage: (message: InboundMessage) => void;
+  onMessageAck: (event: MessageAckEvent) => void;
+}
+
+/**
+ * طريقة إرسال واستقبال رسائل رقم واحد - واتساب ويب أو Cloud API
+ */
+export interface MessagingTransport {
+  readonly provider: TransportProvider;
+  readonly sessionId: string;
+  isConnected(): boolean;
+  sendText(phoneNumber: string, text: string, options?: SendTextOptions): Promise<string | null>;
+  sendMedia(phoneNumber: string, media: OutboundMedia): Promise<string | null>;
+  sendTyping(phoneNumber: string, durationMs: number): Promise<void>;
+  checkRegistration(phoneNumber: string): Promise<boolean | null>;   // null = لا يمكن التحقق
+  setEventHandlers(handlers: Partial<TransportEvents>): void;
+}
+
+/**
+ * واتساب ويب: متصفح Chromium لكل رقم مربوط بكود QR
+ */
+export class WebClientTransport implements MessagingTransport {
+  readonly provider = 'web' as const;
+
+  constructor(private readonly connection: WhatsAppPersistentConnection) {}
+
+  get sessionId(): string {
+    return this.connection.sessionId;
+  }
+
+  isConnected(): boolean {
+    return this.connection.getStatus().isConnected;
+  }
+
+  sendText(phoneNumber: string, text: string): Promise<string | null> {
+    return this.connection.sendMessage(phoneNumber, text);
+  }
+
+  sendMedia(phoneNumber: string, media: OutboundMedia): Promise<string | null> {
+    return this.connection.sendMedia(phoneNumber, media);
+  }
+
+  sendTyping(phoneNumber: string, durationMs: number): Promise<void> {
+    return this.connection.sendTyping(phoneNumber, durationMs);
+  }
+
+  checkRegistration(phoneNumber: string): Promise<boolean | null> {
+    return this.connection.isRegistered(phoneNumber);
+  }
+
+  setEventHandlers(handlers: Partial<TransportEvents>): void {
+    this.connection.setEventHandlers(handlers);
+  }
+}
+
+export class TransportService {
+  static async getConfig(): Promise<TransportConfig> {
+    return ConfigService.getTransportConfig();
+  }
+
+  static validate(config: TransportConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['transport must be an object'], warnings };
+    }
+    if (!['web', 'cloud-api'].includes(config.provider)) {
+      errors.push('provider must be web or cloud-api');
+    }
+    if (config.provider !== 'cloud-api') {
+      return { isValid: errors.length === 0, errors, warnings };
+    }
+
+    const cloudApi = config.cloudApi;
+    if (!cloudApi || typeof cloudApi !== 'object') {
+      return { isValid: false, errors: [...errors, 'cloudApi settings are required for the Cloud API'], warnings };
+    }
+    if (!/^\d+$/.test(cloudApi.phoneNumberId || '')) {
+      errors.push('phoneNumberId must be the numeric phone number id from Meta');
+    }
+    if (!cloudApi.accessToken) {
+      errors.push('accessToken is required');
+    }
+    if (!/^v\d+\.\d+$/.test(cloudApi.apiVersion || '')) {
+      errors.push('apiVersion must look like v20.0');
+    }
+    try {
+      const url = new URL(cloudApi.baseUrl);
+      if (url.protocol === 'http:' && !['localhost', '127.0.0.1'].includes(url.hostname)) {
+        warnings.push('baseUrl uses plain http - the access token is sent unencrypted');
+      }
+    } catch {
+      errors.push('baseUrl must be a valid URL');
+    }
+    if (!cloudApi.verifyToken) {
+      warnings.push('verifyToken is empty - Meta cannot verify the webhook, so replies and receipts will not arrive');
+    }
+    if (!cloudApi.appSecret) {
+      errors.push('appSecret is required - webhook calls cannot be verified without it and are refused');
+    }
+
+    const templates = Object.entries(cloudApi.templates || {});
+    for (const [messageType, template] of templates) {
+      if (!template) continue;
+      if (!/^[a-z0-9_]+$/.test(template.name || '')) {
+        errors.push(`Template for ${messageType}: name must use lowercase letters, digits and underscores`);
+      }
+      if (!/^[a-z]{2,3}(_[A-Z]{2})?$/.test(template.language || '')) {
+        errors.push(`Template for ${messageType}: language must be a code like ar or ar_EG`);
+      }
+    }
+    if (templates.length === 0) {
+      warnings.push('No approved templates - automated messages only reach customers who wrote in the last 24 hours');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
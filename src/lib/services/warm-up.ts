@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfigService } from './config';
+import { TenantService } from './tenant';
+import type { WarmUpConfig } from '../types/config';
+import type { StatusRulesValidation } from './status-rules';
+
+const FILE_NAME = 'whatsapp-link.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LinkRecord {
+  phone: string;
+  linkedAt: string | null;     // null = الرقم كان مربوطاً قبل بدء التتبع - لا نعرف عمره
+  recordedAt: string;
+}
+
+export interface WarmUpPlan {
+  enabled: boolean;
+  phone: string | null;
+  linkedAt: string | null;
+  active: boolean;             // الرقم داخل فترة التسخين والسقف مطبق
+  day: number | null;          // اليوم الحالي من التسخين (يبدأ من 1)
+  totalDays: number;
+  dailyCap: number | null;     // سقف اليوم الحالي (null = لا سقف من التسخين)
+  schedule: number[];          // سقف كل يوم من أيام التسخين
+  endsAt: string | null;
+}
+
+/**
+ * تسخين الأرقام الجديدة: سقف إرسال يومي يرتفع تدريجياً من تاريخ ربط الرقم
+ */
+export class WarmUpService {
+  private static scope = TenantService.scoped(() => ({ records: null as Record<string, LinkRecord> | null }));   // by sender session id
+
+  static async getConfig(): Promise<WarmUpConfig> {
+    const timing = await ConfigService.getTimingConfig();
+    return timing.warmUp || ConfigService.getDefaultWarmUp();
+  }
+
+  private static load(): Record<string, LinkRecord> {
+    const scope = this.scope();
+    if (scope.records) return scope.records;
+    scope.records = {};
+    try {
+      const filePath = path.join(TenantService.getDataDir(), FILE_NAME);
+      if (fs.existsSync(filePath)) {
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        // Files from before sender pools held the single number's record
+        scope.records = typeof data.phone === 'string' ? { default: data } : data;
+      }
+    } catch (e) {
+      console.warn('Warm-up: could not load link records', e);
+    }
+    return scope.records!;
+  }
+
+  private static save(sessionId: string, record: LinkRecord) {
+    const records = this.load();
+    records[sessionId] = record;
+    try {
+      const dir = TenantService.getDataDir();
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(dir, FILE_NAME), JSON.stringify(records, null, 2), 'utf-8');
+    } catch (e) {
+      console.warn('Warm-up: could not persist link records', e);
+    }
+  }
+
+  static getLinkRecord(sessionId: string): LinkRecord | null {
+    return this.load()[sessionId] || null;
+  }
+
+  /**
+   * تسجيل الرقم المتصل عند جاهزية الجلسة - تاريخ الربط يبدأ فقط عند مسح QR لرقم جديد
+   */
+  static recordLink(sessionId: string, phone: string, viaQr: boolean): void {
+    const existing = this.getLinkRecord(sessionId);
+    if (existing && existing.phone === phone) return;
+
+    // A session restored from disk with no record was linked before tracking began - its age is unknown
+    const now = new Date().toISOString();
+    this.save(sessionId, { phone, linkedAt: viaQr || existing ? now : null, recordedAt: now });
+    console.log(viaQr || existing
+      ? `🌱 New WhatsApp number ${phone} linked to ${sessionId} - warm-up starts today`
+      : `🌱 WhatsApp number ${phone} (${sessionId}) was linked before warm-up tracking - no warm-up applied`);
+  }
+
+  /**
+   * بدء التسخين من اليوم لرقم (مثلاً لرقم قديم لم يُتتبع أو بعد حظر)
+   */
+  static restart(sessionId: string): LinkRecord | null {
+    const existing = this.getLinkRecord(sessionId);
+    if (!existing) return null;
+    this.save(sessionId, { ...existing, linkedAt: new Date().toISOString() });
+    return this.getLinkRecord(sessionId);
+  }
+
+  /**
+   * سقف كل يوم: زيادة بنسبة ثابتة من سقف اليوم الأول حتى سقف آخر يوم
+   */
+  static buildSchedule(config: WarmUpConfig): number[] {
+    const days = Math.max(1, Math.floor(config.days));
+    if (days === 1) return [config.targetPerDay];
+    const growth = Math.pow(config.targetPerDay / config.startPerDay, 1 / (days - 1));
+    return Array.from({ length: days }, (_, day) => Math.round(config.startPerDay * Math.pow(growth, day)));
+  }
+
+  static getPlan(config: WarmUpConfig, sessionId: string, now: number = Date.now()): WarmUpPlan {
+    const record = this.getLinkRecord(sessionId);
+    const schedule = this.buildSchedule(config);
+    const linkedAt = record?.linkedAt ? new Date(record.linkedAt).getTime() : null;
+    const dayIndex = linkedAt !== null ? Math.max(0, Math.floor((now - linkedAt) / DAY_MS)) : null;
+    const active = config.enabled && dayIndex !== null && dayIndex < schedule.length;
+
+    return {
+      enabled: config.enabled,
+      phone: record?.phone || null,
+      linkedAt: record?.linkedAt || null,
+      active,
+      day: dayIndex !== null ? dayIndex + 1 : null,
+      totalDays: schedule.length,
+      dailyCap: active ? schedule[dayIndex!] : null,
+      schedule,
+      endsAt: linkedAt !== null ? new Date(linkedAt + schedule.length * DAY_MS).toISOString() : null
+    };
+  }
+
+  /**
+   * سقف اليوم من التسخين لرقم (null = الرقم خارج فترة التسخين)
+   */
+  static async getDailyCap(sessionId: string): Promise<number | null> {
+    return this.getPlan(await this.getConfig(), sessionId).dailyCap;
+  }
+
+  static validate(config: WarmUpConfig): StatusRulesValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!config || typeof config !== 'object') {
+      return { isValid: false, errors: ['warmUp must be an object'], warnings };
+    }
+    if (typeof config.days !== 'number' || !Number.isInteger(config.days) || config.days < 1 || config.days > 90) {
+      errors.push('days must be a whole number between 1 and 90');
+    }
+    if (typeof config.startPerDay !== 'number' || config.startPerDay < 1 || config.startPerDay > 50000) {
+      errors.push('startPerDay must be between 1 and 50000');
+    }
+    if (typeof config.targetPerDay !== 'number' || config.targetPerDay < 1 || config.targetPerDay > 50000) {
+      errors.push('targetPerDay must be between 1 and 50000');
+    }
+    if (errors.length > 0) {
+      return { isValid: false, errors, warnings };
+    }
+
+    if (config.targetPerDay < config.startPerDay) {
+      errors.push('targetPerDay must be greater than or equal to startPerDay');
+    }
+    if (config.enabled && config.startPerDay > 50) {
+      warnings.push('More than 50 messages on the first day is risky for a new number');
+    }
+    if (config.enabled && config.days < 7) {
+      warnings.push('Warm-ups shorter than a week ramp up quickly - each day multiplies the cap');
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+}
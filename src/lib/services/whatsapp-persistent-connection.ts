@@ -1,9 +1,14 @@
-import { Client, LocalAuth, ClientInfo } from 'whatsapp-web.js';
+import { Client, LocalAuth, ClientInfo, MessageMedia, type ContactId } from 'whatsapp-web.js';
 import { ensureFetchPolyfill } from '../utils/fetch-polyfill';
 import { setupGlobalErrorHandlers } from '../utils/error-handler';
 import fs from 'fs';
 import path from 'path';
 import * as QRCode from 'qrcode';
+import type { DeliveryStatus } from './message-tracker';
+import type { OutboundMedia } from './transport';
+import { WarmUpService } from './warm-up';
+import { DEFAULT_SESSION_ID } from './sender-pool';
+import { TenantService, DEFAULT_TENANT_ID } from './tenant';
 
 // Setup global error handlers
 setupGlobalErrorHandlers();
@@ -59,7 +64,32 @@ interface ConnectionHealth {
   lastSuccessfulMessage: Date | null;
 }
 
+// wwebjs MessageAck: -1 error, 0 pending, 1 server, 2 device, 3 read, 4 played (voice notes)
+const ACK_STATUSES: Record<number, DeliveryStatus> = {
+  [-1]: 'failed',
+  1: 'server',
+  2: 'delivered',
+  3: 'read',
+  4: 'read'
+};
+
+export interface MessageAckEvent {
+  id: string;                  // معرف الرسالة الذي أعاده sendMessage
+  status: DeliveryStatus;
+  timestamp: number;           // ms
+}
+
+export interface InboundMessage {
+  id: string;
+  from: string;                // رقم المرسل بدون @c.us
+  body: string;
+  timestamp: number;           // ms
+  sessionId: string;           // رقم الإرسال الذي استقبل الرسالة
+}
+
 interface PersistentConnectionEvents {
+  onMessage: (message: InboundMessage) => void;
+  onMessageAck: (event: MessageAckEvent) => void;
   onConnected: () => void;
   onDisconnected: (reason: string) => void;
   onReconnecting: (attempt: number) => void;
@@ -68,11 +98,16 @@ interface PersistentConnectionEvents {
 }
 
 export class WhatsAppPersistentConnection {
-  private static instance: WhatsAppPersistentConnection | null = null;
+  private static instances = new Map<string, WhatsAppPersistentConnection>();   // by <tenant>/<session>
+  public readonly sessionId: string;
+  public readonly tenantId: string;
+  private readonly clientId: string;
+  private readonly sessionDir: string;   // LocalAuth keeps each clientId in <SESSION_PATH>/session-<clientId>
   private client: Client | null = null;
   private isConnected: boolean = false;
   private clientInfo: ClientInfo | null = null;
   private qrCode: string | null = null;
+  private linkedViaQr: boolean = false; // a QR was scanned before this ready - a new link, not a restored session
   
   // Connection management
   private connectionHealth: ConnectionHealth = {
@@ -103,15 +138,33 @@ export class WhatsAppPersistentConnection {
   // Event handlers
   private eventHandlers: Partial<PersistentConnectionEvents> = {};
   
-  private constructor() {
+  private constructor(sessionId: string, tenantId: string) {
+    this.sessionId = sessionId;
+    this.tenantId = tenantId;
+    // The default store's default session keeps the original clientId so existing links survive the upgrade
+    const prefix = tenantId === DEFAULT_TENANT_ID ? PERSISTENT_CONFIG.CLIENT_ID : `${PERSISTENT_CONFIG.CLIENT_ID}-${tenantId}`;
+    this.clientId = sessionId === DEFAULT_SESSION_ID ? prefix : `${prefix}-${sessionId}`;
+    this.sessionDir = path.resolve(PERSISTENT_CONFIG.SESSION_PATH, `session-${this.clientId}`);
     this.startBackgroundTasks();
   }
   
-  public static getInstance(): WhatsAppPersistentConnection {
-    if (!this.instance) {
-      this.instance = new WhatsAppPersistentConnection();
+  public static getInstance(sessionId: string = DEFAULT_SESSION_ID): WhatsAppPersistentConnection {
+    const tenantId = TenantService.currentId();
+    let instance = this.instances.get(`${tenantId}/${sessionId}`);
+    if (!instance) {
+      instance = new WhatsAppPersistentConnection(sessionId, tenantId);
+      this.instances.set(`${tenantId}/${sessionId}`, instance);
     }
-    return this.instance;
+    return instance;
+  }
+
+  /**
+   * Sessions of the current store created so far in this process
+   */
+  public static getSessionIds(): string[] {
+    return Array.from(this.instances.values())
+      .filter(instance => instance.tenantId === TenantService.currentId())
+      .map(instance => instance.sessionId);
   }
   
   /**
@@ -131,7 +184,7 @@ export class WhatsAppPersistentConnection {
     this.initializationStartTime = Date.now();
     
     try {
-      console.log('🚀 Starting persistent WhatsApp connection...');
+      console.log(`🚀 Starting persistent WhatsApp connection (${this.sessionId})...`);
       
       // Step 1: Cleanup any existing client
       await this.cleanupClient();
@@ -163,8 +216,8 @@ export class WhatsAppPersistentConnection {
    * Validate and prepare session for connection
    */
   private async validateAndPrepareSession(): Promise<void> {
-    console.log('🔍 Validating session integrity...');
-    const sessionPath = path.resolve(PERSISTENT_CONFIG.SESSION_PATH);
+    console.log(`🔍 Validating session integrity (${this.sessionId})...`);
+    const sessionPath = this.sessionDir;
 
     const criticalFiles = [
       'Default/Local Storage/leveldb',
@@ -188,7 +241,7 @@ export class WhatsAppPersistentConnection {
       }
 
       for (const f of criticalFiles) {
-        const p = path.join(sessionPath, `session-${PERSISTENT_CONFIG.CLIENT_ID}`, f);
+        const p = path.join(sessionPath, f);
         if (!fs.existsSync(p)) missingFiles++;
       }
 
@@ -203,7 +256,7 @@ export class WhatsAppPersistentConnection {
       return;
     } else {
       // No session, ensure directory exists
-      fs.mkdirSync(sessionPath, { recursive: true });
+      fs.mkdirSync(path.resolve(PERSISTENT_CONFIG.SESSION_PATH), { recursive: true });
       this.connectionHealth.sessionHealth = 'healthy';
     }
   }
@@ -223,7 +276,7 @@ export class WhatsAppPersistentConnection {
     };
 
     const baseOptions: any = {
-      authStrategy: new LocalAuth({ clientId: PERSISTENT_CONFIG.CLIENT_ID, dataPath: PERSISTENT_CONFIG.SESSION_PATH }),
+      authStrategy: new LocalAuth({ clientId: this.clientId, dataPath: PERSISTENT_CONFIG.SESSION_PATH }),
       puppeteer: puppeteerConfig,
       takeoverOnConflict: true,
       takeoverTimeoutMs: 15000,
@@ -311,8 +364,9 @@ export class WhatsAppPersistentConnection {
       this.connectionHealth.sessionHealth = 'degraded';
       this.connectionHealth.isConnected = false;
       this.qrCode = null;
+      this.linkedViaQr = true;
 
-      console.log('📱 QR Code generated for authentication');
+      console.log(`📱 QR Code generated for authentication (${this.sessionId})`);
       console.log('🔍 QR Code raw data length:', qr.length);
       try {
         const dataURL = await qrCodeToDataURL(qr);
@@ -327,7 +381,7 @@ export class WhatsAppPersistentConnection {
     
     // Client ready
     this.client.on('ready', () => {
-      console.log('🎉 WhatsApp client is ready and connected!');
+      console.log(`🎉 WhatsApp client is ready and connected (${this.sessionId})!`);
       this.isConnected = true;
       this.isReconnecting = false;
       this.qrCode = null;
@@ -342,15 +396,21 @@ export class WhatsAppPersistentConnection {
       // Get client info
       this.clientInfo = this.client?.info || null;
       
-      if (this.clientInfo) {
-        console.log(`📞 Connected as: ${this.clientInfo.pushname} (${this.clientInfo.wid.user})`);
-      }
-      
-      // Start heartbeat monitoring
-      this.startHeartbeatMonitoring();
-      
-      // Trigger connected event
-      this.eventHandlers.onConnected?.();
+      // Browser events don't arrive inside a request - handle them in the store that owns this session
+      TenantService.run(this.tenantId, () => {
+        if (this.clientInfo) {
+          console.log(`📞 Connected as: ${this.clientInfo.pushname} (${this.clientInfo.wid.user})`);
+          // The link date drives the warm-up plan for new numbers
+          WarmUpService.recordLink(this.sessionId, this.clientInfo.wid.user, this.linkedViaQr);
+        }
+        this.linkedViaQr = false;
+
+        // Start heartbeat monitoring
+        this.startHeartbeatMonitoring();
+
+        // Trigger connected event
+        this.eventHandlers.onConnected?.();
+      });
     });
     
     // Authentication events
@@ -365,7 +425,7 @@ export class WhatsAppPersistentConnection {
     
     // Disconnection handling
     this.client.on('disconnected', (reason) => {
-      console.log('🔌 WhatsApp disconnected:', reason);
+      console.log(`🔌 WhatsApp disconnected (${this.sessionId}):`, reason);
       this.handleDisconnection(reason);
     });
     
@@ -389,6 +449,29 @@ export class WhatsAppPersistentConnection {
     this.client.on('message_create', () => {
       this.connectionHealth.lastSuccessfulMessage = new Date();
     });
+
+    // Customer replies (direct chats only - groups and status updates are ignored)
+    this.client.on('message', (message) => {
+      if (message.fromMe || !message.from.endsWith('@c.us')) return;
+      TenantService.run(this.tenantId, () => this.eventHandlers.onMessage?.({
+        id: message.id._serialized,
+        from: message.from.replace(/@c\.us$/, ''),
+        body: message.body || '',
+        timestamp: message.timestamp * 1000,
+        sessionId: this.sessionId
+      }));
+    });
+
+    // Delivery / read receipts for the messages we sent
+    this.client.on('message_ack', (message, ack) => {
+      const status = ACK_STATUSES[ack];
+      if (!message.fromMe || !status) return;
+      TenantService.run(this.tenantId, () => this.eventHandlers.onMessageAck?.({
+        id: message.id._serialized,
+        status,
+        timestamp: Date.now()
+      }));
+    });
   }
   
   /**
@@ -650,10 +733,10 @@ export class WhatsAppPersistentConnection {
       return;
     }
     
-    const sessionPath = path.resolve(PERSISTENT_CONFIG.SESSION_PATH);
+    const sessionPath = this.sessionDir;
     
     if (!fs.existsSync(sessionPath)) {
-      console.warn('⚠️ Session directory disappeared during operation');
+      console.warn(`⚠️ Session directory disappeared during operation (${this.sessionId})`);
       this.connectionHealth.sessionHealth = 'critical';
       this.handleDisconnection('Session directory missing');
       return;
@@ -760,12 +843,23 @@ export class WhatsAppPersistentConnection {
   }
   
   /**
-   * Send message with retry logic
+   * Chat id of the number's WhatsApp account (null = the number is not on WhatsApp)
    */
-  public async sendMessage(phoneNumber: string, message: string): Promise<boolean> {
+  private async resolveChatId(phoneNumber: string): Promise<string | null> {
+    if (!this.client) return null;
+    // wwebjs expects the raw international number (without @c.us) in getNumberId
+    const numberDetails: ContactId | null = await this.client.getNumberId(phoneNumber);
+    if (!numberDetails) return null;
+    return numberDetails._serialized || `${phoneNumber}@c.us`;
+  }
+
+  /**
+   * Send message with retry logic - returns the WhatsApp message id (null if it was not sent)
+   */
+  public async sendMessage(phoneNumber: string, message: string): Promise<string | null> {
     if (!this.client || !this.isConnected) {
       console.warn('⚠️ Client not ready for message sending');
-      return false;
+      return null;
     }
     
     const maxRetries = 3;
@@ -773,20 +867,18 @@ export class WhatsAppPersistentConnection {
     
     while (retries < maxRetries) {
       try {
-        // wwebjs expects the raw international number (without @c.us) in getNumberId
-        const numberDetails = await this.client.getNumberId(phoneNumber);
-        if (!numberDetails) {
+        const chatId = await this.resolveChatId(phoneNumber);
+        if (!chatId) {
           console.error(`Phone number ${phoneNumber} not found on WhatsApp`);
-          return false;
+          return null;
         }
         
-        const chatId = (numberDetails as any)._serialized || `${phoneNumber}@c.us`;
-        await this.client.sendMessage(chatId, message);
+        const sent = await this.client.sendMessage(chatId, message);
         
         this.connectionHealth.lastSuccessfulMessage = new Date();
         
         console.log(`✅ Message sent successfully to ${phoneNumber}`);
-        return true;
+        return sent.id._serialized;
         
       } catch (error) {
         retries++;
@@ -801,19 +893,85 @@ export class WhatsAppPersistentConnection {
           this.handleDisconnection('Message send error');
           await new Promise(resolve => setTimeout(resolve, 5000));
           if (!this.isConnected) {
-            return false;
+            return null;
           }
         }
         
         if (retries >= maxRetries) {
-          return false;
+          return null;
         }
         
         await new Promise(resolve => setTimeout(resolve, 1000 * retries));
       }
     }
     
-    return false;
+    return null;
+  }
+
+  /**
+   * Send an image or document (with an optional caption) - returns the WhatsApp message id
+   */
+  public async sendMedia(phoneNumber: string, media: OutboundMedia): Promise<string | null> {
+    if (!this.client || !this.isConnected) {
+      console.warn('⚠️ Client not ready for media sending');
+      return null;
+    }
+
+    try {
+      const chatId = await this.resolveChatId(phoneNumber);
+      if (!chatId) {
+        console.error(`Phone number ${phoneNumber} not found on WhatsApp`);
+        return null;
+      }
+
+      const attachment = media.data
+        ? new MessageMedia(media.mimeType, media.data, media.filename)
+        : await MessageMedia.fromUrl(media.url!, { unsafeMime: true, filename: media.filename });
+      const sent = await this.client.sendMessage(chatId, attachment, {
+        // Voice notes carry no caption
+        caption: media.kind === 'audio' ? undefined : media.caption,
+        sendMediaAsDocument: media.kind === 'document',
+        sendAudioAsVoice: media.kind === 'audio'
+      });
+      this.connectionHealth.lastSuccessfulMessage = new Date();
+      return sent.id._serialized;
+    } catch (error) {
+      console.error(`❌ Media send to ${phoneNumber} failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether the number has a WhatsApp account (null = could not check)
+   */
+  public async isRegistered(phoneNumber: string): Promise<boolean | null> {
+    if (!this.client || !this.isConnected) return null;
+    try {
+      return await this.client.isRegisteredUser(`${phoneNumber}@c.us`);
+    } catch (error) {
+      console.warn(`⚠️ Could not check WhatsApp registration for ${phoneNumber}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Show "typing…" in the customer's chat for a while before a message goes out
+   */
+  public async sendTyping(phoneNumber: string, durationMs: number): Promise<void> {
+    if (!this.client || !this.isConnected || durationMs <= 0) return;
+
+    try {
+      const chatId = await this.resolveChatId(phoneNumber);
+      if (!chatId) return;
+
+      const chat = await this.client.getChatById(chatId);
+      await chat.sendStateTyping();
+      await new Promise(resolve => setTimeout(resolve, durationMs));
+      await chat.clearState();
+    } catch (error) {
+      // Typing is cosmetic - never block the message itself
+      console.warn(`⚠️ Could not show typing to ${phoneNumber}:`, error);
+    }
   }
   
   /**
@@ -860,13 +1018,13 @@ export class WhatsAppPersistentConnection {
    */
   public async clearSession(): Promise<void> {
     try {
-      console.log('🗑️ Clearing session...');
+      console.log(`🗑️ Clearing session (${this.sessionId})...`);
       
       // Cleanup client first
       await this.cleanupClient();
       
-      // Clear session files
-      const sessionPath = path.resolve(PERSISTENT_CONFIG.SESSION_PATH);
+      // Clear session files - only this number's; the other sender numbers share the parent directory
+      const sessionPath = this.sessionDir;
       if (fs.existsSync(sessionPath)) {
         await fs.promises.rm(sessionPath, { recursive: true, force: true });
         console.log('✅ Session files cleared');
@@ -895,8 +1053,7 @@ export class WhatsAppPersistentConnection {
     health: ConnectionHealth;
     sessionExists: boolean;
   } {
-    const sessionPath = path.resolve(PERSISTENT_CONFIG.SESSION_PATH);
-    const sessionExists = fs.existsSync(sessionPath);
+    const sessionExists = fs.existsSync(this.sessionDir);
     
     return {
       isConnected: this.isConnected,
@@ -932,7 +1089,7 @@ export class WhatsAppPersistentConnection {
    * Destroy service completely
    */
   public async destroy(): Promise<void> {
-    console.log('🗑️ Destroying persistent connection service...');
+    console.log(`🗑️ Destroying persistent connection service (${this.sessionId})...`);
     
     this.shouldReconnect = false;
     
@@ -947,7 +1104,7 @@ export class WhatsAppPersistentConnection {
     await this.cleanupClient();
     
     // Reset instance
-    WhatsAppPersistentConnection.instance = null;
+    WhatsAppPersistentConnection.instances.delete(`${this.tenantId}/${this.sessionId}`);
     
     console.log('✅ Persistent connection service destroyed');
   }
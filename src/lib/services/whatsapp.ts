@@ -1,7 +1,18 @@
 import { Client, LocalAuth, ClientInfo } from 'whatsapp-web.js';
 import { ensureFetchPolyfill } from '../utils/fetch-polyfill';
 import { PhoneProcessor } from './phone-processor';
-import { WhatsAppPersistentConnection } from './whatsapp-persistent-connection';
+import { WhatsAppPersistentConnection, type InboundMessage, type MessageAckEvent } from './whatsapp-persistent-connection';
+import { OptOutService } from './opt-out';
+import { InboxService, type InboxMessage } from './inbox';
+import { ReplyActionService } from './reply-actions';
+import { FaqAutoReplyService, type AutoReply } from './faq';
+import { FlowService } from './flows';
+import { MessageTracker } from './message-tracker';
+import { SenderPoolService, DEFAULT_SESSION_ID, type SenderStatus } from './sender-pool';
+import { TenantService } from './tenant';
+import { TransportService, WebClientTransport, type MessagingTransport, type OutboundMedia, type SendTextOptions } from './transport';
+import { CloudApiTransport } from './cloud-api';
+import type { TransportConfig } from '../types/config';
 import fs from 'fs';
 import path from 'path';
 
@@ -9,30 +20,126 @@ import path from 'path';
 const UNIFIED_SESSION_PATH = process.env.WHATSAPP_SESSION_PATH || './whatsapp-session-persistent';
 
 export class WhatsAppService {
-  private static instance: WhatsAppService | null = null;
+  private static instances = new Map<string, WhatsAppService>();   // one per store
+  private readonly tenantId = TenantService.currentId();
   private persistentConnection: WhatsAppPersistentConnection;
+  private connections = new Map<string, WhatsAppPersistentConnection>();   // every sender number, by session id
+  private cloudTransport: CloudApiTransport | null = null;                   // set when the store sends through the Cloud API
+  private transportLoaded: Promise<void>;
+  private senderPoolStarting = false;
   private lastHealthCheck: Date | null = null;
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private connectionEventHandlers: any = {};
 
   private constructor() {
-    this.persistentConnection = WhatsAppPersistentConnection.getInstance();
-    this.setupPersistentConnectionEvents();
+    this.persistentConnection = this.getConnection(DEFAULT_SESSION_ID);
+    this.transportLoaded = this.applyTransportConfig()
+      .catch(error => console.error('❌ Error loading transport settings:', error));
     this.startHealthMonitoring();
   }
 
   public static getInstance(): WhatsAppService {
-    if (!this.instance) {
-      this.instance = new WhatsAppService();
+    const tenantId = TenantService.currentId();
+    let instance = this.instances.get(tenantId);
+    if (!instance) {
+      instance = new WhatsAppService();
+      this.instances.set(tenantId, instance);
     }
-    return this.instance;
+    return instance;
+  }
+
+  /**
+   * The connection of one sender number, created with its event handlers on first use
+   */
+  private getConnection(sessionId: string): WhatsAppPersistentConnection {
+    let connection = this.connections.get(sessionId);
+    if (!connection) {
+      connection = WhatsAppPersistentConnection.getInstance(sessionId);
+      this.connections.set(sessionId, connection);
+      if (sessionId === DEFAULT_SESSION_ID) {
+        this.setupPersistentConnectionEvents(connection);
+      } else {
+        this.setupSenderConnectionEvents(connection);
+      }
+    }
+    return connection;
+  }
+
+  /**
+   * Switch between the web client and the Cloud API - the Cloud API replaces the browser sessions entirely
+   */
+  public async applyTransportConfig(config?: TransportConfig): Promise<void> {
+    const transport = config || await TransportService.getConfig();
+    if (transport.provider !== 'cloud-api') {
+      this.cloudTransport = null;
+      return;
+    }
+
+    if (this.cloudTransport) {
+      this.cloudTransport.configure(transport.cloudApi);
+      return;
+    }
+    this.cloudTransport = new CloudApiTransport(transport.cloudApi);
+    this.cloudTransport.setEventHandlers({
+      onMessage: (message: InboundMessage) => {
+        this.handleInboundMessage(message).catch(error =>
+          console.error(`❌ Error handling inbound message from ${message.from}:`, error));
+      },
+      onMessageAck: (event: MessageAckEvent) => {
+        MessageTracker.recordAck(event.id, event.status, event.timestamp);
+      }
+    });
+    console.log('☁️ Sending through the WhatsApp Cloud API');
+  }
+
+  /**
+   * The Cloud API transport when the store uses it (webhook calls are ignored otherwise)
+   */
+  public async getCloudTransport(): Promise<CloudApiTransport | null> {
+    await this.transportLoaded;
+    return this.cloudTransport;
+  }
+
+  /**
+   * How messages from one sender number go out
+   */
+  private getTransport(sessionId: string): MessagingTransport {
+    return this.cloudTransport || new WebClientTransport(this.getConnection(sessionId));
+  }
+
+  /**
+   * Extra sender numbers share message handling; connection events are only logged
+   */
+  private setupSenderConnectionEvents(connection: WhatsAppPersistentConnection): void {
+    const { sessionId } = connection;
+    connection.setEventHandlers({
+      onMessage: (message: InboundMessage) => {
+        this.handleInboundMessage(message).catch(error =>
+          console.error(`❌ Error handling inbound message from ${message.from}:`, error));
+      },
+      onMessageAck: (event: MessageAckEvent) => {
+        MessageTracker.recordAck(event.id, event.status, event.timestamp);
+      },
+      onConnected: () => console.log(`🎉 Sender number ${sessionId} connected`),
+      onDisconnected: (reason: string) => console.log(`🔌 Sender number ${sessionId} disconnected: ${reason}`),
+      onReconnecting: (attempt: number) => console.log(`🔄 Sender number ${sessionId} reconnecting (attempt ${attempt})...`)
+    });
   }
 
   /**
    * Setup event handlers for persistent connection
    */
-  private setupPersistentConnectionEvents(): void {
-    this.persistentConnection.setEventHandlers({
+  private setupPersistentConnectionEvents(connection: WhatsAppPersistentConnection): void {
+    connection.setEventHandlers({
+      onMessage: (message: InboundMessage) => {
+        this.handleInboundMessage(message).catch(error =>
+          console.error(`❌ Error handling inbound message from ${message.from}:`, error));
+      },
+
+      onMessageAck: (event: MessageAckEvent) => {
+        MessageTracker.recordAck(event.id, event.status, event.timestamp);
+      },
+
       onConnected: () => {
         console.log('🎉 Persistent connection established!');
         this.lastHealthCheck = new Date();
@@ -81,10 +188,60 @@ export class WhatsAppService {
     });
   }
 
+  /**
+   * Customer replies: saved to the inbox, confirm/cancel keywords update the order,
+   * stop keywords add the number to the opt-out list, FAQ rules answer common questions
+   */
+  private async handleInboundMessage(message: InboundMessage): Promise<void> {
+    // Replies to this customer go out from the number they wrote to
+    SenderPoolService.rememberCustomer(message.from, message.sessionId);
+    const inboxMessage = await InboxService.record(message);
+
+    const reply = inboxMessage ? await this.getAutomaticReply(inboxMessage) : null;
+    if (reply && await this.sendMessage(message.from, reply.text, message.sessionId)) {
+      await InboxService.recordAutoReply(inboxMessage!.phone, reply.text, reply);
+    }
+
+    // Trigger any registered inbound message handlers
+    if (this.connectionEventHandlers.onMessage) {
+      this.connectionEventHandlers.onMessage(message);
+    }
+  }
+
+  /**
+   * The one automatic answer to an inbound message, in priority order
+   */
+  private async getAutomaticReply(message: InboxMessage): Promise<Partial<AutoReply> & { text: string } | null> {
+    // An answer to a running flow ("2") is not a keyword for anything else
+    const flowStep = await FlowService.handleMessage(message);
+    if (flowStep) {
+      return flowStep.reply ? { text: flowStep.reply, handled: flowStep.ended === 'completed' } : null;
+    }
+
+    // Confirm/cancel replies win over opt-out keywords ("الغاء الطلب" cancels the order, it does not unsubscribe)
+    const replyAction = await ReplyActionService.handleReply(message);
+    if (replyAction) {
+      return replyAction.ack ? { text: replyAction.ack, handled: true } : null;
+    }
+
+    const optOutConfirmation = await OptOutService.handleInboundMessage(message.phone, message.body);
+    if (optOutConfirmation) {
+      return { text: optOutConfirmation, handled: true };
+    }
+
+    return FaqAutoReplyService.handleMessage(message);
+  }
+
   /**
    * Initialize WhatsApp service with persistent connection
    */
   public async initialize(): Promise<void> {
+    await this.transportLoaded;
+    if (this.cloudTransport) {
+      console.log('☁️ WhatsApp Cloud API in use - no browser session to start');
+      return;
+    }
+
     console.log('🚀 Initializing WhatsApp service with persistent connection...');
     
     try {
@@ -93,6 +250,9 @@ export class WhatsAppService {
     } catch (error) {
       console.error('❌ Failed to initialize WhatsApp service:', error);
       throw error;
+    } finally {
+      // Extra sender numbers connect in the background so a failed main number does not stop them
+      this.initializeSenderPool().catch(error => console.error('❌ Error starting sender numbers:', error));
     }
   }
 
@@ -127,35 +287,132 @@ export class WhatsAppService {
   }
 
   /**
-   * Send message using persistent connection
+   * Send message through the store's transport - returns the WhatsApp message id (null on failure).
+   * Without a sessionId the customer's usual sender number is used.
    */
-  public async sendMessage(phoneNumber: string, message: string): Promise<boolean> {
+  public async sendMessage(phoneNumber: string, message: string, sessionId?: string, options?: SendTextOptions): Promise<string | null> {
+    await this.transportLoaded;
     try {
       // Process and validate phone number
       const processedPhone = PhoneProcessor.formatForWhatsApp(phoneNumber);
       if (!processedPhone) {
         console.error(`Invalid phone number format: ${phoneNumber}`);
-        return false;
+        return null;
       }
 
       console.log(`📤 Sending message to ${processedPhone}: ${message.substring(0, 50)}...`);
 
-      // Use persistent connection to send message
-      const success = await this.persistentConnection.sendMessage(processedPhone, message);
+      const senderId = sessionId || await SenderPoolService.sessionFor(processedPhone, this.getConnectedSessionIds());
+      const messageId = await this.getTransport(senderId).sendText(processedPhone, message, options);
+      SenderPoolService.recordSend(senderId, !!messageId);
       
-      if (success) {
+      if (messageId) {
         console.log(`✅ Message sent successfully to ${processedPhone}`);
-        return true;
+        return messageId;
       } else {
         console.error(`❌ Failed to send message to ${processedPhone}`);
-        return false;
+        return null;
       }
     } catch (error) {
       console.error('❌ Error sending WhatsApp message:', error);
-      return false;
+      return null;
     }
   }
 
+  /**
+   * Send an image or document - returns the WhatsApp message id (null on failure)
+   */
+  public async sendMedia(phoneNumber: string, media: OutboundMedia, sessionId?: string): Promise<string | null> {
+    await this.transportLoaded;
+    const processedPhone = PhoneProcessor.formatForWhatsApp(phoneNumber);
+    if (!processedPhone) {
+      console.error(`Invalid phone number format: ${phoneNumber}`);
+      return null;
+    }
+
+    const senderId = sessionId || await SenderPoolService.sessionFor(processedPhone, this.getConnectedSessionIds());
+    const messageId = await this.getTransport(senderId).sendMedia(processedPhone, media);
+    SenderPoolService.recordSend(senderId, !!messageId);
+    return messageId;
+  }
+
+  /**
+   * Show "typing…" to the customer before sending
+   */
+  public async sendTyping(phoneNumber: string, durationMs: number, sessionId: string = DEFAULT_SESSION_ID): Promise<void> {
+    const processedPhone = PhoneProcessor.formatForWhatsApp(phoneNumber);
+    if (!processedPhone) return;
+    await this.getTransport(sessionId).sendTyping(processedPhone, durationMs);
+  }
+
+  /**
+   * Sender numbers that are connected right now
+   */
+  public getConnectedSessionIds(): string[] {
+    if (this.cloudTransport) {
+      return this.cloudTransport.isConnected() ? [this.cloudTransport.sessionId] : [];
+    }
+    return Array.from(this.connections.values())
+      .filter(connection => connection.getStatus().isConnected)
+      .map(connection => connection.sessionId);
+  }
+
+  /**
+   * Connect the enabled extra sender numbers (the main number is initialized on its own)
+   */
+  public async initializeSenderPool(): Promise<void> {
+    if (this.senderPoolStarting) return;
+    this.senderPoolStarting = true;
+    try {
+      const pool = await SenderPoolService.getConfig();
+      for (const number of pool.numbers) {
+        if (!number.enabled || number.id === DEFAULT_SESSION_ID) continue;
+        const connection = this.getConnection(number.id);
+        if (connection.getStatus().isConnected) continue;
+        // One browser starts at a time; a failing number must not hold up the others
+        await connection.initialize().catch(error =>
+          console.error(`❌ Sender number ${number.id} failed to initialize:`, error));
+      }
+    } finally {
+      this.senderPoolStarting = false;
+    }
+  }
+
+  /**
+   * Start (or restart) one sender number - its QR shows up in getSenderStatus while waiting
+   */
+  public async initializeSender(sessionId: string): Promise<void> {
+    await this.getConnection(sessionId).initialize();
+  }
+
+  /**
+   * Unlink a sender number and delete its session files
+   */
+  public async removeSender(sessionId: string): Promise<void> {
+    const connection = this.getConnection(sessionId);
+    await connection.clearSession();
+    if (sessionId !== DEFAULT_SESSION_ID) {
+      await connection.destroy();
+      this.connections.delete(sessionId);
+    }
+  }
+
+  /**
+   * Every configured sender number with its connection, QR code and pool health
+   */
+  public async getSenderStatus(): Promise<SenderStatus[]> {
+    const health = await SenderPoolService.getHealth(this.getConnectedSessionIds());
+    return health.map(sender => {
+      const status = this.getConnection(sender.id).getStatus();
+      return {
+        ...sender,
+        qrCode: status.qrCode,
+        sessionExists: status.sessionExists,
+        sessionHealth: status.health.sessionHealth
+      };
+    });
+  }
+
   /**
    * Validate phone number on WhatsApp
    */
@@ -191,7 +448,7 @@ export class WhatsAppService {
       // Use persistent connection's client to validate
       const persistentStatus = this.persistentConnection.getStatus();
       
-      if (!persistentStatus.isConnected || !persistentStatus.clientInfo) {
+      if (!this.cloudTransport && (!persistentStatus.isConnected || !persistentStatus.clientInfo)) {
         return {
           isValid: false,
           isRegistered: false,
@@ -200,12 +457,14 @@ export class WhatsAppService {
         };
       }
 
-      // For now, assume valid if we can't check directly
+      // Assume registered when the transport can't tell (Cloud API, lookup errors)
       // This prevents blocking the automation when WhatsApp validation fails
+      const registered = await this.getTransport(DEFAULT_SESSION_ID).checkRegistration(processedPhone);
       return {
         isValid: true,
-        isRegistered: true,
-        processedNumber: processedPhone
+        isRegistered: registered !== false,
+        processedNumber: processedPhone,
+        ...(registered === false ? { error: 'الرقم غير مسجل على الواتساب' } : {})
       };
 
     } catch (error) {
@@ -232,8 +491,8 @@ export class WhatsAppService {
     const persistentStatus = this.persistentConnection.getStatus();
 
     return {
-      isConnected: persistentStatus.isConnected,
-      qrCode: persistentStatus.qrCode,
+      isConnected: this.cloudTransport ? this.cloudTransport.isConnected() : persistentStatus.isConnected,
+      qrCode: this.cloudTransport ? null : persistentStatus.qrCode,
       clientInfo: persistentStatus.clientInfo,
       sessionExists: persistentStatus.sessionExists,
       health: persistentStatus.health
@@ -428,15 +687,29 @@ export class WhatsAppService {
       this.healthCheckInterval = null;
     }
     
-    // Destroy persistent connection
-    await this.persistentConnection.destroy();
+    // Destroy every sender number's persistent connection
+    for (const connection of this.connections.values()) {
+      await connection.destroy();
+    }
+    this.connections.clear();
     
     // Reset instance
-    WhatsAppService.instance = null;
+    WhatsAppService.instances.delete(this.tenantId);
     
     console.log('✅ WhatsApp service destroyed');
   }
 
+  /**
+   * Shut down the current store's service and every browser session it has - used when the store is removed
+   */
+  public static async destroyInstance(): Promise<void> {
+    await this.instances.get(TenantService.currentId())?.destroy();
+    // Sessions opened without the service (e.g. from the QR page) belong to the store too
+    for (const sessionId of WhatsAppPersistentConnection.getSessionIds()) {
+      await WhatsAppPersistentConnection.getInstance(sessionId).destroy();
+    }
+  }
+
   /**
    * Register event handlers
    */
@@ -36,6 +36,7 @@ export interface SheetRow {
   rowIndex?: number;
   processedPhone?: string;     // معالج الرقم بعد التنظيف
   validPhone?: boolean;        // هل الرقم صالح
+  channel?: MessageChannel;    // sms للعملاء غير المسجلين على الواتساب
 }
 
 export interface MessageTemplates {
@@ -51,16 +52,344 @@ export interface MessageTemplates {
   cancelled: string;
 }
 
+// أنواع الرسائل الأساسية التي يمكن للقواعد إرسالها
+export type RuleMessageType = 'newOrder' | 'noAnswer' | 'shipped' | 'rejectedOffer' | 'reminder';
+
+export type StatusRuleAction =
+  | { type: 'send'; template: RuleMessageType }                          // إرسال فوري
+  | { type: 'schedule'; template: RuleMessageType; delayHours?: number }  // إرسال مؤجل (الافتراضي من إعدادات التوقيت)
+  | { type: 'cancelPending' }                                             // إلغاء الرسائل المجدولة للطلب
+  | { type: 'markFinal' };                                                // حالة نهائية - لا تذكيرات بعدها
+
+export interface StatusRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  statuses: string[];          // قيم الحالة المطابقة (تُقارن بعد التطبيع العربي)
+  patterns?: string[];         // تعبيرات نمطية اختيارية
+  actions: StatusRuleAction[];
+  remind?: boolean;            // هل تستحق الطلبات في هذه الحالة رسالة تذكير
+}
+
+export interface StatusRulesConfig {
+  rules: StatusRule[];
+}
+
+// خطوة في تسلسل متابعة: إما قالب موجود أو نص مخصص
+export interface FollowUpStep {
+  id: string;
+  delayHours: number;          // من لحظة دخول الطلب في الحالة
+  template?: RuleMessageType;
+  message?: string;            // نص مخصص يدعم نفس المتغيرات مثل {name}
+}
+
+export interface FollowUpSequence {
+  id: string;
+  name: string;
+  enabled: boolean;
+  entryStatuses: string[];     // تبدأ السلسلة عند دخول الطلب في إحدى هذه الحالات وتُلغى عند خروجه منها
+  steps: FollowUpStep[];
+}
+
+export interface FollowUpSequencesConfig {
+  sequences: FollowUpSequence[];
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface TimeRange {
+  start: string;               // "HH:mm" بتوقيت المنطقة الزمنية المحددة
+  end: string;                 // "HH:mm" - حصري، ويجب أن يكون بعد start
+}
+
+// نوافذ الإرسال: الرسائل خارجها تؤجل لأقرب وقت فتح
+export interface SendWindowsConfig {
+  enabled: boolean;
+  timezone: string;                              // الافتراضي Africa/Cairo
+  weekly: Record<Weekday, TimeRange[]>;          // قائمة فارغة = لا إرسال في هذا اليوم
+  fridayPrayerBlackout: { enabled: boolean; start: string; end: string };
+  ramadan: { enabled: boolean; startDate: string; endDate: string; windows: TimeRange[] }; // التواريخ YYYY-MM-DD
+  holidays: string[];                            // YYYY-MM-DD - لا إرسال طوال اليوم
+}
+
+// حدود سرعة الإرسال لتقليل خطر الحظر: سقف لكل دقيقة/ساعة/يوم وفواصل عشوائية وإيقاف تلقائي عند كثرة الفشل
+export interface SendRateConfig {
+  enabled: boolean;
+  maxPerMinute: number;
+  maxPerHour: number;
+  maxPerDay: number;
+  minGapSeconds: number;                         // فاصل عشوائي بين كل رسالتين
+  maxGapSeconds: number;
+  typingIndicator: boolean;                      // إظهار "يكتب..." قبل الإرسال
+  autoPause: boolean;
+  failureRatePercent: number;                    // نسبة الفشل التي توقف الإرسال
+  failureWindow: number;                         // تُحسب النسبة على آخر N محاولة
+  pauseMinutes: number;
+}
+
+// تسخين الأرقام الجديدة: سقف يومي يرتفع تدريجياً من تاريخ ربط الرقم
+export interface WarmUpConfig {
+  enabled: boolean;
+  days: number;                                  // مدة التسخين بالأيام
+  startPerDay: number;                           // سقف اليوم الأول
+  targetPerDay: number;                          // سقف آخر يوم - بعده لا يطبق التسخين
+}
+
 export interface TimingConfig {
   checkIntervalSeconds: number;
   reminderDelayHours: number;
   rejectedOfferDelayHours: number;
+  sendWindows?: SendWindowsConfig;
+  sendRate?: SendRateConfig;
+  warmUp?: WarmUpConfig;
+}
+
+// إيقاف الرسائل بطلب العميل
+export interface OptOutConfig {
+  enabled: boolean;                // تسجيل الإيقاف تلقائياً من الرسائل الواردة
+  keywords: string[];              // كلمات أو عبارات الإيقاف
+  confirmationMessage: string;     // رد يؤكد الإيقاف (فارغ = بدون رد)
+}
+
+// تأكيد / إلغاء الطلب برد العميل
+export interface ReplyActionsConfig {
+  enabled: boolean;
+  writeToSheet: boolean;           // تحديث الحالة وإضافة ملاحظة في الشيت (معطل = تسجيل فقط)
+  confirmKeywords: string[];
+  cancelKeywords: string[];
+  confirmedStatus: string;         // الحالة التي تُكتب في الشيت عند التأكيد
+  cancelledStatus: string;
+  confirmAck: string;              // الرد على العميل بعد تحديث الشيت (فارغ = بدون رد)
+  cancelAck: string;
+  pendingAck: string;              // رد محايد عندما لا يُكتب في الشيت - الطلب لم يتغير فعلاً
+}
+
+// رد تلقائي على الأسئلة المتكررة
+export interface FaqRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  keywords: string[];              // كلمات أو عبارات (تُطابق بعد التطبيع العربي)
+  pattern?: string;                // تعبير نمطي اختياري يُطبق على النص بعد التطبيع
+  reply: string;                   // نص الرد - يدعم متغيرات الطلب {name} {orderId} {productName} ...
+}
+
+export interface FaqAutoReplyConfig {
+  enabled: boolean;
+  rules: FaqRule[];
+  cooldownMinutes: number;         // لا يتكرر نفس الرد لنفس العميل خلال هذه المدة
+  businessHoursOnly: boolean;      // الرد فقط داخل نوافذ الإرسال (إعدادات التوقيت)
+  handoffMessage: string;          // عند عدم مطابقة أي قاعدة (فارغ = بدون رد) - المحادثة تبقى للفريق
+}
+
+// أسئلة بخيارات مرقمة عبر واتساب ("اختر يوم التوصيل: 1- السبت 2- الأحد")
+export interface FlowChoice {
+  label: string;                   // الخيار رقم n في القائمة هو choices[n - 1]
+  next?: string;                   // الخطوة التالية لهذا الخيار (فارغ = خطوة next العامة)
+}
+
+export interface FlowStep {
+  id: string;
+  question: string;                // نص السؤال - يدعم متغيرات الطلب، والخيارات المرقمة تُضاف تلقائياً
+  type: 'choice' | 'text';         // خيار مرقم أو نص حر
+  choices?: FlowChoice[];
+  next?: string;                   // الخطوة التالية (فارغ = نهاية النموذج)
+  noteLabel: string;               // عنوان الإجابة في ملاحظة الطلب ("يوم التوصيل: السبت")
+}
+
+export interface ConversationFlow {
+  id: string;
+  name: string;
+  enabled: boolean;
+  triggerKeywords: string[];       // رسالة العميل التي تبدأ النموذج (فارغ = يبدأ من صندوق الرسائل فقط)
+  steps: FlowStep[];               // الخطوة الأولى هي البداية
+  completionMessage: string;       // الرد بعد آخر إجابة (فارغ = بدون رد)
+}
+
+export interface ConversationFlowsConfig {
+  enabled: boolean;
+  flows: ConversationFlow[];
+  timeoutMinutes: number;          // ينتهي النموذج إذا لم يرد العميل خلال هذه المدة
+  maxInvalidAttempts: number;      // عدد الردود غير المفهومة قبل إنهاء النموذج وتحويله للفريق
+  invalidChoiceMessage: string;    // {choices} = أرقام الخيارات المتاحة
+  writeNotes: boolean;             // كتابة الإجابات كملاحظة على الطلب في الشيت
+}
+
+// أرقام الإرسال: كل رقم جلسة واتساب مستقلة بكود QR خاص
+export type SenderRouting = 'round-robin' | 'sticky' | 'failover';
+
+export interface SenderNumber {
+  id: string;                      // معرف الجلسة (default = الرقم الأول)
+  name: string;
+  enabled: boolean;
+  dailyCap: number;                // أقصى رسائل آلية لهذا الرقم خلال 24 ساعة
+}
+
+export interface SenderPoolConfig {
+  routing: SenderRouting;          // round-robin توزيع بالتناوب، sticky نفس الرقم لنفس العميل، failover الأول المتاح بالترتيب
+  numbers: SenderNumber[];         // الترتيب هو أولوية الاحتياط
+  maxConsecutiveFailures: number;  // بعدها يُستبعد الرقم مؤقتاً
+  failureCooldownMinutes: number;
+}
+
+// طريقة الإرسال: واتساب ويب (متصفح + QR) أو WhatsApp Business Cloud API
+export type TransportProvider = 'web' | 'cloud-api';
+
+export interface CloudApiTemplate {
+  name: string;                    // اسم القالب المعتمد في Meta - نص الرسالة يُمرر كمتغير {{1}}
+  language: string;                // مثل ar أو ar_EG
+}
+
+export interface CloudApiConfig {
+  phoneNumberId: string;
+  accessToken: string;
+  apiVersion: string;              // مثل v20.0
+  baseUrl: string;                 // https://graph.facebook.com - أو خادم تجريبي محلي
+  verifyToken: string;             // رمز تأكيد الـ webhook عند تسجيله في Meta
+  appSecret: string;               // للتحقق من توقيع الـ webhook (فارغ = بدون تحقق)
+  templates: Partial<Record<RuleMessageType | 'followUp', CloudApiTemplate>>;   // للرسائل خارج نافذة الـ 24 ساعة
+}
+
+export interface TransportConfig {
+  provider: TransportProvider;
+  cloudApi: CloudApiConfig;
+}
+
+// مرفقات الرسائل: صور المنتجات وملفات PDF والرسائل الصوتية
+export type MediaKind = 'image' | 'document' | 'audio';
+
+export interface MediaAsset {
+  id: string;
+  name: string;
+  kind: MediaKind;
+  mimeType: string;
+  file?: string;                   // ملف مرفوع داخل مجلد الوسائط
+  url?: string;                    // أو رابط عام
+  size?: number;                   // بالبايت للملفات المرفوعة
+  createdAt: string;
+}
+
+export interface ProductImage {
+  product: string;                 // اسم المنتج كما في الشيت (يكفي جزء منه)
+  assetId: string;
+}
+
+export interface TemplateAttachment {
+  source: 'productImage' | 'asset';   // صورة منتج الطلب أو ملف ثابت من المكتبة
+  assetId?: string;                // للملف الثابت
+  asCaption: boolean;              // نص الرسالة تعليق على الصورة/الملف بدلاً من رسالة منفصلة
+}
+
+export interface MediaConfig {
+  enabled: boolean;
+  maxSizeMb: Record<MediaKind, number>;
+  assets: MediaAsset[];
+  products: ProductImage[];        // أول تطابق يُستخدم
+  attachments: Partial<Record<RuleMessageType, TemplateAttachment>>;
+}
+
+// قناة وصول الرسالة للعميل - SMS احتياطي لمن ليس لديه واتساب
+export type MessageChannel = 'whatsapp' | 'sms';
+
+export type SmsProviderType = 'http' | 'stub';
+
+export interface SmsHttpGatewayConfig {
+  url: string;
+  method: 'GET' | 'POST';
+  bodyFormat: 'json' | 'form' | 'query';   // طريقة إرسال المعاملات مع POST
+  params: Record<string, string>;          // القيم تقبل {phone} و{message} و{sender}
+  headers: Record<string, string>;
+  successMatch: string;                    // نص يجب أن يظهر في الرد (فارغ = أي رد 2xx)
+  messageIdPath: string;                   // مسار معرف الرسالة في رد JSON مثل data.id
+}
+
+export interface SmsConfig {
+  enabled: boolean;
+  provider: SmsProviderType;               // stub يسجل الرسائل بدون إرسال - للتجربة
+  senderId: string;                        // اسم المرسل المعتمد لدى مزود الخدمة
+  phoneFormat: 'international' | 'plus' | 'local';   // 2010xxxxxxxx أو +2010xxxxxxxx أو 010xxxxxxxx
+  http: SmsHttpGatewayConfig;
+  templates: Partial<Record<RuleMessageType, string>>;   // نسخ قصيرة من القوالب (فارغ = نص رسالة الواتساب)
+}
+
+// تجميع طلبات العميل الواحد (نفس الرقم بعد التوحيد)
+export interface CustomerGroupingConfig {
+  enabled: boolean;
+  duplicateWindowHours: number;    // نفس المنتج خلال هذه المدة = طلب مكرر
+  consolidateMessages: boolean;    // رسالة واحدة لطلبات العميل المختلفة بنفس الحالة
+}
+
+// نسخة بديلة من قالب رسالة لاختبار A/B
+export interface TemplateVariant {
+  id: string;
+  name: string;
+  weight: number;              // وزن نسبي لتوزيع الطلبات على النسخ
+  text?: string;               // فارغ = نص القالب الأساسي (المجموعة الضابطة)
+}
+
+export interface TemplateExperiment {
+  enabled: boolean;
+  variants: TemplateVariant[];
+}
+
+export interface TemplateExperimentsConfig {
+  conversionWindowHours: number;   // المدة المسموحة لتغير الحالة بعد الإرسال
+  successRuleIds: string[];        // قواعد الحالات التي يعتبر الانتقال إليها تحويلاً ناجحاً
+  experiments: Partial<Record<RuleMessageType, TemplateExperiment>>;
+}
+
+export type DiscountKind = 'percent' | 'fixed';
+
+export interface DiscountValue {
+  kind: DiscountKind;          // نسبة مئوية أو مبلغ ثابت بالجنيه
+  value: number;
+}
+
+// شريحة خصم: حسب قيمة الطلب (minTotal/maxTotal) أو حسب المنتج (products)
+export interface DiscountTier extends DiscountValue {
+  id: string;
+  minTotal?: number;           // شامل
+  maxTotal?: number;           // حصري
+  products?: string[];         // أسماء أو أجزاء من أسماء المنتجات (تُقارن بعد التطبيع العربي)
+}
+
+// سياسة عرض الطلبات المرفوضة
+export interface OfferPolicyConfig {
+  companyName: string;         // يظهر في {companyName}
+  tierBy: 'totalPrice' | 'product';
+  defaultDiscount: DiscountValue;  // عند عدم مطابقة أي شريحة
+  tiers: DiscountTier[];       // أول شريحة مطابقة هي المستخدمة
+  coupon: {
+    enabled: boolean;          // إصدار كود فريد عند استخدام {couponCode} في القالب
+    prefix: string;            // بداية الكود مثلاً BACK-7KQ2MX
+    validityDays: number;
+  };
+}
+
+// متجر مستقل بإعداداته وجلسة الواتساب والطابور الخاص به
+export interface Tenant {
+  id: string;                      // يظهر في مسار ملفاته: config/tenants/<id>
+  name: string;
+  createdAt: string;
 }
 
 export interface AppConfig {
   google: GoogleConfig;
   messages: MessageTemplates;
   timing: TimingConfig;
+  statusRules?: StatusRulesConfig;
+  followUpSequences?: FollowUpSequencesConfig;
+  offerPolicy?: OfferPolicyConfig;
+  templateExperiments?: TemplateExperimentsConfig;
+  customerGrouping?: CustomerGroupingConfig;
+  optOut?: OptOutConfig;
+  replyActions?: ReplyActionsConfig;
+  faqAutoReply?: FaqAutoReplyConfig;
+  conversationFlows?: ConversationFlowsConfig;
+  senderPool?: SenderPoolConfig;
+  transport?: TransportConfig;
+  sms?: SmsConfig;
+  media?: MediaConfig;
 }
 
 export interface AutomationStats {
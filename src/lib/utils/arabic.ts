@@ -0,0 +1,49 @@
+/**
+ * Arabic text normalization helpers
+ */
+
+// Arabic diacritics (tashkeel) and tatweel
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+/**
+ * تطبيع النص العربي للمقارنة: توحيد الألف والهاء والياء وإزالة التشكيل والمسافات الزائدة
+ */
+export function normalizeArabic(text: string): string {
+  if (!text || typeof text !== 'string') {
+    return '';
+  }
+
+  return text
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+// Anything that is not a latin/Arabic letter or digit splits words (after normalizeArabic lower-cases)
+const WORD_SEPARATORS = /[^a-z0-9\u0621-\u064A]+/g;
+
+/**
+ * تقسيم النص لكلمات مطبّعة مفصولة بمسافة واحدة (مع مسافة في البداية والنهاية للمطابقة الكاملة)
+ */
+export function toWordText(text: string): string {
+  return ` ${normalizeArabic(text).replace(WORD_SEPARATORS, ' ').trim()} `;
+}
+
+/**
+ * أول كلمة مفتاحية موجودة في النص ككلمة أو عبارة كاملة (وليس جزءاً من كلمة أخرى)
+ */
+export function matchKeyword(text: string, keywords: string[]): string | null {
+  const words = toWordText(text);
+  for (const keyword of keywords) {
+    const normalized = toWordText(keyword).trim();
+    if (normalized && words.includes(` ${normalized} `)) return keyword;
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+/**
+ * Parsing for the sheet's orderDate column (A)
+ */
+
+export interface ParsedOrderDate {
+  year: number;
+  month: number;
+  day: number;
+  minutes: number;           // دقائق منذ منتصف الليل (0 إذا لم يُذكر وقت)
+  dateKey: string;           // YYYY-MM-DD
+}
+
+const ISO_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2})?)?/;
+const DAY_FIRST_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})(?:,?\s+(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm|ص|م)?)?/i;
+const SHEETS_SERIAL_PATTERN = /^\d{5}(\.\d+)?$/;
+const SHEETS_EPOCH = Date.UTC(1899, 11, 30);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function build(year: number, month: number, day: number, minutes: number): ParsedOrderDate | null {
+  const calendarDay = new Date(Date.UTC(year, month - 1, day));
+  if (calendarDay.getUTCMonth() !== month - 1 || calendarDay.getUTCDate() !== day || minutes < 0 || minutes >= 24 * 60) {
+    return null;
+  }
+  return { year, month, day, minutes, dateKey: `${year}-${pad(month)}-${pad(day)}` };
+}
+
+/**
+ * تحويل تاريخ الطلب كما يظهر في الشيت إلى تاريخ محلي.
+ * يدعم YYYY-MM-DD و DD/MM/YYYY (اليوم أولاً كما هو معتاد في مصر) وأرقام التواريخ التسلسلية لجوجل شيت.
+ * تعيد null إذا تعذر فهم التاريخ
+ */
+export function parseOrderDate(value: string | undefined | null): ParsedOrderDate | null {
+  if (!value) return null;
+  const text = String(value)
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .trim();
+
+  if (SHEETS_SERIAL_PATTERN.test(text)) {
+    const serial = Number(text);
+    const date = new Date(SHEETS_EPOCH + Math.round(serial * 24 * 60) * 60 * 1000);
+    return build(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours() * 60 + date.getUTCMinutes());
+  }
+
+  const iso = ISO_PATTERN.exec(text);
+  if (iso) {
+    const minutes = iso[4] ? Number(iso[4]) * 60 + Number(iso[5]) : 0;
+    return build(Number(iso[1]), Number(iso[2]), Number(iso[3]), minutes);
+  }
+
+  const dayFirst = DAY_FIRST_PATTERN.exec(text);
+  if (dayFirst) {
+    let day = Number(dayFirst[1]);
+    let month = Number(dayFirst[2]);
+    // 7/25/2025 can only be month-first
+    if (month > 12 && day <= 12) {
+      [day, month] = [month, day];
+    }
+    const rawYear = Number(dayFirst[3]);
+    const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+
+    let minutes = 0;
+    if (dayFirst[4]) {
+      let hours = Number(dayFirst[4]) % 24;
+      const meridiem = (dayFirst[6] || '').toLowerCase();
+      if ((meridiem === 'pm' || meridiem === 'م') && hours < 12) hours += 12;
+      if ((meridiem === 'am' || meridiem === 'ص') && hours === 12) hours = 0;
+      minutes = hours * 60 + Number(dayFirst[5]);
+    }
+    return build(year, month, day, minutes);
+  }
+
+  return null;
+}
@@ -0,0 +1,28 @@
+/**
+ * Order placeholders for short reply templates (auto-replies, acknowledgements)
+ */
+
+import type { SheetRow } from '../types/config';
+
+type TemplateRow = Partial<Pick<SheetRow, 'name' | 'orderId' | 'productName' | 'totalPrice' | 'quantity' | 'orderStatus' | 'orderDate' | 'governorate' | 'area' | 'address'>>;
+
+/**
+ * استبدال متغيرات الطلب في نص الرد - بدون طلب تُستخدم قيم عامة بدلاً من ترك {name} في الرسالة
+ */
+export function renderOrderTemplate(template: string, row?: TemplateRow | null): string {
+  const order = row || {};
+  return template
+    .replace(/\{name\}/g, order.name || 'عميلنا العزيز')
+    .replace(/\{orderId\}/g, order.orderId || '')
+    .replace(/\{product\}/g, order.productName || 'المنتج')
+    .replace(/\{productName\}/g, order.productName || 'المنتج')
+    .replace(/\{price\}/g, order.totalPrice || '')
+    .replace(/\{total\}/g, order.totalPrice || '')
+    .replace(/\{quantity\}/g, order.quantity || '1')
+    .replace(/\{orderStatus\}/g, order.orderStatus || '')
+    .replace(/\{orderDate\}/g, order.orderDate || '')
+    .replace(/\{governorate\}/g, order.governorate || '')
+    .replace(/\{city\}/g, order.governorate || '')
+    .replace(/\{area\}/g, order.area || '')
+    .replace(/\{address\}/g, order.address || '');
+}